@@ -17,6 +17,7 @@ await esbuild.build({
     'react-devtools-core',
     'yoga-wasm-web',
     '@github/copilot-sdk',
+    'yaml',
     'node:*',
   ],
 });
@@ -0,0 +1,113 @@
+/**
+ * Generation checkpoints — persist analysis, outline and completed modules
+ * to `<dir>/.workshop-cache/` so a failed run can resume at the first
+ * missing module instead of starting over.
+ */
+
+import { readFile, writeFile, rename, mkdir, rm } from 'node:fs/promises';
+import { join } from 'node:path';
+import { z } from 'zod';
+import { AudienceSchema, ModuleSchema } from './schema.js';
+import type { GenerationParams } from './generation.js';
+
+export const CHECKPOINT_DIRNAME = '.workshop-cache';
+const CHECKPOINT_FILENAME = 'checkpoint.json';
+
+export const CheckpointSchema = z.object({
+  version: z.literal(1),
+  params: z.object({
+    topic: z.string(),
+    audience: AudienceSchema,
+    duration: z.number().positive(),
+    contextFiles: z.array(z.string()),
+  }),
+  out_path: z.string().optional(), // where the finished workshop YAML is written
+  analysis: z.string().optional(), // JSON from the analyze step
+  outline: z.string().optional(), // JSON from the outline step
+  modules: z.array(ModuleSchema), // completed modules, in outline order
+  updated_at: z.string(),
+});
+export type Checkpoint = z.infer<typeof CheckpointSchema>;
+
+/**
+ * Path to the checkpoint file inside a workshop directory.
+ */
+export function getCheckpointPath(workshopDir: string): string {
+  return join(workshopDir, CHECKPOINT_DIRNAME, CHECKPOINT_FILENAME);
+}
+
+/**
+ * Create an empty checkpoint for a fresh generation run.
+ */
+export function createCheckpoint(params: GenerationParams, outPath?: string): Checkpoint {
+  return {
+    version: 1,
+    params,
+    out_path: outPath,
+    modules: [],
+    updated_at: new Date().toISOString(),
+  };
+}
+
+/**
+ * Load the checkpoint for a workshop directory.
+ * @returns The checkpoint, or undefined if none exists
+ * @throws Error if a checkpoint exists but is corrupted
+ */
+export async function loadCheckpoint(workshopDir: string): Promise<Checkpoint | undefined> {
+  const checkpointPath = getCheckpointPath(workshopDir);
+  let content: string;
+  try {
+    content = await readFile(checkpointPath, 'utf-8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return undefined;
+    }
+    throw new Error(`Failed to read checkpoint: ${checkpointPath}. ${error instanceof Error ? error.message : String(error)}`, { cause: error });
+  }
+
+  try {
+    return CheckpointSchema.parse(JSON.parse(content));
+  } catch (error) {
+    throw new Error(`Corrupted checkpoint: ${checkpointPath}. Delete ${CHECKPOINT_DIRNAME}/ to start over.`, { cause: error });
+  }
+}
+
+/**
+ * Write a checkpoint atomically (temp file + rename) so a crash mid-write
+ * never leaves a truncated checkpoint behind.
+ */
+export async function saveCheckpoint(workshopDir: string, checkpoint: Checkpoint): Promise<void> {
+  const checkpointPath = getCheckpointPath(workshopDir);
+  const tmpPath = `${checkpointPath}.tmp`;
+  await mkdir(join(workshopDir, CHECKPOINT_DIRNAME), { recursive: true });
+  await writeFile(tmpPath, JSON.stringify({ ...checkpoint, updated_at: new Date().toISOString() }, null, 2), 'utf-8');
+  await rename(tmpPath, checkpointPath);
+}
+
+/**
+ * Remove the checkpoint directory once the workshop has been saved.
+ */
+export async function clearCheckpoint(workshopDir: string): Promise<void> {
+  await rm(join(workshopDir, CHECKPOINT_DIRNAME), { recursive: true, force: true });
+}
+
+/**
+ * Whether a checkpoint was recorded for the same generation inputs.
+ */
+export function checkpointMatches(checkpoint: Checkpoint, params: GenerationParams): boolean {
+  return JSON.stringify(normalizeParams(checkpoint.params)) === JSON.stringify(normalizeParams(params));
+}
+
+function normalizeParams(params: GenerationParams): GenerationParams {
+  return {
+    topic: params.topic,
+    audience: {
+      level: params.audience.level,
+      stack: params.audience.stack || undefined,
+      size: params.audience.size,
+    },
+    duration: params.duration,
+    contextFiles: [...params.contextFiles],
+  };
+}
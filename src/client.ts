@@ -6,55 +6,56 @@
  */
 
 import {
-	CopilotClient as SDKClient,
-	CopilotSession,
 	defineTool,
 	type AssistantMessageEvent,
-	type CopilotClientOptions,
 	type SessionConfig,
 	type Tool,
 	type ToolHandler,
 	type ZodSchema,
 	type MessageOptions,
 } from "@github/copilot-sdk";
+import { createProviderFromEnv } from "./providers/index.js";
+import type { ModelProvider, ModelSession, StreamChunk } from "./providers/index.js";
 
 /**
- * Extended client wrapper with lifecycle management
+ * Extended client wrapper with lifecycle management.
+ * Sessions are created through a pluggable ModelProvider (live SDK by default,
+ * or the record/replay providers for offline and CI runs).
  */
 export class CopilotClient {
-	private sdkClient: SDKClient;
+	private provider: ModelProvider;
 	private isStarted = false;
 
-	constructor(options?: CopilotClientOptions) {
-		this.sdkClient = new SDKClient({
-			autoStart: false, // Manual control for explicit lifecycle
-			...options,
-		});
+	constructor(provider?: ModelProvider) {
+		this.provider = provider ?? createProviderFromEnv();
+	}
+
+	/** Name of the underlying provider (e.g. "sdk", "replay"). */
+	get providerName(): string {
+		return this.provider.name;
 	}
 
 	/**
-	 * Start the Copilot CLI server and establish connection.
+	 * Start the provider and establish connection.
 	 * Safe to call multiple times (idempotent).
 	 */
 	async start(): Promise<void> {
 		if (this.isStarted) {
 			return;
 		}
-		// Suppress Node.js experimental warnings (e.g. SQLite) emitted by the SDK subprocess.
-		process.env['NODE_NO_WARNINGS'] = '1';
-		await this.sdkClient.start();
+		await this.provider.start();
 		this.isStarted = true;
 	}
 
 	/**
-	 * Stop the server gracefully and close all sessions.
+	 * Stop the provider gracefully and close all sessions.
 	 * Returns any errors encountered during cleanup.
 	 */
 	async stop(): Promise<Error[]> {
 		if (!this.isStarted) {
 			return [];
 		}
-		const errors = await this.sdkClient.stop();
+		const errors = await this.provider.stop();
 		this.isStarted = false;
 		return errors;
 	}
@@ -63,9 +64,9 @@ export class CopilotClient {
 	 * Create a new conversation session with the Copilot agent.
 	 * Automatically starts the client if not already started.
 	 */
-	async createSession(config?: SessionConfig): Promise<CopilotSession> {
+	async createSession(config?: SessionConfig): Promise<ModelSession> {
 		await this.start();
-		return this.sdkClient.createSession(config);
+		return this.provider.createSession(config);
 	}
 }
 
@@ -75,13 +76,13 @@ export class CopilotClient {
  * @param client - CopilotClient instance
  * @param systemPrompt - Optional system message content to append
  * @param config - Additional session configuration
- * @returns A new CopilotSession
+ * @returns A new ModelSession
  */
 export async function createSession(
 	client: CopilotClient,
 	systemPrompt?: string,
 	config?: Omit<SessionConfig, "systemMessage">,
-): Promise<CopilotSession> {
+): Promise<ModelSession> {
 	const sessionConfig: SessionConfig = {
 		...config,
 		...(systemPrompt && {
@@ -99,126 +100,35 @@ export async function createSession(
  * Stream assistant responses from a session as an async generator.
  * Yields delta content as it arrives and the final complete message.
  *
- * @param session - Active CopilotSession
+ * @param session - Active ModelSession
  * @param userMessage - Message to send to the assistant
  * @param options - Additional message options (attachments, mode)
  * @yields StreamChunk objects with content and metadata
  */
 export async function* streamResponse(
-	session: CopilotSession,
+	session: ModelSession,
 	userMessage: string,
 	options?: Omit<MessageOptions, "prompt">,
 ): AsyncGenerator<StreamChunk, void, unknown> {
-	const chunks: string[] = [];
-	let isComplete = false;
-
-	// Queue for streaming chunks with proper async signaling
-	const streamQueue: (StreamChunk | null)[] = [];
-	let queueResolver: (() => void) | null = null;
-
-	function enqueue(item: StreamChunk | null) {
-		streamQueue.push(item);
-		if (queueResolver) {
-			queueResolver();
-			queueResolver = null;
-		}
-	}
-
-	function waitForItem(): Promise<void> {
-		if (streamQueue.length > 0) return Promise.resolve();
-		return new Promise((resolve) => {
-			queueResolver = resolve;
-		});
-	}
-
-	// Set up event listeners
-	const unsubscribeDelta = session.on("assistant.message_delta", (event) => {
-		chunks.push(event.data.deltaContent);
-		enqueue({
-			type: "delta",
-			content: event.data.deltaContent,
-			accumulated: chunks.join(""),
-		});
-	});
-
-	const unsubscribeMessage = session.on("assistant.message", (event) => {
-		enqueue({
-			type: "complete",
-			content: event.data.content,
-			accumulated: event.data.content,
-			event,
-		});
-	});
-
-	const unsubscribeIdle = session.on("session.idle", () => {
-		isComplete = true;
-		// Defer the sentinel so any pending message/delta handlers fire first
-		queueMicrotask(() => enqueue(null));
-	});
-
-	try {
-		// Send the message
-		await session.send({
-			prompt: userMessage,
-			...options,
-		});
-
-		// Yield chunks as they arrive
-		while (!isComplete || streamQueue.length > 0) {
-			await waitForItem();
-
-			while (streamQueue.length > 0) {
-				const chunk = streamQueue.shift();
-				if (chunk === null || chunk === undefined) {
-					return; // End of stream
-				}
-				yield chunk;
-			}
-		}
-	} finally {
-		// Clean up event listeners
-		unsubscribeDelta();
-		unsubscribeMessage();
-		unsubscribeIdle();
-	}
-}
-
-/**
- * Stream chunk emitted during response streaming
- */
-export interface StreamChunk {
-	/** Type of chunk: 'delta' for incremental, 'complete' for final */
-	type: "delta" | "complete";
-	/** Content of this chunk (delta) or full content (complete) */
-	content: string;
-	/** Accumulated content so far */
-	accumulated: string;
-	/** Full event data (only present for 'complete') */
-	event?: AssistantMessageEvent;
+	yield* session.stream(userMessage, options);
 }
 
 /**
  * Send a message and wait for the complete response (non-streaming).
  *
- * @param session - Active CopilotSession
+ * @param session - Active ModelSession
  * @param userMessage - Message to send
  * @param options - Additional message options
  * @param timeout - Optional timeout in milliseconds
  * @returns The final assistant message event
  */
 export async function sendAndWait(
-	session: CopilotSession,
+	session: ModelSession,
 	userMessage: string,
 	options?: Omit<MessageOptions, "prompt">,
 	timeout?: number,
 ): Promise<AssistantMessageEvent | undefined> {
-	return session.sendAndWait(
-		{
-			prompt: userMessage,
-			...options,
-		},
-		timeout,
-	);
+	return session.sendAndWait(userMessage, options, timeout);
 }
 
 /**
@@ -279,6 +189,7 @@ export async function shutdown(): Promise<Error[]> {
 }
 
 // Re-export commonly used types for convenience
+export type { ModelProvider, ModelSession, StreamChunk } from "./providers/index.js";
 export type {
 	CopilotSession,
 	SessionConfig,
@@ -1,6 +1,7 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { Box, Text } from 'ink';
 import { generateRepo, type GenerateRepoEvent, type RepoPhase } from '../exporters/repo-generate.js';
+import type { RepoReport } from '../exporters/repo-verify.js';
 import type { Workshop } from '../schema.js';
 
 export interface ExportProgressProps {
@@ -32,6 +33,9 @@ export function ExportProgress({ workshop, outputDir, onComplete, onError }: Exp
   const [streamingChars, setStreamingChars] = useState(0);
   const [streamingPreview, setStreamingPreview] = useState('');
   const [files, setFiles] = useState<WrittenFile[]>([]);
+  const [skipped, setSkipped] = useState<Array<{ path: string; reason: 'edited' | 'unknown' }>>([]);
+  const [slidesFallback, setSlidesFallback] = useState<string | null>(null);
+  const [report, setReport] = useState<RepoReport | null>(null);
   const [done, setDone] = useState(false);
   const started = useRef(false);
   const cancelled = useRef(false);
@@ -60,6 +64,15 @@ export function ExportProgress({ workshop, outputDir, onComplete, onError }: Exp
         case 'static-written':
           setFiles((prev) => [...prev, { path: event.path, bytes: 0 }]);
           break;
+        case 'file-skipped':
+          setSkipped((prev) => [...prev, { path: event.path, reason: event.reason }]);
+          break;
+        case 'slides-fallback':
+          setSlidesFallback(event.reason);
+          break;
+        case 'verified':
+          setReport(event.report);
+          break;
         case 'complete':
           setDone(true);
           onComplete(event.outputDir);
@@ -126,6 +139,47 @@ export function ExportProgress({ workshop, outputDir, onComplete, onError }: Exp
           </Box>
         )}
 
+        {/* Template slides used instead of the model's */}
+        {slidesFallback !== null && (
+          <Box marginBottom={1}>
+            <Text color="yellow">! Slides session failed ({slidesFallback}); used the built-in template slides</Text>
+          </Box>
+        )}
+
+        {/* Hand-edited (or unrecorded) files that were kept */}
+        {skipped.length > 0 && (
+          <Box flexDirection="column" marginBottom={1}>
+            <Text bold>Kept ({skipped.length}):</Text>
+            {skipped.map(({ path, reason }, idx) => (
+              <Box key={idx}>
+                <Text color="yellow">  = </Text>
+                <Text>{path}</Text>
+                <Text dimColor> ({reason === 'edited' ? 'edited by hand' : 'not in the manifest; regenerated next time unless edited'})</Text>
+              </Box>
+            ))}
+            <Text dimColor>Overwrite them with: workshop generate &lt;file&gt; --force</Text>
+          </Box>
+        )}
+
+        {/* Smoke-test results */}
+        {report && (
+          <Box flexDirection="column" marginBottom={1}>
+            {report.checks.every((c) => c.passed) ? (
+              <Text color="green">✓ All {report.checks.length} repo checks passed</Text>
+            ) : (
+              <>
+                <Text bold color={report.passed ? 'yellow' : 'red'}>Repo checks:</Text>
+                {report.checks.filter((c) => !c.passed).map((check, idx) => (
+                  <Text key={idx} color={check.severity === 'error' ? 'red' : 'yellow'}>
+                    {'  '}[{check.id}] ({check.phase}) {check.message}
+                  </Text>
+                ))}
+                <Text dimColor>Re-run failing phases with: workshop generate &lt;file&gt; --retry</Text>
+              </>
+            )}
+          </Box>
+        )}
+
         {/* Output directory */}
         {done && (
           <Box>
@@ -1,20 +1,17 @@
 import React, { useState, useEffect } from 'react';
 import { Box, Text } from 'ink';
-import type { Workshop, Module } from '../schema.js';
-import type { ValidationResult } from '../validation.js';
-import { WorkshopSchema, ModuleSchema } from '../schema.js';
-import { getGlobalClient, createSession, streamResponse, shutdown } from '../client.js';
-import { getSystemPrompt, buildAnalyzePrompt, buildOutlinePrompt, buildGeneratePrompt } from '../prompts.js';
-import { loadContextFiles } from '../storage.js';
-import { validateWorkshop } from '../validation.js';
-import { extractJson } from '../extract-json.js';
-import { saveWorkshopTool, loadWorkshopTool, validateStructureTool } from '../tools/index.js';
+import type { Workshop } from '../schema.js';
+import { getFailures, type ValidationResult } from '../validation.js';
+import { shutdown } from '../client.js';
+import { generateWorkshop, type GenerationEvent, type GenerationParams, type GenerationPhase } from '../generation.js';
+import { formatRepairRound } from '../repair.js';
+import type { Policy } from '../policy.js';
 
 
 /**
  * Generation phase indicator
  */
-type Phase = 'analyzing' | 'outlining' | 'generating' | 'validating' | 'complete' | 'error';
+type Phase = GenerationPhase | 'complete' | 'error';
 
 /**
  * Module status for display
@@ -30,12 +27,11 @@ interface ModuleStatus {
  * Props for the GenerationView component
  */
 export interface GenerationViewProps {
-  params: {
-    topic: string;
-    audience: { level: 'beginner' | 'intermediate' | 'advanced'; stack?: string };
-    duration: number;
-    contextFiles: string[];
-  };
+  params: GenerationParams;
+  /** Directory for generation checkpoints; a matching checkpoint is resumed. */
+  checkpointDir?: string;
+  /** Pedagogy policy for prompts, validation and repair. */
+  policy?: Policy;
   onComplete: (workshop: Workshop, validation: ValidationResult) => void;
   onError: (error: Error) => void;
 }
@@ -44,12 +40,13 @@ export interface GenerationViewProps {
  * Streaming progress display for workshop generation.
  * Shows phase, module tree with status icons, current section streaming, and elapsed time.
  */
-export function GenerationView({ params, onComplete, onError }: GenerationViewProps) {
+export function GenerationView({ params, checkpointDir, policy, onComplete, onError }: GenerationViewProps) {
   const [phase, setPhase] = useState<Phase>('analyzing');
   const [modules, setModules] = useState<ModuleStatus[]>([]);
   const [streamContent, setStreamContent] = useState('');
   const [elapsed, setElapsed] = useState(0);
   const [error, setError] = useState<Error | null>(null);
+  const [repairLog, setRepairLog] = useState<string[]>([]);
 
   // Elapsed time counter
   useEffect(() => {
@@ -62,172 +59,76 @@ export function GenerationView({ params, onComplete, onError }: GenerationViewPr
 
   // Main generation flow
   useEffect(() => {
-    let cancelled = false;
-
-    async function runGeneration() {
-      try {
-        // Load context files if provided
-        let contextContent: string[] | undefined;
-        if (params.contextFiles.length > 0) {
-          contextContent = await loadContextFiles(params.contextFiles);
-        }
-
-        const workshopParams = {
-          topic: params.topic,
-          audience: params.audience,
-          duration: params.duration,
-          context: params.contextFiles.length > 0 ? params.contextFiles : undefined,
-        };
-
-        // Phase 1: Analyze topic
-        setPhase('analyzing');
-        const systemPrompt = await getSystemPrompt();
-        const client = getGlobalClient();
-        const session = await createSession(client, systemPrompt, {
-          tools: [saveWorkshopTool, loadWorkshopTool, validateStructureTool],
-        });
-
-        const analyzePrompt = buildAnalyzePrompt(workshopParams, contextContent);
-        let analysisJson = '';
-        for await (const chunk of streamResponse(session, analyzePrompt)) {
-          if (cancelled) return;
-          if (chunk.type === 'complete') {
-            analysisJson = chunk.content;
-          } else {
-            setStreamContent(chunk.accumulated);
+    const controller = new AbortController();
+
+    function handleEvent(event: GenerationEvent) {
+      if (controller.signal.aborted) return;
+      switch (event.type) {
+        case 'phase-start':
+          setPhase(event.phase);
+          if (event.phase === 'validating') {
+            setStreamContent('Validating structure...');
+          } else if (event.phase === 'repairing') {
+            setStreamContent('Asking the model to fix failing checks...');
           }
-        }
-        analysisJson = extractJson(analysisJson);
-        if (cancelled) return;
-
-        // Phase 2: Create outline
-        setPhase('outlining');
-        const outlinePrompt = buildOutlinePrompt(analysisJson, workshopParams);
-        let outlineJson = '';
-        for await (const chunk of streamResponse(session, outlinePrompt)) {
-          if (cancelled) return;
-          if (chunk.type === 'complete') {
-            outlineJson = chunk.content;
-          } else {
-            setStreamContent(chunk.accumulated);
-          }
-        }
-        outlineJson = extractJson(outlineJson);
-        if (cancelled) return;
-
-        // Parse outline to get module structure for progress display
-        const outlineParsed = JSON.parse(outlineJson) as {
-          title?: string;
-          prerequisites?: string[];
-          modules?: Array<{ title: string; duration: number; sections?: unknown[] }>;
-        };
-        const outlineModules = outlineParsed.modules ?? [];
-        setModules(outlineModules.map(m => ({
-          title: m.title,
-          duration: m.duration,
-          status: 'pending' as const,
-          totalSections: Array.isArray(m.sections) ? m.sections.length : 0,
-        })));
-
-        // Phase 3: Generate modules section by section
-        setPhase('generating');
-        const generatedModules: Module[] = [];
-        const MAX_RETRIES = 2;
-
-        for (let i = 0; i < outlineModules.length; i++) {
-          if (cancelled) return;
-
+          break;
+        case 'text-delta':
+          setStreamContent(event.accumulated);
+          break;
+        case 'outline-ready':
+          setModules(event.modules.map(m => ({ ...m, status: 'pending' as const })));
+          break;
+        case 'module-start':
           setModules((prev) =>
             prev.map((m, idx) => ({
               ...m,
-              status: idx === i ? 'generating' : idx < i ? 'complete' : 'pending',
+              status: idx === event.index ? 'generating' : idx < event.index ? 'complete' : 'pending',
             }))
           );
-
-          let moduleParsed: Module | undefined;
-          let lastError: unknown;
-
-          for (let attempt = 0; attempt <= MAX_RETRIES; attempt++) {
-            if (cancelled) return;
-
-            const genPrompt = attempt === 0
-              ? buildGeneratePrompt(outlineJson, i, workshopParams, contextContent)
-              : `The previous response was truncated or malformed. Please regenerate module ${i + 1} completely. ${buildGeneratePrompt(outlineJson, i, workshopParams, contextContent)}`;
-
-            let moduleJson = '';
-            for await (const chunk of streamResponse(session, genPrompt)) {
-              if (cancelled) return;
-              if (chunk.type === 'complete') {
-                moduleJson = chunk.content;
-              } else {
-                setStreamContent(chunk.accumulated.slice(-500));
-              }
-            }
-            moduleJson = extractJson(moduleJson);
-
-            try {
-              moduleParsed = ModuleSchema.parse(JSON.parse(moduleJson));
-              break; // Success
-            } catch (err) {
-              lastError = err;
-              if (attempt < MAX_RETRIES) {
-                setStreamContent(`Module ${i + 1} response was malformed, retrying (${attempt + 1}/${MAX_RETRIES})...`);
-              }
-            }
-          }
-
-          if (!moduleParsed) {
-            throw lastError instanceof Error ? lastError : new Error(`Failed to parse module ${i + 1} after ${MAX_RETRIES + 1} attempts`);
-          }
-          generatedModules.push(moduleParsed);
-
-          // Mark module complete
+          break;
+        case 'resumed':
+          setStreamContent(`Resuming from checkpoint (${event.completedModules}/${event.totalModules} modules done)...`);
+          break;
+        case 'module-retry':
+          setStreamContent(`Module ${event.index + 1} response was malformed, retrying (${event.attempt}/${event.maxRetries})...`);
+          break;
+        case 'module-complete':
           setModules((prev) =>
-            prev.map((m, idx) => (idx === i ? { ...m, status: 'complete' } : m))
+            prev.map((m, idx) => (idx === event.index ? { ...m, status: 'complete' } : m))
           );
+          break;
+        case 'repair-round':
+          setRepairLog((prev) => [...prev, formatRepairRound(event.round)]);
+          break;
+        case 'complete': {
+          const failures = getFailures(event.validation, 'warning').map(c => c.message);
+          if (failures.length > 0) {
+            setStreamContent(`Validation issues:\n${failures.join('\n')}`);
+          }
+          setPhase('complete');
+          break;
         }
+      }
+    }
 
-        // Phase 4: Validate
-        setPhase('validating');
-        setStreamContent('Validating structure...');
-
-        const workshop: Workshop = WorkshopSchema.parse({
-          title: outlineParsed.title ?? `Workshop: ${params.topic}`,
-          topic: params.topic,
-          audience: workshopParams.audience,
-          duration: params.duration,
-          prerequisites: outlineParsed.prerequisites ?? [],
-          context_sources: params.contextFiles,
-          modules: generatedModules,
-        });
-
-        const validation = validateWorkshop(workshop);
-        if (!validation.valid) {
-          const failures = validation.checks.filter(c => !c.passed).map(c => c.message);
-          setStreamContent(`Validation warnings:\n${failures.join('\n')}`);
-        }
-
-        // Phase 5: Complete
-        setPhase('complete');
-        if (cancelled) return;
-
+    generateWorkshop(params, { onEvent: handleEvent, signal: controller.signal, checkpointDir, policy })
+      .then(({ workshop, validation }) => {
+        if (controller.signal.aborted) return;
         onComplete(workshop, validation);
-      } catch (err) {
-        if (cancelled) return;
+      })
+      .catch((err: unknown) => {
+        if (controller.signal.aborted) return;
         const error = err instanceof Error ? err : new Error(String(err));
         setError(error);
         setPhase('error');
         onError(error);
-      }
-    }
-
-    runGeneration();
+      });
 
     return () => {
-      cancelled = true;
+      controller.abort();
       void shutdown();
     };
-  }, [params, onComplete, onError]);
+  }, [params, checkpointDir, policy, onComplete, onError]);
 
   // Format elapsed time
   const formatElapsed = (seconds: number): string => {
@@ -247,6 +148,8 @@ export function GenerationView({ params, onComplete, onError }: GenerationViewPr
         return 'Generating modules...';
       case 'validating':
         return 'Validating structure...';
+      case 'repairing':
+        return 'Repairing validation failures...';
       case 'complete':
         return 'Complete!';
       case 'error':
@@ -263,6 +166,7 @@ export function GenerationView({ params, onComplete, onError }: GenerationViewPr
       outlining: '2/4',
       generating: '3/4',
       validating: '4/4',
+      repairing: '4/4',
       complete: '4/4',
       error: '',
     };
@@ -327,6 +231,16 @@ export function GenerationView({ params, onComplete, onError }: GenerationViewPr
         </Box>
       )}
 
+      {/* Repair display */}
+      {phase === 'repairing' && (
+        <Box marginTop={1} flexDirection="column">
+          <Text color="blue">{streamContent}</Text>
+          {repairLog.map((line, idx) => (
+            <Text key={idx} dimColor>  {line}</Text>
+          ))}
+        </Box>
+      )}
+
       {/* Error display */}
       {phase === 'error' && error && (
         <Box marginTop={1} flexDirection="column">
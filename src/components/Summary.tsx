@@ -1,12 +1,21 @@
 import React, { useRef } from 'react';
 import { Box, Text, useInput } from 'ink';
 import type { Workshop } from '../schema.js';
+import { SEVERITIES, type Severity, type ValidationCheck } from '../validation.js';
+
+/** Heading, icon and color for each severity group */
+const SEVERITY_STYLE: Record<Severity, { label: string; icon: string; color: string }> = {
+  error: { label: 'Errors', icon: '✗', color: 'red' },
+  warning: { label: 'Warnings', icon: '⚠', color: 'yellow' },
+  info: { label: 'Info', icon: 'ℹ', color: 'blue' },
+};
 
 export interface SummaryProps {
   workshop: Workshop;
   savePath: string;
   saveError?: string;
-  validationWarnings?: string[];
+  /** Failing validation checks, grouped by severity on screen */
+  validationIssues?: ValidationCheck[];
   onAction: (action: 'export-md' | 'generate-repo' | 'validate' | 'exit') => void | Promise<void>;
 }
 
@@ -14,7 +23,7 @@ export interface SummaryProps {
  * Summary screen — Post-generation stats and next steps
  * Shows workshop statistics, duration breakdown with visual bars, and action shortcuts
  */
-export function Summary({ workshop, savePath, saveError, validationWarnings = [], onAction }: SummaryProps) {
+export function Summary({ workshop, savePath, saveError, validationIssues = [], onAction }: SummaryProps) {
   // Calculate statistics
   const stats = calculateStats(workshop);
 
@@ -117,6 +126,29 @@ export function Summary({ workshop, savePath, saveError, validationWarnings = []
             <Text>{String(stats.checkpointDuration).padStart(2, ' ')} min ({stats.checkpointPercent}%)  </Text>
             <Text>{renderBar(stats.checkpointPercent)}</Text>
           </Box>
+
+          {/* Optional section types, shown only when used */}
+          {stats.projectDuration > 0 && (
+            <Box>
+              <Text>Projects:     </Text>
+              <Text>{String(stats.projectDuration).padStart(2, ' ')} min ({stats.projectPercent}%)  </Text>
+              <Text>{renderBar(stats.projectPercent)}</Text>
+            </Box>
+          )}
+          {stats.demoDuration > 0 && (
+            <Box>
+              <Text>Demos:        </Text>
+              <Text>{String(stats.demoDuration).padStart(2, ' ')} min ({stats.demoPercent}%)  </Text>
+              <Text>{renderBar(stats.demoPercent)}</Text>
+            </Box>
+          )}
+          {stats.breakDuration > 0 && (
+            <Box>
+              <Text>Breaks:       </Text>
+              <Text>{String(stats.breakDuration).padStart(2, ' ')} min ({stats.breakPercent}%)  </Text>
+              <Text>{renderBar(stats.breakPercent)}</Text>
+            </Box>
+          )}
         </Box>
 
         {/* Additional Stats */}
@@ -131,6 +163,13 @@ export function Summary({ workshop, savePath, saveError, validationWarnings = []
             <Text bold>{stats.exerciseCount}</Text>
             <Text> (with starter code + solutions)</Text>
           </Box>
+          {stats.projectCount > 0 && (
+            <Box>
+              <Text>Projects:     </Text>
+              <Text bold>{stats.projectCount}</Text>
+              <Text> ({stats.milestoneCount} milestones)</Text>
+            </Box>
+          )}
         </Box>
 
         {/* Save Path */}
@@ -147,15 +186,20 @@ export function Summary({ workshop, savePath, saveError, validationWarnings = []
           </Box>
         )}
 
-        {/* Validation Warnings */}
-        {validationWarnings.length > 0 && (
-          <Box flexDirection="column" marginBottom={1}>
-            <Text color="yellow" bold>Validation warnings ({validationWarnings.length}):</Text>
-            {validationWarnings.map((warning, idx) => (
-              <Text key={idx} color="yellow">  ✗ {warning}</Text>
-            ))}
-          </Box>
-        )}
+        {/* Validation Issues, grouped by severity */}
+        {SEVERITIES.map((severity) => {
+          const issues = validationIssues.filter((issue) => issue.severity === severity);
+          if (issues.length === 0) return null;
+          const style = SEVERITY_STYLE[severity];
+          return (
+            <Box key={severity} flexDirection="column" marginBottom={1}>
+              <Text color={style.color} bold>{style.label} ({issues.length}):</Text>
+              {issues.map((issue, idx) => (
+                <Text key={idx} color={style.color}>  {style.icon} [{issue.id}] {issue.message}</Text>
+              ))}
+            </Box>
+          );
+        })}
 
         {/* Next Steps */}
         <Box flexDirection="column">
@@ -178,8 +222,13 @@ function calculateStats(workshop: Workshop) {
   let lectureDuration = 0;
   let discussionDuration = 0;
   let checkpointDuration = 0;
+  let demoDuration = 0;
+  let breakDuration = 0;
+  let projectDuration = 0;
   let exerciseCount = 0;
   let checkpointCount = 0;
+  let projectCount = 0;
+  let milestoneCount = 0;
   let sectionCount = 0;
 
   for (const module of workshop.modules) {
@@ -200,6 +249,17 @@ function calculateStats(workshop: Workshop) {
           checkpointDuration += section.duration;
           checkpointCount++;
           break;
+        case 'demo':
+          demoDuration += section.duration;
+          break;
+        case 'break':
+          breakDuration += section.duration;
+          break;
+        case 'project':
+          projectDuration += section.duration;
+          projectCount++;
+          milestoneCount += section.milestones.length;
+          break;
       }
     }
   }
@@ -211,6 +271,9 @@ function calculateStats(workshop: Workshop) {
   const lecturePercent = Math.round((lectureDuration / totalDuration) * 100);
   const discussionPercent = Math.round((discussionDuration / totalDuration) * 100);
   const checkpointPercent = Math.round((checkpointDuration / totalDuration) * 100);
+  const demoPercent = Math.round((demoDuration / totalDuration) * 100);
+  const breakPercent = Math.round((breakDuration / totalDuration) * 100);
+  const projectPercent = Math.round((projectDuration / totalDuration) * 100);
 
   // Calculate average checkpoint spacing
   const avgCheckpointSpacing =
@@ -224,12 +287,20 @@ function calculateStats(workshop: Workshop) {
     lectureDuration,
     discussionDuration,
     checkpointDuration,
+    demoDuration,
+    breakDuration,
+    projectDuration,
     exercisePercent,
     lecturePercent,
     discussionPercent,
     checkpointPercent,
+    demoPercent,
+    breakPercent,
+    projectPercent,
     exerciseCount,
     checkpointCount,
+    projectCount,
+    milestoneCount,
     avgCheckpointSpacing,
   };
 }
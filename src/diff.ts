@@ -0,0 +1,117 @@
+/**
+ * Line-based diffs — unified diff text for previewing file rewrites
+ * (e.g. `workshop migrate`) and line hunks for editor edits.
+ */
+
+export interface DiffLine {
+  op: ' ' | '-' | '+';
+  text: string;
+  /** 1-based line numbers in the old and new text */
+  oldLine: number;
+  newLine: number;
+}
+
+export interface UnifiedDiffOptions {
+  oldLabel?: string;
+  newLabel?: string;
+  /** Unchanged lines shown around each change (default: 3) */
+  context?: number;
+}
+
+/**
+ * Format a unified diff between two texts. Returns an empty string when they are equal.
+ */
+export function formatUnifiedDiff(oldText: string, newText: string, options: UnifiedDiffOptions = {}): string {
+  const context = options.context ?? 3;
+  const lines = diffLines(oldText.split('\n'), newText.split('\n'));
+  const changed = lines.map((l, idx) => (l.op === ' ' ? -1 : idx)).filter((idx) => idx >= 0);
+  if (changed.length === 0) {
+    return '';
+  }
+
+  // Group changes whose context windows overlap into hunks
+  const hunks: Array<[number, number]> = [];
+  for (const idx of changed) {
+    const start = Math.max(idx - context, 0);
+    const end = Math.min(idx + context, lines.length - 1);
+    const last = hunks[hunks.length - 1];
+    if (last && start <= last[1] + 1) {
+      last[1] = end;
+    } else {
+      hunks.push([start, end]);
+    }
+  }
+
+  const out = [`--- ${options.oldLabel ?? 'a'}`, `+++ ${options.newLabel ?? 'b'}`];
+  for (const [start, end] of hunks) {
+    const slice = lines.slice(start, end + 1);
+    const oldCount = slice.filter((l) => l.op !== '+').length;
+    const newCount = slice.filter((l) => l.op !== '-').length;
+    const first = slice[0]!;
+    // Empty ranges point at the line before, as in `diff -u`
+    const oldStart = oldCount === 0 ? first.oldLine - 1 : first.oldLine;
+    const newStart = newCount === 0 ? first.newLine - 1 : first.newLine;
+    out.push(`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`);
+    out.push(...slice.map((l) => `${l.op}${l.text}`));
+  }
+  return out.join('\n');
+}
+
+/**
+ * Longest-common-subsequence line diff. Common prefix and suffix are trimmed
+ * first, so small edits to large files stay cheap.
+ */
+export function diffLines(a: string[], b: string[]): DiffLine[] {
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix && suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) suffix++;
+
+  const midA = a.slice(prefix, a.length - suffix);
+  const midB = b.slice(prefix, b.length - suffix);
+  const n = midA.length;
+  const m = midB.length;
+
+  // lcs[i * (m + 1) + j] = LCS length of midA[i..] and midB[j..]
+  const lcs = new Uint32Array((n + 1) * (m + 1));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i * (m + 1) + j] = midA[i] === midB[j]
+        ? lcs[(i + 1) * (m + 1) + j + 1]! + 1
+        : Math.max(lcs[(i + 1) * (m + 1) + j]!, lcs[i * (m + 1) + j + 1]!);
+    }
+  }
+
+  const result: DiffLine[] = [];
+  let oldLine = 1;
+  let newLine = 1;
+  const push = (op: DiffLine['op'], text: string) => {
+    result.push({ op, text, oldLine, newLine });
+    if (op !== '+') oldLine++;
+    if (op !== '-') newLine++;
+  };
+
+  for (const line of a.slice(0, prefix)) push(' ', line);
+  let i = 0;
+  let j = 0;
+  while (i < n || j < m) {
+    if (i < n && j < m && midA[i] === midB[j]) {
+      push(' ', midA[i]!);
+      i++;
+      j++;
+    } else if (i < n && (j >= m || lcs[(i + 1) * (m + 1) + j]! >= lcs[i * (m + 1) + j + 1]!)) {
+      // Deletions before insertions, as in `diff -u`
+      push('-', midA[i]!);
+      i++;
+    } else {
+      push('+', midB[j]!);
+      j++;
+    }
+  }
+  for (const line of a.slice(a.length - suffix)) push(' ', line);
+
+  return result;
+}
@@ -0,0 +1,75 @@
+/**
+ * HTML text helpers shared by the HTML exporters (slides, reveal.js, site),
+ * plus the duration formatting the other exporters use too.
+ */
+
+import { normalizeLanguage } from '../languages.js';
+
+export function escapeHtml(text: string): string {
+  return text
+    .replaceAll('&', '&amp;')
+    .replaceAll('<', '&lt;')
+    .replaceAll('>', '&gt;')
+    .replaceAll('"', '&quot;')
+    .replaceAll('\'', '&#39;');
+}
+
+/**
+ * Human-readable duration, e.g. 95 → "1 h 35 min".
+ */
+export function formatMinutes(minutes: number): string {
+  if (minutes < 60) return `${minutes} min`;
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return rest === 0 ? `${hours} h` : `${hours} h ${rest} min`;
+}
+
+/**
+ * Running clock from the workshop start, e.g. (35, 15) → "0:35–0:50".
+ */
+export function formatClockRange(start: number, duration: number): string {
+  return `${clockTime(start)}–${clockTime(start + duration)}`;
+}
+
+function clockTime(minutes: number): string {
+  return `${Math.floor(minutes / 60)}:${String(minutes % 60).padStart(2, '0')}`;
+}
+
+/**
+ * Escape a line of prose and render `code` and **bold** spans.
+ */
+export function renderInline(text: string): string {
+  return escapeHtml(text)
+    .replace(/`([^`]+)`/g, '<code>$1</code>')
+    .replace(/\*\*([^*]+)\*\*/g, '<strong>$1</strong>');
+}
+
+/**
+ * Render multi-line prose: fenced code blocks (through `renderCode`), bulleted
+ * and numbered lists, and paragraphs separated by blank lines.
+ */
+export function renderProse(text: string, renderCode: (code: string, language: string) => string): string {
+  const blocks: string[] = [];
+  const fence = /```([\w+#-]*)[^\n]*\n([\s\S]*?)```/g;
+  let last = 0;
+  for (const match of text.matchAll(fence)) {
+    blocks.push(...renderParagraphs(text.slice(last, match.index)));
+    blocks.push(renderCode(match[2]!.replace(/\n$/, ''), normalizeLanguage(match[1] ?? '')));
+    last = match.index + match[0].length;
+  }
+  blocks.push(...renderParagraphs(text.slice(last)));
+  return blocks.join('\n');
+}
+
+function renderParagraphs(text: string): string[] {
+  return text.split(/\n\s*\n/).map((block) => block.trim()).filter(Boolean).map((block) => {
+    const lines = block.split('\n').map((line) => line.trim());
+    if (lines.every((line) => /^[-*]\s+/.test(line))) {
+      return `<ul>${lines.map((line) => `<li>${renderInline(line.replace(/^[-*]\s+/, ''))}</li>`).join('')}</ul>`;
+    }
+    if (lines.every((line) => /^\d+[.)]\s+/.test(line))) {
+      return `<ol>${lines.map((line) => `<li>${renderInline(line.replace(/^\d+[.)]\s+/, ''))}</li>`).join('')}</ol>`;
+    }
+    return `<p>${lines.map(renderInline).join('<br>\n')}</p>`;
+  });
+}
@@ -1,18 +1,47 @@
 import { writeFile } from 'node:fs/promises';
-import type { Workshop } from '../schema.js';
+import type { CheckpointQuestion, LectureSection, Section, Workshop } from '../schema.js';
+import { inferLanguage, normalizeLanguage, sectionLanguage } from '../languages.js';
+import { formatClockRange } from './html.js';
+
+/**
+ * Who a Markdown export is for:
+ * - instructor: everything, with Bloom's levels, context sources and
+ *   collapsible solutions and answer keys
+ * - facilitator: the instructor guide without curriculum-design metadata
+ *   (Bloom's levels, context sources), plus a running clock per section
+ * - attendee: the rules prompts/WORKSHOP-DESIGN.md sets for slides — no
+ *   metadata, type labels or per-section timings, talking points as prose,
+ *   and no solutions or answers (or, with `withSolutions`, in an appendix)
+ */
+export type MarkdownAudience = 'instructor' | 'facilitator' | 'attendee';
+
+export const MARKDOWN_AUDIENCES: readonly MarkdownAudience[] = ['instructor', 'facilitator', 'attendee'];
+
+export interface MarkdownExportOptions {
+  audience?: MarkdownAudience;
+  withSolutions?: boolean; // attendee only: append solutions and answers instead of dropping them
+}
 
 /**
  * Converts a Workshop object to a well-structured Markdown document.
  */
-export function exportToMarkdown(workshop: Workshop): string {
+export function exportToMarkdown(workshop: Workshop, options: MarkdownExportOptions = {}): string {
+  const audience = options.audience ?? 'instructor';
+  const attendee = audience === 'attendee';
   const lines: string[] = [];
+  const appendix: string[] = [];
 
   // 1. Header: Workshop title as H1, then metadata block
   lines.push(`# ${workshop.title}\n`);
   
   // Metadata block
   lines.push(`**Topic:** ${workshop.topic}\n`);
-  lines.push(`**Audience:** ${workshop.audience.level}${workshop.audience.stack ? ` (${workshop.audience.stack})` : ''}\n`);
+  if (!attendee) {
+    lines.push(`**Audience:** ${workshop.audience.level}${workshop.audience.stack ? ` (${workshop.audience.stack})` : ''}\n`);
+    if (workshop.audience.size !== undefined) {
+      lines.push(`**Group Size:** ${workshop.audience.size}\n`);
+    }
+  }
   lines.push(`**Duration:** ${workshop.duration} minutes\n`);
   
   // Prerequisites
@@ -24,7 +53,7 @@ export function exportToMarkdown(workshop: Workshop): string {
   }
   
   // Context Sources
-  if (workshop.context_sources.length > 0) {
+  if (audience === 'instructor' && workshop.context_sources.length > 0) {
     lines.push(`\n**Context Sources:**\n`);
     workshop.context_sources.forEach((source) => {
       lines.push(`- ${source}\n`);
@@ -34,32 +63,55 @@ export function exportToMarkdown(workshop: Workshop): string {
   // 2. Table of Contents
   lines.push(`\n---\n\n## Table of Contents\n`);
   workshop.modules.forEach((module, moduleIdx) => {
-    lines.push(`${moduleIdx + 1}. **${module.title}** (${module.duration} min)\n`);
+    lines.push(`${moduleIdx + 1}. **${module.title}** (${attendee ? '~' : ''}${module.duration} min)\n`);
     module.sections.forEach((section, sectionIdx) => {
-      lines.push(`   ${moduleIdx + 1}.${sectionIdx + 1}. ${section.title} (${section.duration} min)\n`);
+      lines.push(`   ${moduleIdx + 1}.${sectionIdx + 1}. ${section.title}${attendee ? '' : ` (${section.duration} min)`}\n`);
     });
   });
   
   lines.push(`\n---\n`);
   
   // 3. Modules
+  const stackLanguage = inferLanguage(workshop.audience.stack) ?? '';
+  let clock = 0;
   workshop.modules.forEach((module, moduleIdx) => {
     lines.push(`\n## ${moduleIdx + 1}. ${module.title}\n`);
     
     // Learning Objectives
     if (module.learning_objectives.length > 0) {
-      lines.push(`\n**Learning Objectives:**\n`);
+      lines.push(attendee ? `\n**What you'll learn:**\n` : `\n**Learning Objectives:**\n`);
       module.learning_objectives.forEach((objective) => {
-        lines.push(`- ${objective.text} (${objective.blooms_level})\n`);
+        lines.push(audience === 'instructor' ? `- ${objective.text} (${objective.blooms_level})\n` : `- ${objective.text}\n`);
       });
     }
     
-    lines.push(`\n**Duration:** ${module.duration} minutes\n`);
+    lines.push(attendee ? `\n*~${module.duration} min*\n` : `\n**Duration:** ${module.duration} minutes\n`);
     
     // 4. Sections
     module.sections.forEach((section, sectionIdx) => {
-      lines.push(`\n### ${moduleIdx + 1}.${sectionIdx + 1}. ${section.title}\n`);
-      lines.push(`\n**Duration:** ${section.duration} minutes\n`);
+      const number = `${moduleIdx + 1}.${sectionIdx + 1}`;
+      lines.push(`\n### ${number}. ${section.title}\n`);
+      if (audience === 'facilitator') {
+        lines.push(`\n**Duration:** ${section.duration} minutes (${formatClockRange(clock, section.duration)})\n`);
+      } else if (!attendee) {
+        lines.push(`\n**Duration:** ${section.duration} minutes\n`);
+      }
+      // Only a declared language; the code fences always carry the resolved one
+      if (!attendee && (section.type === 'exercise' || section.type === 'project') && section.language) {
+        lines.push(`\n**Language:** ${section.language}\n`);
+      }
+      clock += section.duration;
+
+      if (attendee) {
+        lines.push(...formatAttendeeSection(section, workshop, stackLanguage));
+        if (options.withSolutions) {
+          const solutions = formatSolutions(section, workshop);
+          if (solutions.length > 0) {
+            appendix.push(`\n### ${number}. ${section.title}\n`, ...solutions);
+          }
+        }
+        return;
+      }
       
       // Format depends on section type
       switch (section.type) {
@@ -70,18 +122,46 @@ export function exportToMarkdown(workshop: Workshop): string {
           });
           break;
           
-        case 'exercise':
+        case 'exercise': {
+          const language = sectionLanguage(section, workshop);
           lines.push(`\n${section.instructions}\n`);
           
-          // Starter Code
-          lines.push(`\n#### Starter Code\n`);
-          lines.push(`\n\`\`\`\n${section.starter_code}\n\`\`\`\n`);
-          
-          // Solution (collapsible)
-          lines.push(`\n#### Solution\n`);
-          lines.push(`\n<details>\n<summary>Click to reveal solution</summary>\n\n`);
-          lines.push(`\`\`\`\n${section.solution}\n\`\`\`\n`);
-          lines.push(`\n</details>\n`);
+          if (section.files && section.files.length > 0) {
+            // Multi-file: one block per file, labelled with its path
+            lines.push(`\n#### Starter Code\n`);
+            section.files.forEach((file) => {
+              lines.push(`\n**\`${file.path}\`**\n`);
+              lines.push(file.starter.trim()
+                ? `\n\`\`\`${normalizeLanguage(file.language)}\n${file.starter}\n\`\`\`\n`
+                : `\n*New file — create it from scratch.*\n`);
+            });
+
+            lines.push(`\n#### Solution\n`);
+            lines.push(`\n<details>\n<summary>Click to reveal solution</summary>\n`);
+            section.files.forEach((file) => {
+              lines.push(`\n**\`${file.path}\`**\n`);
+              lines.push(`\n\`\`\`${normalizeLanguage(file.language)}\n${file.solution}\n\`\`\`\n`);
+            });
+            lines.push(`\n</details>\n`);
+          } else {
+            // Starter Code
+            lines.push(`\n#### Starter Code\n`);
+            lines.push(`\n\`\`\`${language}\n${section.starter_code}\n\`\`\`\n`);
+            
+            // Solution (collapsible)
+            lines.push(`\n#### Solution\n`);
+            lines.push(`\n<details>\n<summary>Click to reveal solution</summary>\n\n`);
+            lines.push(`\`\`\`${language}\n${section.solution}\n\`\`\`\n`);
+            lines.push(`\n</details>\n`);
+          }
+
+          // Tests for `workshop verify` (collapsible)
+          if (section.test) {
+            lines.push(`\n#### Tests\n`);
+            lines.push(`\n<details>\n<summary>Click to reveal tests</summary>\n\n`);
+            lines.push(`\`\`\`${language}\n${section.test}\n\`\`\`\n`);
+            lines.push(`\n</details>\n`);
+          }
           
           // Hints (collapsible)
           if (section.hints.length > 0) {
@@ -93,6 +173,7 @@ export function exportToMarkdown(workshop: Workshop): string {
             lines.push(`\n</details>\n`);
           }
           break;
+        }
           
         case 'discussion':
           lines.push(`\n**Prompts:**\n`);
@@ -104,23 +185,61 @@ export function exportToMarkdown(workshop: Workshop): string {
         case 'checkpoint':
           lines.push(`\n**Questions:**\n`);
           section.questions.forEach((question, idx) => {
-            lines.push(`${idx + 1}. ${question}\n`);
+            lines.push(...formatQuestion(question, idx, stackLanguage));
           });
           
-          // Answers (collapsible)
+          // Answer key (collapsible)
           lines.push(`\n#### Answers\n`);
           lines.push(`\n<details>\n<summary>Click to reveal answers</summary>\n\n`);
-          section.expected_answers.forEach((answer, idx) => {
-            lines.push(`${idx + 1}. **Answer:** ${answer}\n`);
-            if (section.explanations[idx]) {
-              lines.push(`   **Explanation:** ${section.explanations[idx]}\n`);
-            }
+          section.questions.forEach((question, idx) => {
+            lines.push(...formatAnswer(question, idx));
           });
           lines.push(`\n</details>\n`);
           break;
+
+        case 'demo':
+          lines.push(`\n**Demo Script:**\n`);
+          section.script.forEach((step, idx) => {
+            lines.push(`${idx + 1}. ${step}\n`);
+          });
+          lines.push(`\n**If the live demo fails:** ${section.fallback_notes}\n`);
+          break;
+
+        case 'break':
+          lines.push(`\n*Break — no content.*\n`);
+          break;
+
+        case 'project': {
+          const language = sectionLanguage(section, workshop);
+          lines.push(`\n${section.brief}\n`);
+
+          section.milestones.forEach((milestone, idx) => {
+            lines.push(`\n#### Milestone ${idx + 1}: ${milestone.title}\n`);
+            lines.push(`\n${milestone.instructions}\n`);
+            lines.push(`\n\`\`\`${language}\n${milestone.starter_code}\n\`\`\`\n`);
+            lines.push(`\n<details>\n<summary>Click to reveal solution</summary>\n\n`);
+            lines.push(`\`\`\`${language}\n${milestone.solution}\n\`\`\`\n`);
+            lines.push(`\n</details>\n`);
+          });
+
+          // Rubric
+          if (section.rubric.length > 0) {
+            const totalPoints = section.rubric.reduce((sum, item) => sum + item.points, 0);
+            lines.push(`\n#### Rubric (${totalPoints} points)\n`);
+            lines.push(`\n| Criterion | Points |\n|-----------|--------|\n`);
+            section.rubric.forEach((item) => {
+              lines.push(`| ${item.criterion.replaceAll('|', '\\|')} | ${item.points} |\n`);
+            });
+          }
+          break;
+        }
       }
     });
   });
+
+  if (appendix.length > 0) {
+    lines.push(`\n---\n\n## Appendix: Solutions\n`, ...appendix);
+  }
   
   // 5. Footer
   lines.push(`\n---\n`);
@@ -129,13 +248,197 @@ export function exportToMarkdown(workshop: Workshop): string {
   return lines.join('');
 }
 
+/**
+ * A section as attendees see it: no solutions, answer keys or demo fallbacks.
+ */
+function formatAttendeeSection(section: Section, workshop: Workshop, stackLanguage: string): string[] {
+  const lines: string[] = [];
+  switch (section.type) {
+    case 'lecture':
+      lines.push(...formatLectureProse(section));
+      break;
+
+    case 'exercise': {
+      const language = sectionLanguage(section, workshop);
+      lines.push(`\n${section.instructions}\n`);
+      lines.push(`\n#### Starter Code\n`);
+      if (section.files && section.files.length > 0) {
+        section.files.forEach((file) => {
+          lines.push(`\n**\`${file.path}\`**\n`);
+          lines.push(file.starter.trim()
+            ? `\n\`\`\`${normalizeLanguage(file.language)}\n${file.starter}\n\`\`\`\n`
+            : `\n*New file — create it from scratch.*\n`);
+        });
+      } else {
+        lines.push(`\n\`\`\`${language}\n${section.starter_code}\n\`\`\`\n`);
+      }
+      if (section.hints.length > 0) {
+        lines.push(`\n#### Hints\n`);
+        section.hints.forEach((hint, idx) => {
+          lines.push(`\n<details>\n<summary>Hint ${idx + 1}</summary>\n\n${hint}\n\n</details>\n`);
+        });
+      }
+      break;
+    }
+
+    case 'discussion':
+      lines.push(`\n**Think about:**\n`);
+      section.prompts.forEach((prompt) => {
+        lines.push(`- ${prompt}\n`);
+      });
+      break;
+
+    case 'checkpoint':
+      lines.push(`\n**Check your understanding:**\n`);
+      section.questions.forEach((question, idx) => {
+        lines.push(...formatQuestion(question, idx, stackLanguage));
+      });
+      break;
+
+    case 'demo':
+      lines.push(`\n**Watch along:**\n`);
+      section.script.forEach((step, idx) => {
+        lines.push(`${idx + 1}. ${step}\n`);
+      });
+      break;
+
+    case 'break':
+      lines.push(`\n*Take a break.*\n`);
+      break;
+
+    case 'project': {
+      const language = sectionLanguage(section, workshop);
+      lines.push(`\n${section.brief}\n`);
+      section.milestones.forEach((milestone, idx) => {
+        lines.push(`\n#### Milestone ${idx + 1}: ${milestone.title}\n`);
+        lines.push(`\n${milestone.instructions}\n`);
+        lines.push(`\n\`\`\`${language}\n${milestone.starter_code}\n\`\`\`\n`);
+      });
+      if (section.rubric.length > 0) {
+        lines.push(`\n#### How your project is assessed\n\n`);
+        section.rubric.forEach((item) => {
+          lines.push(`- [ ] ${item.criterion} (${item.points} pts)\n`);
+        });
+      }
+      break;
+    }
+  }
+  return lines;
+}
+
+/**
+ * Talking points as one readable paragraph. They are instructor scaffolding,
+ * so the comment flags the paragraph for a proper rewrite.
+ */
+function formatLectureProse(section: LectureSection): string[] {
+  if (section.talking_points.length === 0) return [];
+  const prose = section.talking_points
+    .map((point) => point.trim())
+    .filter(Boolean)
+    .map((point) => /[.!?:]$/.test(point) ? point : `${point}.`)
+    .join(' ');
+  return [`\n<!-- Placeholder prose from the talking points: rewrite as explanatory text. -->\n${prose}\n`];
+}
+
+/**
+ * Solutions and answers of a section for the attendee appendix.
+ */
+function formatSolutions(section: Section, workshop: Workshop): string[] {
+  const lines: string[] = [];
+  switch (section.type) {
+    case 'exercise': {
+      if (section.files && section.files.length > 0) {
+        section.files.forEach((file) => {
+          lines.push(`\n**\`${file.path}\`**\n`);
+          lines.push(`\n\`\`\`${normalizeLanguage(file.language)}\n${file.solution}\n\`\`\`\n`);
+        });
+      } else {
+        lines.push(`\n\`\`\`${sectionLanguage(section, workshop)}\n${section.solution}\n\`\`\`\n`);
+      }
+      break;
+    }
+    case 'checkpoint':
+      lines.push('\n');
+      section.questions.forEach((question, idx) => {
+        lines.push(...formatAnswer(question, idx, false));
+      });
+      break;
+    case 'project': {
+      const language = sectionLanguage(section, workshop);
+      section.milestones.forEach((milestone, idx) => {
+        lines.push(`\n**Milestone ${idx + 1}: ${milestone.title}**\n`);
+        lines.push(`\n\`\`\`${language}\n${milestone.solution}\n\`\`\`\n`);
+      });
+      break;
+    }
+  }
+  return lines;
+}
+
+/**
+ * Question as attendees see it: prompt, plus options or code where the kind has them.
+ */
+function formatQuestion(question: CheckpointQuestion, idx: number, language: string): string[] {
+  const lines = [`${idx + 1}. ${question.prompt}${question.type === 'true_false' ? ' *(True or false?)*' : ''}\n`];
+  switch (question.type) {
+    case 'multiple_choice':
+      question.options.forEach((option, optionIdx) => {
+        lines.push(`   - ${optionLabel(optionIdx)}) ${option}\n`);
+      });
+      break;
+    case 'code_output':
+      lines.push(`\n   \`\`\`${language}\n${indent(question.code)}\n   \`\`\`\n\n`);
+      break;
+  }
+  return lines;
+}
+
+/**
+ * Answer key entry with the explanation; the instructor's also lists the
+ * accepted patterns used for grading.
+ */
+function formatAnswer(question: CheckpointQuestion, idx: number, grading = true): string[] {
+  const lines: string[] = [];
+  switch (question.type) {
+    case 'multiple_choice':
+      lines.push(`${idx + 1}. **Answer:** ${optionLabel(question.correct_index)}) ${question.options[question.correct_index] ?? ''}\n`);
+      break;
+    case 'true_false':
+      lines.push(`${idx + 1}. **Answer:** ${question.answer ? 'True' : 'False'}\n`);
+      break;
+    case 'short_answer':
+      lines.push(`${idx + 1}. **Answer:** ${question.answer}\n`);
+      if (grading && question.accepted_patterns.length > 0) {
+        lines.push(`   **Accepted:** ${question.accepted_patterns.map((pattern) => `\`${pattern}\``).join(', ')}\n`);
+      }
+      break;
+    case 'code_output':
+      lines.push(`${idx + 1}. **Answer:**\n\n   \`\`\`\n${indent(question.expected_output)}\n   \`\`\`\n\n`);
+      break;
+  }
+  if (question.explanation) {
+    lines.push(`   **Explanation:** ${question.explanation}\n`);
+  }
+  return lines;
+}
+
+function optionLabel(idx: number): string {
+  return String.fromCharCode(65 + idx);
+}
+
+/** Indent a block so it stays inside its numbered list item */
+function indent(text: string): string {
+  return text.split('\n').map((line) => `   ${line}`).join('\n');
+}
+
 /**
  * Exports a Workshop to a Markdown file on disk.
  */
 export async function exportToMarkdownFile(
   workshop: Workshop,
-  outputPath: string
+  outputPath: string,
+  options: MarkdownExportOptions = {}
 ): Promise<void> {
-  const markdown = exportToMarkdown(workshop);
+  const markdown = exportToMarkdown(workshop, options);
   await writeFile(outputPath, markdown, 'utf-8');
 }
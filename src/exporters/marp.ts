@@ -0,0 +1,171 @@
+import { writeFile } from 'node:fs/promises';
+import type { CheckpointQuestion, Module, Section, Workshop } from '../schema.js';
+import { inferLanguage, normalizeLanguage, sectionLanguage } from '../languages.js';
+
+/**
+ * Marp deck for presenters. Marp has no vertical slides, so each module opens
+ * with a `lead` divider slide. Talking points go into presenter notes (HTML
+ * comments), hints and discussion prompts into fragmented `*` lists, and each
+ * checkpoint question gets a question slide followed by an answer slide.
+ */
+
+/**
+ * Converts a Workshop object to a Marp Markdown document.
+ */
+export function exportToMarp(workshop: Workshop): string {
+  const slides: string[] = [];
+
+  const titleSlide = [
+    '<!-- _class: lead -->',
+    `# ${workshop.title}`,
+    `${workshop.topic} · ${workshop.duration} min`,
+  ];
+  if (workshop.prerequisites.length > 0) {
+    titleSlide.push(notes(['Prerequisites:', ...workshop.prerequisites.map((prereq) => `- ${prereq}`)]));
+  }
+  slides.push(titleSlide.join('\n\n'));
+
+  workshop.modules.forEach((module, moduleIdx) => {
+    slides.push(...renderModule(module, moduleIdx, workshop));
+  });
+
+  const frontMatter = [
+    '---',
+    'marp: true',
+    'theme: default',
+    'paginate: true',
+    `title: ${JSON.stringify(workshop.title)}`,
+    '---',
+  ].join('\n');
+  return `${frontMatter}\n\n${slides.join('\n\n---\n\n')}\n`;
+}
+
+function renderModule(module: Module, moduleIdx: number, workshop: Workshop): string[] {
+  const divider = [
+    '<!-- _class: lead -->',
+    `# ${moduleIdx + 1}. ${module.title}`,
+    `${module.duration} min`,
+  ];
+  if (module.learning_objectives.length > 0) {
+    divider.push(module.learning_objectives.map((objective) => `- ${objective.text}`).join('\n'));
+  }
+  return [divider.join('\n\n'), ...module.sections.flatMap((section) => renderSection(section, workshop))];
+}
+
+function renderSection(section: Section, workshop: Workshop): string[] {
+  const heading = `## ${section.title}`;
+  const timing = `${section.duration} min`;
+
+  switch (section.type) {
+    case 'lecture':
+      return [[heading, notes([...section.talking_points.map((point) => `- ${point}`), '', timing])].join('\n\n')];
+
+    case 'exercise': {
+      const language = sectionLanguage(section, workshop);
+      const hints = section.hints.map((hint, idx) => `* Hint ${idx + 1}: ${hint}`).join('\n');
+      const multiFile = section.files && section.files.length > 0 ? section.files : undefined;
+      const starter = multiFile
+        ? multiFile.map((file) => file.starter.trim()
+          ? `\`${file.path}\`\n\n${fence(file.starter, normalizeLanguage(file.language))}`
+          : `\`${file.path}\` — *new file*`)
+        : [fence(section.starter_code, language)];
+      const solution = multiFile
+        ? multiFile.map((file) => `\`${file.path}\`\n\n${fence(file.solution, normalizeLanguage(file.language))}`)
+        : [fence(section.solution, language)];
+      return [
+        [heading, section.instructions, notes([timing])].join('\n\n'),
+        [heading, ...starter, hints].filter(Boolean).join('\n\n'),
+        [`## Solution: ${section.title}`, ...solution].join('\n\n'),
+      ];
+    }
+
+    case 'discussion':
+      return [[heading, section.prompts.map((prompt) => `* ${prompt}`).join('\n'), notes([timing])].join('\n\n')];
+
+    case 'checkpoint': {
+      const language = inferLanguage(workshop.audience.stack) ?? '';
+      return section.questions.flatMap((question, idx) => {
+        const title = `## ${section.title} (${idx + 1}/${section.questions.length})`;
+        return [
+          [title, ...renderQuestion(question, language)].join('\n\n'),
+          [title, ...renderAnswer(question)].join('\n\n'),
+        ];
+      });
+    }
+
+    case 'demo':
+      return [[
+        heading,
+        section.script.map((step, idx) => `${idx + 1}) ${step}`).join('\n'),
+        notes([`If the live demo fails: ${section.fallback_notes}`, '', timing]),
+      ].join('\n\n')];
+
+    case 'break':
+      return [['<!-- _class: lead -->', `# ${section.title}`, timing].join('\n\n')];
+
+    case 'project': {
+      const language = sectionLanguage(section, workshop);
+      const slides = [[heading, section.brief, notes([timing])].join('\n\n')];
+      section.milestones.forEach((milestone, idx) => {
+        slides.push([`## Milestone ${idx + 1}: ${milestone.title}`, milestone.instructions, fence(milestone.starter_code, language)].join('\n\n'));
+        slides.push([`## Solution: Milestone ${idx + 1}`, fence(milestone.solution, language)].join('\n\n'));
+      });
+      if (section.rubric.length > 0) {
+        slides.push([
+          `## ${section.title}: Rubric`,
+          section.rubric.map((item) => `- ${item.criterion} (${item.points} pts)`).join('\n'),
+        ].join('\n\n'));
+      }
+      return slides;
+    }
+  }
+}
+
+function renderQuestion(question: CheckpointQuestion, language: string): string[] {
+  switch (question.type) {
+    case 'multiple_choice':
+      return [question.prompt, question.options.map((option, idx) => `- **${String.fromCharCode(65 + idx)})** ${option}`).join('\n')];
+    case 'true_false':
+      return [question.prompt, '*True or false?*'];
+    case 'short_answer':
+      return [question.prompt];
+    case 'code_output':
+      return [question.prompt, fence(question.code, language), '*What does this print?*'];
+  }
+}
+
+function renderAnswer(question: CheckpointQuestion): string[] {
+  const explanation = question.explanation ? [question.explanation] : [];
+  switch (question.type) {
+    case 'multiple_choice':
+      return [`**Answer:** ${String.fromCharCode(65 + question.correct_index)}) ${question.options[question.correct_index] ?? ''}`, ...explanation];
+    case 'true_false':
+      return [`**Answer:** ${question.answer ? 'True' : 'False'}`, ...explanation];
+    case 'short_answer':
+      return [`**Answer:** ${question.answer}`, ...explanation];
+    case 'code_output':
+      return ['**Answer:**', fence(question.expected_output, 'text'), ...explanation];
+  }
+}
+
+/**
+ * Presenter notes — Marp treats HTML comments that aren't directives as notes.
+ */
+function notes(lines: string[]): string {
+  return `<!--\n${lines.join('\n').replaceAll('-->', '-- >')}\n-->`;
+}
+
+function fence(code: string, language: string): string {
+  const ticks = code.includes('```') ? '````' : '```';
+  return `${ticks}${language}\n${code.replace(/\n$/, '')}\n${ticks}`;
+}
+
+/**
+ * Exports a Workshop to a Marp Markdown file on disk.
+ */
+export async function exportToMarpFile(
+  workshop: Workshop,
+  outputPath: string
+): Promise<void> {
+  await writeFile(outputPath, exportToMarp(workshop), 'utf-8');
+}
@@ -0,0 +1,191 @@
+import { readFile } from 'node:fs/promises';
+import { basename, extname } from 'node:path';
+
+/**
+ * TrueType fonts for the PDF writer — enough of the format to embed a font
+ * for the characters the standard PDF fonts lack: the character map,
+ * advance widths and the metrics the font descriptor needs. The font file
+ * is embedded whole (no subsetting) and only when a document uses it.
+ *
+ * Only TrueType outlines (`glyf`) in a single-font file are supported;
+ * OpenType/CFF fonts and .ttc collections are rejected.
+ */
+
+export interface TrueTypeFont {
+  /** PostScript name, used as the PDF BaseFont */
+  name: string;
+  data: Buffer;
+  unitsPerEm: number;
+  ascent: number;
+  descent: number;
+  bbox: [number, number, number, number];
+  /** Glyph id for a code point, or undefined if the font has none */
+  glyphFor(codePoint: number): number | undefined;
+  /** Advance width of a glyph in font units */
+  advance(glyph: number): number;
+}
+
+/**
+ * Fonts with wide Unicode coverage that are commonly installed, tried in
+ * order when no font is given. Monospaced first, so code keeps its columns.
+ */
+const SYSTEM_FONTS = [
+  '/usr/share/fonts/truetype/dejavu/DejaVuSansMono.ttf',
+  '/usr/share/fonts/dejavu/DejaVuSansMono.ttf',
+  '/usr/share/fonts/TTF/DejaVuSansMono.ttf',
+  '/usr/share/fonts/truetype/dejavu/DejaVuSans.ttf',
+  '/usr/share/fonts/truetype/noto/NotoSansMono-Regular.ttf',
+  '/Library/Fonts/Arial Unicode.ttf',
+  '/System/Library/Fonts/Supplemental/Arial Unicode.ttf',
+  'C:\\Windows\\Fonts\\consola.ttf',
+  'C:\\Windows\\Fonts\\arial.ttf',
+];
+
+/**
+ * Load a TrueType font file, or the first installed one of SYSTEM_FONTS when
+ * no path is given (undefined if none is installed).
+ */
+export async function loadTrueTypeFont(path?: string): Promise<TrueTypeFont | undefined> {
+  if (path !== undefined) {
+    let data: Buffer;
+    try {
+      data = await readFile(path);
+    } catch (error) {
+      throw new Error(`Failed to read font file: ${path}. ${error instanceof Error ? error.message : String(error)}`, { cause: error });
+    }
+    return parseTrueTypeFont(data, path);
+  }
+  for (const candidate of SYSTEM_FONTS) {
+    const data = await readFile(candidate).catch(() => undefined);
+    if (data) return parseTrueTypeFont(data, candidate);
+  }
+  return undefined;
+}
+
+/**
+ * Parse the tables of a TrueType font. `source` names the font in errors and
+ * is the fallback for its PostScript name.
+ */
+export function parseTrueTypeFont(data: Buffer, source: string): TrueTypeFont {
+  const fail = (reason: string): never => {
+    throw new Error(`Cannot use ${source} as a PDF font: ${reason}`);
+  };
+  if (data.length < 12) fail('the file is too short');
+  const version = data.readUInt32BE(0);
+  if (version === 0x74746366) fail('font collections (.ttc) are not supported');
+  if (version === 0x4f54544f) fail('OpenType fonts with CFF outlines are not supported; use a TrueType (.ttf) font');
+  if (version !== 0x00010000 && version !== 0x74727565) fail('not a TrueType font');
+
+  const tables = new Map<string, { offset: number; length: number }>();
+  const numTables = data.readUInt16BE(4);
+  for (let i = 0; i < numTables; i++) {
+    const record = 12 + i * 16;
+    if (record + 16 > data.length) fail('the table directory is truncated');
+    tables.set(data.toString('latin1', record, record + 4), { offset: data.readUInt32BE(record + 8), length: data.readUInt32BE(record + 12) });
+  }
+  const table = (tag: string): number => {
+    const entry = tables.get(tag) ?? fail(`the ${tag} table is missing`);
+    if (entry.offset + entry.length > data.length) fail(`the ${tag} table is truncated`);
+    return entry.offset;
+  };
+  if (!tables.has('glyf')) fail('it has no TrueType outlines (glyf table)');
+
+  const head = table('head');
+  const unitsPerEm = data.readUInt16BE(head + 18);
+  const bbox: [number, number, number, number] = [
+    data.readInt16BE(head + 36), data.readInt16BE(head + 38), data.readInt16BE(head + 40), data.readInt16BE(head + 42),
+  ];
+  const hhea = table('hhea');
+  const ascent = data.readInt16BE(hhea + 4);
+  const descent = data.readInt16BE(hhea + 6);
+  const numberOfHMetrics = data.readUInt16BE(hhea + 34);
+  const hmtx = table('hmtx');
+  const advance = (glyph: number): number =>
+    data.readUInt16BE(hmtx + Math.min(glyph, numberOfHMetrics - 1) * 4);
+
+  const glyphFor = cmapLookup(data, table('cmap')) ?? fail('it has no Unicode character map');
+  const name = postScriptName(data, tables.get('name')?.offset)
+    ?? basename(source, extname(source)).replace(/[^A-Za-z0-9-]/g, '');
+
+  return { name, data, unitsPerEm, ascent, descent, bbox, glyphFor, advance };
+}
+
+/**
+ * Code point → glyph lookup from the best Unicode subtable of a cmap: format
+ * 12 (full Unicode) if present, else format 4 (Basic Multilingual Plane).
+ */
+function cmapLookup(data: Buffer, cmap: number): ((codePoint: number) => number | undefined) | undefined {
+  const subtables: Array<{ format: number; offset: number }> = [];
+  const count = data.readUInt16BE(cmap + 2);
+  for (let i = 0; i < count; i++) {
+    const record = cmap + 4 + i * 8;
+    const platform = data.readUInt16BE(record);
+    const encoding = data.readUInt16BE(record + 2);
+    const offset = cmap + data.readUInt32BE(record + 4);
+    const unicode = platform === 0 || (platform === 3 && (encoding === 1 || encoding === 10));
+    if (unicode) subtables.push({ format: data.readUInt16BE(offset), offset });
+  }
+
+  const format12 = subtables.find((subtable) => subtable.format === 12);
+  if (format12) {
+    const groups = data.readUInt32BE(format12.offset + 12);
+    return (codePoint) => {
+      for (let i = 0; i < groups; i++) {
+        const group = format12.offset + 16 + i * 12;
+        const start = data.readUInt32BE(group);
+        if (codePoint < start) return undefined;
+        if (codePoint <= data.readUInt32BE(group + 4)) return nonZero(data.readUInt32BE(group + 8) + codePoint - start);
+      }
+      return undefined;
+    };
+  }
+
+  const format4 = subtables.find((subtable) => subtable.format === 4);
+  if (format4) {
+    const segCount = data.readUInt16BE(format4.offset + 6) / 2;
+    const endCodes = format4.offset + 14;
+    const startCodes = endCodes + segCount * 2 + 2;
+    const idDeltas = startCodes + segCount * 2;
+    const idRangeOffsets = idDeltas + segCount * 2;
+    return (codePoint) => {
+      if (codePoint > 0xffff) return undefined;
+      for (let i = 0; i < segCount; i++) {
+        if (codePoint > data.readUInt16BE(endCodes + i * 2)) continue;
+        const start = data.readUInt16BE(startCodes + i * 2);
+        if (codePoint < start) return undefined;
+        const delta = data.readUInt16BE(idDeltas + i * 2);
+        const rangeOffset = data.readUInt16BE(idRangeOffsets + i * 2);
+        if (rangeOffset === 0) return nonZero((codePoint + delta) & 0xffff);
+        const glyph = data.readUInt16BE(idRangeOffsets + i * 2 + rangeOffset + (codePoint - start) * 2);
+        return glyph === 0 ? undefined : nonZero((glyph + delta) & 0xffff);
+      }
+      return undefined;
+    };
+  }
+  return undefined;
+}
+
+/** Glyph 0 is .notdef, i.e. no glyph */
+function nonZero(glyph: number): number | undefined {
+  return glyph === 0 ? undefined : glyph;
+}
+
+/** The PostScript name (name id 6) from the name table, if it has one */
+function postScriptName(data: Buffer, nameTable: number | undefined): string | undefined {
+  if (nameTable === undefined) return undefined;
+  const count = data.readUInt16BE(nameTable + 2);
+  const strings = nameTable + data.readUInt16BE(nameTable + 4);
+  for (let i = 0; i < count; i++) {
+    const record = nameTable + 6 + i * 12;
+    if (data.readUInt16BE(record + 6) !== 6) continue;
+    const platform = data.readUInt16BE(record);
+    const length = data.readUInt16BE(record + 8);
+    const offset = strings + data.readUInt16BE(record + 10);
+    const raw = platform === 1
+      ? data.toString('latin1', offset, offset + length)
+      : Buffer.from(data.subarray(offset, offset + (length & ~1))).swap16().toString('utf16le');
+    const name = raw.replace(/[^A-Za-z0-9-]/g, '');
+    if (name) return name;
+  }
+  return undefined;
+}
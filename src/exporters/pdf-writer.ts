@@ -0,0 +1,838 @@
+import { deflateSync } from 'node:zlib';
+import type { TrueTypeFont } from './pdf-font.js';
+
+/**
+ * Minimal PDF writer for printable exports — lays out a flat list of blocks
+ * (headings, paragraphs, lists, code) on A4 pages and serializes them with the
+ * PDF base-14 fonts, so no browser or native dependencies are needed. Supports
+ * forced page breaks, a table of contents with page numbers (and links),
+ * bookmarks for top-level headings, and page footers.
+ *
+ * Text is encoded as WinAnsi. Characters outside it are transliterated, drawn
+ * from an embedded TrueType font when one is given and has them, or else
+ * replaced with `?`. Inline `code` spans use Courier and **bold** spans
+ * Helvetica-Bold.
+ */
+
+export type PdfBlock =
+  | { type: 'title'; text: string; subtitle?: string }
+  | { type: 'heading'; level: 1 | 2 | 3; text: string; toc?: boolean }
+  | { type: 'paragraph'; text: string; style?: 'normal' | 'muted' | 'italic' }
+  | { type: 'list'; items: string[]; marker: 'bullet' | 'number' | 'letter' | 'checkbox' }
+  | { type: 'code'; text: string; label?: string }
+  | { type: 'writing-lines'; count: number }
+  | { type: 'toc'; title: string }
+  | { type: 'page-break' };
+
+export interface PdfDocument {
+  title: string;
+  blocks: PdfBlock[];
+}
+
+export interface PdfRenderOptions {
+  /** Font for the characters the standard fonts lack */
+  font?: TrueTypeFont;
+}
+
+// ---------------------------------------------------------------------------
+// Fonts
+// ---------------------------------------------------------------------------
+
+type BaseFont = 'regular' | 'bold' | 'italic' | 'mono';
+
+/** 'unicode' is the embedded TrueType font; its text stays as Unicode until serialization */
+type FontName = BaseFont | 'unicode';
+
+const FONT_RESOURCES: Record<BaseFont, { key: string; baseFont: string }> = {
+  regular: { key: 'F1', baseFont: 'Helvetica' },
+  bold: { key: 'F2', baseFont: 'Helvetica-Bold' },
+  italic: { key: 'F3', baseFont: 'Helvetica-Oblique' },
+  mono: { key: 'F4', baseFont: 'Courier' },
+};
+
+const UNICODE_FONT_KEY = 'F5';
+
+/** Glyph widths (1/1000 em) for WinAnsi codes 32–126, from the base-14 AFM files */
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+];
+
+/** Widths of the WinAnsi codes above 126 that differ from the default */
+const HIGH_WIDTHS: Record<number, number> = {
+  0x85: 1000, 0x91: 222, 0x92: 222, 0x93: 333, 0x94: 333, 0x95: 350, 0x96: 556, 0x97: 1000, 0xa0: 278,
+};
+
+/** Unicode code points in WinAnsi's 0x80–0x9F range */
+const WIN_ANSI_HIGH: Record<number, number> = {
+  0x20ac: 0x80, 0x201a: 0x82, 0x0192: 0x83, 0x201e: 0x84, 0x2026: 0x85, 0x2020: 0x86, 0x2021: 0x87,
+  0x02c6: 0x88, 0x2030: 0x89, 0x0160: 0x8a, 0x2039: 0x8b, 0x0152: 0x8c, 0x017d: 0x8e, 0x2018: 0x91,
+  0x2019: 0x92, 0x201c: 0x93, 0x201d: 0x94, 0x2022: 0x95, 0x2013: 0x96, 0x2014: 0x97, 0x02dc: 0x98,
+  0x2122: 0x99, 0x0161: 0x9a, 0x203a: 0x9b, 0x0153: 0x9c, 0x017e: 0x9e, 0x0178: 0x9f,
+};
+
+/**
+ * Common characters outside WinAnsi, spelled with ones inside it when no
+ * embedded font has them. Never applied to code blocks, where `→` turning
+ * into `->` would change the code.
+ */
+const TRANSLITERATIONS: Record<string, string> = {
+  '→': '->', '←': '<-', '⇒': '=>', '↔': '<->', '≥': '>=', '≤': '<=', '≠': '!=', '≈': '~',
+  '✓': 'v', '✔': 'v', '✗': 'x', '✘': 'x', '★': '*', '☆': '*', '…': '...',
+};
+
+/**
+ * WinAnsi encoding of one character (as a char per byte), or undefined if it
+ * has none. Newlines are kept, tabs become four spaces, and variation
+ * selectors vanish.
+ */
+function encodeChar(char: string): string | undefined {
+  const code = char.codePointAt(0)!;
+  if (code === 0x09) return '    ';
+  if (code === 0x0a) return char;
+  if (code >= 0x20 && code <= 0x7e) return char;
+  if (code >= 0xa0 && code <= 0xff) return char;
+  if (WIN_ANSI_HIGH[code] !== undefined) return String.fromCharCode(WIN_ANSI_HIGH[code]);
+  if (code === 0xfe0f || code === 0x200d || code === 0x200b) return '';
+  return undefined;
+}
+
+/**
+ * Characters in a document that neither the standard fonts nor `font` can
+ * show and that print as `?` (e.g. CJK, Cyrillic, Greek or emoji without a
+ * font that has them), each listed once. `codeOnly` checks code blocks only.
+ */
+export function findUnprintable(doc: PdfDocument, options: { font?: TrueTypeFont; codeOnly?: boolean } = {}): string[] {
+  const unprintable = new Set<string>();
+  for (const { text, code } of documentTexts(doc)) {
+    if (options.codeOnly && !code) continue;
+    for (const char of text) {
+      if (!encodeCharRun(char, 'regular', options.font, !code)) unprintable.add(char);
+    }
+  }
+  return [...unprintable];
+}
+
+/** Whether any character of the document is drawn from `font` */
+export function usesFont(doc: PdfDocument, font: TrueTypeFont): boolean {
+  return documentTexts(doc).some(({ text }) => [...text].some((char) => encodeCharRun(char, 'regular', font, false)?.font === 'unicode'));
+}
+
+/** Every text of a document, and whether it is code */
+function documentTexts(doc: PdfDocument): Array<{ text: string; code: boolean }> {
+  const prose = (...texts: string[]) => texts.map((text) => ({ text, code: false }));
+  return [...prose(doc.title), ...doc.blocks.flatMap((block) => {
+    switch (block.type) {
+      case 'title': return prose(block.text, block.subtitle ?? '');
+      case 'heading':
+      case 'paragraph': return prose(block.text);
+      case 'list': return prose(...block.items);
+      case 'code': return [{ text: block.text, code: true }, { text: block.label ?? '', code: true }];
+      case 'toc': return prose(block.title);
+      case 'writing-lines':
+      case 'page-break': return [];
+    }
+  })];
+}
+
+/**
+ * One character as something the fonts can draw: WinAnsi in `font`, Unicode
+ * in the embedded font, or (if `transliterate`) a WinAnsi spelling.
+ * Undefined if none of them can.
+ */
+function encodeCharRun(char: string, font: BaseFont, unicode: TrueTypeFont | undefined, transliterate: boolean): Run | undefined {
+  const encoded = encodeChar(char);
+  if (encoded !== undefined) return { text: encoded, font };
+  if (unicode?.glyphFor(char.codePointAt(0)!) !== undefined) return { text: char, font: 'unicode' };
+  if (transliterate && TRANSLITERATIONS[char] !== undefined) return { text: TRANSLITERATIONS[char], font };
+  return undefined;
+}
+
+/**
+ * Split text into runs the fonts can draw: WinAnsi-encoded text in `font`,
+ * and Unicode text in the embedded font for the characters only it has.
+ * Characters nothing can draw become `?`.
+ */
+function encodeText(text: string, font: BaseFont, unicode: TrueTypeFont | undefined, transliterate = true): Run[] {
+  const runs: Run[] = [];
+  for (const char of text) {
+    const run = encodeCharRun(char, font, unicode, transliterate) ?? { text: '?', font };
+    const last = runs[runs.length - 1];
+    if (last && last.font === run.font) last.text += run.text;
+    else if (run.text) runs.push(run);
+  }
+  return runs;
+}
+
+/** Width in points of text encoded by encodeText */
+function measure(encoded: string, font: FontName, size: number, unicode?: TrueTypeFont): number {
+  if (font === 'unicode') {
+    let width = 0;
+    for (const char of encoded) {
+      const glyph = unicode?.glyphFor(char.codePointAt(0)!);
+      if (glyph !== undefined) width += unicode!.advance(glyph) / unicode!.unitsPerEm;
+    }
+    return width * size;
+  }
+  if (font === 'mono') return encoded.length * 0.6 * size;
+  const table = font === 'bold' ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+  let width = 0;
+  for (let i = 0; i < encoded.length; i++) {
+    const code = encoded.charCodeAt(i);
+    width += (code >= 32 && code <= 126 ? table[code - 32] : HIGH_WIDTHS[code]) ?? 556;
+  }
+  return (width / 1000) * size;
+}
+
+// ---------------------------------------------------------------------------
+// Layout
+// ---------------------------------------------------------------------------
+
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+const MARGIN_X = 60;
+const MARGIN_TOP = 64;
+const MARGIN_BOTTOM = 72;
+const CONTENT_WIDTH = PAGE_WIDTH - 2 * MARGIN_X;
+
+const BODY_SIZE = 10.5;
+const BODY_LEADING = 15;
+const CODE_SIZE = 8.5;
+const CODE_LEADING = 11.5;
+const HEADING_SIZES = { 1: 20, 2: 14, 3: 11.5 } as const;
+
+type Op =
+  | { kind: 'text'; font: FontName; size: number; x: number; y: number; text: string; gray: number }
+  | { kind: 'rect'; x: number; y: number; width: number; height: number; fill?: number; stroke?: number }
+  | { kind: 'line'; x1: number; y1: number; x2: number; y2: number; gray: number };
+
+interface Link {
+  rect: [number, number, number, number];
+  targetPage: number;
+  targetY: number;
+}
+
+interface Page {
+  ops: Op[];
+  links: Link[];
+}
+
+/** A heading's position, for the table of contents and bookmarks */
+interface Anchor {
+  text: string;
+  level: number;
+  page: number;
+  y: number;
+}
+
+interface Run {
+  text: string;
+  font: FontName;
+}
+
+/**
+ * Split inline markup into runs: `code` → mono, **bold** → bold.
+ */
+function parseInline(text: string, base: BaseFont, unicode: TrueTypeFont | undefined): Run[] {
+  const runs: Array<{ text: string; font: BaseFont }> = [];
+  const pattern = /`([^`]+)`|\*\*([^*]+)\*\*/g;
+  let last = 0;
+  for (const match of text.matchAll(pattern)) {
+    if (match.index > last) runs.push({ text: text.slice(last, match.index), font: base });
+    if (match[1] !== undefined) runs.push({ text: match[1], font: 'mono' });
+    else runs.push({ text: match[2]!, font: 'bold' });
+    last = match.index + match[0].length;
+  }
+  if (last < text.length) runs.push({ text: text.slice(last), font: base });
+  return runs.flatMap((run) => encodeText(run.text, run.font, unicode));
+}
+
+interface LineFragment {
+  text: string;
+  font: FontName;
+  x: number;
+}
+
+/**
+ * Greedy word wrap of runs into lines no wider than `width`. Words longer than
+ * a line are broken by character.
+ */
+function wrapRuns(runs: Run[], size: number, width: number, unicode: TrueTypeFont | undefined): LineFragment[][] {
+  const lines: LineFragment[][] = [];
+  let line: LineFragment[] = [];
+  let x = 0;
+
+  const push = (text: string, font: FontName) => {
+    const last = line[line.length - 1];
+    if (last && last.font === font) last.text += text;
+    else line.push({ text, font, x });
+    x += measure(text, font, size, unicode);
+  };
+  const newLine = () => {
+    // Drop trailing spaces so lines measure true
+    const last = line[line.length - 1];
+    if (last) last.text = last.text.replace(/ +$/, '');
+    lines.push(line);
+    line = [];
+    x = 0;
+  };
+
+  for (const run of runs) {
+    for (const token of run.text.split(/( +|\n)/)) {
+      if (!token) continue;
+      if (token === '\n') {
+        newLine();
+        continue;
+      }
+      const tokenWidth = measure(token, run.font, size, unicode);
+      if (token.startsWith(' ')) {
+        if (x > 0) push(token, run.font);
+        continue;
+      }
+      if (x + tokenWidth > width && x > 0) newLine();
+      if (tokenWidth <= width) {
+        push(token, run.font);
+        continue;
+      }
+      for (const char of token) {
+        if (x + measure(char, run.font, size, unicode) > width && x > 0) newLine();
+        push(char, run.font);
+      }
+    }
+  }
+  if (line.length > 0 || lines.length === 0) newLine();
+  return lines;
+}
+
+/**
+ * Lay out lines of code: whitespace is kept, and lines longer than `width`
+ * are broken by character.
+ */
+function wrapCode(text: string, size: number, width: number, unicode: TrueTypeFont | undefined): LineFragment[][] {
+  return text.split('\n').flatMap((line) => {
+    const lines: LineFragment[][] = [[]];
+    let x = 0;
+    for (const run of encodeText(line, 'mono', unicode, false)) {
+      for (const char of run.text) {
+        const charWidth = measure(char, run.font, size, unicode);
+        // Allow for rounding, so a line of exactly `width` stays whole
+        if (x + charWidth > width + 0.01 && x > 0) {
+          lines.push([]);
+          x = 0;
+        }
+        const current = lines[lines.length - 1]!;
+        const last = current[current.length - 1];
+        if (last && last.font === run.font) last.text += char;
+        else current.push({ text: char, font: run.font, x });
+        x += charWidth;
+      }
+    }
+    return lines;
+  });
+}
+
+/** Fragments of runs placed one after another on a single line */
+function placeRuns(runs: Run[], size: number, unicode: TrueTypeFont | undefined): LineFragment[] {
+  let x = 0;
+  return runs.map((run) => {
+    const fragment = { text: run.text, font: run.font, x };
+    x += measure(run.text, run.font, size, unicode);
+    return fragment;
+  });
+}
+
+function runsWidth(runs: Run[], size: number, unicode: TrueTypeFont | undefined): number {
+  return runs.reduce((sum, run) => sum + measure(run.text, run.font, size, unicode), 0);
+}
+
+/** Shorten runs to `width`, ending them with "..." if anything was cut */
+function truncate(runs: Run[], size: number, width: number, unicode: TrueTypeFont | undefined): Run[] {
+  if (runsWidth(runs, size, unicode) <= width) return runs;
+  const chars = runs.flatMap((run) => [...run.text].map((char) => ({ text: char, font: run.font })));
+  const ellipsis = (font: FontName): Run => ({ text: '...', font: font === 'unicode' ? 'regular' : font });
+  while (chars.length > 0) {
+    chars.pop();
+    const font = chars[chars.length - 1]?.font ?? 'regular';
+    if (runsWidth([...chars, ellipsis(font)], size, unicode) <= width) break;
+  }
+  while (chars.length > 0 && chars[chars.length - 1]!.text === ' ') chars.pop();
+  const out: Run[] = [];
+  for (const char of [...chars, ellipsis(chars[chars.length - 1]?.font ?? 'regular')]) {
+    const last = out[out.length - 1];
+    if (last && last.font === char.font) last.text += char.text;
+    else out.push({ ...char });
+  }
+  return out;
+}
+
+class Layout {
+  readonly pages: Page[] = [];
+  readonly anchors: Anchor[] = [];
+  private y = 0;
+
+  constructor() {
+    this.newPage();
+  }
+
+  get page(): Page {
+    return this.pages[this.pages.length - 1]!;
+  }
+
+  get pageIndex(): number {
+    return this.pages.length - 1;
+  }
+
+  get cursor(): number {
+    return this.y;
+  }
+
+  newPage(): void {
+    this.pages.push({ ops: [], links: [] });
+    this.y = PAGE_HEIGHT - MARGIN_TOP;
+  }
+
+  /** True when nothing has been placed on the current page yet */
+  get atPageTop(): boolean {
+    return this.y === PAGE_HEIGHT - MARGIN_TOP;
+  }
+
+  /** Start a new page unless `height` more points fit on this one */
+  ensure(height: number): void {
+    if (this.y - height < MARGIN_BOTTOM && !this.atPageTop) this.newPage();
+  }
+
+  space(points: number): void {
+    if (!this.atPageTop) this.y -= points;
+  }
+
+  /** Place wrapped lines, breaking pages between lines */
+  lines(lines: LineFragment[][], size: number, leading: number, x: number, gray = 0): void {
+    for (const line of lines) {
+      this.ensure(leading);
+      this.y -= leading;
+      for (const fragment of line) {
+        if (fragment.text) {
+          this.page.ops.push({ kind: 'text', font: fragment.font, size, x: x + fragment.x, y: this.y + (leading - size) / 2, text: fragment.text, gray });
+        }
+      }
+    }
+  }
+
+  text(text: string, font: FontName, size: number, x: number, gray = 0): void {
+    this.page.ops.push({ kind: 'text', font, size, x, y: this.y, text, gray });
+  }
+
+  advance(points: number): void {
+    this.y -= points;
+  }
+
+  anchor(text: string, level: number): void {
+    this.anchors.push({ text, level, page: this.pageIndex, y: this.y });
+  }
+}
+
+interface PendingTocEntry {
+  page: number;
+  y: number;
+  anchor: number;
+}
+
+/**
+ * Lay out and serialize a document.
+ */
+export function renderPdf(doc: PdfDocument, options: PdfRenderOptions = {}): Buffer {
+  const unicode = options.font;
+  const layout = new Layout();
+  const tocHeadings = doc.blocks.filter((block): block is Extract<PdfBlock, { type: 'heading' }> => block.type === 'heading' && block.toc === true);
+  const pendingToc: PendingTocEntry[] = [];
+  let tocAnchorCount = 0;
+
+  for (const block of doc.blocks) {
+    switch (block.type) {
+      case 'title': {
+        layout.advance(120);
+        const size = 28;
+        for (const line of wrapRuns(encodeText(block.text, 'bold', unicode), size, CONTENT_WIDTH, unicode)) {
+          layout.advance(size * 1.25);
+          for (const fragment of line) layout.text(fragment.text, fragment.font, size, MARGIN_X + fragment.x);
+        }
+        if (block.subtitle) {
+          layout.advance(12);
+          layout.lines(wrapRuns(parseInline(block.subtitle, 'regular', unicode), 14, CONTENT_WIDTH, unicode), 14, 20, MARGIN_X, 0.35);
+        }
+        layout.advance(16);
+        layout.page.ops.push({ kind: 'line', x1: MARGIN_X, y1: layout.cursor, x2: MARGIN_X + 120, y2: layout.cursor, gray: 0 });
+        layout.advance(12);
+        break;
+      }
+
+      case 'heading': {
+        const size = HEADING_SIZES[block.level];
+        const lines = wrapRuns(encodeText(block.text, 'bold', unicode), size, CONTENT_WIDTH, unicode);
+        const leading = size * 1.3;
+        layout.space(block.level === 1 ? 8 : block.level === 2 ? 14 : 8);
+        // Keep the heading with at least a few lines of what follows
+        layout.ensure(lines.length * leading + 3 * BODY_LEADING);
+        if (block.toc) {
+          layout.anchor(block.text, block.level);
+          tocAnchorCount++;
+        }
+        layout.lines(lines, size, leading, MARGIN_X);
+        if (block.level === 1) {
+          layout.advance(4);
+          layout.page.ops.push({ kind: 'line', x1: MARGIN_X, y1: layout.cursor, x2: MARGIN_X + CONTENT_WIDTH, y2: layout.cursor, gray: 0.6 });
+          layout.advance(8);
+        } else {
+          layout.advance(2);
+        }
+        break;
+      }
+
+      case 'paragraph': {
+        const font: BaseFont = block.style === 'italic' ? 'italic' : 'regular';
+        layout.lines(wrapRuns(parseInline(block.text, font, unicode), BODY_SIZE, CONTENT_WIDTH, unicode), BODY_SIZE, BODY_LEADING, MARGIN_X, block.style === 'muted' ? 0.4 : 0);
+        layout.advance(5);
+        break;
+      }
+
+      case 'list': {
+        const indent = block.marker === 'bullet' ? 14 : 20;
+        block.items.forEach((item, idx) => {
+          const lines = wrapRuns(parseInline(item, 'regular', unicode), BODY_SIZE, CONTENT_WIDTH - indent, unicode);
+          layout.ensure(BODY_LEADING);
+          const top = layout.cursor;
+          const markerY = top - BODY_LEADING + (BODY_LEADING - BODY_SIZE) / 2;
+          switch (block.marker) {
+            case 'bullet':
+              layout.page.ops.push({ kind: 'text', font: 'regular', size: BODY_SIZE, x: MARGIN_X + 2, y: markerY, text: '\x95', gray: 0 });
+              break;
+            case 'number':
+            case 'letter': {
+              const label = block.marker === 'number' ? `${idx + 1}.` : `${String.fromCharCode(65 + idx)})`;
+              layout.page.ops.push({ kind: 'text', font: 'bold', size: BODY_SIZE, x: MARGIN_X, y: markerY, text: label, gray: 0 });
+              break;
+            }
+            case 'checkbox':
+              layout.page.ops.push({ kind: 'rect', x: MARGIN_X + 1, y: markerY - 1, width: 9, height: 9, stroke: 0 });
+              break;
+          }
+          layout.lines(lines, BODY_SIZE, BODY_LEADING, MARGIN_X + indent);
+          layout.advance(2);
+        });
+        layout.advance(4);
+        break;
+      }
+
+      case 'code': {
+        const padding = 6;
+        const lines = wrapCode(block.text.replace(/\n+$/, ''), CODE_SIZE, CONTENT_WIDTH - 2 * padding, unicode);
+        if (block.label) {
+          layout.ensure(BODY_LEADING + CODE_LEADING * Math.min(lines.length, 3));
+          layout.lines([placeRuns(encodeText(block.label, 'mono', unicode, false), CODE_SIZE, unicode)], CODE_SIZE, BODY_LEADING, MARGIN_X, 0.35);
+        }
+        // One shaded box per page the block spans
+        let boxTop = layout.cursor;
+        let boxPage = layout.pageIndex;
+        const closeBox = () => {
+          const page = layout.pages[boxPage]!;
+          const bottom = boxPage === layout.pageIndex ? layout.cursor - padding : MARGIN_BOTTOM - padding;
+          page.ops.unshift({ kind: 'rect', x: MARGIN_X, y: bottom, width: CONTENT_WIDTH, height: boxTop - bottom, fill: 0.94 });
+        };
+        layout.advance(padding);
+        for (const line of lines) {
+          if (layout.cursor - CODE_LEADING < MARGIN_BOTTOM) {
+            closeBox();
+            layout.newPage();
+            boxTop = layout.cursor;
+            boxPage = layout.pageIndex;
+            layout.advance(padding);
+          }
+          layout.advance(CODE_LEADING);
+          for (const fragment of line) layout.text(fragment.text, fragment.font, CODE_SIZE, MARGIN_X + padding + fragment.x, 0.1);
+        }
+        closeBox();
+        layout.advance(padding + 8);
+        break;
+      }
+
+      case 'writing-lines':
+        for (let i = 0; i < block.count; i++) {
+          layout.ensure(22);
+          layout.advance(22);
+          layout.page.ops.push({ kind: 'line', x1: MARGIN_X, y1: layout.cursor, x2: MARGIN_X + CONTENT_WIDTH, y2: layout.cursor, gray: 0.7 });
+        }
+        layout.advance(8);
+        break;
+
+      case 'toc': {
+        layout.lines(wrapRuns(encodeText(block.title, 'bold', unicode), HEADING_SIZES[1], CONTENT_WIDTH, unicode), HEADING_SIZES[1], HEADING_SIZES[1] * 1.3, MARGIN_X);
+        layout.advance(12);
+        // Entries are filled in once every heading has a page
+        tocHeadings.forEach((_, idx) => {
+          layout.ensure(BODY_LEADING + 2);
+          layout.advance(BODY_LEADING + 2);
+          pendingToc.push({ page: layout.pageIndex, y: layout.cursor, anchor: tocAnchorCount + idx });
+        });
+        break;
+      }
+
+      case 'page-break':
+        if (!layout.atPageTop) layout.newPage();
+        break;
+    }
+  }
+
+  // Table of contents
+  for (const entry of pendingToc) {
+    const anchor = layout.anchors[entry.anchor];
+    if (!anchor) continue;
+    const page = layout.pages[entry.page]!;
+    const indent = (anchor.level - 1) * 16;
+    const font: BaseFont = anchor.level === 1 ? 'bold' : 'regular';
+    const number = String(anchor.page + 1);
+    const numberWidth = measure(number, font, BODY_SIZE);
+    const text = truncate(encodeText(anchor.text, font, unicode), BODY_SIZE, CONTENT_WIDTH - indent - numberWidth - 24, unicode);
+    const textWidth = runsWidth(text, BODY_SIZE, unicode);
+    const dotsStart = MARGIN_X + indent + textWidth + 6;
+    const dotsEnd = MARGIN_X + CONTENT_WIDTH - numberWidth - 6;
+    const dots = '.'.repeat(Math.max(0, Math.floor((dotsEnd - dotsStart) / measure('.', 'regular', BODY_SIZE))));
+    for (const fragment of placeRuns(text, BODY_SIZE, unicode)) {
+      page.ops.push({ kind: 'text', font: fragment.font, size: BODY_SIZE, x: MARGIN_X + indent + fragment.x, y: entry.y, text: fragment.text, gray: 0 });
+    }
+    page.ops.push({ kind: 'text', font: 'regular', size: BODY_SIZE, x: dotsStart, y: entry.y, text: dots, gray: 0.6 });
+    page.ops.push({ kind: 'text', font, size: BODY_SIZE, x: MARGIN_X + CONTENT_WIDTH - numberWidth, y: entry.y, text: number, gray: 0 });
+    page.links.push({
+      rect: [MARGIN_X, entry.y - 3, MARGIN_X + CONTENT_WIDTH, entry.y + BODY_SIZE],
+      targetPage: anchor.page,
+      targetY: anchor.y + 4,
+    });
+  }
+
+  // Footers, except on the title page
+  const footerTitle = placeRuns(truncate(encodeText(doc.title, 'regular', unicode), 8, CONTENT_WIDTH - 80, unicode), 8, unicode);
+  layout.pages.forEach((page, idx) => {
+    if (idx === 0) return;
+    const label = `${idx + 1} / ${layout.pages.length}`;
+    page.ops.push({ kind: 'line', x1: MARGIN_X, y1: MARGIN_BOTTOM - 24, x2: MARGIN_X + CONTENT_WIDTH, y2: MARGIN_BOTTOM - 24, gray: 0.8 });
+    for (const fragment of footerTitle) {
+      page.ops.push({ kind: 'text', font: fragment.font, size: 8, x: MARGIN_X + fragment.x, y: MARGIN_BOTTOM - 36, text: fragment.text, gray: 0.45 });
+    }
+    page.ops.push({ kind: 'text', font: 'regular', size: 8, x: MARGIN_X + CONTENT_WIDTH - measure(label, 'regular', 8), y: MARGIN_BOTTOM - 36, text: label, gray: 0.45 });
+  });
+
+  return serialize(doc.title, layout.pages, layout.anchors.filter((anchor) => anchor.level === 1), unicode);
+}
+
+// ---------------------------------------------------------------------------
+// Serialization
+// ---------------------------------------------------------------------------
+
+function num(value: number): string {
+  return String(Math.round(value * 100) / 100);
+}
+
+function pdfString(encoded: string): string {
+  return `(${encoded.replace(/[\\()]/g, (char) => `\\${char}`)})`;
+}
+
+/** A text string outside content streams (titles, bookmarks): ASCII as is, anything else as UTF-16 */
+function pdfTextString(text: string): string {
+  if (/^[\x20-\x7e]*$/.test(text)) return pdfString(text);
+  return `<FEFF${utf16Hex(text)}>`;
+}
+
+function utf16Hex(text: string): string {
+  return Buffer.from(text, 'utf16le').swap16().toString('hex').toUpperCase();
+}
+
+function hex4(value: number): string {
+  return value.toString(16).toUpperCase().padStart(4, '0');
+}
+
+/**
+ * Content stream for a page. Text in the embedded font is written as glyph
+ * ids, which are collected into `glyphs` (glyph → character) for the font's
+ * widths and ToUnicode map.
+ */
+function renderOps(ops: Op[], unicode: TrueTypeFont | undefined, glyphs: Map<number, string>): string {
+  const out: string[] = [];
+  for (const op of ops) {
+    switch (op.kind) {
+      case 'text':
+        if (op.font === 'unicode') {
+          let ids = '';
+          for (const char of op.text) {
+            const glyph = unicode?.glyphFor(char.codePointAt(0)!);
+            if (glyph === undefined) continue;
+            glyphs.set(glyph, char);
+            ids += hex4(glyph);
+          }
+          out.push(`BT ${num(op.gray)} g /${UNICODE_FONT_KEY} ${num(op.size)} Tf ${num(op.x)} ${num(op.y)} Td <${ids}> Tj ET`);
+        } else {
+          out.push(`BT ${num(op.gray)} g /${FONT_RESOURCES[op.font].key} ${num(op.size)} Tf ${num(op.x)} ${num(op.y)} Td ${pdfString(op.text)} Tj ET`);
+        }
+        break;
+      case 'rect':
+        if (op.fill !== undefined) out.push(`${num(op.fill)} g ${num(op.x)} ${num(op.y)} ${num(op.width)} ${num(op.height)} re f`);
+        if (op.stroke !== undefined) out.push(`${num(op.stroke)} G 0.8 w ${num(op.x)} ${num(op.y)} ${num(op.width)} ${num(op.height)} re S`);
+        break;
+      case 'line':
+        out.push(`${num(op.gray)} G 0.6 w ${num(op.x1)} ${num(op.y1)} m ${num(op.x2)} ${num(op.y2)} l S`);
+        break;
+    }
+  }
+  return out.join('\n');
+}
+
+/**
+ * Write the PDF objects: catalog, page tree, fonts, one page + content stream
+ * per page, outline entries, and the document info (no dates, so output is
+ * reproducible). The embedded font is only written when a page uses it.
+ */
+function serialize(title: string, pages: Page[], bookmarks: Anchor[], unicode: TrueTypeFont | undefined): Buffer {
+  const objects: Array<string | Buffer> = [];
+  const add = (body: string | Buffer): number => {
+    objects.push(body);
+    return objects.length;
+  };
+
+  // Reserve ids: 1 catalog, 2 page tree, 3 outline root, 4 info, 5–8 fonts
+  objects.push('', '', '', '');
+  const fontIds = Object.values(FONT_RESOURCES).map(({ baseFont }) =>
+    add(`<< /Type /Font /Subtype /Type1 /BaseFont /${baseFont} /Encoding /WinAnsiEncoding >>`)
+  );
+  let fontDict = Object.values(FONT_RESOURCES).map(({ key }, idx) => `/${key} ${fontIds[idx]} 0 R`).join(' ');
+
+  const glyphs = new Map<number, string>();
+  const contents = pages.map((page) => renderOps(page.ops, unicode, glyphs));
+  if (unicode && glyphs.size > 0) {
+    fontDict += ` /${UNICODE_FONT_KEY} ${addUnicodeFont(add, unicode, glyphs)} 0 R`;
+  }
+
+  // Page objects come right after their content streams; ids are known up front
+  const firstPageId = objects.length + 2;
+  const pageId = (idx: number) => firstPageId + idx * 2;
+  const pageIds: number[] = [];
+  pages.forEach((page, idx) => {
+    const stream = deflateSync(Buffer.from(contents[idx]!, 'latin1'));
+    const contentId = add(Buffer.concat([
+      Buffer.from(`<< /Length ${stream.length} /Filter /FlateDecode >>\nstream\n`, 'latin1'),
+      stream,
+      Buffer.from('\nendstream', 'latin1'),
+    ]));
+    const annots = page.links.map((link) =>
+      `<< /Type /Annot /Subtype /Link /Rect [${link.rect.map(num).join(' ')}] /Border [0 0 0] /Dest [${pageId(link.targetPage)} 0 R /XYZ 0 ${num(link.targetY)} 0] >>`
+    );
+    pageIds.push(add(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${num(PAGE_WIDTH)} ${num(PAGE_HEIGHT)}] /Resources << /Font << ${fontDict} >> >> /Contents ${contentId} 0 R${annots.length > 0 ? ` /Annots [${annots.join(' ')}]` : ''} >>`));
+  });
+
+  // Flat outline of top-level headings
+  const outlineIds = bookmarks.map((_, idx) => objects.length + 1 + idx);
+  bookmarks.forEach((bookmark, idx) => {
+    const links = [
+      idx > 0 ? `/Prev ${outlineIds[idx - 1]} 0 R` : '',
+      idx < bookmarks.length - 1 ? `/Next ${outlineIds[idx + 1]} 0 R` : '',
+    ].filter(Boolean).join(' ');
+    add(`<< /Title ${pdfTextString(bookmark.text)} /Parent 3 0 R ${links} /Dest [${pageIds[bookmark.page]} 0 R /XYZ 0 ${num(bookmark.y + 4)} 0] >>`);
+  });
+
+  objects[0] = `<< /Type /Catalog /Pages 2 0 R${bookmarks.length > 0 ? ' /Outlines 3 0 R /PageMode /UseOutlines' : ''} >>`;
+  objects[1] = `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`;
+  objects[2] = bookmarks.length > 0
+    ? `<< /Type /Outlines /First ${outlineIds[0]} 0 R /Last ${outlineIds[outlineIds.length - 1]} 0 R /Count ${bookmarks.length} >>`
+    : '<< /Type /Outlines /Count 0 >>';
+  objects[3] = `<< /Title ${pdfTextString(title)} /Producer (Workshop Factory) >>`;
+
+  const chunks: Buffer[] = [Buffer.from('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n', 'latin1')];
+  let offset = chunks[0]!.length;
+  const offsets: number[] = [];
+  objects.forEach((body, idx) => {
+    offsets.push(offset);
+    const chunk = Buffer.concat([
+      Buffer.from(`${idx + 1} 0 obj\n`, 'latin1'),
+      typeof body === 'string' ? Buffer.from(body, 'latin1') : body,
+      Buffer.from('\nendobj\n', 'latin1'),
+    ]);
+    chunks.push(chunk);
+    offset += chunk.length;
+  });
+
+  const xref = [
+    'xref',
+    `0 ${objects.length + 1}`,
+    '0000000000 65535 f ',
+    ...offsets.map((value) => `${String(value).padStart(10, '0')} 00000 n `),
+    'trailer',
+    `<< /Size ${objects.length + 1} /Root 1 0 R /Info 4 0 R >>`,
+    'startxref',
+    String(offset),
+    '%%EOF',
+    '',
+  ].join('\n');
+  chunks.push(Buffer.from(xref, 'latin1'));
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Add the objects of an embedded TrueType font — a Type0 font with identity
+ * encoding (text is written as glyph ids), its descendant CIDFont with the
+ * widths of the glyphs used, the descriptor, the font file, and a ToUnicode
+ * map so the text can be searched and copied. Returns the Type0 font's id.
+ */
+function addUnicodeFont(add: (body: string | Buffer) => number, font: TrueTypeFont, glyphs: Map<number, string>): number {
+  const scale = (value: number) => Math.round((value * 1000) / font.unitsPerEm);
+  const used = [...glyphs.keys()].sort((a, b) => a - b);
+
+  const file = deflateSync(font.data);
+  const fileId = add(Buffer.concat([
+    Buffer.from(`<< /Length ${file.length} /Length1 ${font.data.length} /Filter /FlateDecode >>\nstream\n`, 'latin1'),
+    file,
+    Buffer.from('\nendstream', 'latin1'),
+  ]));
+  const descriptorId = add(`<< /Type /FontDescriptor /FontName /${font.name} /Flags 4 /FontBBox [${font.bbox.map(scale).join(' ')}] /ItalicAngle 0 /Ascent ${scale(font.ascent)} /Descent ${scale(font.descent)} /CapHeight ${scale(font.ascent)} /StemV 80 /FontFile2 ${fileId} 0 R >>`);
+  const widths = used.map((glyph) => `${glyph} [${scale(font.advance(glyph))}]`).join(' ');
+  const cidFontId = add(`<< /Type /Font /Subtype /CIDFontType2 /BaseFont /${font.name} /CIDSystemInfo << /Registry (Adobe) /Ordering (Identity) /Supplement 0 >> /FontDescriptor ${descriptorId} 0 R /CIDToGIDMap /Identity /W [${widths}] >>`);
+
+  // bfchar sections hold at most 100 entries each
+  const mappings: string[] = [];
+  for (let i = 0; i < used.length; i += 100) {
+    const chunk = used.slice(i, i + 100);
+    mappings.push(`${chunk.length} beginbfchar`);
+    for (const glyph of chunk) {
+      mappings.push(`<${hex4(glyph)}> <${utf16Hex(glyphs.get(glyph)!)}>`);
+    }
+    mappings.push('endbfchar');
+  }
+  const cmap = [
+    '/CIDInit /ProcSet findresource begin',
+    '12 dict begin',
+    'begincmap',
+    '/CIDSystemInfo << /Registry (Adobe) /Ordering (UCS) /Supplement 0 >> def',
+    '/CMapName /Adobe-Identity-UCS def',
+    '/CMapType 2 def',
+    '1 begincodespacerange',
+    '<0000> <FFFF>',
+    'endcodespacerange',
+    ...mappings,
+    'endcmap',
+    'CMapName currentdict /CMap defineresource pop',
+    'end',
+    'end',
+  ].join('\n');
+  const toUnicodeId = add(`<< /Length ${cmap.length} >>\nstream\n${cmap}\nendstream`);
+
+  return add(`<< /Type /Font /Subtype /Type0 /BaseFont /${font.name} /Encoding /Identity-H /DescendantFonts [${cidFontId} 0 R] /ToUnicode ${toUnicodeId} 0 R >>`);
+}
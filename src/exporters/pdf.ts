@@ -0,0 +1,441 @@
+import { writeFile } from 'node:fs/promises';
+import type { CheckpointQuestion, ExerciseSection, Module, ProjectSection, Section, Workshop } from '../schema.js';
+import { inferLanguage, sectionLanguage } from '../languages.js';
+import { formatClockRange, formatMinutes } from './html.js';
+import { findUnprintable, renderPdf, usesFont, type PdfBlock, type PdfDocument } from './pdf-writer.js';
+import { loadTrueTypeFont } from './pdf-font.js';
+
+/**
+ * Printable PDF exports in two profiles:
+ * - attendee: a handout following the attendee rules in
+ *   prompts/WORKSHOP-DESIGN.md — no Bloom's levels, section type labels,
+ *   per-section timings, audience metadata or demo fallbacks, and no
+ *   solutions or answers unless `withSolutions` is set (then they go into a
+ *   closing "Solutions" chapter, so the exercises can still be handed out).
+ * - instructor: a binder with a running clock, talking points, solutions,
+ *   tests, demo fallbacks and checkpoint answer keys.
+ *
+ * Both start every module on a new page after a table of contents.
+ */
+
+export type PdfProfile = 'attendee' | 'instructor';
+
+export const PDF_PROFILES: readonly PdfProfile[] = ['attendee', 'instructor'];
+
+export interface PdfExportOptions {
+  profile?: PdfProfile;
+  withSolutions?: boolean; // attendee only; the instructor edition always has them
+  /** TrueType font file for characters the standard PDF fonts lack (default: an installed one, if any) */
+  font?: string;
+}
+
+export interface PdfExport {
+  pdf: Buffer;
+  /** Characters that print as `?` because no font has them */
+  unprintable: string[];
+  /** Name of the embedded font, when the document needed one */
+  font?: string;
+}
+
+/**
+ * Converts a Workshop object to a PDF document. Characters the standard PDF
+ * fonts lack are drawn from an embedded TrueType font; a code listing that
+ * would still lose characters is an error rather than a listing with `?` in it.
+ */
+export async function exportToPdf(workshop: Workshop, options: PdfExportOptions = {}): Promise<PdfExport> {
+  const doc = buildDocument(workshop, options);
+  const needsFont = options.font !== undefined || findUnprintable(doc).length > 0;
+  const font = needsFont ? await loadTrueTypeFont(options.font) : undefined;
+
+  const brokenCode = findUnprintable(doc, { font, codeOnly: true });
+  if (brokenCode.length > 0) {
+    throw new Error(
+      `Code listings contain ${formatCharacters(brokenCode)} that ${font ? `neither the standard PDF fonts nor ${font.name} have` : 'the standard PDF fonts lack, and no Unicode font was found'}. ` +
+      'Pass --font with a TrueType (.ttf) font that has them, or export with --format slides and print from the browser.'
+    );
+  }
+
+  return {
+    pdf: renderPdf(doc, { font }),
+    unprintable: findUnprintable(doc, { font }),
+    font: font && usesFont(doc, font) ? font.name : undefined,
+  };
+}
+
+/** A list of characters for messages, e.g. "3 characters (α β γ)", showing at most 12 */
+export function formatCharacters(chars: string[]): string {
+  const shown = chars.slice(0, 12).join(' ') + (chars.length > 12 ? ` (+${chars.length - 12} more)` : '');
+  return `${chars.length} character${chars.length === 1 ? '' : 's'} (${shown})`;
+}
+
+function buildDocument(workshop: Workshop, options: PdfExportOptions): PdfDocument {
+  const profile = options.profile ?? 'attendee';
+  const blocks = profile === 'instructor'
+    ? instructorBlocks(workshop)
+    : attendeeBlocks(workshop, options.withSolutions ?? false);
+  const title = profile === 'instructor' ? `${workshop.title} — Instructor edition` : workshop.title;
+  return { title, blocks };
+}
+
+// ---------------------------------------------------------------------------
+// Attendee handout
+// ---------------------------------------------------------------------------
+
+function attendeeBlocks(workshop: Workshop, withSolutions: boolean): PdfBlock[] {
+  const blocks: PdfBlock[] = [
+    { type: 'title', text: workshop.title, subtitle: `${workshop.topic} · ${formatMinutes(workshop.duration)}` },
+  ];
+  if (workshop.prerequisites.length > 0) {
+    blocks.push({ type: 'heading', level: 3, text: 'Before you start' });
+    blocks.push({ type: 'list', marker: 'bullet', items: workshop.prerequisites });
+  }
+  blocks.push({ type: 'page-break' }, { type: 'toc', title: 'Contents' });
+
+  const solutions: PdfBlock[] = [];
+  workshop.modules.forEach((module, moduleIdx) => {
+    blocks.push({ type: 'page-break' });
+    blocks.push({ type: 'heading', level: 1, text: `${moduleIdx + 1}. ${module.title}`, toc: true });
+    blocks.push({ type: 'paragraph', style: 'muted', text: `~${formatMinutes(module.duration)}` });
+    if (module.learning_objectives.length > 0) {
+      blocks.push({ type: 'heading', level: 3, text: 'What you\'ll learn' });
+      blocks.push({ type: 'list', marker: 'bullet', items: module.learning_objectives.map((objective) => objective.text) });
+    }
+
+    const moduleSolutions: PdfBlock[] = [];
+    for (const section of module.sections) {
+      blocks.push(...attendeeSection(section, workshop));
+      moduleSolutions.push(...sectionSolutions(section, workshop));
+    }
+    if (moduleSolutions.length > 0) {
+      solutions.push({ type: 'heading', level: 2, text: `${moduleIdx + 1}. ${module.title}`, toc: true }, ...moduleSolutions);
+    }
+  });
+
+  if (withSolutions && solutions.length > 0) {
+    blocks.push({ type: 'page-break' }, { type: 'heading', level: 1, text: 'Solutions', toc: true }, ...solutions);
+  }
+  return blocks;
+}
+
+function attendeeSection(section: Section, workshop: Workshop): PdfBlock[] {
+  const heading: PdfBlock = { type: 'heading', level: 2, text: section.title, toc: true };
+
+  switch (section.type) {
+    case 'lecture':
+      return [heading, ...section.talking_points.map((point): PdfBlock => ({ type: 'paragraph', text: point }))];
+
+    case 'exercise':
+      return [
+        heading,
+        ...proseBlocks(section.instructions),
+        ...starterBlocks(section, workshop),
+        ...(section.hints.length > 0
+          ? [{ type: 'heading', level: 3, text: 'Hints' } as const, { type: 'list', marker: 'number', items: section.hints } as const]
+          : []),
+      ];
+
+    case 'discussion':
+      return [
+        heading,
+        { type: 'list', marker: 'bullet', items: section.prompts },
+        { type: 'writing-lines', count: 3 },
+      ];
+
+    case 'checkpoint': {
+      const language = inferLanguage(workshop.audience.stack) ?? '';
+      return [
+        { ...heading, text: `Check your understanding: ${section.title}` },
+        ...section.questions.flatMap((question, idx) => questionBlocks(question, idx, language)),
+      ];
+    }
+
+    case 'demo':
+      return [
+        { ...heading, text: `Watch along: ${section.title}` },
+        { type: 'list', marker: 'number', items: section.script },
+      ];
+
+    case 'break':
+      return [{ type: 'paragraph', style: 'italic', text: section.title }];
+
+    case 'project': {
+      const language = sectionLanguage(section, workshop);
+      return [
+        heading,
+        ...proseBlocks(section.brief),
+        ...section.milestones.flatMap((milestone, idx): PdfBlock[] => [
+          { type: 'heading', level: 3, text: `Milestone ${idx + 1}: ${milestone.title}` },
+          ...proseBlocks(milestone.instructions),
+          ...codeBlocks(milestone.starter_code, language),
+        ]),
+        ...rubricBlocks(section, 'How your project is assessed'),
+      ];
+    }
+  }
+}
+
+/**
+ * Solutions and answer keys of a section for the attendee "Solutions" chapter.
+ */
+function sectionSolutions(section: Section, workshop: Workshop): PdfBlock[] {
+  switch (section.type) {
+    case 'exercise':
+      return [{ type: 'heading', level: 3, text: section.title }, ...solutionBlocks(section, workshop)];
+    case 'checkpoint':
+      return [
+        { type: 'heading', level: 3, text: section.title },
+        ...section.questions.flatMap((question, idx) => answerBlocks(question, idx, false)),
+      ];
+    case 'project': {
+      const language = sectionLanguage(section, workshop);
+      return section.milestones.flatMap((milestone, idx): PdfBlock[] => [
+        { type: 'heading', level: 3, text: `${section.title} — Milestone ${idx + 1}: ${milestone.title}` },
+        ...codeBlocks(milestone.solution, language),
+      ]);
+    }
+    default:
+      return [];
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Instructor edition
+// ---------------------------------------------------------------------------
+
+function instructorBlocks(workshop: Workshop): PdfBlock[] {
+  const audience = [
+    `Level: ${workshop.audience.level}`,
+    workshop.audience.stack ? `Stack: ${workshop.audience.stack}` : '',
+    workshop.audience.size !== undefined ? `Group size: ${workshop.audience.size}` : '',
+  ].filter(Boolean).join(' · ');
+
+  const blocks: PdfBlock[] = [
+    { type: 'title', text: workshop.title, subtitle: `Instructor edition · ${workshop.topic} · ${formatMinutes(workshop.duration)}` },
+    { type: 'paragraph', text: audience },
+  ];
+  if (workshop.prerequisites.length > 0) {
+    blocks.push({ type: 'heading', level: 3, text: 'Prerequisites' });
+    blocks.push({ type: 'list', marker: 'bullet', items: workshop.prerequisites });
+  }
+  blocks.push({ type: 'page-break' }, { type: 'toc', title: 'Contents' });
+
+  let clock = 0;
+  workshop.modules.forEach((module, moduleIdx) => {
+    blocks.push({ type: 'page-break' });
+    blocks.push({ type: 'heading', level: 1, text: `${moduleIdx + 1}. ${module.title}`, toc: true });
+    blocks.push({ type: 'paragraph', style: 'muted', text: `${formatClockRange(clock, module.duration)} · ${module.duration} min` });
+    if (module.learning_objectives.length > 0) {
+      blocks.push({ type: 'heading', level: 3, text: 'Learning objectives' });
+      blocks.push({
+        type: 'list',
+        marker: 'bullet',
+        items: module.learning_objectives.map((objective) => `${objective.text} (**${objective.blooms_level}**)`),
+      });
+    }
+    blocks.push(...instructorModule(module, clock, workshop));
+    clock += module.duration;
+  });
+  return blocks;
+}
+
+function instructorModule(module: Module, start: number, workshop: Workshop): PdfBlock[] {
+  const blocks: PdfBlock[] = [];
+  let clock = start;
+  for (const section of module.sections) {
+    blocks.push(
+      { type: 'heading', level: 2, text: section.title, toc: true },
+      { type: 'paragraph', style: 'muted', text: `${formatClockRange(clock, section.duration)} · ${section.type} · ${section.duration} min` },
+      ...instructorSection(section, workshop),
+    );
+    clock += section.duration;
+  }
+  return blocks;
+}
+
+function instructorSection(section: Section, workshop: Workshop): PdfBlock[] {
+  switch (section.type) {
+    case 'lecture':
+      return [
+        { type: 'heading', level: 3, text: 'Talking points' },
+        { type: 'list', marker: 'bullet', items: section.talking_points },
+      ];
+
+    case 'exercise':
+      return [
+        ...proseBlocks(section.instructions),
+        ...starterBlocks(section, workshop),
+        ...(section.hints.length > 0
+          ? [{ type: 'heading', level: 3, text: 'Hints' } as const, { type: 'list', marker: 'number', items: section.hints } as const]
+          : []),
+        { type: 'heading', level: 3, text: 'Solution' },
+        ...solutionBlocks(section, workshop),
+        ...(section.test ? [{ type: 'heading', level: 3, text: 'Tests' } as const, ...codeBlocks(section.test, sectionLanguage(section, workshop))] : []),
+      ];
+
+    case 'discussion':
+      return [
+        { type: 'heading', level: 3, text: 'Prompts' },
+        { type: 'list', marker: 'bullet', items: section.prompts },
+      ];
+
+    case 'checkpoint': {
+      const language = inferLanguage(workshop.audience.stack) ?? '';
+      return section.questions.flatMap((question, idx) => [
+        ...questionBlocks(question, idx, language, false),
+        ...answerBlocks(question, idx, true),
+      ]);
+    }
+
+    case 'demo':
+      return [
+        { type: 'heading', level: 3, text: 'Script' },
+        { type: 'list', marker: 'number', items: section.script },
+        { type: 'paragraph', style: 'italic', text: `If the live demo fails: ${section.fallback_notes}` },
+      ];
+
+    case 'break':
+      return [];
+
+    case 'project': {
+      const language = sectionLanguage(section, workshop);
+      return [
+        ...proseBlocks(section.brief),
+        ...section.milestones.flatMap((milestone, idx): PdfBlock[] => [
+          { type: 'heading', level: 3, text: `Milestone ${idx + 1}: ${milestone.title}` },
+          ...proseBlocks(milestone.instructions),
+          ...codeBlocks(milestone.starter_code, language, 'Starter'),
+          ...codeBlocks(milestone.solution, language, 'Solution'),
+        ]),
+        ...rubricBlocks(section, 'Rubric'),
+      ];
+    }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Shared blocks
+// ---------------------------------------------------------------------------
+
+function starterBlocks(section: ExerciseSection, workshop: Workshop): PdfBlock[] {
+  if (section.files && section.files.length > 0) {
+    return section.files.flatMap((file): PdfBlock[] => file.starter.trim()
+      ? codeBlocks(file.starter, file.language, file.path)
+      : [{ type: 'paragraph', style: 'muted', text: `\`${file.path}\` — new file` }]);
+  }
+  return codeBlocks(section.starter_code, sectionLanguage(section, workshop));
+}
+
+function solutionBlocks(section: ExerciseSection, workshop: Workshop): PdfBlock[] {
+  if (section.files && section.files.length > 0) {
+    return section.files.flatMap((file) => codeBlocks(file.solution, file.language, file.path));
+  }
+  return codeBlocks(section.solution, sectionLanguage(section, workshop));
+}
+
+function rubricBlocks(section: ProjectSection, title: string): PdfBlock[] {
+  if (section.rubric.length === 0) return [];
+  return [
+    { type: 'heading', level: 3, text: title },
+    { type: 'list', marker: 'checkbox', items: section.rubric.map((item) => `${item.criterion} (${item.points} pts)`) },
+  ];
+}
+
+/**
+ * A checkpoint question; on the handout followed by space to write the answer.
+ */
+function questionBlocks(question: CheckpointQuestion, idx: number, language: string, answerSpace = true): PdfBlock[] {
+  const prompt: PdfBlock = { type: 'paragraph', text: `**${idx + 1}.** ${question.prompt}` };
+  switch (question.type) {
+    case 'multiple_choice':
+      return [prompt, { type: 'list', marker: 'letter', items: question.options }];
+    case 'true_false':
+      return [prompt, { type: 'list', marker: 'checkbox', items: ['True', 'False'] }];
+    case 'short_answer':
+      return [prompt, ...(answerSpace ? [{ type: 'writing-lines', count: 2 } as const] : [])];
+    case 'code_output':
+      return [
+        prompt,
+        ...codeBlocks(question.code, language),
+        { type: 'paragraph', style: 'italic', text: 'What does this print?' },
+        ...(answerSpace ? [{ type: 'writing-lines', count: 2 } as const] : []),
+      ];
+  }
+}
+
+/**
+ * The answer key entry of a question; the instructor edition adds the
+ * accepted patterns of short answers.
+ */
+function answerBlocks(question: CheckpointQuestion, idx: number, instructor: boolean): PdfBlock[] {
+  const label = instructor ? 'Answer' : `${idx + 1}.`;
+  const explanation: PdfBlock[] = question.explanation ? [{ type: 'paragraph', style: 'muted', text: question.explanation }] : [];
+  switch (question.type) {
+    case 'multiple_choice':
+      return [
+        { type: 'paragraph', text: `**${label}** ${String.fromCharCode(65 + question.correct_index)}) ${question.options[question.correct_index] ?? ''}` },
+        ...explanation,
+      ];
+    case 'true_false':
+      return [{ type: 'paragraph', text: `**${label}** ${question.answer ? 'True' : 'False'}` }, ...explanation];
+    case 'short_answer':
+      return [
+        { type: 'paragraph', text: `**${label}** ${question.answer}` },
+        ...(instructor && question.accepted_patterns.length > 0
+          ? [{ type: 'paragraph', style: 'muted', text: `Accepted patterns: ${question.accepted_patterns.map((pattern) => `\`${pattern}\``).join(', ')}` } as const]
+          : []),
+        ...explanation,
+      ];
+    case 'code_output':
+      return [{ type: 'paragraph', text: `**${label}**` }, ...codeBlocks(question.expected_output, 'text'), ...explanation];
+  }
+}
+
+function codeBlocks(code: string, language: string, label?: string): PdfBlock[] {
+  if (!code.trim()) return [];
+  return [{ type: 'code', text: code, label: label ?? (language && language !== 'text' ? language : undefined) }];
+}
+
+/**
+ * Multi-line prose to blocks: fenced code, bulleted and numbered lists, and
+ * paragraphs separated by blank lines (the PDF counterpart of renderProse).
+ */
+function proseBlocks(text: string): PdfBlock[] {
+  const blocks: PdfBlock[] = [];
+  const fence = /```([\w+#-]*)[^\n]*\n([\s\S]*?)```/g;
+  let last = 0;
+  for (const match of text.matchAll(fence)) {
+    blocks.push(...paragraphBlocks(text.slice(last, match.index)));
+    blocks.push(...codeBlocks(match[2]!, match[1] ?? ''));
+    last = match.index + match[0].length;
+  }
+  blocks.push(...paragraphBlocks(text.slice(last)));
+  return blocks;
+}
+
+function paragraphBlocks(text: string): PdfBlock[] {
+  return text.split(/\n\s*\n/).map((block) => block.trim()).filter(Boolean).map((block): PdfBlock => {
+    const lines = block.split('\n').map((line) => line.trim());
+    if (lines.every((line) => /^[-*]\s+/.test(line))) {
+      return { type: 'list', marker: 'bullet', items: lines.map((line) => line.replace(/^[-*]\s+/, '')) };
+    }
+    if (lines.every((line) => /^\d+[.)]\s+/.test(line))) {
+      return { type: 'list', marker: 'number', items: lines.map((line) => line.replace(/^\d+[.)]\s+/, '')) };
+    }
+    return { type: 'paragraph', text: lines.join('\n') };
+  });
+}
+
+/**
+ * Exports a Workshop to a PDF file on disk.
+ *
+ * @returns The characters that print as `?` and the embedded font, if any
+ */
+export async function exportToPdfFile(
+  workshop: Workshop,
+  outputPath: string,
+  options: PdfExportOptions = {}
+): Promise<Omit<PdfExport, 'pdf'>> {
+  const { pdf, ...result } = await exportToPdf(workshop, options);
+  await writeFile(outputPath, pdf);
+  return result;
+}
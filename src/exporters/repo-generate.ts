@@ -3,11 +3,15 @@
  *
  * Runs 3 sequential SDK sessions (slides, code scaffold, README) each
  * with a registered write_file tool, then writes static files
- * (INSTRUCTOR.md, deploy-slides.yml, .gitignore, LICENSE).
+ * (INSTRUCTOR.md, deploy-slides.yml, .gitignore, LICENSE) and smoke-tests
+ * the result (`verifyRepo()`). Phases can be run on their own, and a content
+ * hash manifest (`repo-manifest.ts`) keeps hand-edited files from being
+ * overwritten. If the slides session fails or writes nothing, the built-in
+ * template (`renderSlides()`) fills `slides/` instead.
  */
 
 import { mkdir, writeFile } from 'node:fs/promises';
-import { join } from 'node:path';
+import { dirname, join, posix } from 'node:path';
 import {
   getGlobalClient,
   createSession,
@@ -16,6 +20,9 @@ import {
 import { createWriteFileTool } from '../tools/writeFile.js';
 import { buildSlidesPrompt, buildScaffoldPrompt, buildReadmePrompt } from '../prompts.js';
 import { exportToMarkdown } from './markdown.js';
+import { renderSlides } from './slides.js';
+import { verifyRepo, type RepoReport } from './repo-verify.js';
+import { MANIFEST_FILE, getFileState, hashContent, loadManifest, saveManifest, type FileOrigin } from './repo-manifest.js';
 import type { Workshop } from '../schema.js';
 
 /** Progress events emitted during generation. */
@@ -25,9 +32,13 @@ export type GenerateRepoEvent =
   | { type: 'file-written'; phase: RepoPhase; path: string; bytes: number }
   | { type: 'phase-complete'; phase: RepoPhase }
   | { type: 'static-written'; path: string }
+  | { type: 'file-skipped'; origin: FileOrigin; path: string; reason: 'edited' | 'unknown' }
+  | { type: 'slides-fallback'; reason: string }
+  | { type: 'verified'; report: RepoReport }
   | { type: 'complete'; outputDir: string };
 
-export type RepoPhase = 'slides' | 'scaffold' | 'readme';
+export const REPO_PHASES = ['slides', 'scaffold', 'readme'] as const;
+export type RepoPhase = typeof REPO_PHASES[number];
 
 const PHASES: { phase: RepoPhase; buildPrompt: typeof buildSlidesPrompt }[] = [
   { phase: 'slides', buildPrompt: buildSlidesPrompt },
@@ -35,104 +46,176 @@ const PHASES: { phase: RepoPhase; buildPrompt: typeof buildSlidesPrompt }[] = [
   { phase: 'readme', buildPrompt: buildReadmePrompt },
 ];
 
+export interface GenerateRepoOptions {
+  /** SDK phases to run (default: all, in order) */
+  phases?: RepoPhase[];
+  /** Overwrite files edited by hand since the last generation */
+  force?: boolean;
+}
+
 /**
  * Generate a complete template repo from a Workshop object.
  *
+ * Files whose content changed since the last run (per the manifest in
+ * `.workshop-manifest.json`) are kept unless `force` is set; the model is told
+ * the write was refused and a `file-skipped` event is emitted. Existing files
+ * the manifest doesn't list are kept the same way, and their current hash is
+ * recorded so the next run regenerates them unless they were edited.
+ *
+ * A slides session that throws or writes no files is replaced by the built-in
+ * template slides (`slides-fallback` event); failures of the other phases
+ * propagate.
+ *
  * @param workshop  - Fully generated Workshop
  * @param outputDir - Target directory (will be created if needed)
  * @param onEvent   - Optional progress callback
+ * @param options   - Which phases to run, and whether to overwrite hand edits
+ * @returns Smoke-test report for the repo on disk
  */
 export async function generateRepo(
   workshop: Workshop,
   outputDir: string,
   onEvent?: (event: GenerateRepoEvent) => void,
-): Promise<void> {
+  options: GenerateRepoOptions = {},
+): Promise<RepoReport> {
   await mkdir(outputDir, { recursive: true });
 
   const client = getGlobalClient();
+  const phases = options.phases
+    ? PHASES.filter((entry) => options.phases!.includes(entry.phase))
+    : PHASES;
+
+  const manifest = await loadManifest(outputDir);
+  const checkWrite = async (path: string, origin: FileOrigin): Promise<string | undefined> => {
+    if (path === MANIFEST_FILE) {
+      return `${MANIFEST_FILE} is reserved for the generator`;
+    }
+    if (options.force) return undefined;
+    const { state, sha256 } = await getFileState(outputDir, manifest, path);
+    if (state === 'edited') {
+      onEvent?.({ type: 'file-skipped', origin, path, reason: 'edited' });
+      return `${path} was edited by hand since the last generation and is kept as is. Do not write it again; adapt other files to it if needed.`;
+    }
+    if (state === 'unknown') {
+      manifest.files[posix.normalize(path)] = { sha256: sha256!, origin };
+      onEvent?.({ type: 'file-skipped', origin, path, reason: 'unknown' });
+      return `${path} already exists but was not written by a previous generation, so it is kept as is. Do not write it again; adapt other files to it if needed.`;
+    }
+    return undefined;
+  };
+  const recordWrite = (path: string, content: string, origin: FileOrigin) => {
+    manifest.files[posix.normalize(path)] = { sha256: hashContent(content), origin };
+  };
+  /** Write a file directly (not through the model); returns false if it was kept */
+  const writeDirect = async (path: string, content: string, origin: FileOrigin): Promise<boolean> => {
+    if (await checkWrite(path, origin)) return false;
+    await mkdir(dirname(join(outputDir, path)), { recursive: true });
+    await writeFile(join(outputDir, path), content, 'utf-8');
+    recordWrite(path, content, origin);
+    return true;
+  };
+
+  try {
+    // --- SDK-driven phases ---
+    for (let i = 0; i < phases.length; i++) {
+      const entry = phases[i]!;
+      const { phase, buildPrompt } = entry;
+
+      onEvent?.({ type: 'phase-start', phase, index: i, total: phases.length });
+
+      const { system, user } = await buildPrompt(workshop);
+
+      let filesWritten = 0;
+      const writeFileTool = createWriteFileTool(outputDir, {
+        onFileWritten(path, bytes, content) {
+          filesWritten++;
+          recordWrite(path, content, phase);
+          onEvent?.({ type: 'file-written', phase, path, bytes });
+        },
+        beforeWrite: (path) => checkWrite(path, phase),
+      });
+
+      let sessionError: unknown;
+      try {
+        const session = await createSession(client, system, {
+          tools: [writeFileTool],
+        });
+
+        // Drive the session to completion — emit text-delta events so the UI can show streaming progress.
+        let charsStreamed = 0;
+        let lastEmitChars = 0;
+        for await (const chunk of streamResponse(session, user)) {
+          if (chunk.type === 'delta') {
+            charsStreamed += chunk.content.length;
+            if (charsStreamed - lastEmitChars >= 100) {
+              lastEmitChars = charsStreamed;
+              const preview = chunk.accumulated.slice(-80).replace(/\n/g, ' ').trim();
+              onEvent?.({ type: 'text-delta', phase, chars: charsStreamed, preview });
+            }
+          }
+        }
+        if (charsStreamed > lastEmitChars) {
+          onEvent?.({ type: 'text-delta', phase, chars: charsStreamed, preview: '' });
+        }
+      } catch (error) {
+        if (phase !== 'slides') throw error;
+        sessionError = error;
+      }
 
-  // --- SDK-driven phases ---
-  for (let i = 0; i < PHASES.length; i++) {
-    const entry = PHASES[i]!;
-    const { phase, buildPrompt } = entry;
-
-    onEvent?.({ type: 'phase-start', phase, index: i, total: PHASES.length });
-
-    const { system, user } = await buildPrompt(workshop);
-
-    let filesWritten = 0;
-    const writeFileTool = createWriteFileTool(outputDir, {
-      onFileWritten(path, bytes) {
-        filesWritten++;
-        onEvent?.({ type: 'file-written', phase, path, bytes });
-      },
-    });
-
-    const session = await createSession(client, system, {
-      tools: [writeFileTool],
-    });
-
-    // Drive the session to completion — emit text-delta events so the UI can show streaming progress.
-    let charsStreamed = 0;
-    let lastEmitChars = 0;
-    for await (const chunk of streamResponse(session, user)) {
-      if (chunk.type === 'delta') {
-        charsStreamed += chunk.content.length;
-        if (charsStreamed - lastEmitChars >= 100) {
-          lastEmitChars = charsStreamed;
-          const preview = chunk.accumulated.slice(-80).replace(/\n/g, ' ').trim();
-          onEvent?.({ type: 'text-delta', phase, chars: charsStreamed, preview });
+      if (phase === 'slides' && (sessionError !== undefined || filesWritten === 0)) {
+        const reason = sessionError !== undefined
+          ? (sessionError instanceof Error ? sessionError.message : String(sessionError))
+          : 'the model wrote no files';
+        onEvent?.({ type: 'slides-fallback', reason });
+        const slides = renderSlides(workshop);
+        for (const [path, content] of [['slides/index.html', slides.html], ['slides/styles.css', slides.css], ['slides/script.js', slides.js]] as const) {
+          if (await writeDirect(path, content, phase)) {
+            onEvent?.({ type: 'file-written', phase, path, bytes: Buffer.byteLength(content, 'utf-8') });
+          }
         }
+      } else if (filesWritten === 0) {
+        console.warn(`Warning: phase "${phase}" produced no files — the model may not have used the write_file tool.`);
       }
-    }
-    if (charsStreamed > lastEmitChars) {
-      onEvent?.({ type: 'text-delta', phase, chars: charsStreamed, preview: '' });
-    }
 
-    if (filesWritten === 0) {
-      console.warn(`Warning: phase "${phase}" produced no files — the model may not have used the write_file tool.`);
+      onEvent?.({ type: 'phase-complete', phase });
     }
 
-    onEvent?.({ type: 'phase-complete', phase });
+    // --- Static files ---
+    for (const { path, content } of getStaticFiles(workshop)) {
+      if (await writeDirect(path, content, 'static')) {
+        onEvent?.({ type: 'static-written', path });
+      }
+    }
+  } finally {
+    // Record what was written even if a later phase failed
+    await saveManifest(outputDir, manifest);
   }
 
-  // --- Static files ---
-  await writeStaticFiles(workshop, outputDir, onEvent);
+  // --- Smoke test ---
+  const report = await verifyRepo(workshop, outputDir);
+  onEvent?.({ type: 'verified', report });
 
   onEvent?.({ type: 'complete', outputDir });
+  return report;
 }
 
 // ---------------------------------------------------------------------------
 // Static file helpers
 // ---------------------------------------------------------------------------
 
-async function writeStaticFiles(
-  workshop: Workshop,
-  outputDir: string,
-  onEvent?: (event: GenerateRepoEvent) => void,
-): Promise<void> {
-  // INSTRUCTOR.md — full markdown export (for the instructor, not attendees)
-  const instructorMd = exportToMarkdown(workshop);
-  const instructorPath = join(outputDir, 'INSTRUCTOR.md');
-  await writeFile(instructorPath, instructorMd, 'utf-8');
-  onEvent?.({ type: 'static-written', path: 'INSTRUCTOR.md' });
-
-  // GitHub Actions workflow for deploying slides to GitHub Pages
-  const workflowDir = join(outputDir, '.github', 'workflows');
-  await mkdir(workflowDir, { recursive: true });
-  const workflowPath = join(workflowDir, 'deploy-slides.yml');
-  await writeFile(workflowPath, DEPLOY_SLIDES_WORKFLOW, 'utf-8');
-  onEvent?.({ type: 'static-written', path: '.github/workflows/deploy-slides.yml' });
-
-  // .gitignore
-  const gitignorePath = join(outputDir, '.gitignore');
-  await writeFile(gitignorePath, GITIGNORE_CONTENT, 'utf-8');
-  onEvent?.({ type: 'static-written', path: '.gitignore' });
-
-  // LICENSE (MIT)
-  const licensePath = join(outputDir, 'LICENSE');
-  await writeFile(licensePath, generateMitLicense(), 'utf-8');
-  onEvent?.({ type: 'static-written', path: 'LICENSE' });
+/**
+ * Files written directly after the SDK phases, with repo-relative paths
+ */
+function getStaticFiles(workshop: Workshop): Array<{ path: string; content: string }> {
+  return [
+    // Full markdown export (for the instructor, not attendees)
+    { path: 'INSTRUCTOR.md', content: exportToMarkdown(workshop, { audience: 'instructor' }) },
+    // GitHub Actions workflow for deploying slides to GitHub Pages
+    { path: '.github/workflows/deploy-slides.yml', content: DEPLOY_SLIDES_WORKFLOW },
+    { path: '.gitignore', content: GITIGNORE_CONTENT },
+    // LICENSE (MIT)
+    { path: 'LICENSE', content: generateMitLicense() },
+  ];
 }
 
 // ---------------------------------------------------------------------------
@@ -0,0 +1,97 @@
+/**
+ * Generation manifest for template repos — records a content hash for every
+ * file `generateRepo()` writes, so the next run can tell which files were
+ * edited by hand since and leave them alone. Existing files the manifest
+ * doesn't list are recorded as found, so from the next run on they count as
+ * generated unless they change.
+ */
+
+import { createHash } from 'node:crypto';
+import { readFile, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import type { RepoPhase } from './repo-generate.js';
+
+/** Manifest location, relative to the repo root */
+export const MANIFEST_FILE = '.workshop-manifest.json';
+
+const MANIFEST_VERSION = 1;
+
+/** Who writes a file: an SDK phase, or the static templates */
+export type FileOrigin = RepoPhase | 'static';
+
+export interface ManifestEntry {
+  /** SHA-256 of the content as generated */
+  sha256: string;
+  origin: FileOrigin;
+}
+
+export interface RepoManifest {
+  version: number;
+  /** Keyed by repo-relative path with `/` separators */
+  files: Record<string, ManifestEntry>;
+}
+
+/**
+ * Read the manifest of a repo; a repo without one gets an empty manifest.
+ * @throws Error if the manifest exists but is not valid
+ */
+export async function loadManifest(outputDir: string): Promise<RepoManifest> {
+  const path = join(outputDir, MANIFEST_FILE);
+  let text: string;
+  try {
+    text = await readFile(path, 'utf-8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return { version: MANIFEST_VERSION, files: {} };
+    }
+    throw error;
+  }
+
+  let manifest: unknown;
+  try {
+    manifest = JSON.parse(text);
+  } catch (error) {
+    throw new Error(`Invalid generation manifest at ${path}: ${error instanceof Error ? error.message : String(error)}. Delete it to treat every existing file as edited by hand.`, { cause: error });
+  }
+  if (typeof manifest !== 'object' || manifest === null || typeof (manifest as RepoManifest).files !== 'object') {
+    throw new Error(`Invalid generation manifest at ${path}: expected an object with "files". Delete it to treat every existing file as edited by hand.`);
+  }
+  return manifest as RepoManifest;
+}
+
+export async function saveManifest(outputDir: string, manifest: RepoManifest): Promise<void> {
+  const sorted = Object.fromEntries(Object.entries(manifest.files).sort(([a], [b]) => a.localeCompare(b)));
+  await writeFile(join(outputDir, MANIFEST_FILE), `${JSON.stringify({ version: MANIFEST_VERSION, files: sorted }, null, 2)}\n`, 'utf-8');
+}
+
+export function hashContent(content: string): string {
+  return createHash('sha256').update(content, 'utf-8').digest('hex');
+}
+
+/**
+ * How a file on disk relates to the manifest:
+ * - missing: not on disk, safe to write
+ * - generated: unchanged since it was generated, safe to overwrite
+ * - edited: changed since it was generated
+ * - unknown: on disk but not in the manifest (added by hand, or generated
+ *   before the repo had a manifest), so edits can't be ruled out
+ */
+export type FileState = 'missing' | 'generated' | 'edited' | 'unknown';
+
+/**
+ * Check a file against the manifest before overwriting it.
+ * @param path - Repo-relative path with `/` separators
+ * @returns The file's state, and the hash of its current content if it exists
+ */
+export async function getFileState(outputDir: string, manifest: RepoManifest, path: string): Promise<{ state: FileState; sha256?: string }> {
+  let current: string;
+  try {
+    current = await readFile(join(outputDir, path), 'utf-8');
+  } catch {
+    return { state: 'missing' };
+  }
+  const sha256 = hashContent(current);
+  const entry = manifest.files[path];
+  if (!entry) return { state: 'unknown', sha256 };
+  return { state: entry.sha256 === sha256 ? 'generated' : 'edited', sha256 };
+}
@@ -0,0 +1,376 @@
+/**
+ * Smoke test for a generated template repo.
+ *
+ * The model writes slides and the code scaffold through `write_file`, so
+ * nothing guarantees the result hangs together. These checks read the repo
+ * back: code manifests parse, every exercise has starter and solution files
+ * with TODO markers, the slides load their assets, and relative links
+ * resolve. Each check names the phase whose files it looked at, so a failing
+ * phase can be re-run on its own.
+ */
+
+import { readFile, readdir, stat } from 'node:fs/promises';
+import { dirname, join, normalize, posix, relative, resolve, sep } from 'node:path';
+import type { Severity } from '../validation.js';
+import type { Workshop } from '../schema.js';
+import type { RepoPhase } from './repo-generate.js';
+
+/**
+ * Repo check metadata, keyed by stable ID. IDs are never reused or renumbered.
+ */
+export const REPO_RULES = {
+  RP001: { rule: 'code_manifest', severity: 'error', description: 'code/ has a dependency manifest (package.json, requirements.txt, ...) that parses' },
+  RP002: { rule: 'exercise_files', severity: 'error', description: 'Every exercise has a starter file under code/src/ and a solution under code/solutions/' },
+  RP003: { rule: 'todo_markers', severity: 'warning', description: 'Starter files mark each exercise and project milestone with a TODO comment' },
+  RP004: { rule: 'slide_assets', severity: 'error', description: 'slides/index.html exists and loads styles.css and script.js' },
+  RP005: { rule: 'internal_links', severity: 'warning', description: 'Relative links in the slides and READMEs point to existing files and anchors' },
+  RP006: { rule: 'readme', severity: 'error', description: 'The repo root has a README.md' },
+} as const satisfies Record<string, { rule: string; severity: Severity; description: string }>;
+
+export type RepoRuleId = keyof typeof REPO_RULES;
+
+/**
+ * Single repo check result
+ */
+export interface RepoCheck {
+  id: RepoRuleId;
+  rule: string;
+  severity: Severity;
+  /** Generation phase that writes the checked files */
+  phase: RepoPhase;
+  passed: boolean;
+  message: string;
+  /** Repo-relative path of the file the check is about */
+  file?: string;
+}
+
+/**
+ * Result of checking a generated repo
+ */
+export interface RepoReport {
+  outputDir: string;
+  /** True when no error-severity check failed */
+  passed: boolean;
+  /** Phases with failing error or warning checks, in generation order */
+  failedPhases: RepoPhase[];
+  checks: RepoCheck[];
+}
+
+const PHASE_ORDER: RepoPhase[] = ['slides', 'scaffold', 'readme'];
+
+/** Manifests that only need to exist; package.json-style ones are also parsed */
+const OTHER_MANIFESTS = ['pyproject.toml', 'go.mod', 'Cargo.toml', 'pom.xml', 'build.gradle', 'build.gradle.kts', 'Gemfile'];
+
+/** A requirements.txt line: `name[extras] <op> version, ... ; marker` */
+const REQUIREMENT_LINE = /^[A-Za-z0-9][A-Za-z0-9._-]*(\[[A-Za-z0-9._,\s-]+\])?\s*((===?|!=|~=|<=?|>=?)\s*[^\s,;]+\s*(,\s*(===?|!=|~=|<=?|>=?)\s*[^\s,;]+\s*)*)?(;.*)?$/;
+
+/** Links with a scheme (https:, mailto:, data:) or protocol-relative ones leave the repo */
+const EXTERNAL_LINK = /^([a-z][a-z0-9+.-]*:|\/\/)/i;
+
+/**
+ * Check a generated template repo on disk.
+ * @param workshop - Workshop the repo was generated from
+ * @param outputDir - Repo root
+ */
+export async function verifyRepo(workshop: Workshop, outputDir: string): Promise<RepoReport> {
+  const checks: RepoCheck[] = [];
+  const add = (id: RepoRuleId, phase: RepoPhase, passed: boolean, message: string, file?: string) => {
+    const { rule, severity } = REPO_RULES[id];
+    checks.push({ id, rule, severity, phase, passed, message, ...(file ? { file } : {}) });
+  };
+
+  // Scaffold: manifests, exercise files, TODO markers
+  await checkManifests(outputDir, add);
+  await checkExerciseFiles(workshop, outputDir, add);
+
+  // Slides: index.html and its assets
+  const slidesHtml = await readText(join(outputDir, 'slides', 'index.html'));
+  if (slidesHtml === undefined) {
+    add('RP004', 'slides', false, 'slides/index.html is missing', 'slides/index.html');
+  } else {
+    const refs = new Set(extractHtmlRefs(slidesHtml).map((ref) => posix.normalize(ref.split(/[?#]/)[0]!)));
+    let assetsOk = true;
+    for (const asset of ['styles.css', 'script.js']) {
+      if (!refs.has(asset)) {
+        assetsOk = false;
+        add('RP004', 'slides', false, `slides/index.html doesn't reference ${asset}`, 'slides/index.html');
+      } else if (!(await exists(join(outputDir, 'slides', asset)))) {
+        assetsOk = false;
+        add('RP004', 'slides', false, `slides/index.html references ${asset}, but slides/${asset} is missing`, 'slides/index.html');
+      }
+    }
+    if (assetsOk) {
+      add('RP004', 'slides', true, 'slides/index.html loads styles.css and script.js');
+    }
+  }
+
+  // README
+  const readme = await readText(join(outputDir, 'README.md'));
+  add('RP006', 'readme', readme !== undefined, readme !== undefined ? 'README.md exists' : 'README.md is missing at the repo root', 'README.md');
+
+  // Links in every document attendees navigate
+  const documents: Array<{ file: string; phase: RepoPhase; text: string | undefined; kind: 'html' | 'markdown' }> = [
+    { file: 'slides/index.html', phase: 'slides', text: slidesHtml, kind: 'html' },
+    { file: 'README.md', phase: 'readme', text: readme, kind: 'markdown' },
+    { file: 'code/README.md', phase: 'scaffold', text: await readText(join(outputDir, 'code', 'README.md')), kind: 'markdown' },
+  ];
+  let linkCount = 0;
+  let brokenLinks = 0;
+  for (const { file, phase, text, kind } of documents) {
+    if (text === undefined) continue;
+    const links = kind === 'html' ? extractHtmlRefs(text) : extractMarkdownLinks(text);
+    for (const link of links) {
+      linkCount++;
+      const problem = await findLinkProblem(outputDir, file, text, kind, link);
+      if (problem) {
+        brokenLinks++;
+        add('RP005', phase, false, `${file}: ${problem}`, file);
+      }
+    }
+  }
+  if (brokenLinks === 0) {
+    add('RP005', 'slides', true, `All ${linkCount} relative links resolve`);
+  }
+
+  const failedPhases = PHASE_ORDER.filter((phase) =>
+    checks.some((c) => c.phase === phase && !c.passed && c.severity !== 'info'));
+  return {
+    outputDir,
+    passed: checks.every((c) => c.passed || c.severity !== 'error'),
+    failedPhases,
+    checks,
+  };
+}
+
+/**
+ * Serialize a repo report as JSON for CI and scripts.
+ */
+export function formatRepoReport(report: RepoReport): string {
+  return JSON.stringify(report, null, 2);
+}
+
+type AddCheck = (id: RepoRuleId, phase: RepoPhase, passed: boolean, message: string, file?: string) => void;
+
+async function checkManifests(outputDir: string, add: AddCheck): Promise<void> {
+  let found = 0;
+  let broken = 0;
+
+  for (const name of ['package.json', 'composer.json']) {
+    const text = await readText(join(outputDir, 'code', name));
+    if (text === undefined) continue;
+    found++;
+    try {
+      const parsed: unknown = JSON.parse(text);
+      if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+        throw new Error('expected a JSON object');
+      }
+    } catch (error) {
+      broken++;
+      add('RP001', 'scaffold', false, `code/${name} doesn't parse: ${error instanceof Error ? error.message : String(error)}`, `code/${name}`);
+    }
+  }
+
+  const requirements = await readText(join(outputDir, 'code', 'requirements.txt'));
+  if (requirements !== undefined) {
+    found++;
+    for (const [idx, rawLine] of requirements.split('\n').entries()) {
+      const line = rawLine.replace(/\s+#.*$/, '').trim();
+      // Skip comments, blank lines, pip options (-r, -e, --index-url) and direct URLs/paths
+      if (!line || line.startsWith('#') || line.startsWith('-') || EXTERNAL_LINK.test(line) || line.startsWith('.')) continue;
+      if (!REQUIREMENT_LINE.test(line)) {
+        broken++;
+        add('RP001', 'scaffold', false, `code/requirements.txt line ${idx + 1} isn't a valid requirement: ${line}`, 'code/requirements.txt');
+      }
+    }
+  }
+
+  for (const name of OTHER_MANIFESTS) {
+    if (await exists(join(outputDir, 'code', name))) found++;
+  }
+
+  if (found === 0) {
+    add('RP001', 'scaffold', false, `code/ has no dependency manifest (package.json, requirements.txt, ${OTHER_MANIFESTS.join(', ')})`, 'code');
+  } else if (broken === 0) {
+    add('RP001', 'scaffold', true, `${found} code manifest(s) parse`);
+  }
+}
+
+/**
+ * Match exercises to files. Multi-file exercises must use their exact paths;
+ * single-file ones are found by their `TODO: Exercise N` marker (or a file
+ * named after the title) and need a solution at the same path.
+ */
+async function checkExerciseFiles(workshop: Workshop, outputDir: string, add: AddCheck): Promise<void> {
+  const srcDir = join(outputDir, 'code', 'src');
+  const solutionsDir = join(outputDir, 'code', 'solutions');
+  const srcFiles = await readTree(srcDir);
+  const solutionPaths = new Set((await readTree(solutionsDir)).map((file) => file.path));
+
+  let exerciseNumber = 0;
+  let missingFiles = 0;
+  let missingMarkers = 0;
+  for (const module of workshop.modules) {
+    for (const section of module.sections) {
+      if (section.type === 'project') {
+        for (const [milestoneIdx] of section.milestones.entries()) {
+          const marker = new RegExp(`TODO:?\\s*Project\\s+${escapeRegExp(section.title)}\\s*[-–—:]\\s*Milestone\\s+${milestoneIdx + 1}\\b`, 'i');
+          if (!srcFiles.some((file) => marker.test(file.text))) {
+            missingMarkers++;
+            add('RP003', 'scaffold', false, `No starter file under code/src/ has a "TODO: Project ${section.title} - Milestone ${milestoneIdx + 1}" marker`);
+          }
+        }
+        continue;
+      }
+      if (section.type !== 'exercise') continue;
+      exerciseNumber++;
+      const label = `Exercise ${exerciseNumber} (${section.title})`;
+
+      if (section.files && section.files.length > 0) {
+        for (const file of section.files) {
+          const path = posix.normalize(file.path);
+          if (file.starter.trim() && !srcFiles.some((f) => f.path === path)) {
+            missingFiles++;
+            add('RP002', 'scaffold', false, `${label}: code/src/${path} is missing`, `code/src/${path}`);
+          }
+          if (!solutionPaths.has(path)) {
+            missingFiles++;
+            add('RP002', 'scaffold', false, `${label}: code/solutions/${path} is missing`, `code/solutions/${path}`);
+          }
+        }
+        const starters = srcFiles.filter((f) => section.files!.some((file) => posix.normalize(file.path) === f.path));
+        if (starters.length > 0 && !starters.some((f) => /\bTODO\b/.test(f.text))) {
+          missingMarkers++;
+          add('RP003', 'scaffold', false, `${label}: none of its starter files has a TODO marker`);
+        }
+        continue;
+      }
+
+      const marker = new RegExp(`TODO:?\\s*Exercise\\s+(${exerciseNumber}\\b|${escapeRegExp(section.title)})`, 'i');
+      const slug = slugify(section.title);
+      let matches = srcFiles.filter((file) => marker.test(file.text));
+      if (matches.length === 0) {
+        matches = srcFiles.filter((file) => slug && slugify(posix.basename(file.path).replace(/\.[^.]+$/, '')) === slug);
+        if (matches.length > 0) {
+          missingMarkers++;
+          add('RP003', 'scaffold', false, `${label}: code/src/${matches[0]!.path} has no "TODO: Exercise ${exerciseNumber} - ${section.title}" marker`, `code/src/${matches[0]!.path}`);
+        }
+      }
+      if (matches.length === 0) {
+        missingFiles++;
+        add('RP002', 'scaffold', false, `${label}: no starter file under code/src/ (expected a "TODO: Exercise ${exerciseNumber} - ${section.title}" marker)`);
+        continue;
+      }
+      for (const file of matches) {
+        if (!solutionPaths.has(file.path)) {
+          missingFiles++;
+          add('RP002', 'scaffold', false, `${label}: code/src/${file.path} has no solution at code/solutions/${file.path}`, `code/solutions/${file.path}`);
+        }
+      }
+    }
+  }
+
+  if (missingFiles === 0) {
+    add('RP002', 'scaffold', true, `All ${exerciseNumber} exercises have starter and solution files`);
+  }
+  if (missingMarkers === 0) {
+    add('RP003', 'scaffold', true, 'Every exercise and project milestone has a TODO marker');
+  }
+}
+
+/**
+ * Why a relative link doesn't resolve, or undefined if it does (or isn't relative)
+ */
+async function findLinkProblem(
+  outputDir: string,
+  file: string,
+  text: string,
+  kind: 'html' | 'markdown',
+  link: string,
+): Promise<string | undefined> {
+  if (EXTERNAL_LINK.test(link)) return undefined;
+  const [target = '', anchor] = link.split('#', 2);
+  const pathPart = target.split('?')[0]!;
+
+  if (!pathPart) {
+    // Same-page anchor; Markdown heading slugs depend on the renderer, so only HTML ids are checked
+    if (kind === 'html' && anchor && !new RegExp(`\\b(id|name)\\s*=\\s*["']${escapeRegExp(anchor)}["']`).test(text)) {
+      return `anchor #${anchor} has no matching id`;
+    }
+    return undefined;
+  }
+
+  let decoded: string;
+  try {
+    decoded = decodeURIComponent(pathPart);
+  } catch {
+    return `link ${link} is not a valid URL`;
+  }
+  const root = resolve(outputDir);
+  const targetPath = resolve(root, dirname(file), decoded);
+  if (targetPath !== root && !targetPath.startsWith(root + sep)) {
+    return `link ${link} points outside the repo`;
+  }
+  if (!(await exists(targetPath))) {
+    return `link ${link} points to ${relative(root, targetPath).split(sep).join('/')}, which doesn't exist`;
+  }
+  return undefined;
+}
+
+/** `href` and `src` attribute values in an HTML document */
+function extractHtmlRefs(html: string): string[] {
+  return [...html.matchAll(/\b(?:href|src)\s*=\s*["']([^"']*)["']/gi)].map((match) => match[1]!.trim()).filter(Boolean);
+}
+
+/** Inline link and image targets in a Markdown document, outside code fences */
+function extractMarkdownLinks(markdown: string): string[] {
+  const withoutCode = markdown.replace(/```[\s\S]*?```/g, '').replace(/`[^`\n]*`/g, '');
+  return [...withoutCode.matchAll(/\]\(\s*<?([^)\s>]+)>?(?:\s+["'][^"']*["'])?\s*\)/g)].map((match) => match[1]!);
+}
+
+/** Every file under `dir` (skipping node_modules), with paths relative to it using `/` */
+async function readTree(dir: string): Promise<Array<{ path: string; text: string }>> {
+  const files: Array<{ path: string; text: string }> = [];
+  const walk = async (current: string) => {
+    let entries;
+    try {
+      entries = await readdir(current, { withFileTypes: true });
+    } catch {
+      return;
+    }
+    for (const entry of entries) {
+      const full = join(current, entry.name);
+      if (entry.isDirectory()) {
+        if (entry.name !== 'node_modules') await walk(full);
+      } else if (entry.isFile()) {
+        files.push({ path: normalize(relative(dir, full)).split(sep).join('/'), text: await readFile(full, 'utf-8') });
+      }
+    }
+  };
+  await walk(dir);
+  return files;
+}
+
+async function readText(path: string): Promise<string | undefined> {
+  try {
+    return await readFile(path, 'utf-8');
+  } catch {
+    return undefined;
+  }
+}
+
+async function exists(path: string): Promise<boolean> {
+  try {
+    await stat(path);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function slugify(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,225 @@
+import { writeFile } from 'node:fs/promises';
+import type { CheckpointQuestion, Module, Section, Workshop } from '../schema.js';
+import { inferLanguage, normalizeLanguage, sectionLanguage } from '../languages.js';
+import { escapeHtml, renderInline, renderProse } from './html.js';
+
+/**
+ * reveal.js deck for presenters — one vertical stack per module. Lectures
+ * become title slides with the talking points as speaker notes, exercises code
+ * slides with hints as fragments, and checkpoint questions question/answer
+ * slide pairs. reveal.js itself is loaded from a CDN.
+ */
+
+const REVEAL_CDN = 'https://cdn.jsdelivr.net/npm/reveal.js@5';
+
+/**
+ * Converts a Workshop object to a reveal.js HTML document.
+ */
+export function exportToRevealJs(workshop: Workshop): string {
+  const slides: string[] = [];
+
+  // Title slide
+  slides.push([
+    '<section>',
+    `<h1>${escapeHtml(workshop.title)}</h1>`,
+    `<p>${escapeHtml(workshop.topic)} · ${workshop.duration} min</p>`,
+    workshop.prerequisites.length > 0
+      ? `<aside class="notes"><p>Prerequisites:</p><ul>${workshop.prerequisites.map((prereq) => `<li>${renderInline(prereq)}</li>`).join('')}</ul></aside>`
+      : '',
+    '</section>',
+  ].filter(Boolean).join('\n'));
+
+  // One vertical stack per module
+  workshop.modules.forEach((module, moduleIdx) => {
+    slides.push(`<section>\n${renderModule(module, moduleIdx, workshop).join('\n')}\n</section>`);
+  });
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(workshop.title)}</title>
+<link rel="stylesheet" href="${REVEAL_CDN}/dist/reveal.css">
+<link rel="stylesheet" href="${REVEAL_CDN}/dist/theme/black.css">
+<link rel="stylesheet" href="${REVEAL_CDN}/plugin/highlight/monokai.css">
+<style>
+.reveal pre { width: 100%; font-size: 0.5em; }
+.reveal .code-label { font-family: monospace; font-size: 0.5em; opacity: 0.7; margin-bottom: 0; }
+.reveal .answer { color: #8fdc8f; }
+.reveal .slide-meta { font-size: 0.6em; opacity: 0.7; }
+</style>
+</head>
+<body>
+<div class="reveal">
+<div class="slides">
+${slides.join('\n')}
+</div>
+</div>
+<script src="${REVEAL_CDN}/dist/reveal.js"></script>
+<script src="${REVEAL_CDN}/plugin/notes/notes.js"></script>
+<script src="${REVEAL_CDN}/plugin/highlight/highlight.js"></script>
+<script>
+Reveal.initialize({ hash: true, plugins: [RevealHighlight, RevealNotes] });
+</script>
+</body>
+</html>
+`;
+}
+
+function renderModule(module: Module, moduleIdx: number, workshop: Workshop): string[] {
+  const slides: string[] = [];
+  slides.push(slide([
+    `<h2>${moduleIdx + 1}. ${escapeHtml(module.title)}</h2>`,
+    `<p class="slide-meta">${module.duration} min</p>`,
+    module.learning_objectives.length > 0
+      ? `<ul>${module.learning_objectives.map((objective) => `<li>${renderInline(objective.text)}</li>`).join('')}</ul>`
+      : '',
+  ]));
+
+  module.sections.forEach((section) => {
+    slides.push(...renderSection(section, workshop));
+  });
+  return slides;
+}
+
+function renderSection(section: Section, workshop: Workshop): string[] {
+  const heading = `<h3>${escapeHtml(section.title)}</h3>`;
+  const timing = `<p>${section.duration} min</p>`;
+
+  switch (section.type) {
+    case 'lecture':
+      return [slide([heading], [notesList(section.talking_points), timing])];
+
+    case 'exercise': {
+      const language = sectionLanguage(section, workshop);
+      const hints = section.hints.map((hint, idx) => `<p class="fragment">Hint ${idx + 1}: ${renderInline(hint)}</p>`);
+      if (section.files && section.files.length > 0) {
+        const starter = section.files.map((file) => file.starter.trim()
+          ? codeBlock(file.starter, normalizeLanguage(file.language), file.path)
+          : `<p class="code-label">${escapeHtml(file.path)}</p><p><em>New file</em></p>`);
+        const solution = section.files.map((file) => codeBlock(file.solution, normalizeLanguage(file.language), file.path));
+        return [
+          slide([heading, renderProse(section.instructions, codeBlock)], [timing]),
+          slide([heading, ...starter, ...hints]),
+          slide([`<h3>Solution: ${escapeHtml(section.title)}</h3>`, ...solution]),
+        ];
+      }
+      return [
+        slide([heading, renderProse(section.instructions, codeBlock)], [timing]),
+        slide([heading, codeBlock(section.starter_code, language), ...hints]),
+        slide([`<h3>Solution: ${escapeHtml(section.title)}</h3>`, codeBlock(section.solution, language)]),
+      ];
+    }
+
+    case 'discussion':
+      return [slide([
+        heading,
+        `<ul>${section.prompts.map((prompt) => `<li class="fragment">${renderInline(prompt)}</li>`).join('')}</ul>`,
+      ], [timing])];
+
+    case 'checkpoint': {
+      const language = inferLanguage(workshop.audience.stack) ?? '';
+      return section.questions.flatMap((question, idx) => {
+        const title = `<h3>${escapeHtml(section.title)} (${idx + 1}/${section.questions.length})</h3>`;
+        return [
+          slide([title, ...renderQuestion(question, language)]),
+          slide([title, ...renderAnswer(question)]),
+        ];
+      });
+    }
+
+    case 'demo':
+      return [slide([
+        heading,
+        `<ol>${section.script.map((step) => `<li class="fragment">${renderInline(step)}</li>`).join('')}</ol>`,
+      ], [`<p>If the live demo fails: ${renderInline(section.fallback_notes)}</p>`, timing])];
+
+    case 'break':
+      return [slide([`<h2>${escapeHtml(section.title)}</h2>`, timing])];
+
+    case 'project': {
+      const language = sectionLanguage(section, workshop);
+      const slides = [slide([heading, renderProse(section.brief, codeBlock)], [timing])];
+      section.milestones.forEach((milestone, idx) => {
+        slides.push(slide([
+          `<h3>Milestone ${idx + 1}: ${escapeHtml(milestone.title)}</h3>`,
+          renderProse(milestone.instructions, codeBlock),
+          codeBlock(milestone.starter_code, language),
+        ]));
+        slides.push(slide([
+          `<h3>Solution: Milestone ${idx + 1}</h3>`,
+          codeBlock(milestone.solution, language),
+        ]));
+      });
+      if (section.rubric.length > 0) {
+        slides.push(slide([
+          `<h3>${escapeHtml(section.title)}: Rubric</h3>`,
+          `<ul>${section.rubric.map((item) => `<li>${renderInline(item.criterion)} (${item.points} pts)</li>`).join('')}</ul>`,
+        ]));
+      }
+      return slides;
+    }
+  }
+}
+
+function renderQuestion(question: CheckpointQuestion, language: string): string[] {
+  const prompt = `<p>${renderInline(question.prompt)}</p>`;
+  switch (question.type) {
+    case 'multiple_choice':
+      return [prompt, `<ol type="A">${question.options.map((option) => `<li>${renderInline(option)}</li>`).join('')}</ol>`];
+    case 'true_false':
+      return [prompt, '<p><em>True or false?</em></p>'];
+    case 'short_answer':
+      return [prompt];
+    case 'code_output':
+      return [prompt, codeBlock(question.code, language), '<p><em>What does this print?</em></p>'];
+  }
+}
+
+function renderAnswer(question: CheckpointQuestion): string[] {
+  const explanation = question.explanation ? [`<p>${renderInline(question.explanation)}</p>`] : [];
+  switch (question.type) {
+    case 'multiple_choice':
+      return [
+        `<p class="answer">${String.fromCharCode(65 + question.correct_index)}) ${renderInline(question.options[question.correct_index] ?? '')}</p>`,
+        ...explanation,
+      ];
+    case 'true_false':
+      return [`<p class="answer">${question.answer ? 'True' : 'False'}</p>`, ...explanation];
+    case 'short_answer':
+      return [`<p class="answer">${renderInline(question.answer)}</p>`, ...explanation];
+    case 'code_output':
+      return [codeBlock(question.expected_output, 'plaintext'), ...explanation];
+  }
+}
+
+/**
+ * One slide from HTML fragments; `notes` become speaker notes (press `s` in reveal.js).
+ */
+function slide(content: string[], notes: string[] = []): string {
+  const body = content.filter(Boolean);
+  if (notes.length > 0) {
+    body.push(`<aside class="notes">\n${notes.join('\n')}\n</aside>`);
+  }
+  return `<section>\n${body.join('\n')}\n</section>`;
+}
+
+function notesList(points: string[]): string {
+  return `<ul>${points.map((point) => `<li>${renderInline(point)}</li>`).join('')}</ul>`;
+}
+
+function codeBlock(code: string, language: string, label?: string): string {
+  const caption = label ? `<p class="code-label">${escapeHtml(label)}</p>\n` : '';
+  return `${caption}<pre><code${language ? ` class="language-${escapeHtml(language)}"` : ''} data-trim>${escapeHtml(code)}</code></pre>`;
+}
+
+/**
+ * Exports a Workshop to a reveal.js HTML file on disk.
+ */
+export async function exportToRevealJsFile(
+  workshop: Workshop,
+  outputPath: string
+): Promise<void> {
+  await writeFile(outputPath, exportToRevealJs(workshop), 'utf-8');
+}
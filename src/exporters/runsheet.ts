@@ -0,0 +1,353 @@
+import { writeFile } from 'node:fs/promises';
+import type { Section, Workshop } from '../schema.js';
+import { slugifyTopic } from '../workshops.js';
+import { formatMinutes } from './html.js';
+
+/**
+ * Facilitator run sheet: wall-clock start and end times for every module and
+ * section from a start time, with fixed-time breaks (coffee, lunch) inserted.
+ *
+ * Breaks are booked at a time of day, so they don't move: a section that is
+ * still running when a break starts is paused for the break, finishes after
+ * it, and is flagged so the facilitator can reorder or trim. Written as
+ * Markdown, CSV and iCalendar (one event per section or break; paused sections
+ * become one event per part).
+ */
+
+/** A break booked at a time of day, in minutes since midnight */
+export interface ScheduledBreak {
+  start: number;
+  duration: number;
+}
+
+export interface RunSheetOptions {
+  start: number; // minutes since midnight
+  breaks?: ScheduledBreak[];
+}
+
+export interface RunSheetEntry {
+  kind: 'section' | 'break';
+  title: string;
+  type: Section['type'] | 'break';
+  moduleIdx?: number; // sections only
+  start: number;
+  end: number;
+  duration: number; // planned minutes, without breaks that pause the section
+  parts: Array<{ start: number; end: number }>; // more than one when paused by a break
+  crossesBreaks: ScheduledBreak[];
+}
+
+export interface RunSheet {
+  title: string;
+  topic: string;
+  start: number;
+  end: number;
+  modules: Array<{ title: string; start: number; end: number; duration: number }>;
+  entries: RunSheetEntry[];
+  unusedBreaks: ScheduledBreak[]; // booked after the workshop ends
+}
+
+const DAY = 24 * 60;
+
+/**
+ * Parse a time of day like "09:30" into minutes since midnight.
+ */
+export function parseClockTime(value: string): number {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value.trim());
+  const hours = Number(match?.[1]);
+  const minutes = Number(match?.[2]);
+  if (!match || hours > 23 || minutes > 59) {
+    throw new Error(`Invalid time "${value}" (expected HH:MM, e.g. 09:30)`);
+  }
+  return hours * 60 + minutes;
+}
+
+/**
+ * Parse a break list like "10:45/15,12:30/60" (start/minutes, comma-separated).
+ */
+export function parseBreaks(value: string): ScheduledBreak[] {
+  const breaks = value.split(',').map((item) => item.trim()).filter(Boolean).map((item) => {
+    const [time, minutes, ...rest] = item.split('/');
+    const duration = Number(minutes);
+    if (time === undefined || minutes === undefined || rest.length > 0 || !Number.isInteger(duration) || duration <= 0) {
+      throw new Error(`Invalid break "${item}" (expected HH:MM/minutes, e.g. 12:30/60)`);
+    }
+    return { start: parseClockTime(time), duration };
+  });
+  breaks.sort((a, b) => a.start - b.start);
+  breaks.forEach((current, idx) => {
+    const previous = breaks[idx - 1];
+    if (previous && current.start < previous.start + previous.duration) {
+      throw new Error(`Breaks at ${formatClock(previous.start)} and ${formatClock(current.start)} overlap`);
+    }
+  });
+  return breaks;
+}
+
+/**
+ * "HH:MM" for minutes since midnight, wrapping past midnight.
+ */
+export function formatClock(minutes: number): string {
+  const time = ((minutes % DAY) + DAY) % DAY;
+  return `${String(Math.floor(time / 60)).padStart(2, '0')}:${String(time % 60).padStart(2, '0')}`;
+}
+
+/**
+ * Lay the workshop out on the clock.
+ */
+export function buildRunSheet(workshop: Workshop, options: RunSheetOptions): RunSheet {
+  const breaks = [...(options.breaks ?? [])].sort((a, b) => a.start - b.start);
+  const early = breaks.find((scheduled) => scheduled.start < options.start);
+  if (early) {
+    throw new Error(`Break at ${formatClock(early.start)} is before the start time ${formatClock(options.start)}`);
+  }
+
+  const entries: RunSheetEntry[] = [];
+  const modules: RunSheet['modules'] = [];
+  let clock = options.start;
+  let nextBreak = 0;
+
+  const takeBreak = (scheduled: ScheduledBreak) => {
+    entries.push({
+      kind: 'break',
+      title: 'Break',
+      type: 'break',
+      start: scheduled.start,
+      end: scheduled.start + scheduled.duration,
+      duration: scheduled.duration,
+      parts: [{ start: scheduled.start, end: scheduled.start + scheduled.duration }],
+      crossesBreaks: [],
+    });
+    clock = scheduled.start + scheduled.duration;
+    nextBreak++;
+  };
+
+  workshop.modules.forEach((module, moduleIdx) => {
+    let moduleStart: number | undefined;
+    for (const section of module.sections) {
+      // Breaks due before this section starts
+      while (breaks[nextBreak] && breaks[nextBreak]!.start <= clock) takeBreak(breaks[nextBreak]!);
+      moduleStart ??= clock;
+
+      const entry: RunSheetEntry = {
+        kind: 'section',
+        title: section.title,
+        type: section.type,
+        moduleIdx,
+        start: clock,
+        end: clock,
+        duration: section.duration,
+        parts: [],
+        crossesBreaks: [],
+      };
+      entries.push(entry);
+
+      // Run the section, pausing for any break that starts while it runs
+      let remaining = section.duration;
+      let partStart = clock;
+      while (breaks[nextBreak] && breaks[nextBreak]!.start < clock + remaining) {
+        const scheduled = breaks[nextBreak]!;
+        remaining -= scheduled.start - clock;
+        entry.parts.push({ start: partStart, end: scheduled.start });
+        entry.crossesBreaks.push(scheduled);
+        takeBreak(scheduled);
+        partStart = clock;
+      }
+      clock += remaining;
+      entry.parts.push({ start: partStart, end: clock });
+      entry.end = clock;
+    }
+    if (moduleStart !== undefined) {
+      modules.push({ title: module.title, start: moduleStart, end: clock, duration: module.duration });
+    }
+  });
+
+  return {
+    title: workshop.title,
+    topic: workshop.topic,
+    start: options.start,
+    end: clock,
+    modules,
+    entries,
+    unusedBreaks: breaks.slice(nextBreak),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Markdown
+// ---------------------------------------------------------------------------
+
+/**
+ * The run sheet as a Markdown table per module, breaks included.
+ */
+export function exportToRunSheetMarkdown(sheet: RunSheet): string {
+  const breakMinutes = sheet.entries.filter((entry) => entry.kind === 'break').reduce((sum, entry) => sum + entry.duration, 0);
+  const lines: string[] = [];
+  lines.push(`# ${sheet.title} — Run Sheet\n`);
+  lines.push(`\n**Start:** ${formatClock(sheet.start)} · **End:** ${formatClock(sheet.end)} · **Total:** ${formatMinutes(sheet.end - sheet.start)}${breakMinutes > 0 ? ` (including ${formatMinutes(breakMinutes)} of breaks)` : ''}\n`);
+
+  const flagged = sheet.entries.filter((entry) => entry.crossesBreaks.length > 0);
+  if (flagged.length > 0) {
+    lines.push(`\n> ⚠ ${flagged.length} section${flagged.length === 1 ? ' is' : 's are'} interrupted by a break: ${flagged.map((entry) => `"${entry.title}"`).join(', ')}. Consider moving or trimming ${flagged.length === 1 ? 'it' : 'them'}.\n`);
+  }
+
+  let currentModule: number | undefined;
+  const tableHeader = `\n| Start | End | Section | Type | Min | Notes |\n|-------|-----|---------|------|-----|-------|\n`;
+  for (const entry of sheet.entries) {
+    if (entry.kind === 'section' && entry.moduleIdx !== currentModule) {
+      currentModule = entry.moduleIdx!;
+      const module = sheet.modules[currentModule]!;
+      lines.push(`\n## ${currentModule + 1}. ${module.title} (${formatClock(module.start)}–${formatClock(module.end)})\n`);
+      lines.push(tableHeader);
+    } else if (currentModule === undefined) {
+      // A break before the first section
+      currentModule = -1;
+      lines.push(tableHeader);
+    }
+    lines.push(`| ${formatClock(entry.start)} | ${formatClock(entry.end)} | ${entry.kind === 'break' ? '**Break**' : cell(entry.title)} | ${entry.type} | ${entry.duration} | ${cell(entryNotes(entry))} |\n`);
+  }
+
+  if (sheet.unusedBreaks.length > 0) {
+    lines.push(`\n*Not used (after the end): ${sheet.unusedBreaks.map((scheduled) => `${formatClock(scheduled.start)} (${scheduled.duration} min)`).join(', ')}*\n`);
+  }
+  return lines.join('');
+}
+
+function entryNotes(entry: RunSheetEntry): string {
+  if (entry.crossesBreaks.length === 0) return '';
+  const parts = entry.parts.map((part) => `${formatClock(part.start)}–${formatClock(part.end)}`).join(', ');
+  return `⚠ Crosses the ${entry.crossesBreaks.map((scheduled) => formatClock(scheduled.start)).join(' and ')} break (runs ${parts})`;
+}
+
+function cell(text: string): string {
+  return text.replaceAll('|', '\\|').replaceAll('\n', ' ');
+}
+
+// ---------------------------------------------------------------------------
+// CSV
+// ---------------------------------------------------------------------------
+
+/**
+ * One row per section or break (RFC 4180).
+ */
+export function exportToRunSheetCsv(sheet: RunSheet): string {
+  const rows = [['start', 'end', 'module', 'section', 'type', 'minutes', 'notes']];
+  for (const entry of sheet.entries) {
+    const module = entry.moduleIdx !== undefined ? `${entry.moduleIdx + 1}. ${sheet.modules[entry.moduleIdx]?.title ?? ''}` : '';
+    rows.push([
+      formatClock(entry.start),
+      formatClock(entry.end),
+      module,
+      entry.title,
+      entry.type,
+      String(entry.duration),
+      entryNotes(entry),
+    ]);
+  }
+  return rows.map((row) => row.map(csvField).join(',')).join('\r\n') + '\r\n';
+}
+
+function csvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replaceAll('"', '""')}"` : value;
+}
+
+// ---------------------------------------------------------------------------
+// iCalendar
+// ---------------------------------------------------------------------------
+
+/**
+ * One event per section or break in floating local time (no time zone, so it
+ * lands at the same clock time wherever it's imported) on `date` (YYYY-MM-DD).
+ */
+export function exportToRunSheetIcs(sheet: RunSheet, date: string): string {
+  const day = parseDate(date);
+  const uidBase = `${slugifyTopic(sheet.topic)}-${date}`;
+  const stamp = new Date().toISOString().replace(/[-:]/g, '').replace(/\.\d+Z$/, 'Z');
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Workshop Factory//Run Sheet//EN',
+    'CALSCALE:GREGORIAN',
+    `X-WR-CALNAME:${icsText(`${sheet.title} — Run Sheet`)}`,
+  ];
+  sheet.entries.forEach((entry, entryIdx) => {
+    const module = entry.moduleIdx !== undefined ? sheet.modules[entry.moduleIdx] : undefined;
+    entry.parts.forEach((part, partIdx) => {
+      const summary = entry.kind === 'break' ? 'Break' : entry.title;
+      const description = [
+        module ? `Module ${entry.moduleIdx! + 1}: ${module.title}` : '',
+        entry.kind === 'section' ? `${entry.type}, ${entry.duration} min` : '',
+        entryNotes(entry),
+      ].filter(Boolean).join('\n');
+      lines.push(
+        'BEGIN:VEVENT',
+        `UID:${uidBase}-${entryIdx + 1}${entry.parts.length > 1 ? `-${partIdx + 1}` : ''}@workshop-factory`,
+        `DTSTAMP:${stamp}`,
+        `DTSTART:${icsDateTime(day, part.start)}`,
+        `DTEND:${icsDateTime(day, part.end)}`,
+        `SUMMARY:${icsText(entry.parts.length > 1 ? `${summary} (part ${partIdx + 1}/${entry.parts.length})` : summary)}`,
+        ...(description ? [`DESCRIPTION:${icsText(description)}`] : []),
+        'END:VEVENT',
+      );
+    });
+  });
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+/**
+ * Parse a YYYY-MM-DD date (the day of the workshop) for iCalendar exports.
+ */
+export function parseDate(value: string): Date {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  const date = match ? new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3]))) : undefined;
+  if (!date || date.toISOString().slice(0, 10) !== value) {
+    throw new Error(`Invalid date "${value}" (expected YYYY-MM-DD)`);
+  }
+  return date;
+}
+
+function icsDateTime(day: Date, minutes: number): string {
+  const date = new Date(day.getTime() + minutes * 60_000);
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d+Z$/, '');
+}
+
+function icsText(text: string): string {
+  return text.replaceAll('\\', '\\\\').replaceAll(';', '\\;').replaceAll(',', '\\,').replaceAll('\n', '\\n');
+}
+
+/** Fold content lines longer than 75 octets (RFC 5545 §3.1) */
+function foldLine(line: string): string {
+  const parts: string[] = [];
+  let current = '';
+  for (const char of line) {
+    const limit = parts.length === 0 ? 75 : 74; // continuation lines start with a space
+    if (Buffer.byteLength(current + char) > limit) {
+      parts.push(current);
+      current = '';
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+/**
+ * Writes the run sheet as Markdown (`outputPath`) plus CSV and iCalendar
+ * files next to it. Returns the paths written.
+ */
+export async function exportToRunSheetFiles(
+  workshop: Workshop,
+  outputPath: string,
+  options: RunSheetOptions & { date: string }
+): Promise<{ sheet: RunSheet; paths: string[] }> {
+  const sheet = buildRunSheet(workshop, options);
+  const base = outputPath.replace(/\.md$/, '');
+  const paths = [outputPath, `${base}.csv`, `${base}.ics`];
+  const ics = exportToRunSheetIcs(sheet, options.date);
+  await writeFile(paths[0]!, exportToRunSheetMarkdown(sheet), 'utf-8');
+  await writeFile(paths[1]!, exportToRunSheetCsv(sheet), 'utf-8');
+  await writeFile(paths[2]!, ics, 'utf-8');
+  return { sheet, paths };
+}
@@ -0,0 +1,461 @@
+import { mkdir, writeFile } from 'node:fs/promises';
+import { dirname, join } from 'node:path';
+import type { Section, Workshop } from '../schema.js';
+import { slugifyTopic } from '../workshops.js';
+import { escapeHtml, formatMinutes, renderInline } from './html.js';
+import { SLIDES_CSS, SLIDES_JS, renderModule, sectionId } from './slides.js';
+
+/**
+ * Static site for self-paced learners — a landing page listing one or more
+ * workshops ("tracks"), an overview page per track and one page per module.
+ *
+ * Module pages reuse the slides renderer and its assets, so exercises,
+ * hints and checkpoint quizzes behave the same as in `--format slides`. The
+ * site adds a search index, and "mark as done" progress kept in localStorage
+ * per track. No model calls; works from `file://`.
+ */
+
+/** A site file with its path relative to the site root */
+export interface SiteFile {
+  path: string;
+  content: string;
+}
+
+interface Track {
+  slug: string;
+  workshop: Workshop;
+}
+
+interface SearchEntry {
+  title: string;
+  track: string;
+  module: string;
+  url: string;
+  text: string;
+}
+
+/**
+ * Render the site for the given workshops, one track each.
+ */
+export function renderSite(workshops: Workshop[]): SiteFile[] {
+  const tracks = assignSlugs(workshops);
+  const siteTitle = tracks.length === 1 ? tracks[0]!.workshop.title : 'Workshop tracks';
+
+  const files: SiteFile[] = [
+    { path: 'index.html', content: renderLanding(tracks, siteTitle) },
+    { path: 'assets/slides.css', content: SLIDES_CSS },
+    { path: 'assets/slides.js', content: SLIDES_JS },
+    { path: 'assets/site.css', content: SITE_CSS },
+    { path: 'assets/site.js', content: SITE_JS },
+    { path: 'assets/search-index.js', content: `window.WORKSHOP_SEARCH_INDEX = ${JSON.stringify(buildSearchIndex(tracks))};\n` },
+  ];
+
+  for (const track of tracks) {
+    files.push({ path: `${track.slug}/index.html`, content: renderTrack(track, siteTitle) });
+    track.workshop.modules.forEach((_, moduleIdx) => {
+      files.push({ path: `${track.slug}/${modulePage(moduleIdx)}`, content: renderModulePage(track, moduleIdx, siteTitle) });
+    });
+  }
+  return files;
+}
+
+/**
+ * Exports workshops to a static site in `outputDir`.
+ * @returns Paths of the files written, relative to `outputDir`
+ */
+export async function exportToSite(
+  workshops: Workshop[],
+  outputDir: string
+): Promise<string[]> {
+  const files = renderSite(workshops);
+  for (const file of files) {
+    const fullPath = join(outputDir, file.path);
+    await mkdir(dirname(fullPath), { recursive: true });
+    await writeFile(fullPath, file.content, 'utf-8');
+  }
+  return files.map((file) => file.path);
+}
+
+// ---------------------------------------------------------------------------
+// Pages
+// ---------------------------------------------------------------------------
+
+function renderLanding(tracks: Track[], siteTitle: string): string {
+  const cards = tracks.map(({ slug, workshop }) => [
+    '<article class="track-card">',
+    `<h2><a href="${slug}/index.html">${escapeHtml(workshop.title)}</a></h2>`,
+    `<p class="track-meta">${escapeHtml(workshop.audience.level)} · ${formatMinutes(workshop.duration)} · ${workshop.modules.length} module${workshop.modules.length === 1 ? '' : 's'}</p>`,
+    progressMeter(slug, trackSectionIds(workshop)),
+    `<ol class="track-modules">${workshop.modules.map((module, moduleIdx) =>
+      `<li><a href="${slug}/${modulePage(moduleIdx)}">${escapeHtml(module.title)}</a></li>`
+    ).join('')}</ol>`,
+    '</article>',
+  ].join('\n'));
+
+  const body = [
+    `<h1>${escapeHtml(siteTitle)}</h1>`,
+    '<div class="search">',
+    '<label for="search">Search</label>',
+    '<input type="search" id="search" placeholder="Search all sections…" autocomplete="off">',
+    '<ul id="search-results" aria-live="polite"></ul>',
+    '</div>',
+    ...cards,
+  ].join('\n');
+
+  return renderPage({ title: siteTitle, root: '', body, searchIndex: true });
+}
+
+function renderTrack({ slug, workshop }: Track, siteTitle: string): string {
+  const modules = workshop.modules.map((module, moduleIdx) => [
+    '<li class="module-card">',
+    `<h3><a href="${modulePage(moduleIdx)}">${moduleIdx + 1}. ${escapeHtml(module.title)}</a></h3>`,
+    `<p class="pacing">~${formatMinutes(module.duration)}</p>`,
+    module.learning_objectives.length > 0
+      ? `<ul>${module.learning_objectives.map((objective) => `<li>${renderInline(objective.text)}</li>`).join('')}</ul>`
+      : '',
+    progressMeter(slug, moduleSectionIds(workshop, moduleIdx)),
+    '</li>',
+  ].filter(Boolean).join('\n'));
+
+  const body = [
+    `<p class="breadcrumbs"><a href="../index.html">${escapeHtml(siteTitle)}</a></p>`,
+    `<h1>${escapeHtml(workshop.title)}</h1>`,
+    `<p class="track-meta">${escapeHtml(workshop.audience.level)} · ${formatMinutes(workshop.duration)}</p>`,
+    progressMeter(slug, trackSectionIds(workshop)),
+    workshop.prerequisites.length > 0
+      ? `<h2>Before you start</h2>\n<ul>${workshop.prerequisites.map((prereq) => `<li>${renderInline(prereq)}</li>`).join('')}</ul>`
+      : '',
+    '<h2>Modules</h2>',
+    `<ol class="module-list">\n${modules.join('\n')}\n</ol>`,
+    workshop.modules.length > 0 ? `<p><a class="start-link" href="${modulePage(0)}">Start with module 1 →</a></p>` : '',
+  ].filter(Boolean).join('\n');
+
+  return renderPage({ title: workshop.title, root: '../', body, track: slug });
+}
+
+function renderModulePage({ slug, workshop }: Track, moduleIdx: number, siteTitle: string): string {
+  const module = workshop.modules[moduleIdx]!;
+  const total = workshop.modules.length;
+
+  const toc = workshop.modules.map((other, idx) => {
+    if (idx !== moduleIdx) {
+      return `<li><a href="${modulePage(idx)}">${escapeHtml(other.title)}</a></li>`;
+    }
+    const sections = other.sections
+      .map((section, sectionIdx) => ({ section, sectionIdx }))
+      .filter(({ section }) => section.type !== 'break')
+      .map(({ section, sectionIdx }) => `<li><a href="#${sectionId(moduleIdx, sectionIdx)}">${escapeHtml(section.title)}</a></li>`);
+    return `<li><a href="#module-${moduleIdx + 1}" aria-current="page">${escapeHtml(other.title)}</a><ol>${sections.join('')}</ol></li>`;
+  });
+
+  const pager = [
+    '<nav class="pager" aria-label="Modules">',
+    moduleIdx > 0 ? `<a class="pager-prev" href="${modulePage(moduleIdx - 1)}">← ${escapeHtml(workshop.modules[moduleIdx - 1]!.title)}</a>` : '<span></span>',
+    moduleIdx < total - 1
+      ? `<a class="pager-next" href="${modulePage(moduleIdx + 1)}">${escapeHtml(workshop.modules[moduleIdx + 1]!.title)} →</a>`
+      : '<a class="pager-next" href="index.html">Back to overview</a>',
+    '</nav>',
+  ].join('\n');
+
+  const body = [
+    `<p class="breadcrumbs"><a href="../index.html">${escapeHtml(siteTitle)}</a></p>`,
+    `<h1 class="page-track"><a href="index.html">${escapeHtml(workshop.title)}</a></h1>`,
+    renderModule(module, moduleIdx, workshop),
+    pager,
+  ].join('\n');
+
+  return renderPage({
+    title: `${module.title} · ${workshop.title}`,
+    root: '../',
+    body,
+    track: slug,
+    sidebar: `<nav class="sidebar" id="toc" aria-label="Modules">\n<ol>\n${toc.join('\n')}\n</ol>\n</nav>`,
+    position: { module: moduleIdx + 1, total },
+  });
+}
+
+interface PageOptions {
+  title: string;
+  /** Relative path from the page to the site root, '' or '../' */
+  root: string;
+  body: string;
+  track?: string;
+  sidebar?: string;
+  /** Module page position, shown as "Module N of M" */
+  position?: { module: number; total: number };
+  searchIndex?: boolean;
+}
+
+function renderPage(options: PageOptions): string {
+  const { title, root, body, track, sidebar, position } = options;
+  return [
+    '<!DOCTYPE html>',
+    '<html lang="en" data-theme="dark">',
+    '<head>',
+    '<meta charset="utf-8">',
+    '<meta name="viewport" content="width=device-width, initial-scale=1">',
+    `<title>${escapeHtml(title)}</title>`,
+    `<link rel="stylesheet" href="${root}assets/slides.css">`,
+    `<link rel="stylesheet" href="${root}assets/site.css">`,
+    '</head>',
+    `<body class="${sidebar ? 'page-module' : 'page-plain'}"${track ? ` data-track="${track}"` : ''}>`,
+    '<header class="topbar">',
+    sidebar ? '<button type="button" class="menu-toggle" aria-expanded="false" aria-controls="toc" aria-label="Show contents">☰</button>' : '',
+    `<a class="topbar-title" href="${root}index.html">${escapeHtml(title)}</a>`,
+    position ? `<span class="progress" aria-live="polite" data-total="${position.total}">Module ${position.module} of ${position.total}</span>` : '',
+    '<button type="button" class="theme-toggle" aria-label="Toggle light and dark theme (t)">◐</button>',
+    '</header>',
+    sidebar ?? '',
+    '<main class="content">',
+    body,
+    '</main>',
+    options.searchIndex ? `<script src="${root}assets/search-index.js"></script>` : '',
+    `<script src="${root}assets/slides.js"></script>`,
+    `<script src="${root}assets/site.js"></script>`,
+    '</body>',
+    '</html>',
+  ].filter(Boolean).join('\n') + '\n';
+}
+
+/**
+ * Bar showing how many of `ids` are marked done in the track's stored progress (filled in by site.js).
+ */
+function progressMeter(track: string, ids: string[]): string {
+  return `<div class="progress-meter" data-track="${track}" data-sections="${ids.join(',')}"><div class="progress-track"><div class="progress-bar"></div></div><span class="progress-label">0 / ${ids.length} done</span></div>`;
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Slug per workshop from its topic, suffixed when two tracks share a topic.
+ */
+function assignSlugs(workshops: Workshop[]): Track[] {
+  const used = new Set<string>(['assets']);
+  return workshops.map((workshop) => {
+    const base = slugifyTopic(workshop.topic);
+    let slug = base;
+    for (let n = 2; used.has(slug); n++) slug = `${base}-${n}`;
+    used.add(slug);
+    return { slug, workshop };
+  });
+}
+
+function modulePage(moduleIdx: number): string {
+  return `module-${moduleIdx + 1}.html`;
+}
+
+/** Ids of the sections a learner can mark done (everything but breaks) */
+function moduleSectionIds(workshop: Workshop, moduleIdx: number): string[] {
+  const module = workshop.modules[moduleIdx]!;
+  return module.sections.flatMap((section, sectionIdx) => section.type === 'break' ? [] : [sectionId(moduleIdx, sectionIdx)]);
+}
+
+function trackSectionIds(workshop: Workshop): string[] {
+  return workshop.modules.flatMap((_, moduleIdx) => moduleSectionIds(workshop, moduleIdx));
+}
+
+function buildSearchIndex(tracks: Track[]): SearchEntry[] {
+  return tracks.flatMap(({ slug, workshop }) => workshop.modules.flatMap((module, moduleIdx) => [
+    {
+      title: module.title,
+      track: workshop.title,
+      module: module.title,
+      url: `${slug}/${modulePage(moduleIdx)}`,
+      text: module.learning_objectives.map((objective) => objective.text).join(' '),
+    },
+    ...module.sections.flatMap((section, sectionIdx) => section.type === 'break' ? [] : [{
+      title: section.title,
+      track: workshop.title,
+      module: module.title,
+      url: `${slug}/${modulePage(moduleIdx)}#${sectionId(moduleIdx, sectionIdx)}`,
+      text: searchText(section),
+    }]),
+  ]));
+}
+
+/** Learner-visible text of a section, for the search index */
+function searchText(section: Section): string {
+  switch (section.type) {
+    case 'lecture':
+      return section.talking_points.join(' ');
+    case 'exercise':
+      return [section.instructions, ...section.hints].join(' ');
+    case 'discussion':
+      return section.prompts.join(' ');
+    case 'checkpoint':
+      return section.questions.map((question) => question.prompt).join(' ');
+    case 'demo':
+      return section.script.join(' ');
+    case 'break':
+      return '';
+    case 'project':
+      return [section.brief, ...section.milestones.map((milestone) => `${milestone.title} ${milestone.instructions}`)].join(' ');
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Static assets
+// ---------------------------------------------------------------------------
+
+const SITE_CSS = `@media (min-width: 1100px) {
+  .page-plain .content { margin-left: auto; }
+}
+
+.topbar-title { color: var(--text); text-decoration: none; }
+
+.breadcrumbs { color: var(--text-muted); font-size: 0.95rem; }
+.breadcrumbs a { color: var(--text-muted); }
+.page-track { font-size: 1.3rem; margin: 0; }
+.page-track a { color: var(--text-muted); text-decoration: none; }
+.page-module .module { margin-top: 2rem; }
+
+.track-meta { color: var(--text-muted); text-transform: capitalize; }
+
+.track-card, .module-card {
+  background: var(--bg-raised);
+  border: 1px solid var(--border);
+  border-radius: 10px;
+  padding: 1.25rem 1.75rem;
+  margin: 1.5rem 0;
+}
+
+.track-card h2, .module-card h3 { margin: 0 0 0.25rem; }
+.track-card h2 a, .module-card h3 a { color: var(--text); text-decoration: none; }
+.track-card h2 a:hover, .module-card h3 a:hover { color: var(--accent); }
+.module-list { list-style: none; padding: 0; }
+
+.progress-meter { display: flex; align-items: center; gap: 0.75rem; margin: 0.75rem 0; }
+.progress-track { flex: 1; height: 8px; border-radius: 4px; background: var(--border); overflow: hidden; }
+.progress-bar { height: 100%; width: 0; background: var(--correct); transition: width 0.3s ease-out; }
+.progress-label { color: var(--text-muted); font-size: 0.9rem; white-space: nowrap; }
+
+.search { margin: 2rem 0; }
+.search label { display: block; font-weight: 600; margin-bottom: 0.25rem; }
+
+.search input {
+  width: 100%;
+  font: inherit;
+  color: var(--text);
+  background: var(--bg-raised);
+  border: 1px solid var(--border);
+  border-radius: 8px;
+  padding: 0.6rem 0.9rem;
+}
+
+#search-results { list-style: none; padding: 0; }
+#search-results li { padding: 0.5rem 0; border-bottom: 1px solid var(--border); }
+#search-results .result-context { display: block; color: var(--text-muted); font-size: 0.85rem; }
+
+.done-toggle { display: inline-flex; gap: 0.4rem; align-items: center; margin-top: 1.25rem; color: var(--text-muted); cursor: pointer; }
+.section.done { opacity: 0.85; }
+.section.done h3::after { content: " ✓"; color: var(--correct); }
+.sidebar a.done::after { content: " ✓"; color: var(--correct); }
+
+.pager { display: flex; justify-content: space-between; gap: 1rem; margin-top: 4rem; padding-top: 1.5rem; border-top: 1px solid var(--border); }
+.start-link, .pager a { font-weight: 600; }
+
+@media print {
+  .search, .pager, .done-toggle, .progress-meter { display: none; }
+}
+`;
+
+const SITE_JS = `(function () {
+  'use strict';
+
+  var PREFIX = 'workshop-progress:';
+  var track = document.body.getAttribute('data-track');
+
+  function load(track) {
+    try {
+      return JSON.parse(localStorage.getItem(PREFIX + track) || '[]');
+    } catch (e) {
+      return [];
+    }
+  }
+
+  function save(track, ids) {
+    try { localStorage.setItem(PREFIX + track, JSON.stringify(ids)); } catch (e) { /* storage unavailable */ }
+  }
+
+  // Progress bars and sidebar ticks
+  function refresh() {
+    document.querySelectorAll('.progress-meter').forEach(function (meter) {
+      var ids = meter.getAttribute('data-sections').split(',').filter(Boolean);
+      var done = load(meter.getAttribute('data-track'));
+      var count = ids.filter(function (id) { return done.indexOf(id) !== -1; }).length;
+      meter.querySelector('.progress-bar').style.width = ids.length ? (100 * count / ids.length) + '%' : '0';
+      meter.querySelector('.progress-label').textContent = count + ' / ' + ids.length + ' done';
+    });
+    if (track) {
+      var done = load(track);
+      document.querySelectorAll('#toc a[href^="#section-"]').forEach(function (link) {
+        link.classList.toggle('done', done.indexOf(link.getAttribute('href').slice(1)) !== -1);
+      });
+    }
+  }
+
+  // "Mark as done" on every section of a module page
+  if (track) {
+    document.querySelectorAll('.section').forEach(function (section) {
+      var label = document.createElement('label');
+      label.className = 'done-toggle';
+      var box = document.createElement('input');
+      box.type = 'checkbox';
+      box.checked = load(track).indexOf(section.id) !== -1;
+      section.classList.toggle('done', box.checked);
+      box.addEventListener('change', function () {
+        var ids = load(track).filter(function (id) { return id !== section.id; });
+        if (box.checked) ids.push(section.id);
+        save(track, ids);
+        section.classList.toggle('done', box.checked);
+        refresh();
+      });
+      label.appendChild(box);
+      label.appendChild(document.createTextNode(' Mark as done'));
+      section.appendChild(label);
+    });
+  }
+  refresh();
+
+  // Search (landing page)
+  var input = document.getElementById('search');
+  var results = document.getElementById('search-results');
+  var index = window.WORKSHOP_SEARCH_INDEX || [];
+  if (input && results) {
+    input.addEventListener('input', function () {
+      var terms = input.value.toLowerCase().split(/\\s+/).filter(Boolean);
+      results.textContent = '';
+      if (terms.length === 0) return;
+      var matches = index.filter(function (entry) {
+        var haystack = (entry.title + ' ' + entry.text).toLowerCase();
+        return terms.every(function (term) { return haystack.indexOf(term) !== -1; });
+      });
+      matches.sort(function (a, b) {
+        var aTitle = terms.some(function (term) { return a.title.toLowerCase().indexOf(term) !== -1; });
+        var bTitle = terms.some(function (term) { return b.title.toLowerCase().indexOf(term) !== -1; });
+        return Number(bTitle) - Number(aTitle);
+      });
+      if (matches.length === 0) {
+        var empty = document.createElement('li');
+        empty.textContent = 'No matches.';
+        results.appendChild(empty);
+        return;
+      }
+      matches.slice(0, 20).forEach(function (entry) {
+        var item = document.createElement('li');
+        var link = document.createElement('a');
+        link.href = entry.url;
+        link.textContent = entry.title;
+        var context = document.createElement('span');
+        context.className = 'result-context';
+        context.textContent = entry.track + ' · ' + entry.module;
+        item.appendChild(link);
+        item.appendChild(context);
+        results.appendChild(item);
+      });
+    });
+  }
+})();
+`;
@@ -0,0 +1,1031 @@
+import { writeFile } from 'node:fs/promises';
+import type {
+  CheckpointQuestion,
+  CheckpointSection,
+  ExerciseFile,
+  ExerciseSection,
+  Module,
+  ProjectSection,
+  Section,
+  Workshop,
+} from '../schema.js';
+import { inferLanguage, normalizeLanguage, sectionLanguage } from '../languages.js';
+import { escapeHtml, formatMinutes, renderInline, renderProse } from './html.js';
+
+/**
+ * Built-in HTML slides — renders the attendee guide described in
+ * `prompts/WORKSHOP-DESIGN.md` from a fixed template instead of a model session.
+ *
+ * The output depends only on the workshop, so it can be produced offline and
+ * serves as the fallback when the slides phase of `generateRepo()` fails. The
+ * design doc's content rules apply here too: no Bloom's levels, section type
+ * labels, per-section timings, context sources, audience metadata, demo
+ * fallback notes or answer keys.
+ */
+
+/** The three files the repo's `slides/` directory holds */
+export interface SlideFiles {
+  html: string;
+  css: string;
+  js: string;
+}
+
+/**
+ * Render slides as `index.html` plus the `styles.css` and `script.js` it links to.
+ */
+export function renderSlides(workshop: Workshop): SlideFiles {
+  return {
+    html: renderDocument(workshop, '<link rel="stylesheet" href="styles.css">', '<script src="script.js"></script>'),
+    css: SLIDES_CSS,
+    js: SLIDES_JS,
+  };
+}
+
+/**
+ * Render slides as a single self-contained HTML document (styles and script inlined).
+ */
+export function exportToSlides(workshop: Workshop): string {
+  return renderDocument(workshop, `<style>\n${SLIDES_CSS}</style>`, `<script>\n${SLIDES_JS}</script>`);
+}
+
+/**
+ * Exports a Workshop to a self-contained HTML slide deck on disk.
+ */
+export async function exportToSlidesFile(
+  workshop: Workshop,
+  outputPath: string
+): Promise<void> {
+  await writeFile(outputPath, exportToSlides(workshop), 'utf-8');
+}
+
+// ---------------------------------------------------------------------------
+// Document
+// ---------------------------------------------------------------------------
+
+const SECTION_ICONS: Record<Exclude<Section['type'], 'break'>, string> = {
+  lecture: '📖',
+  exercise: '🛠️',
+  discussion: '💬',
+  checkpoint: '🎯',
+  demo: '▶️',
+  project: '🏁',
+};
+
+function renderDocument(workshop: Workshop, styles: string, script: string): string {
+  const lines: string[] = [];
+  lines.push('<!DOCTYPE html>');
+  lines.push('<html lang="en" data-theme="dark">');
+  lines.push('<head>');
+  lines.push('<meta charset="utf-8">');
+  lines.push('<meta name="viewport" content="width=device-width, initial-scale=1">');
+  lines.push(`<title>${escapeHtml(workshop.title)}</title>`);
+  lines.push(styles);
+  lines.push('</head>');
+  lines.push('<body>');
+
+  lines.push('<header class="topbar">');
+  lines.push('<button type="button" class="menu-toggle" aria-expanded="false" aria-controls="toc" aria-label="Show contents">☰</button>');
+  lines.push(`<span class="topbar-title">${escapeHtml(workshop.title)}</span>`);
+  lines.push(`<span class="progress" aria-live="polite" data-total="${workshop.modules.length}">Module 1 of ${workshop.modules.length}</span>`);
+  lines.push('<button type="button" class="theme-toggle" aria-label="Toggle light and dark theme (t)">◐</button>');
+  lines.push('</header>');
+
+  lines.push(renderToc(workshop));
+
+  lines.push('<main class="content">');
+  lines.push('<section class="intro" id="top">');
+  lines.push(`<h1>${escapeHtml(workshop.title)}</h1>`);
+  lines.push(`<p class="intro-meta">About ${formatMinutes(workshop.duration)} · ${workshop.modules.length} module${workshop.modules.length === 1 ? '' : 's'}</p>`);
+  if (workshop.prerequisites.length > 0) {
+    lines.push('<h2>Before you start</h2>');
+    lines.push(`<ul>${workshop.prerequisites.map((prereq) => `<li>${renderInline(prereq)}</li>`).join('')}</ul>`);
+  }
+  lines.push('<p class="keyboard-hint">Use ← and → to move between sections, <kbd>t</kbd> to switch theme.</p>');
+  lines.push('</section>');
+
+  workshop.modules.forEach((module, moduleIdx) => {
+    lines.push(renderModule(module, moduleIdx, workshop));
+  });
+
+  lines.push('<footer class="footer"><p>Generated by Workshop Factory</p></footer>');
+  lines.push('</main>');
+  lines.push(script);
+  lines.push('</body>');
+  lines.push('</html>');
+  return `${lines.join('\n')}\n`;
+}
+
+function renderToc(workshop: Workshop): string {
+  const items = workshop.modules.map((module, moduleIdx) => {
+    const sections = module.sections
+      .map((section, sectionIdx) => ({ section, sectionIdx }))
+      .filter(({ section }) => section.type !== 'break')
+      .map(({ section, sectionIdx }) => `<li><a href="#${sectionId(moduleIdx, sectionIdx)}">${escapeHtml(section.title)}</a></li>`);
+    return `<li><a href="#${moduleId(moduleIdx)}">${escapeHtml(module.title)}</a><ol>${sections.join('')}</ol></li>`;
+  });
+  return `<nav class="sidebar" id="toc" aria-label="Workshop contents">\n<ol>\n${items.join('\n')}\n</ol>\n</nav>`;
+}
+
+/**
+ * One module: header with pacing and objectives, then its sections. Also used
+ * for the module pages of the static site.
+ */
+export function renderModule(module: Module, moduleIdx: number, workshop: Workshop): string {
+  const lines: string[] = [];
+  lines.push(`<section class="module" id="${moduleId(moduleIdx)}" data-module="${moduleIdx + 1}">`);
+  lines.push('<header class="module-header">');
+  lines.push(`<p class="module-number">Module ${moduleIdx + 1}</p>`);
+  lines.push(`<h2>${escapeHtml(module.title)}</h2>`);
+  lines.push(`<p class="pacing">~${formatMinutes(module.duration)}</p>`);
+  if (module.learning_objectives.length > 0) {
+    lines.push('<div class="objectives">');
+    lines.push('<h3>What you\'ll learn</h3>');
+    lines.push(`<ul>${module.learning_objectives.map((objective) => `<li>${renderInline(objective.text)}</li>`).join('')}</ul>`);
+    lines.push('</div>');
+  }
+  lines.push('</header>');
+
+  module.sections.forEach((section, sectionIdx) => {
+    lines.push(renderSection(section, moduleIdx, sectionIdx, workshop));
+  });
+  lines.push('</section>');
+  return lines.join('\n');
+}
+
+function renderSection(section: Section, moduleIdx: number, sectionIdx: number, workshop: Workshop): string {
+  const id = sectionId(moduleIdx, sectionIdx);
+  if (section.type === 'break') {
+    return `<div class="break-divider" id="${id}"><span>☕ ${escapeHtml(section.title)}</span></div>`;
+  }
+
+  const lines: string[] = [];
+  lines.push(`<article class="section section--${section.type}" id="${id}">`);
+  lines.push(`<h3><span class="section-icon" aria-hidden="true">${SECTION_ICONS[section.type]}</span> ${escapeHtml(section.title)}</h3>`);
+
+  switch (section.type) {
+    case 'lecture':
+      lines.push(section.talking_points.map((point) => `<p>${renderInline(point)}</p>`).join('\n'));
+      break;
+
+    case 'exercise':
+      lines.push(renderExercise(section, id, workshop));
+      break;
+
+    case 'discussion':
+      lines.push('<p class="lead">Take a moment to think it over, then share with the people around you:</p>');
+      lines.push(`<ul class="prompts">${section.prompts.map((prompt) => `<li>${renderInline(prompt)}</li>`).join('')}</ul>`);
+      break;
+
+    case 'checkpoint':
+      lines.push(renderCheckpoint(section, inferLanguage(workshop.audience.stack) ?? ''));
+      break;
+
+    case 'demo':
+      // fallback_notes are for the instructor only
+      lines.push('<p class="lead">Watch along — you can come back to these steps later:</p>');
+      lines.push(`<ol class="demo-steps">${section.script.map((step) => `<li>${renderInline(step)}</li>`).join('')}</ol>`);
+      break;
+
+    case 'project':
+      lines.push(renderProject(section, id, workshop));
+      break;
+  }
+
+  lines.push('</article>');
+  return lines.join('\n');
+}
+
+function renderExercise(section: ExerciseSection, id: string, workshop: Workshop): string {
+  const lines: string[] = [];
+  lines.push(renderProse(section.instructions, renderCode));
+
+  if (section.files && section.files.length > 0) {
+    lines.push('<h4>Starter code</h4>');
+    lines.push(renderFileTabs(section.files, `${id}-starter`, 'starter'));
+    lines.push('<details class="solution">');
+    lines.push('<summary>Show solution</summary>');
+    lines.push(renderFileTabs(section.files, `${id}-solution`, 'solution'));
+    lines.push('</details>');
+  } else {
+    const language = sectionLanguage(section, workshop);
+    lines.push('<h4>Starter code</h4>');
+    lines.push(renderCode(section.starter_code, language));
+    lines.push('<details class="solution">');
+    lines.push('<summary>Show solution</summary>');
+    lines.push(renderCode(section.solution, language));
+    lines.push('</details>');
+  }
+
+  if (section.hints.length > 0) {
+    lines.push(renderHints(section.hints, `${id}-hints`));
+  }
+  return lines.join('\n');
+}
+
+/**
+ * One tab per file, labelled with its path. Starter tabs mark files attendees create from scratch.
+ */
+function renderFileTabs(files: ExerciseFile[], id: string, which: 'starter' | 'solution'): string {
+  const tabs = files.map((file, idx) =>
+    `<button type="button" role="tab" id="${id}-tab-${idx}" aria-controls="${id}-panel-${idx}" aria-selected="${idx === 0}"${idx === 0 ? '' : ' tabindex="-1"'}>${escapeHtml(file.path)}</button>`
+  );
+  const panels = files.map((file, idx) => {
+    const body = which === 'starter' && !file.starter.trim()
+      ? '<p class="new-file">New file — create it from scratch.</p>'
+      : renderCode(which === 'starter' ? file.starter : file.solution, normalizeLanguage(file.language), file.path);
+    return `<div role="tabpanel" id="${id}-panel-${idx}" aria-labelledby="${id}-tab-${idx}"${idx === 0 ? '' : ' hidden'}>\n${body}\n</div>`;
+  });
+  return `<div class="tabs">\n<div role="tablist" aria-label="${which === 'starter' ? 'Starter files' : 'Solution files'}">${tabs.join('')}</div>\n${panels.join('\n')}\n</div>`;
+}
+
+/**
+ * Hints revealed one at a time by the "Show a hint" button.
+ */
+function renderHints(hints: string[], id: string): string {
+  const items = hints.map((hint) => `<li hidden>${renderInline(hint)}</li>`).join('');
+  return [
+    '<div class="hints">',
+    `<ol id="${id}">${items}</ol>`,
+    `<button type="button" class="hint-button" aria-controls="${id}" data-total="${hints.length}">Show a hint (${hints.length} left)</button>`,
+    '</div>',
+  ].join('\n');
+}
+
+/**
+ * Checkpoint quiz. Answers live in data-* attributes and are checked by
+ * script.js; explanations stay hidden until the attendee responds.
+ */
+function renderCheckpoint(section: CheckpointSection, language: string): string {
+  const graded = section.questions.filter((question) => question.type !== 'short_answer' || question.accepted_patterns.length > 0).length;
+  const lines: string[] = [];
+  lines.push('<div class="quiz">');
+  lines.push('<p class="lead">Check your understanding</p>');
+  section.questions.forEach((question, idx) => {
+    lines.push(renderQuestion(question, idx, language));
+  });
+  if (graded > 0) {
+    lines.push(`<p class="quiz-score" aria-live="polite" data-total="${graded}">Score: 0 / ${graded}</p>`);
+  }
+  lines.push('</div>');
+  return lines.join('\n');
+}
+
+function renderQuestion(question: CheckpointQuestion, idx: number, language: string): string {
+  const lines: string[] = [];
+  const prompt = `<p class="question-prompt"><span class="question-number">${idx + 1}.</span> ${renderInline(question.prompt)}</p>`;
+
+  switch (question.type) {
+    case 'multiple_choice':
+      lines.push(`<div class="question" data-type="multiple_choice" data-correct="${question.correct_index}">`);
+      lines.push(prompt);
+      lines.push(`<div class="options">${question.options.map((option, optionIdx) =>
+        `<button type="button" class="option" data-index="${optionIdx}"><span class="option-label">${String.fromCharCode(65 + optionIdx)}</span> ${renderInline(option)}</button>`
+      ).join('')}</div>`);
+      break;
+    case 'true_false':
+      lines.push(`<div class="question" data-type="true_false" data-answer="${question.answer}">`);
+      lines.push(prompt);
+      lines.push('<div class="options"><button type="button" class="option" data-value="true">True</button><button type="button" class="option" data-value="false">False</button></div>');
+      break;
+    case 'short_answer':
+      if (question.accepted_patterns.length > 0) {
+        lines.push(`<div class="question" data-type="short_answer" data-patterns="${escapeHtml(JSON.stringify(question.accepted_patterns))}" data-answer="${escapeHtml(question.answer)}">`);
+        lines.push(prompt);
+        lines.push('<form class="answer-form"><input type="text" class="answer-input" aria-label="Your answer" autocomplete="off"><button type="submit">Check</button></form>');
+      } else {
+        lines.push(`<div class="question" data-type="reveal" data-answer="${escapeHtml(question.answer)}">`);
+        lines.push(prompt);
+        lines.push('<button type="button" class="reveal-button">Reveal answer</button>');
+      }
+      break;
+    case 'code_output':
+      lines.push(`<div class="question" data-type="code_output" data-expected="${escapeHtml(question.expected_output)}">`);
+      lines.push(prompt);
+      lines.push(renderCode(question.code, language));
+      lines.push('<form class="answer-form"><textarea class="answer-input" rows="3" aria-label="Predicted output" spellcheck="false"></textarea><button type="submit">Check</button></form>');
+      break;
+  }
+
+  lines.push('<p class="feedback" aria-live="polite"></p>');
+  lines.push(`<div class="explanation" hidden>${question.explanation ? `<p>${renderInline(question.explanation)}</p>` : ''}</div>`);
+  lines.push('</div>');
+  return lines.join('\n');
+}
+
+function renderProject(section: ProjectSection, id: string, workshop: Workshop): string {
+  const language = sectionLanguage(section, workshop);
+  const lines: string[] = [];
+  lines.push(`<div class="brief">${renderProse(section.brief, renderCode)}</div>`);
+
+  section.milestones.forEach((milestone, idx) => {
+    lines.push(`<div class="milestone" id="${id}-milestone-${idx + 1}">`);
+    lines.push(`<h4>Milestone ${idx + 1}: ${escapeHtml(milestone.title)}</h4>`);
+    lines.push(renderProse(milestone.instructions, renderCode));
+    lines.push(renderCode(milestone.starter_code, language));
+    lines.push('<details class="solution">');
+    lines.push('<summary>Show solution</summary>');
+    lines.push(renderCode(milestone.solution, language));
+    lines.push('</details>');
+    lines.push('</div>');
+  });
+
+  if (section.rubric.length > 0) {
+    lines.push('<h4>How your project is assessed</h4>');
+    lines.push(`<ul class="rubric">${section.rubric.map((item) =>
+      `<li><label><input type="checkbox"> <span>${renderInline(item.criterion)}</span></label><span class="points">${item.points} pt${item.points === 1 ? '' : 's'}</span></li>`
+    ).join('')}</ul>`);
+  }
+  return lines.join('\n');
+}
+
+// ---------------------------------------------------------------------------
+// Text and code helpers
+// ---------------------------------------------------------------------------
+
+function moduleId(moduleIdx: number): string {
+  return `module-${moduleIdx + 1}`;
+}
+
+export function sectionId(moduleIdx: number, sectionIdx: number): string {
+  return `section-${moduleIdx + 1}-${sectionIdx + 1}`;
+}
+
+function renderCode(code: string, language: string, label?: string): string {
+  const caption = label ?? language;
+  return [
+    '<div class="code-block">',
+    `<div class="code-header"><span class="code-label">${escapeHtml(caption)}</span><button type="button" class="copy-button" aria-label="Copy code">Copy</button></div>`,
+    `<pre><code${language ? ` class="language-${escapeHtml(language)}"` : ''}>${highlightCode(code, language)}</code></pre>`,
+    '</div>',
+  ].join('\n');
+}
+
+/** Languages whose line comments start with `#` */
+const HASH_COMMENT_LANGUAGES = new Set(['python', 'bash', 'ruby', 'yaml', 'toml', 'dockerfile', 'hcl', 'r', 'perl', 'elixir', 'powershell']);
+
+/** Languages shown as plain text */
+const PLAIN_LANGUAGES = new Set(['', 'text', 'plaintext', 'markdown', 'html', 'xml', 'css']);
+
+const KEYWORDS = new Set([
+  // C-family, JavaScript/TypeScript, Java, Go, Rust, C#
+  'abstract', 'as', 'async', 'await', 'break', 'case', 'catch', 'class', 'const', 'continue', 'default', 'defer',
+  'delete', 'do', 'else', 'enum', 'export', 'extends', 'false', 'final', 'finally', 'fn', 'for', 'func', 'function',
+  'go', 'if', 'impl', 'implements', 'import', 'in', 'instanceof', 'interface', 'let', 'match', 'mut', 'new', 'null',
+  'of', 'package', 'private', 'protected', 'public', 'return', 'static', 'struct', 'super', 'switch', 'this', 'throw',
+  'throws', 'true', 'try', 'type', 'typeof', 'undefined', 'use', 'var', 'void', 'while', 'yield',
+  // Python, Ruby, shell
+  'and', 'def', 'del', 'elif', 'end', 'except', 'from', 'global', 'is', 'lambda', 'None', 'nonlocal', 'not', 'or',
+  'pass', 'raise', 'True', 'False', 'with', 'self', 'module', 'require', 'then', 'fi', 'done', 'esac', 'echo', 'export',
+  // Dockerfile, SQL
+  'FROM', 'RUN', 'COPY', 'ADD', 'WORKDIR', 'CMD', 'ENTRYPOINT', 'ENV', 'ARG', 'EXPOSE', 'USER', 'VOLUME',
+  'SELECT', 'INSERT', 'UPDATE', 'DELETE', 'WHERE', 'JOIN', 'ON', 'GROUP', 'ORDER', 'BY', 'INTO', 'VALUES', 'CREATE', 'TABLE',
+]);
+
+/**
+ * Escape code and wrap comments, strings, numbers and keywords in `tok-*` spans.
+ * Deliberately simple — a colouring aid, not a parser.
+ */
+function highlightCode(code: string, language: string): string {
+  if (PLAIN_LANGUAGES.has(language)) return escapeHtml(code);
+
+  const comment = HASH_COMMENT_LANGUAGES.has(language) ? String.raw`#[^\n]*` : String.raw`\/\/[^\n]*|\/\*[\s\S]*?\*\/`;
+  const token = new RegExp([
+    `(${comment})`,
+    String.raw`("(?:\\.|[^"\\\n])*"|'(?:\\.|[^'\\\n])*'|` + '`(?:\\\\.|[^`\\\\])*`)',
+    String.raw`(\b\d+(?:\.\d+)?\b)`,
+    String.raw`([A-Za-z_][\w]*)`,
+  ].join('|'), 'g');
+
+  let html = '';
+  let last = 0;
+  for (const match of code.matchAll(token)) {
+    const [text, isComment, isString, isNumber, word] = match;
+    html += escapeHtml(code.slice(last, match.index));
+    if (isComment) html += `<span class="tok-comment">${escapeHtml(text)}</span>`;
+    else if (isString) html += `<span class="tok-string">${escapeHtml(text)}</span>`;
+    else if (isNumber) html += `<span class="tok-number">${text}</span>`;
+    else if (word && KEYWORDS.has(word)) html += `<span class="tok-keyword">${word}</span>`;
+    else html += escapeHtml(text);
+    last = match.index + text.length;
+  }
+  return html + escapeHtml(code.slice(last));
+}
+
+// ---------------------------------------------------------------------------
+// Static assets
+// ---------------------------------------------------------------------------
+
+/** Theme, layout and component styles; the static site reuses them */
+export const SLIDES_CSS = `:root,
+[data-theme="dark"] {
+  --bg: #14161f;
+  --bg-raised: #1c1f2b;
+  --bg-code: #0f1118;
+  --text: #e6e4dc;
+  --text-muted: #a3a1b5;
+  --border: #2e3142;
+  --accent: #8fb8ff;
+  --lecture: #8fa3c8;
+  --exercise: #ffa45c;
+  --discussion: #b79cf2;
+  --checkpoint: #ffd75e;
+  --demo: #5fd3c4;
+  --project: #ff6f91;
+  --correct: #6fdc8c;
+  --incorrect: #ff8080;
+  --tok-keyword: #c792ea;
+  --tok-string: #c3e88d;
+  --tok-number: #f78c6c;
+  --tok-comment: #7a7f99;
+}
+
+[data-theme="light"] {
+  --bg: #faf8f3;
+  --bg-raised: #ffffff;
+  --bg-code: #f2efe7;
+  --text: #1f1d2b;
+  --text-muted: #5b5870;
+  --border: #dedad0;
+  --accent: #2457c5;
+  --lecture: #4a5f86;
+  --exercise: #b85510;
+  --discussion: #6b46c1;
+  --checkpoint: #8a6500;
+  --demo: #0f7a6d;
+  --project: #c2185b;
+  --correct: #1e7a3a;
+  --incorrect: #b3261e;
+  --tok-keyword: #7b30b5;
+  --tok-string: #3c7a16;
+  --tok-number: #b5480e;
+  --tok-comment: #7a7788;
+}
+
+* { box-sizing: border-box; }
+
+html { scroll-behavior: smooth; }
+
+body {
+  margin: 0;
+  background: var(--bg);
+  color: var(--text);
+  font-family: "Avenir Next", "Segoe UI Variable Text", Seravek, "Gill Sans Nova", Ubuntu, sans-serif;
+  font-size: 1.125rem;
+  line-height: 1.65;
+}
+
+h1, h2, h3, h4 {
+  font-family: "Iowan Old Style", "Palatino Linotype", Palatino, "Book Antiqua", Georgia, serif;
+  line-height: 1.25;
+}
+
+h1 { font-size: 2.6rem; margin: 0 0 0.5rem; }
+h2 { font-size: 2rem; margin: 0; }
+h3 { font-size: 1.45rem; margin: 0 0 1rem; }
+h4 { font-size: 1.15rem; margin: 1.5rem 0 0.5rem; }
+
+a { color: var(--accent); }
+
+:focus-visible { outline: 3px solid var(--accent); outline-offset: 2px; }
+
+code, pre, kbd, textarea {
+  font-family: "JetBrains Mono", "Cascadia Code", "Fira Code", "SF Mono", Menlo, Consolas, monospace;
+}
+
+p code, li code {
+  background: var(--bg-code);
+  border-radius: 4px;
+  padding: 0.1em 0.35em;
+  font-size: 0.9em;
+}
+
+kbd {
+  border: 1px solid var(--border);
+  border-radius: 4px;
+  padding: 0 0.35em;
+}
+
+/* Layout */
+
+.topbar {
+  position: sticky;
+  top: 0;
+  z-index: 10;
+  display: flex;
+  align-items: center;
+  gap: 1rem;
+  padding: 0.6rem 1.25rem;
+  background: var(--bg-raised);
+  border-bottom: 1px solid var(--border);
+}
+
+.topbar-title { font-weight: 600; flex: 1; overflow: hidden; white-space: nowrap; text-overflow: ellipsis; }
+.progress { color: var(--text-muted); font-size: 0.95rem; }
+
+.topbar button {
+  background: none;
+  border: 1px solid var(--border);
+  border-radius: 6px;
+  color: var(--text);
+  font-size: 1.1rem;
+  padding: 0.2rem 0.6rem;
+  cursor: pointer;
+}
+
+.menu-toggle { display: none; }
+
+.sidebar {
+  position: fixed;
+  top: 3.3rem;
+  bottom: 0;
+  left: 0;
+  width: 280px;
+  overflow-y: auto;
+  padding: 1.5rem 1rem;
+  border-right: 1px solid var(--border);
+  font-size: 0.95rem;
+}
+
+.sidebar ol { list-style: none; margin: 0; padding: 0; }
+.sidebar > ol > li { margin-bottom: 1rem; }
+.sidebar > ol > li > a { font-weight: 600; }
+.sidebar ol ol { padding-left: 0.75rem; margin-top: 0.25rem; border-left: 2px solid var(--border); }
+.sidebar a { color: var(--text-muted); text-decoration: none; display: block; padding: 0.15rem 0.5rem; border-radius: 4px; }
+.sidebar a:hover { color: var(--text); }
+.sidebar a[aria-current="true"] { color: var(--text); background: var(--bg-raised); }
+
+.content {
+  max-width: 800px;
+  margin: 0 auto;
+  padding: 2.5rem 1.5rem 6rem;
+}
+
+@media (min-width: 1100px) {
+  .content { margin-left: calc(280px + max(2rem, (100vw - 280px - 800px) / 2)); }
+}
+
+.intro { margin-bottom: 4rem; }
+.intro-meta, .pacing, .module-number { color: var(--text-muted); }
+.keyboard-hint { color: var(--text-muted); font-size: 0.95rem; }
+
+.module { margin-top: 5rem; }
+.module-header { margin-bottom: 2.5rem; scroll-margin-top: 4.5rem; }
+.module-number { text-transform: uppercase; letter-spacing: 0.12em; font-size: 0.85rem; margin: 0; }
+.pacing { margin: 0.25rem 0 1rem; }
+
+.objectives {
+  background: var(--bg-raised);
+  border: 1px solid var(--border);
+  border-radius: 10px;
+  padding: 1rem 1.5rem;
+}
+
+.objectives h3 { font-size: 1.1rem; margin: 0 0 0.5rem; }
+.objectives ul { margin: 0; }
+
+/* Sections */
+
+.section {
+  --section-color: var(--lecture);
+  margin: 3rem 0;
+  padding: 1.75rem 2rem;
+  background: var(--bg-raised);
+  border: 1px solid var(--border);
+  border-left: 5px solid var(--section-color);
+  border-radius: 10px;
+  scroll-margin-top: 4.5rem;
+}
+
+.section h3 { color: var(--section-color); }
+.section--exercise { --section-color: var(--exercise); }
+.section--discussion { --section-color: var(--discussion); background: color-mix(in srgb, var(--discussion) 7%, var(--bg-raised)); }
+.section--checkpoint { --section-color: var(--checkpoint); border: 2px solid var(--checkpoint); border-left-width: 5px; }
+.section--demo { --section-color: var(--demo); }
+.section--project {
+  --section-color: var(--project);
+  border: 2px solid var(--project);
+  border-left-width: 8px;
+  background: linear-gradient(160deg, color-mix(in srgb, var(--project) 12%, var(--bg-raised)), var(--bg-raised) 40%);
+}
+
+.lead { font-weight: 600; }
+.prompts li { margin-bottom: 0.5rem; font-style: italic; }
+.demo-steps li { margin-bottom: 0.4rem; }
+
+.break-divider {
+  display: flex;
+  align-items: center;
+  gap: 1rem;
+  color: var(--text-muted);
+  margin: 3rem 0;
+  scroll-margin-top: 4.5rem;
+}
+
+.break-divider::before,
+.break-divider::after {
+  content: "";
+  flex: 1;
+  border-top: 1px dashed var(--border);
+}
+
+/* Code */
+
+.code-block {
+  margin: 1rem 0;
+  border: 1px solid var(--border);
+  border-radius: 8px;
+  overflow: hidden;
+  background: var(--bg-code);
+}
+
+.code-header {
+  display: flex;
+  justify-content: space-between;
+  align-items: center;
+  padding: 0.35rem 0.75rem;
+  border-bottom: 1px solid var(--border);
+  font-size: 0.85rem;
+  color: var(--text-muted);
+}
+
+.code-block pre {
+  margin: 0;
+  padding: 1rem;
+  overflow-x: auto;
+  font-size: 16px;
+  line-height: 1.6;
+}
+
+.copy-button, .hint-button, .reveal-button, .answer-form button {
+  font: inherit;
+  font-size: 0.85rem;
+  color: var(--text);
+  background: var(--bg-raised);
+  border: 1px solid var(--border);
+  border-radius: 6px;
+  padding: 0.25rem 0.75rem;
+  cursor: pointer;
+}
+
+.copy-button.copied { color: var(--correct); border-color: var(--correct); }
+
+.tok-keyword { color: var(--tok-keyword); font-weight: 600; }
+.tok-string { color: var(--tok-string); }
+.tok-number { color: var(--tok-number); }
+.tok-comment { color: var(--tok-comment); font-style: italic; }
+
+.tabs [role="tablist"] { display: flex; flex-wrap: wrap; gap: 0.25rem; margin-top: 1rem; }
+
+.tabs [role="tab"] {
+  font: inherit;
+  font-family: "JetBrains Mono", "Cascadia Code", Menlo, Consolas, monospace;
+  font-size: 0.85rem;
+  color: var(--text-muted);
+  background: none;
+  border: 1px solid var(--border);
+  border-bottom: none;
+  border-radius: 6px 6px 0 0;
+  padding: 0.3rem 0.8rem;
+  cursor: pointer;
+}
+
+.tabs [role="tab"][aria-selected="true"] { color: var(--text); background: var(--bg-code); }
+.tabs [role="tabpanel"] .code-block { margin-top: 0; border-top-left-radius: 0; }
+.new-file { font-style: italic; color: var(--text-muted); border: 1px dashed var(--border); padding: 1rem; margin: 0 0 1rem; }
+
+/* Collapsibles */
+
+details {
+  margin: 1rem 0;
+  border: 1px solid var(--border);
+  border-radius: 8px;
+  padding: 0 1rem;
+}
+
+details[open] { padding-bottom: 0.5rem; }
+summary { cursor: pointer; padding: 0.6rem 0; font-weight: 600; color: var(--section-color, var(--accent)); }
+details[open] > *:not(summary) { animation: reveal 0.2s ease-out; }
+
+@keyframes reveal {
+  from { opacity: 0; transform: translateY(-4px); }
+  to { opacity: 1; transform: none; }
+}
+
+.hints ol { margin: 0.5rem 0; }
+.hints li { margin-bottom: 0.4rem; animation: reveal 0.2s ease-out; }
+
+/* Quiz */
+
+.question { margin: 1.5rem 0; padding-top: 1rem; border-top: 1px solid var(--border); }
+.question:first-of-type { border-top: none; }
+.question-prompt { font-weight: 600; }
+.question-number { color: var(--checkpoint); }
+.options { display: flex; flex-direction: column; gap: 0.5rem; }
+
+.option {
+  font: inherit;
+  text-align: left;
+  color: var(--text);
+  background: var(--bg);
+  border: 1px solid var(--border);
+  border-radius: 8px;
+  padding: 0.6rem 1rem;
+  cursor: pointer;
+}
+
+.option:hover:not(:disabled) { border-color: var(--checkpoint); }
+.option:disabled { cursor: default; }
+.option-label { font-weight: 700; color: var(--text-muted); margin-right: 0.4rem; }
+.option.correct { border-color: var(--correct); background: color-mix(in srgb, var(--correct) 15%, var(--bg)); }
+.option.incorrect { border-color: var(--incorrect); background: color-mix(in srgb, var(--incorrect) 15%, var(--bg)); }
+
+.answer-form { display: flex; gap: 0.5rem; align-items: flex-start; }
+
+.answer-input {
+  flex: 1;
+  font: inherit;
+  color: var(--text);
+  background: var(--bg);
+  border: 1px solid var(--border);
+  border-radius: 6px;
+  padding: 0.4rem 0.6rem;
+}
+
+.feedback.correct { color: var(--correct); font-weight: 600; }
+.feedback.incorrect { color: var(--incorrect); font-weight: 600; }
+.explanation { color: var(--text-muted); }
+.quiz-score { font-weight: 700; color: var(--checkpoint); text-align: right; }
+
+/* Rubric */
+
+.rubric { list-style: none; padding: 0; }
+.rubric li { display: flex; justify-content: space-between; gap: 1rem; padding: 0.5rem 0; border-bottom: 1px solid var(--border); }
+.rubric .points { color: var(--project); font-weight: 700; white-space: nowrap; }
+.rubric input:checked + span { text-decoration: line-through; color: var(--text-muted); }
+
+.footer { margin-top: 5rem; color: var(--text-muted); font-size: 0.9rem; text-align: center; }
+
+/* Responsive */
+
+@media (min-width: 1600px) {
+  body { font-size: 1.35rem; }
+  .content { max-width: 960px; }
+  .code-block pre { font-size: 20px; }
+}
+
+@media (max-width: 1099px) {
+  .menu-toggle { display: inline-block; }
+  .sidebar {
+    z-index: 9;
+    background: var(--bg);
+    transform: translateX(-100%);
+    transition: transform 0.2s ease-out;
+  }
+  .sidebar.open { transform: none; box-shadow: 0 0 24px rgb(0 0 0 / 0.4); }
+  .section { padding: 1.25rem; }
+  h1 { font-size: 2rem; }
+}
+
+@media (prefers-reduced-motion: reduce) {
+  html { scroll-behavior: auto; }
+  *, *::before, *::after { animation: none !important; transition: none !important; }
+}
+
+@media print {
+  :root, [data-theme="dark"] {
+    --bg: #ffffff;
+    --bg-raised: #ffffff;
+    --bg-code: #f5f5f5;
+    --text: #000000;
+    --text-muted: #444444;
+    --border: #cccccc;
+  }
+  .topbar, .sidebar, .copy-button, .hint-button, .reveal-button, .answer-form, .keyboard-hint { display: none; }
+  .content { margin: 0; max-width: none; padding: 0; }
+  .section { break-inside: avoid-page; }
+  .hints li[hidden], [role="tabpanel"][hidden], .explanation[hidden] { display: block; }
+  details > *:not(summary) { display: block; }
+}
+`;
+
+/** Theme toggle, copy buttons, tabs, hints, quizzes, scroll spy, keyboard navigation */
+export const SLIDES_JS = `(function () {
+  'use strict';
+
+  var root = document.documentElement;
+
+  // Theme toggle, persisted in localStorage
+  var THEME_KEY = 'workshop-theme';
+  function setTheme(theme) {
+    root.setAttribute('data-theme', theme);
+    try { localStorage.setItem(THEME_KEY, theme); } catch (e) { /* storage unavailable */ }
+  }
+  function toggleTheme() {
+    setTheme(root.getAttribute('data-theme') === 'dark' ? 'light' : 'dark');
+  }
+  try {
+    var saved = localStorage.getItem(THEME_KEY);
+    if (saved === 'light' || saved === 'dark') root.setAttribute('data-theme', saved);
+  } catch (e) { /* storage unavailable */ }
+  var themeToggle = document.querySelector('.theme-toggle');
+  if (themeToggle) themeToggle.addEventListener('click', toggleTheme);
+
+  // Sidebar toggle on small screens
+  var sidebar = document.getElementById('toc');
+  var menuToggle = document.querySelector('.menu-toggle');
+  function setMenu(open) {
+    sidebar.classList.toggle('open', open);
+    menuToggle.setAttribute('aria-expanded', String(open));
+  }
+  if (sidebar && menuToggle) {
+    menuToggle.addEventListener('click', function () {
+      setMenu(!sidebar.classList.contains('open'));
+    });
+    sidebar.addEventListener('click', function (event) {
+      if (event.target.closest('a')) setMenu(false);
+    });
+  }
+
+  // Copy buttons
+  document.querySelectorAll('.copy-button').forEach(function (button) {
+    button.addEventListener('click', function () {
+      var code = button.closest('.code-block').querySelector('code').textContent;
+      navigator.clipboard.writeText(code).then(function () {
+        button.textContent = 'Copied!';
+        button.classList.add('copied');
+        setTimeout(function () {
+          button.textContent = 'Copy';
+          button.classList.remove('copied');
+        }, 1500);
+      });
+    });
+  });
+
+  // File tabs
+  document.querySelectorAll('.tabs').forEach(function (tabs) {
+    var buttons = Array.prototype.slice.call(tabs.querySelectorAll('[role="tab"]'));
+    function select(selected) {
+      buttons.forEach(function (button) {
+        var active = button === selected;
+        button.setAttribute('aria-selected', String(active));
+        button.tabIndex = active ? 0 : -1;
+        document.getElementById(button.getAttribute('aria-controls')).hidden = !active;
+      });
+    }
+    buttons.forEach(function (button, idx) {
+      button.addEventListener('click', function () { select(button); });
+      button.addEventListener('keydown', function (event) {
+        if (event.key !== 'ArrowRight' && event.key !== 'ArrowLeft') return;
+        event.preventDefault();
+        event.stopPropagation();
+        var next = buttons[(idx + (event.key === 'ArrowRight' ? 1 : buttons.length - 1)) % buttons.length];
+        select(next);
+        next.focus();
+      });
+    });
+  });
+
+  // Progressive hints
+  document.querySelectorAll('.hint-button').forEach(function (button) {
+    var list = document.getElementById(button.getAttribute('aria-controls'));
+    button.addEventListener('click', function () {
+      var next = list.querySelector('li[hidden]');
+      if (next) next.hidden = false;
+      var left = list.querySelectorAll('li[hidden]').length;
+      button.textContent = 'Show a hint (' + left + ' left)';
+      if (left === 0) button.hidden = true;
+    });
+  });
+
+  // Checkpoint quizzes
+  function matchesPattern(pattern, value) {
+    try {
+      return new RegExp(pattern, 'i').test(value);
+    } catch (e) {
+      return pattern.toLowerCase() === value.toLowerCase();
+    }
+  }
+
+  function finish(question, correct, message) {
+    question.classList.add('answered');
+    var feedback = question.querySelector('.feedback');
+    feedback.textContent = message || (correct ? 'Correct!' : 'Not quite.');
+    feedback.className = 'feedback ' + (correct ? 'correct' : 'incorrect');
+    question.querySelector('.explanation').hidden = false;
+    question.querySelectorAll('button, input, textarea').forEach(function (control) { control.disabled = true; });
+    if (correct) {
+      var score = question.closest('.quiz').querySelector('.quiz-score');
+      if (score) {
+        var value = Number(score.getAttribute('data-score') || 0) + 1;
+        score.setAttribute('data-score', String(value));
+        score.textContent = 'Score: ' + value + ' / ' + score.getAttribute('data-total');
+      }
+    }
+  }
+
+  document.querySelectorAll('.question').forEach(function (question) {
+    var type = question.getAttribute('data-type');
+
+    if (type === 'multiple_choice' || type === 'true_false') {
+      var options = question.querySelectorAll('.option');
+      options.forEach(function (option) {
+        option.addEventListener('click', function () {
+          var expected = type === 'multiple_choice' ? question.getAttribute('data-correct') : question.getAttribute('data-answer');
+          var attribute = type === 'multiple_choice' ? 'data-index' : 'data-value';
+          options.forEach(function (other) {
+            if (other.getAttribute(attribute) === expected) other.classList.add('correct');
+          });
+          var correct = option.getAttribute(attribute) === expected;
+          if (!correct) option.classList.add('incorrect');
+          finish(question, correct);
+        });
+      });
+    }
+
+    if (type === 'short_answer' || type === 'code_output') {
+      var form = question.querySelector('.answer-form');
+      form.addEventListener('submit', function (event) {
+        event.preventDefault();
+        var value = form.querySelector('.answer-input').value.trim();
+        if (!value) return;
+        var correct = type === 'short_answer'
+          ? JSON.parse(question.getAttribute('data-patterns')).some(function (pattern) { return matchesPattern(pattern, value); })
+          : value === question.getAttribute('data-expected').trim();
+        var answer = type === 'short_answer' ? question.getAttribute('data-answer') : question.getAttribute('data-expected').trim();
+        finish(question, correct, correct ? 'Correct!' : 'Not quite. Expected: ' + answer);
+      });
+    }
+
+    if (type === 'reveal') {
+      question.querySelector('.reveal-button').addEventListener('click', function () {
+        var explanation = question.querySelector('.explanation');
+        var answer = document.createElement('p');
+        answer.className = 'model-answer';
+        answer.textContent = 'Answer: ' + question.getAttribute('data-answer');
+        explanation.insertBefore(answer, explanation.firstChild);
+        explanation.hidden = false;
+        question.querySelector('.reveal-button').hidden = true;
+      });
+    }
+  });
+
+  // Print everything: open collapsibles, show every hint and tab
+  window.addEventListener('beforeprint', function () {
+    document.querySelectorAll('details').forEach(function (details) { details.open = true; });
+  });
+
+  // Scroll spy and progress
+  var sections = Array.prototype.slice.call(document.querySelectorAll('.module, .section'));
+  var articles = Array.prototype.slice.call(document.querySelectorAll('.section, .module-header'));
+  var progress = document.querySelector('.progress');
+  var current = null;
+
+  function setCurrent(element) {
+    if (element === current) return;
+    current = element;
+    if (sidebar) {
+      sidebar.querySelectorAll('a[aria-current]').forEach(function (link) { link.removeAttribute('aria-current'); });
+      var link = sidebar.querySelector('a[href="#' + element.id + '"]');
+      if (link) link.setAttribute('aria-current', 'true');
+    }
+    var module = element.closest('.module');
+    if (module && progress) progress.textContent = 'Module ' + module.getAttribute('data-module') + ' of ' + progress.getAttribute('data-total');
+  }
+
+  if ('IntersectionObserver' in window) {
+    var observer = new IntersectionObserver(function (entries) {
+      entries.forEach(function (entry) {
+        if (entry.isIntersecting) setCurrent(entry.target);
+      });
+    }, { rootMargin: '-20% 0px -70% 0px' });
+    sections.forEach(function (section) { observer.observe(section); });
+  }
+
+  // Keyboard navigation: left/right between sections, t for theme
+  document.addEventListener('keydown', function (event) {
+    if (event.altKey || event.ctrlKey || event.metaKey) return;
+    if (event.target.closest('input, textarea, select, [contenteditable]')) return;
+    if (event.key === 't') {
+      toggleTheme();
+      return;
+    }
+    if (event.key !== 'ArrowRight' && event.key !== 'ArrowLeft') return;
+    var top = window.scrollY + 80;
+    var target = null;
+    if (event.key === 'ArrowRight') {
+      target = articles.find(function (article) { return article.getBoundingClientRect().top + window.scrollY > top + 1; });
+    } else {
+      for (var i = articles.length - 1; i >= 0; i--) {
+        if (articles[i].getBoundingClientRect().top + window.scrollY < top - 1) {
+          target = articles[i];
+          break;
+        }
+      }
+    }
+    if (target) {
+      event.preventDefault();
+      target.scrollIntoView({ block: 'start' });
+    }
+  });
+})();
+`;
@@ -0,0 +1,282 @@
+/**
+ * Workshop generation pipeline — analyze → outline → generate → validate.
+ *
+ * Shared by the interactive GenerationView and the headless `workshop create`
+ * command. Progress is reported through GenerationEvent callbacks so callers
+ * decide how to render it.
+ */
+
+import type { Workshop, Module, WorkshopSpec } from './schema.js';
+import { WorkshopSchema, ModuleSchema } from './schema.js';
+import { getGlobalClient, createSession, streamResponse } from './client.js';
+import { getSystemPrompt, buildAnalyzePrompt, buildOutlinePrompt, buildGeneratePrompt } from './prompts.js';
+import type { WorkshopParams } from './prompts.js';
+import { loadContextFiles } from './storage.js';
+import { validateWorkshop, type ValidationResult } from './validation.js';
+import { extractJson } from './extract-json.js';
+import { saveWorkshopTool, loadWorkshopTool, validateStructureTool } from './tools/index.js';
+import type { ModelSession } from './client.js';
+import { repairWorkshop, needsRepair, DEFAULT_REPAIR_ROUNDS, type RepairRound } from './repair.js';
+import { DEFAULT_POLICY, type Policy } from './policy.js';
+import {
+  loadCheckpoint,
+  saveCheckpoint,
+  createCheckpoint,
+  checkpointMatches,
+  type Checkpoint,
+} from './checkpoint.js';
+
+/**
+ * Inputs collected by the wizard or the `create` command
+ */
+export interface GenerationParams {
+  topic: string;
+  audience: { level: 'beginner' | 'intermediate' | 'advanced'; stack?: string; size?: number };
+  duration: number;
+  contextFiles: string[];
+}
+
+export type GenerationPhase = 'analyzing' | 'outlining' | 'generating' | 'validating' | 'repairing';
+
+/** Outline entry for a module, emitted before content generation starts. */
+export interface OutlineModule {
+  title: string;
+  duration: number;
+  totalSections: number;
+}
+
+/** Progress events emitted during generation. */
+export type GenerationEvent =
+  | { type: 'phase-start'; phase: GenerationPhase }
+  | { type: 'text-delta'; phase: GenerationPhase; accumulated: string }
+  | { type: 'resumed'; completedModules: number; totalModules: number }
+  | { type: 'outline-ready'; modules: OutlineModule[] }
+  | { type: 'module-start'; index: number; total: number }
+  | { type: 'module-retry'; index: number; attempt: number; maxRetries: number }
+  | { type: 'module-complete'; index: number; module: Module }
+  | { type: 'repair-round'; round: RepairRound }
+  | { type: 'complete'; workshop: Workshop; validation: ValidationResult };
+
+export interface GenerationOptions {
+  onEvent?: (event: GenerationEvent) => void;
+  /** Abort generation between streamed chunks (e.g. when the TUI unmounts). */
+  signal?: AbortSignal;
+  /**
+   * Workshop directory for checkpoints. When set, each completed step is
+   * persisted to `.workshop-cache/` and a matching checkpoint is resumed.
+   */
+  checkpointDir?: string;
+  /** Output YAML path recorded in the checkpoint for `workshop resume`. */
+  outPath?: string;
+  /**
+   * Repair rounds to run when error or warning checks fail (default: DEFAULT_REPAIR_ROUNDS).
+   * Set to 0 to skip the repair step.
+   */
+  repairRounds?: number;
+  /** Pedagogy policy for prompts, validation and repair (default: hands-on-lab preset). */
+  policy?: Policy;
+}
+
+/** Retries per module when the model returns malformed or truncated JSON. */
+const MAX_MODULE_RETRIES = 2;
+
+/**
+ * Convert a parsed spec file into generation parameters.
+ */
+export function specToParams(spec: WorkshopSpec): GenerationParams {
+  return {
+    topic: spec.topic,
+    audience: spec.audience,
+    duration: spec.duration,
+    contextFiles: spec.context,
+  };
+}
+
+/**
+ * Run the full generation chain and return the validated (and, if needed, repaired) workshop.
+ *
+ * @param params - Topic, audience, duration and context files
+ * @param options - Progress callback, abort signal and checkpoint directory
+ * @throws Error if a step fails, a module cannot be parsed after retries, or the signal is aborted
+ */
+export async function generateWorkshop(
+  params: GenerationParams,
+  options: GenerationOptions = {},
+): Promise<{ workshop: Workshop; validation: ValidationResult }> {
+  const { onEvent, signal, checkpointDir, policy = DEFAULT_POLICY } = options;
+  const throwIfAborted = () => {
+    if (signal?.aborted) {
+      throw new Error('Generation cancelled');
+    }
+  };
+
+  // Resume from a checkpoint recorded for the same inputs, otherwise start fresh
+  let checkpoint: Checkpoint = createCheckpoint(params, options.outPath);
+  if (checkpointDir) {
+    const existing = await loadCheckpoint(checkpointDir);
+    if (existing && checkpointMatches(existing, params)) {
+      checkpoint = { ...existing, out_path: options.outPath ?? existing.out_path };
+    }
+  }
+  const persist = async () => {
+    if (checkpointDir) {
+      await saveCheckpoint(checkpointDir, checkpoint);
+    }
+  };
+
+  // Load context files if provided
+  let contextContent: string[] | undefined;
+  if (params.contextFiles.length > 0) {
+    contextContent = await loadContextFiles(params.contextFiles);
+  }
+
+  const workshopParams: WorkshopParams = {
+    topic: params.topic,
+    audience: params.audience,
+    duration: params.duration,
+    context: params.contextFiles.length > 0 ? params.contextFiles : undefined,
+  };
+
+  // Session is opened lazily — a fully checkpointed run never needs one
+  let session: ModelSession | undefined;
+  const getSession = async (): Promise<ModelSession> => {
+    if (!session) {
+      const systemPrompt = await getSystemPrompt(policy);
+      session = await createSession(getGlobalClient(), systemPrompt, {
+        tools: [saveWorkshopTool, loadWorkshopTool, validateStructureTool],
+      });
+    }
+    return session;
+  };
+
+  /** Stream one prompt and return the extracted JSON from the final message. */
+  const runStep = async (phase: GenerationPhase, prompt: string, previewLength?: number): Promise<string> => {
+    let content = '';
+    for await (const chunk of streamResponse(await getSession(), prompt)) {
+      throwIfAborted();
+      if (chunk.type === 'complete') {
+        content = chunk.content;
+      } else {
+        const accumulated = previewLength ? chunk.accumulated.slice(-previewLength) : chunk.accumulated;
+        onEvent?.({ type: 'text-delta', phase, accumulated });
+      }
+    }
+    return extractJson(content);
+  };
+
+  // Phase 1: Analyze topic
+  onEvent?.({ type: 'phase-start', phase: 'analyzing' });
+  if (!checkpoint.analysis) {
+    checkpoint.analysis = await runStep('analyzing', buildAnalyzePrompt(workshopParams, contextContent));
+    await persist();
+  }
+  const analysisJson = checkpoint.analysis;
+  throwIfAborted();
+
+  // Phase 2: Create outline
+  onEvent?.({ type: 'phase-start', phase: 'outlining' });
+  if (!checkpoint.outline) {
+    checkpoint.outline = await runStep('outlining', buildOutlinePrompt(analysisJson, workshopParams, policy));
+    await persist();
+  }
+  const outlineJson = checkpoint.outline;
+  throwIfAborted();
+
+  // Parse outline to get module structure for progress display
+  const outlineParsed = JSON.parse(outlineJson) as {
+    title?: string;
+    prerequisites?: string[];
+    modules?: Array<{ title: string; duration: number; sections?: unknown[] }>;
+  };
+  const outlineModules = outlineParsed.modules ?? [];
+  onEvent?.({
+    type: 'outline-ready',
+    modules: outlineModules.map(m => ({
+      title: m.title,
+      duration: m.duration,
+      totalSections: Array.isArray(m.sections) ? m.sections.length : 0,
+    })),
+  });
+  if (checkpoint.modules.length > 0) {
+    onEvent?.({ type: 'resumed', completedModules: checkpoint.modules.length, totalModules: outlineModules.length });
+  }
+
+  // Phase 3: Generate modules section by section
+  onEvent?.({ type: 'phase-start', phase: 'generating' });
+  const generatedModules = checkpoint.modules;
+
+  for (let i = 0; i < outlineModules.length; i++) {
+    throwIfAborted();
+
+    const cachedModule = generatedModules[i];
+    if (cachedModule) {
+      onEvent?.({ type: 'module-complete', index: i, module: cachedModule });
+      continue;
+    }
+
+    onEvent?.({ type: 'module-start', index: i, total: outlineModules.length });
+
+    let moduleParsed: Module | undefined;
+    let lastError: unknown;
+
+    for (let attempt = 0; attempt <= MAX_MODULE_RETRIES; attempt++) {
+      throwIfAborted();
+
+      const genPrompt = attempt === 0
+        ? buildGeneratePrompt(outlineJson, i, workshopParams, contextContent)
+        : `The previous response was truncated or malformed. Please regenerate module ${i + 1} completely. ${buildGeneratePrompt(outlineJson, i, workshopParams, contextContent)}`;
+
+      const moduleJson = await runStep('generating', genPrompt, 500);
+
+      try {
+        moduleParsed = ModuleSchema.parse(JSON.parse(moduleJson));
+        break; // Success
+      } catch (err) {
+        lastError = err;
+        if (attempt < MAX_MODULE_RETRIES) {
+          onEvent?.({ type: 'module-retry', index: i, attempt: attempt + 1, maxRetries: MAX_MODULE_RETRIES });
+        }
+      }
+    }
+
+    if (!moduleParsed) {
+      throw lastError instanceof Error ? lastError : new Error(`Failed to parse module ${i + 1} after ${MAX_MODULE_RETRIES + 1} attempts`);
+    }
+    generatedModules.push(moduleParsed);
+    await persist();
+    onEvent?.({ type: 'module-complete', index: i, module: moduleParsed });
+  }
+
+  // Phase 4: Validate
+  onEvent?.({ type: 'phase-start', phase: 'validating' });
+
+  const workshop: Workshop = WorkshopSchema.parse({
+    title: outlineParsed.title ?? `Workshop: ${params.topic}`,
+    topic: params.topic,
+    audience: workshopParams.audience,
+    duration: params.duration,
+    prerequisites: outlineParsed.prerequisites ?? [],
+    context_sources: params.contextFiles,
+    modules: generatedModules.slice(0, outlineModules.length),
+  });
+
+  const validation = validateWorkshop(workshop, policy);
+  const repairRounds = options.repairRounds ?? DEFAULT_REPAIR_ROUNDS;
+  if (!needsRepair(validation) || repairRounds <= 0) {
+    onEvent?.({ type: 'complete', workshop, validation });
+    return { workshop, validation };
+  }
+
+  // Phase 5: Repair failing checks
+  throwIfAborted();
+  onEvent?.({ type: 'phase-start', phase: 'repairing' });
+  const repaired = await repairWorkshop(workshop, {
+    maxRounds: repairRounds,
+    policy,
+    onRound: (round) => onEvent?.({ type: 'repair-round', round }),
+  });
+  throwIfAborted();
+  onEvent?.({ type: 'complete', workshop: repaired.workshop, validation: repaired.validation });
+
+  return { workshop: repaired.workshop, validation: repaired.validation };
+}
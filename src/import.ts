@@ -0,0 +1,626 @@
+/**
+ * Markdown import for Workshop Factory CLI
+ *
+ * Turns Markdown workshop guides back into a Workshop. Guides laid out like
+ * `workshop export` output (H2 modules, H3 sections, "Talking Points",
+ * "Starter Code", `<details>` solutions and answers, durations) are parsed
+ * directly, so our own instructor exports round-trip losslessly; facilitator
+ * and attendee exports import with defaults for what they leave out. Any
+ * other document is handed to the model to structure.
+ */
+
+import { readFile } from 'node:fs/promises';
+import {
+  BloomsLevelSchema,
+  WorkshopSchema,
+  type Audience,
+  type CheckpointQuestion,
+  type ExerciseFile,
+  type LearningObjective,
+  type Module,
+  type ProjectMilestone,
+  type RubricCriterion,
+  type Section,
+  type Workshop,
+} from './schema.js';
+import { inferLanguage, normalizeLanguage } from './languages.js';
+import { slugifyTopic } from './workshops.js';
+import { buildImportPrompt, getSystemPrompt } from './prompts.js';
+import { getGlobalClient, createSession, sendAndWait } from './client.js';
+import { extractJson } from './extract-json.js';
+
+/**
+ * Result of importing a Markdown guide
+ */
+export interface ImportResult {
+  workshop: Workshop;
+  method: 'parsed' | 'model';  // parsed: exported layout recognized; model: structured by the model
+  warnings: string[];          // defaults filled in for content the document lacks
+}
+
+/**
+ * Import a Markdown guide, parsing it when it has the exported layout and
+ * asking the model to structure it otherwise.
+ *
+ * @param markdownPath - Path to the Markdown file
+ * @throws Error if the file can't be read, or the result isn't a valid workshop
+ */
+export async function importWorkshop(markdownPath: string): Promise<ImportResult> {
+  const markdown = await readFile(markdownPath, 'utf-8');
+
+  const parsed = parseWorkshopMarkdown(markdown);
+  if (parsed) {
+    return { ...parsed, method: 'parsed' };
+  }
+
+  const systemPrompt = await getSystemPrompt();
+  const client = getGlobalClient();
+  const session = await createSession(client, systemPrompt);
+  const response = await sendAndWait(session, buildImportPrompt(markdown, markdownPath));
+  if (!response) {
+    throw new Error(`No response from Copilot SDK while structuring ${markdownPath}`);
+  }
+
+  const raw: unknown = JSON.parse(extractJson(response.data.content));
+  const workshop = toWorkshop(raw, `Structured ${markdownPath} is not a valid workshop`);
+  if (!workshop.context_sources.includes(markdownPath)) {
+    workshop.context_sources.push(markdownPath);
+  }
+  return { workshop, method: 'model', warnings: [] };
+}
+
+// ---------------------------------------------------------------------------
+// Parsing
+// ---------------------------------------------------------------------------
+
+const MODULE_HEADING = /^(\d+)\.\s+(.*)$/;
+const SECTION_HEADING = /^(\d+)\.\d+\.?\s+(.*)$/;
+// The other headings the export writes. Any heading not listed here is part
+// of the text around it (instructions may have headings of their own).
+const DOCUMENT_HEADING = /^(Table of Contents|Appendix: Solutions)$/;
+const SUBSECTION_HEADING = /^(Starter Code|Solution|Tests|Hints|Answers|Milestone \d+:.*|Rubric\b.*|How your project is assessed)$/;
+const PLACEHOLDER_PROSE = '<!-- Placeholder prose from the talking points';
+const DURATION_LINE = /^\*\*Duration:\*\*\s*(\d+(?:\.\d+)?)\s*min/;
+const PACING_LINE = /^\*~(\d+(?:\.\d+)?)\s*min\*$/;
+const LANGUAGE_LINE = /^\*\*Language:\*\*\s*(\S+)\s*$/;
+const FENCE = /^(\s{0,3})(`{3,}|~{3,})\s*([^`\s]*)/;
+
+interface HeadingBlock {
+  title: string;
+  lines: string[];  // the lines after the heading, up to the next heading of the same level
+}
+
+/**
+ * Parse a guide with the exported layout.
+ *
+ * @returns Undefined when the document doesn't have that layout (no H1, or
+ *   no numbered H2 module with a numbered H3 section)
+ */
+export function parseWorkshopMarkdown(markdown: string): { workshop: Workshop; warnings: string[] } | undefined {
+  const lines = markdown.replace(/\r\n?/g, '\n').split('\n');
+  const document = splitHeadings(lines, 1, (_title, blocks) => blocks.length === 0).blocks[0];
+  if (!document) return undefined;
+
+  // Modules are numbered in order, so a numbered H2 in some instructions isn't taken for one
+  const { preamble, blocks } = splitHeadings(document.lines, 2, (title, previous) =>
+    DOCUMENT_HEADING.test(title)
+    || Number(MODULE_HEADING.exec(title)?.[1]) === previous.filter((block) => MODULE_HEADING.test(block.title)).length + 1
+  );
+  const moduleBlocks = blocks.filter((block) => MODULE_HEADING.test(block.title));
+  const hasSections = moduleBlocks.some((block) => splitSections(block).blocks.length > 0);
+  if (!hasSections) return undefined;
+
+  const warnings: string[] = [];
+  if (blocks.some((block) => /^appendix/i.test(block.title))) {
+    warnings.push('Skipped the appendix: solutions and answers are only read from their sections');
+  }
+
+  const declaredLanguages = new WeakSet<Section>();
+  const modules = moduleBlocks.map((block) => parseModule(block, warnings, declaredLanguages));
+  const header = parseHeader(document.title, preamble, warnings);
+
+  // Code fences carry the resolved language; unless a **Language:** line
+  // declared it, keep only the ones that differ from what the stack implies
+  const stackLanguage = inferLanguage(header.audience.stack) ?? '';
+  for (const module of modules) {
+    for (const section of module.sections) {
+      if ((section.type === 'exercise' || section.type === 'project') && !declaredLanguages.has(section) && (section.language === stackLanguage || !section.language)) {
+        delete section.language;
+      }
+    }
+  }
+
+  const duration = header.duration ?? modules.reduce((sum, module) => sum + module.duration, 0);
+  const workshop = toWorkshop({
+    title: document.title,
+    topic: header.topic,
+    audience: header.audience,
+    duration,
+    prerequisites: header.prerequisites,
+    context_sources: header.contextSources,
+    modules,
+  }, 'Imported workshop is not valid');
+  return { workshop, warnings };
+}
+
+function parseHeader(title: string, lines: string[], warnings: string[]) {
+  const topicLine = findField(lines, 'Topic');
+  const audienceLine = findField(lines, 'Audience');
+  const sizeLine = findField(lines, 'Group Size');
+  const durationLine = lines.map((line) => DURATION_LINE.exec(line)).find(Boolean);
+
+  let topic = topicLine;
+  if (!topic) {
+    topic = slugifyTopic(title);
+    warnings.push(`No **Topic:** line; using "${topic}"`);
+  }
+
+  const audience: Audience = { level: 'intermediate' };
+  const audienceMatch = audienceLine ? /^(beginner|intermediate|advanced)(?:\s*\((.*)\))?$/i.exec(audienceLine) : null;
+  if (audienceMatch) {
+    audience.level = audienceMatch[1]!.toLowerCase() as Audience['level'];
+    if (audienceMatch[2]) audience.stack = audienceMatch[2];
+  } else {
+    warnings.push(`No audience level${audienceLine ? ` in "${audienceLine}"` : ''}; using "intermediate"`);
+  }
+  if (sizeLine && Number.isFinite(Number(sizeLine))) {
+    audience.size = Number(sizeLine);
+  }
+
+  return {
+    topic,
+    audience,
+    duration: durationLine ? Number(durationLine[1]) : undefined,
+    prerequisites: listAfter(lines, '**Prerequisites:**'),
+    contextSources: listAfter(lines, '**Context Sources:**'),
+  };
+}
+
+function parseModule(block: HeadingBlock, warnings: string[], declaredLanguages: WeakSet<Section>): Module {
+  const title = MODULE_HEADING.exec(block.title)![2]!;
+  const { preamble, blocks } = splitSections(block);
+
+  const objectives = [...listAfter(preamble, '**Learning Objectives:**'), ...listAfter(preamble, '**What you\'ll learn:**')];
+  const learningObjectives = objectives.map((text): LearningObjective => {
+    const match = /^(.*?)\s*\((\w+)\)$/.exec(text);
+    const level = BloomsLevelSchema.safeParse(match?.[2]?.toLowerCase());
+    if (match && level.success) {
+      return { text: match[1]!, blooms_level: level.data };
+    }
+    warnings.push(`${title}: no Bloom's level for "${text}"; using "understand"`);
+    return { text, blooms_level: 'understand' };
+  });
+
+  const durationMatch = preamble.map((line) => DURATION_LINE.exec(line) ?? PACING_LINE.exec(line)).find(Boolean);
+  const parsedSections = blocks.map((section) => parseSection(section, title, warnings, declaredLanguages));
+
+  // Sections without a duration share what's left of the module's time
+  const sections = parsedSections.map(({ section }) => section);
+  const timed = parsedSections.filter(({ timed }) => timed);
+  const untimed = parsedSections.length - timed.length;
+  const known = timed.reduce((sum, { section }) => sum + section.duration, 0);
+  const duration = durationMatch ? Number(durationMatch[1]) : undefined;
+  if (untimed > 0) {
+    const share = Math.max(1, Math.round(((duration ?? known + 5 * untimed) - known) / untimed));
+    parsedSections.forEach(({ section, timed }) => {
+      if (!timed) section.duration = share;
+    });
+    warnings.push(`${title}: ${untimed} section${untimed === 1 ? '' : 's'} without a duration; using ${share} min each`);
+  }
+
+  return {
+    title,
+    duration: duration ?? sections.reduce((sum, section) => sum + section.duration, 0),
+    learning_objectives: learningObjectives,
+    sections,
+  };
+}
+
+function parseSection(
+  block: HeadingBlock,
+  moduleTitle: string,
+  warnings: string[],
+  declaredLanguages: WeakSet<Section>,
+): { section: Section; timed: boolean } {
+  const title = SECTION_HEADING.exec(block.title)![2]!;
+  const { preamble, blocks } = splitHeadings(block.lines, 4, (heading) => SUBSECTION_HEADING.test(heading));
+  const where = `${moduleTitle} › ${title}`;
+
+  // Everything after the duration line is the section's content
+  const durationIdx = preamble.findIndex((line) => DURATION_LINE.test(line));
+  const duration = durationIdx >= 0 ? Number(DURATION_LINE.exec(preamble[durationIdx]!)![1]) : 0;
+  const content = durationIdx >= 0 ? preamble.slice(durationIdx + 1) : [...preamble];
+  // Instructor exports put a declared exercise or project language right after it
+  const languageIdx = content.findIndex((line) => line.trim() !== '');
+  const declaredLanguage = languageIdx >= 0 ? LANGUAGE_LINE.exec(content[languageIdx]!.trim())?.[1] : undefined;
+  if (declaredLanguage) content.splice(0, languageIdx + 1);
+  const subsection = (pattern: RegExp) => blocks.find((sub) => pattern.test(sub.title));
+  const has = (marker: string) => content.some((line) => line.trim() === marker);
+  const result = (section: Section) => {
+    if (declaredLanguage && (section.type === 'exercise' || section.type === 'project')) {
+      section.language = declaredLanguage;
+      declaredLanguages.add(section);
+    }
+    return { section, timed: durationIdx >= 0 };
+  };
+
+  if (subsection(/^Starter Code$/)) {
+    return result(parseExercise(title, duration, content, blocks, warnings, where));
+  }
+  if (subsection(/^Milestone \d+:/)) {
+    return result(parseProject(title, duration, content, blocks));
+  }
+  if (has('**Talking Points:**')) {
+    return result({ type: 'lecture', title, duration, talking_points: listAfter(content, '**Talking Points:**') });
+  }
+  if (has('**Prompts:**') || has('**Think about:**')) {
+    return result({
+      type: 'discussion',
+      title,
+      duration,
+      prompts: [...listAfter(content, '**Prompts:**'), ...listAfter(content, '**Think about:**')],
+    });
+  }
+  if (has('**Questions:**') || has('**Check your understanding:**')) {
+    const start = content.findIndex((line) => line.trim() === '**Questions:**' || line.trim() === '**Check your understanding:**');
+    const answers = subsection(/^Answers$/);
+    if (!answers) {
+      warnings.push(`${where}: no answer key; answers left empty`);
+    }
+    return result({
+      type: 'checkpoint',
+      title,
+      duration,
+      questions: parseQuestions(content.slice(start + 1), answers ? withoutDetails(answers.lines) : []),
+    });
+  }
+  if (has('**Demo Script:**') || has('**Watch along:**')) {
+    const fallback = content.map((line) => /^\*\*If the live demo fails:\*\*\s?(.*)$/.exec(line)).find(Boolean);
+    if (!fallback) {
+      warnings.push(`${where}: no fallback notes for the demo`);
+    }
+    return result({
+      type: 'demo',
+      title,
+      duration,
+      script: [...listAfter(content, '**Demo Script:**'), ...listAfter(content, '**Watch along:**')],
+      fallback_notes: fallback?.[1] ?? '',
+    });
+  }
+  if (has('*Break — no content.*') || has('*Take a break.*')) {
+    return result({ type: 'break', title, duration });
+  }
+
+  // Plain prose: one talking point per paragraph
+  warnings.push(content.some((line) => line.startsWith(PLACEHOLDER_PROSE))
+    ? `${where}: talking points were exported as prose; imported one per paragraph`
+    : `${where}: couldn't tell the section type (no talking points, prompts, questions, demo script, starter code or milestones); imported its text as a lecture`);
+  const paragraphs = withoutComments(content).join('\n').split(/\n\s*\n/).map((text) => text.trim()).filter(Boolean);
+  return result({ type: 'lecture', title, duration, talking_points: paragraphs });
+}
+
+function parseExercise(
+  title: string,
+  duration: number,
+  content: string[],
+  blocks: HeadingBlock[],
+  warnings: string[],
+  where: string,
+): Section {
+  const subsection = (name: string) => blocks.find((sub) => sub.title === name);
+  const starter = parseCodeItems(subsection('Starter Code')?.lines ?? []);
+  const solutionBlock = subsection('Solution');
+  const solution = parseCodeItems(withoutDetails(solutionBlock?.lines ?? []));
+  const tests = parseCodeItems(withoutDetails(subsection('Tests')?.lines ?? []));
+  const hints = parseListOrParagraphs(withoutDetails(subsection('Hints')?.lines ?? []));
+  if (!solutionBlock) {
+    warnings.push(`${where}: no solution; left empty`);
+  }
+
+  const section: Extract<Section, { type: 'exercise' }> = {
+    type: 'exercise',
+    title,
+    duration,
+    instructions: prose(content),
+    starter_code: '',
+    solution: '',
+    hints,
+  };
+
+  if (starter.some((item) => item.label !== undefined)) {
+    // Multi-file: one labelled block per file
+    section.files = starter.filter((item) => item.label !== undefined).map((item): ExerciseFile => {
+      const solved = solution.find((candidate) => candidate.label === item.label);
+      return {
+        path: item.label!,
+        language: item.language || solved?.language || '',
+        starter: item.code ?? '',
+        solution: solved?.code ?? '',
+      };
+    });
+  } else {
+    section.starter_code = starter[0]?.code ?? '';
+    section.solution = solution[0]?.code ?? '';
+  }
+
+  // The tests fence carries the exercise language even for multi-file exercises
+  const language = tests[0]?.language || (section.files ? undefined : starter[0]?.language || solution[0]?.language);
+  if (language) section.language = language;
+  if (tests[0]?.code !== undefined) {
+    section.test = tests[0].code;
+  }
+  return section;
+}
+
+function parseProject(title: string, duration: number, content: string[], blocks: HeadingBlock[]): Section {
+  let language: string | undefined;
+  const milestones = blocks
+    .map((block) => ({ block, match: /^Milestone \d+:\s*(.*)$/.exec(block.title) }))
+    .filter(({ match }) => match)
+    .map(({ block, match }): ProjectMilestone => {
+      // Instructions (which may have code of their own), the starter code, then the solution in <details>
+      const detailsIdx = block.lines.map((line) => line.trim()).lastIndexOf('<details>');
+      const beforeSolution = detailsIdx >= 0 ? block.lines.slice(0, detailsIdx) : block.lines;
+      const starterIdx = lastFenceStart(beforeSolution);
+      const starter = starterIdx >= 0 ? parseCodeItems(beforeSolution.slice(starterIdx))[0] : undefined;
+      const solution = detailsIdx >= 0 ? parseCodeItems(withoutDetails(block.lines.slice(detailsIdx)))[0] : undefined;
+      language ||= starter?.language || solution?.language;
+      return {
+        title: match![1]!,
+        instructions: prose(starterIdx >= 0 ? beforeSolution.slice(0, starterIdx) : beforeSolution),
+        starter_code: starter?.code ?? '',
+        solution: solution?.code ?? '',
+      };
+    });
+
+  const rubricBlock = blocks.find((block) => /^(Rubric\b|How your project is assessed$)/.test(block.title));
+  const rubric: RubricCriterion[] = [];
+  for (const line of rubricBlock?.lines ?? []) {
+    const row = /^\|\s(.*)\s\|\s(\d+(?:\.\d+)?)\s\|$/.exec(line);
+    const checkbox = /^- \[[ x]\]\s(.*)\s\((\d+(?:\.\d+)?) pts\)$/.exec(line);
+    const match = row ?? checkbox;
+    if (match) {
+      rubric.push({ criterion: match[1]!.replaceAll('\\|', '|'), points: Number(match[2]) });
+    }
+  }
+
+  return {
+    type: 'project',
+    title,
+    duration,
+    brief: prose(content),
+    ...(language ? { language } : {}),
+    milestones,
+    rubric,
+  };
+}
+
+/**
+ * Pair the numbered questions with the numbered answer key entries. A
+ * question's kind follows from its layout: options, a "True or false?" tag,
+ * or a code block; anything else is a short answer.
+ */
+function parseQuestions(questionLines: string[], answerLines: string[]): CheckpointQuestion[] {
+  const answers = numberedItems(answerLines);
+  return numberedItems(questionLines).map((item, idx): CheckpointQuestion => {
+    const answer = answers[idx];
+    const answerText = answer ? /^\*\*Answer:\*\*\s?(.*)$/.exec(answer.first)?.[1] ?? '' : '';
+    const explanation = answer?.rest.map((line) => /^\s*\*\*Explanation:\*\*\s?(.*)$/.exec(line)).find(Boolean)?.[1] ?? '';
+
+    const options = item.rest.map((line) => /^\s*- [A-Z]\)\s?(.*)$/.exec(line)).filter(Boolean).map((match) => match![1]!);
+    if (options.length > 0) {
+      const letter = /^([A-Z])\)/.exec(answerText)?.[1];
+      return {
+        type: 'multiple_choice',
+        prompt: item.first,
+        options,
+        correct_index: letter ? letter.charCodeAt(0) - 65 : 0,
+        explanation,
+      };
+    }
+
+    const trueFalse = /^(.*?)\s?\*\(True or false\?\)\*$/.exec(item.first);
+    if (trueFalse) {
+      return { type: 'true_false', prompt: trueFalse[1]!, answer: answerText.trim().toLowerCase() !== 'false', explanation };
+    }
+
+    const code = parseCodeItems(item.rest);
+    if (code[0]?.code !== undefined) {
+      return {
+        type: 'code_output',
+        prompt: item.first,
+        code: code[0].code,
+        expected_output: parseCodeItems(answer?.rest ?? [])[0]?.code ?? '',
+        explanation,
+      };
+    }
+
+    const accepted = answer?.rest.map((line) => /^\s*\*\*Accepted:\*\*\s?(.*)$/.exec(line)).find(Boolean)?.[1] ?? '';
+    return {
+      type: 'short_answer',
+      prompt: item.first,
+      answer: answerText,
+      accepted_patterns: [...accepted.matchAll(/`([^`]*)`/g)].map((match) => match[1]!),
+      explanation,
+    };
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Markdown helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Split lines at ATX headings of exactly `level` (outside code fences).
+ * Headings that `startsBlock` rejects stay in the text of the current block.
+ */
+function splitHeadings(
+  lines: string[],
+  level: number,
+  startsBlock: (title: string, blocks: HeadingBlock[]) => boolean,
+): { preamble: string[]; blocks: HeadingBlock[] } {
+  const heading = new RegExp(`^#{${level}}\\s+(.*?)\\s*$`);
+  const preamble: string[] = [];
+  const blocks: HeadingBlock[] = [];
+  forEachOutsideFences(lines, (line, outside) => {
+    const match = outside ? heading.exec(line) : null;
+    if (match && startsBlock(match[1]!, blocks)) {
+      blocks.push({ title: match[1]!, lines: [] });
+    } else {
+      (blocks[blocks.length - 1]?.lines ?? preamble).push(line);
+    }
+  });
+  return { preamble, blocks };
+}
+
+/**
+ * Split a module into its sections, which start at `### N.M.` headings
+ * numbered for this module.
+ */
+function splitSections(module: HeadingBlock): { preamble: string[]; blocks: HeadingBlock[] } {
+  const number = MODULE_HEADING.exec(module.title)![1]!;
+  return splitHeadings(module.lines, 3, (title) => SECTION_HEADING.exec(title)?.[1] === number);
+}
+
+/**
+ * Call `visit` for every line, telling it whether the line is outside a code
+ * fence (fence delimiters themselves count as inside).
+ */
+function forEachOutsideFences(lines: string[], visit: (line: string, outside: boolean) => void): void {
+  let open: string | undefined;
+  for (const line of lines) {
+    const fence = FENCE.exec(line);
+    if (open === undefined) {
+      if (fence) open = fence[2]!;
+      visit(line, !fence);
+    } else {
+      if (fence && fence[2]!.startsWith(open) && !line.trim().slice(fence[2]!.length)) open = undefined;
+      visit(line, false);
+    }
+  }
+}
+
+/**
+ * Index of the opening line of the last code fence, or -1.
+ */
+function lastFenceStart(lines: string[]): number {
+  let start = -1;
+  let inside = false;
+  lines.forEach((line, idx) => {
+    const fence = FENCE.test(line);
+    if (fence && !inside) start = idx;
+    if (fence) inside = !inside;
+  });
+  return start;
+}
+
+/**
+ * The value of a `**Name:** value` line.
+ */
+function findField(lines: string[], name: string): string | undefined {
+  const prefix = `**${name}:**`;
+  return lines.find((line) => line.startsWith(prefix))?.slice(prefix.length).trim();
+}
+
+/**
+ * The `- item` or `1. item` lines right after a marker line (blank lines between allowed).
+ */
+function listAfter(lines: string[], marker: string): string[] {
+  const start = lines.findIndex((line) => line.trim() === marker);
+  if (start < 0) return [];
+  const items: string[] = [];
+  for (const line of lines.slice(start + 1)) {
+    const match = /^(?:[-*]|\d+\.)\s(.*)$/.exec(line);
+    if (match) items.push(match[1]!);
+    else if (line.trim() || items.length > 0) break;
+  }
+  return items;
+}
+
+/**
+ * Items of a numbered list; continuation lines (indented, or blank) go to the item.
+ */
+function numberedItems(lines: string[]): Array<{ first: string; rest: string[] }> {
+  const items: Array<{ first: string; rest: string[] }> = [];
+  forEachOutsideFences(lines, (line, outside) => {
+    const match = outside ? /^\d+\.(?:\s(.*))?$/.exec(line) : null;
+    if (match) items.push({ first: match[1] ?? '', rest: [] });
+    else items[items.length - 1]?.rest.push(line);
+  });
+  return items;
+}
+
+/**
+ * Hints: a numbered list, or (attendee exports) one paragraph per hint.
+ */
+function parseListOrParagraphs(lines: string[]): string[] {
+  const content = lines.filter((line) => line.trim());
+  if (content.length > 0 && content.every((line) => /^\d+\.\s/.test(line))) {
+    return content.map((line) => line.replace(/^\d+\.\s/, ''));
+  }
+  return lines.join('\n').split(/\n\s*\n/).map((text) => text.trim()).filter(Boolean);
+}
+
+/**
+ * Code blocks, each with the `**`path`**` label before it if there is one.
+ * A "*New file …*" line stands for a labelled file with no code.
+ */
+function parseCodeItems(lines: string[]): Array<{ label?: string; language: string; code?: string }> {
+  const items: Array<{ label?: string; language: string; code?: string }> = [];
+  let label: string | undefined;
+  let fence: { indent: number; marker: string; language: string; code: string[] } | undefined;
+  for (const line of lines) {
+    const match = FENCE.exec(line);
+    if (fence) {
+      if (match && match[2]!.startsWith(fence.marker) && !line.trim().slice(match[2]!.length)) {
+        items.push({ label, language: fence.language, code: fence.code.join('\n') });
+        label = undefined;
+        fence = undefined;
+      } else {
+        // Undo the list indentation the exporter adds inside numbered items
+        fence.code.push(line.replace(new RegExp(`^ {0,${fence.indent}}`), ''));
+      }
+      continue;
+    }
+    if (match) {
+      fence = { indent: match[1]!.length, marker: match[2]!, language: normalizeLanguage(match[3] ?? ''), code: [] };
+    } else if (/^\*\*`(.+)`\*\*$/.test(line)) {
+      label = /^\*\*`(.+)`\*\*$/.exec(line)![1];
+    } else if (label !== undefined && /^\*New file\b/.test(line)) {
+      items.push({ label, language: '' });
+      label = undefined;
+    }
+  }
+  return items;
+}
+
+/**
+ * Text between the markers around it: the exporter pads prose with one blank
+ * line on each side.
+ */
+function prose(lines: string[]): string {
+  const body = [...lines];
+  if (body[0] !== undefined && !body[0].trim()) body.shift();
+  if (body.length > 0 && !body[body.length - 1]!.trim()) body.pop();
+  return body.join('\n');
+}
+
+function withoutDetails(lines: string[]): string[] {
+  return lines.filter((line) => !/^\s*(<details>|<\/details>|<summary>.*<\/summary>)\s*$/.test(line));
+}
+
+function withoutComments(lines: string[]): string[] {
+  return lines.filter((line) => !/^\s*<!--.*-->\s*$/.test(line));
+}
+
+/**
+ * Validate a parsed or model-structured workshop, listing the schema issues.
+ */
+function toWorkshop(raw: unknown, message: string): Workshop {
+  const result = WorkshopSchema.safeParse(raw);
+  if (!result.success) {
+    const issues = result.error.issues.map((issue) => `  - ${issue.path.join('.')}: ${issue.message}`).join('\n');
+    throw new Error(`${message}:\n${issues}`);
+  }
+  return result.data;
+}
@@ -1,21 +1,43 @@
 #!/usr/bin/env node
 import React, { useState, useCallback, useEffect } from 'react';
 import { render, Box, Text, useInput } from 'ink';
-import { readFile } from 'node:fs/promises';
+import { access, readFile, writeFile } from 'node:fs/promises';
 import { fileURLToPath } from 'node:url';
 import { dirname, join } from 'node:path';
-import { loadWorkshop, saveWorkshop } from './storage.js';
-import { validateWorkshop } from './validation.js';
-import { exportToMarkdownFile } from './exporters/markdown.js';
-import { regenerateWorkshop } from './regen.js';
+import { loadWorkshop, loadWorkshopSource, saveWorkshop, serializeWorkshop } from './storage.js';
+import { formatUnifiedDiff } from './diff.js';
+import { formatWorkshopJsonSchema } from './json-schema.js';
+import { runLanguageServer } from './lsp/server.js';
+import { validateWorkshop, countFailures, getFailures, type Severity } from './validation.js';
+import { formatValidationReport, failsValidation, REPORT_FORMATS, type ReportFormat } from './validation-report.js';
+import { formatCodeFrame, formatSourceLocation, type YamlSource } from './source-map.js';
+import { loadPolicy, DEFAULT_POLICY, type Policy } from './policy.js';
+import { exportToMarkdownFile, MARKDOWN_AUDIENCES, type MarkdownAudience } from './exporters/markdown.js';
+import { exportToSlidesFile } from './exporters/slides.js';
+import { exportToRevealJsFile } from './exporters/revealjs.js';
+import { exportToMarpFile } from './exporters/marp.js';
+import { exportToPdfFile, formatCharacters, PDF_PROFILES, type PdfProfile } from './exporters/pdf.js';
+import { exportToSite } from './exporters/site.js';
+import { exportToRunSheetFiles, formatClock, parseBreaks, parseClockTime, parseDate } from './exporters/runsheet.js';
+import { formatRepoReport, type RepoReport } from './exporters/repo-verify.js';
+import type { GenerateRepoEvent, RepoPhase } from './exporters/repo-generate.js';
+import { regenerateWorkshop, mapSectionIndices } from './regen.js';
+import { importWorkshop } from './import.js';
+import { verifyWorkshop } from './verify.js';
+import { repairWorkshop, needsRepair, formatRepairRound } from './repair.js';
+import { generateWorkshop, specToParams } from './generation.js';
+import type { GenerationEvent, GenerationParams } from './generation.js';
+import { loadCheckpoint, clearCheckpoint } from './checkpoint.js';
 import { shutdown } from './client.js';
 import { Wizard } from './components/Wizard.js';
 import { GenerationView } from './components/GenerationView.js';
 import { Summary } from './components/Summary.js';
 import { ExportProgress } from './components/ExportProgress.js';
 import { WorkshopPicker } from './components/WorkshopPicker.js';
-import type { Workshop } from './schema.js';
-import type { ValidationResult } from './validation.js';
+import { load } from 'js-yaml';
+import { WorkshopSpecSchema } from './schema.js';
+import type { Workshop, WorkshopSpec } from './schema.js';
+import type { ValidationCheck, ValidationResult } from './validation.js';
 import { discoverExistingWorkshops, getExportPath, getNewWorkshopConfigPath, slugifyTopic } from './workshops.js';
 import type { ExistingWorkshop } from './workshops.js';
 
@@ -24,18 +46,38 @@ import type { ExistingWorkshop } from './workshops.js';
  * 
  * Commands:
  * - workshop new [--context <files...>]
+ * - workshop create (--topic <topic> --level <level> --duration <min> | --spec <file>) [--stack <stack>] [--out <path>] [--context <files...>]
+ * - workshop resume <dir>
  * - workshop regen <file> [sections] [--context <files...>]
- * - workshop export <file>
- * - workshop generate <file>
- * - workshop validate <file>
+ * - workshop export <file...> [--format <format>] [--audience <audience>] [--profile <profile>] [--with-solutions] [--font <file.ttf>]
+ *     [--out <path>] [--start <HH:MM>] [--breaks <HH:MM/min,...>] [--date <YYYY-MM-DD>]
+ * - workshop import <file.md> [--out <path>] [--force]
+ * - workshop migrate <file> [--dry-run]
+ * - workshop generate <file> [--only <phases>] [--skip <phases>] [--force] [--report <file>] [--retry]
+ * - workshop validate <file> [--strict] [--format <format>] [--fix] [--rounds <n>]
+ * - workshop verify <file> [--strict] [--format <format>] [--timeout <seconds>] [--fix]
+ * - workshop schema [--out <file>]
+ * - workshop lsp [--stdio]
  */
 
 interface ParsedArgs {
   command: string;
   positional: string[];
   context?: string[];
+  options: Record<string, string>;
+  flags: Set<string>;
 }
 
+/**
+ * Flags that take a single value (e.g. --topic "Docker basics")
+ */
+const VALUE_FLAGS = new Set(['--topic', '--level', '--stack', '--duration', '--out', '--spec', '--rounds', '--policy', '--preset', '--format', '--timeout', '--report', '--only', '--skip', '--profile', '--audience', '--start', '--breaks', '--date', '--font']);
+
+/**
+ * Boolean flags (e.g. --fix)
+ */
+const BOOLEAN_FLAGS = new Set(['--fix', '--strict', '--dry-run', '--stdio', '--retry', '--force', '--with-solutions']);
+
 /**
  * Parse command-line arguments manually
  */
@@ -43,12 +85,14 @@ function parseArgs(argv: string[]): ParsedArgs {
   const args = argv.slice(2); // Remove node and script path
   
   if (args.length === 0) {
-    return { command: '', positional: [] };
+    return { command: '', positional: [], options: {}, flags: new Set() };
   }
 
   const command = args[0]!;
   const positional: string[] = [];
   let context: string[] | undefined;
+  const options: Record<string, string> = {};
+  const flags = new Set<string>();
 
   let i = 1;
   while (i < args.length) {
@@ -65,6 +109,16 @@ function parseArgs(argv: string[]): ParsedArgs {
       if (context.length === 0) {
         throw new Error('--context requires at least one file path');
       }
+    } else if (VALUE_FLAGS.has(arg)) {
+      const value = args[i + 1];
+      if (value === undefined || value.startsWith('--')) {
+        throw new Error(`${arg} requires a value`);
+      }
+      options[arg.slice(2)] = value;
+      i += 2;
+    } else if (BOOLEAN_FLAGS.has(arg)) {
+      flags.add(arg.slice(2));
+      i++;
     } else if (!arg.startsWith('--')) {
       positional.push(arg);
       i++;
@@ -73,27 +127,22 @@ function parseArgs(argv: string[]): ParsedArgs {
     }
   }
 
-  return { command, positional, context };
+  return { command, positional, context, options, flags };
 }
 
 type AppScreen = 'picker' | 'wizard' | 'generating' | 'summary' | 'exporting';
 
-function App({ contextFiles }: { contextFiles?: string[] }) {
+function App({ contextFiles, policy }: { contextFiles?: string[]; policy: Policy }) {
   const [screen, setScreen] = useState<AppScreen>('picker');
   const [existingWorkshops, setExistingWorkshops] = useState<ExistingWorkshop[]>([]);
   const [isLoadingWorkshops, setIsLoadingWorkshops] = useState(true);
   const [isOpeningWorkshop, setIsOpeningWorkshop] = useState(false);
   const [pickerError, setPickerError] = useState<string | undefined>();
-  const [wizardParams, setWizardParams] = useState<{
-    topic: string;
-    audience: { level: 'beginner' | 'intermediate' | 'advanced'; stack?: string };
-    duration: number;
-    contextFiles: string[];
-  } | null>(null);
+  const [wizardParams, setWizardParams] = useState<GenerationParams | null>(null);
   const [workshop, setWorkshop] = useState<Workshop | null>(null);
   const [savePath, setSavePath] = useState('');
   const [saveError, setSaveError] = useState<string | undefined>();
-  const [validationWarnings, setValidationWarnings] = useState<string[]>([]);
+  const [validationIssues, setValidationIssues] = useState<ValidationCheck[]>([]);
   const [error, setError] = useState<string | null>(null);
 
   useEffect(() => {
@@ -135,11 +184,11 @@ function App({ contextFiles }: { contextFiles?: string[] }) {
     const path = getNewWorkshopConfigPath(wizardParams.topic);
     try {
       await saveWorkshop(w, path);
+      await clearCheckpoint(dirname(path));
     } catch (e) {
       setSaveError(e instanceof Error ? e.message : String(e));
     }
-    const warnings = validation.checks.filter(c => !c.passed).map(c => c.message);
-    setValidationWarnings(warnings);
+    setValidationIssues(validation.checks.filter(c => !c.passed));
     setWorkshop(w);
     setSavePath(path);
     setScreen('summary');
@@ -154,6 +203,9 @@ function App({ contextFiles }: { contextFiles?: string[] }) {
     if (input === 'r' || input === 'R') {
       setError(null);
       setScreen('wizard');
+    } else if ((input === 'c' || input === 'C') && screen === 'generating') {
+      // Remounting GenerationView resumes from the checkpoint written so far
+      setError(null);
     } else if (input === 'q' || input === 'Q' || key.escape) {
       void shutdown().then(() => process.exit(1));
     }
@@ -164,6 +216,7 @@ function App({ contextFiles }: { contextFiles?: string[] }) {
       <Box flexDirection="column" padding={1}>
         <Text color="red" bold>Error: {error}</Text>
         <Box marginTop={1} flexDirection="column">
+          {screen === 'generating' && <Text>[c] Resume from last checkpoint</Text>}
           <Text>[r] Back to wizard</Text>
           <Text>[q] Exit</Text>
         </Box>
@@ -192,7 +245,7 @@ function App({ contextFiles }: { contextFiles?: string[] }) {
               setWorkshop(loadedWorkshop);
               setSavePath(selectedWorkshop.path);
               setSaveError(undefined);
-              setValidationWarnings([]);
+              setValidationIssues([]);
               setScreen('summary');
             } catch (e) {
               setPickerError(`Failed to open ${selectedWorkshop.path}: ${e instanceof Error ? e.message : String(e)}`);
@@ -221,6 +274,8 @@ function App({ contextFiles }: { contextFiles?: string[] }) {
     return (
       <GenerationView
         params={wizardParams}
+        checkpointDir={dirname(getNewWorkshopConfigPath(wizardParams.topic))}
+        policy={policy}
         onComplete={handleGenerationComplete}
         onError={handleGenerationError}
       />
@@ -233,7 +288,7 @@ function App({ contextFiles }: { contextFiles?: string[] }) {
         workshop={workshop}
         savePath={savePath}
         saveError={saveError}
-        validationWarnings={validationWarnings}
+        validationIssues={validationIssues}
         onAction={async (action) => {
           try {
             if (action === 'export-md') {
@@ -243,12 +298,9 @@ function App({ contextFiles }: { contextFiles?: string[] }) {
             } else if (action === 'generate-repo') {
               setScreen('exporting');
             } else if (action === 'validate') {
-              const result = validateWorkshop(workshop);
-              const warnings = result.checks.filter(c => !c.passed).map(c => c.message);
-              setValidationWarnings(warnings);
-              for (const check of result.checks) {
-                console.log(`${check.passed ? '✓' : '✗'} ${check.message}`);
-              }
+              const result = validateWorkshop(workshop, policy);
+              setValidationIssues(result.checks.filter(c => !c.passed));
+              printValidationChecks(result);
             } else if (action === 'exit') {
               await shutdown();
               process.exit(0);
@@ -285,9 +337,9 @@ function App({ contextFiles }: { contextFiles?: string[] }) {
 /**
  * Handler for 'workshop new' command
  */
-async function handleNew(contextFiles?: string[]): Promise<void> {
+async function handleNew(contextFiles?: string[], policy: Policy = DEFAULT_POLICY): Promise<void> {
   return new Promise<void>((resolve) => {
-    const { unmount } = render(<App contextFiles={contextFiles} />);
+    const { unmount } = render(<App contextFiles={contextFiles} policy={policy} />);
     // Ink handles the lifecycle — process.exit() in App will terminate
     process.on('exit', () => {
       unmount();
@@ -296,13 +348,300 @@ async function handleNew(contextFiles?: string[]): Promise<void> {
   });
 }
 
+/**
+ * Build a generation spec for 'workshop create' from --spec and/or flags.
+ * Flags override values from the spec file.
+ */
+async function buildCreateSpec(
+  options: Record<string, string>,
+  contextFiles?: string[]
+): Promise<WorkshopSpec> {
+  let raw: Record<string, unknown> = {};
+  if (options['spec']) {
+    const specPath = options['spec'];
+    let specData: unknown;
+    try {
+      specData = load(await readFile(specPath, 'utf-8'));
+    } catch (error) {
+      throw new Error(`Failed to read spec file: ${specPath}. ${error instanceof Error ? error.message : String(error)}`, { cause: error });
+    }
+    if (!specData || typeof specData !== 'object') {
+      throw new Error(`Invalid spec file: ${specPath}. Expected a YAML mapping.`);
+    }
+    raw = { ...specData };
+  }
+
+  const audience = { ...(raw['audience'] as Record<string, unknown> | undefined) };
+  if (options['level']) audience['level'] = options['level'];
+  if (options['stack']) audience['stack'] = options['stack'];
+  raw['audience'] = audience;
+
+  if (options['topic']) raw['topic'] = options['topic'];
+  if (options['out']) raw['out'] = options['out'];
+  if (contextFiles) raw['context'] = contextFiles;
+  if (options['duration']) {
+    const duration = Number(options['duration']);
+    if (!Number.isFinite(duration)) {
+      throw new Error(`Invalid duration "${options['duration']}" (expected minutes)`);
+    }
+    raw['duration'] = duration;
+  }
+
+  const parsed = WorkshopSpecSchema.safeParse(raw);
+  if (!parsed.success) {
+    const fieldErrors = parsed.error.issues
+      .map(issue => `  - ${issue.path.join('.')}: ${issue.message}`)
+      .join('\n');
+    throw new Error(`Invalid workshop spec:\n${fieldErrors}`);
+  }
+  return parsed.data;
+}
+
+/**
+ * Print generation progress events for headless commands
+ */
+function printGenerationEvent(event: GenerationEvent): void {
+  switch (event.type) {
+    case 'phase-start':
+      console.log(`\n→ ${event.phase}`);
+      break;
+    case 'outline-ready':
+      console.log(`  Outline: ${event.modules.length} module(s)`);
+      break;
+    case 'resumed':
+      console.log(`  Resuming from checkpoint: ${event.completedModules}/${event.totalModules} module(s) already generated`);
+      break;
+    case 'module-start':
+      console.log(`  ⟳ Module ${event.index + 1}/${event.total}`);
+      break;
+    case 'module-retry':
+      console.log(`    Module ${event.index + 1} response was malformed, retrying (${event.attempt}/${event.maxRetries})...`);
+      break;
+    case 'module-complete':
+      console.log(`  ✓ Module ${event.index + 1}: ${event.module.title} (${event.module.duration}min)`);
+      break;
+    case 'repair-round':
+      console.log(`  ${formatRepairRound(event.round)}`);
+      break;
+  }
+}
+
+/**
+ * Parse the --rounds option for repair loops
+ */
+function parseRepairRounds(options: Record<string, string>): number | undefined {
+  if (options['rounds'] === undefined) {
+    return undefined;
+  }
+  const rounds = parseInt(options['rounds'], 10);
+  if (isNaN(rounds) || rounds < 0) {
+    throw new Error(`Invalid --rounds value "${options['rounds']}" (expected a non-negative integer)`);
+  }
+  return rounds;
+}
+
+/**
+ * Parse the --timeout option (seconds) for `workshop verify`
+ */
+function parseTimeoutMs(options: Record<string, string>): number | undefined {
+  if (options['timeout'] === undefined) {
+    return undefined;
+  }
+  const seconds = Number(options['timeout']);
+  if (!Number.isFinite(seconds) || seconds <= 0) {
+    throw new Error(`Invalid --timeout value "${options['timeout']}" (expected a positive number of seconds)`);
+  }
+  return seconds * 1000;
+}
+
+/**
+ * `workshop export --format` values, with the extension of the file each writes
+ */
+const EXPORT_FORMATS = {
+  markdown: '.md',
+  slides: '.html',
+  revealjs: '.reveal.html',
+  marp: '.marp.md',
+  pdf: '.pdf', // .instructor.pdf for --profile instructor
+  runsheet: '.runsheet.md', // plus .runsheet.csv and .runsheet.ics
+  site: '-site', // a directory
+} as const;
+
+type ExportFormat = keyof typeof EXPORT_FORMATS;
+
+/**
+ * Parse the --format option for exports
+ */
+function parseExportFormat(options: Record<string, string>): ExportFormat {
+  const format = options['format'] ?? 'markdown';
+  if (!Object.hasOwn(EXPORT_FORMATS, format)) {
+    throw new Error(`Invalid --format value "${format}" (expected one of: ${Object.keys(EXPORT_FORMATS).join(', ')})`);
+  }
+  return format as ExportFormat;
+}
+
+/**
+ * Parse the --audience option for Markdown exports
+ */
+function parseMarkdownAudience(options: Record<string, string>): MarkdownAudience {
+  const audience = options['audience'] ?? 'instructor';
+  if (!MARKDOWN_AUDIENCES.includes(audience as MarkdownAudience)) {
+    throw new Error(`Invalid --audience value "${audience}" (expected one of: ${MARKDOWN_AUDIENCES.join(', ')})`);
+  }
+  return audience as MarkdownAudience;
+}
+
+/**
+ * Parse the --profile option for PDF exports
+ */
+function parsePdfProfile(options: Record<string, string>): PdfProfile {
+  const profile = options['profile'] ?? 'attendee';
+  if (!PDF_PROFILES.includes(profile as PdfProfile)) {
+    throw new Error(`Invalid --profile value "${profile}" (expected one of: ${PDF_PROFILES.join(', ')})`);
+  }
+  return profile as PdfProfile;
+}
+
+/**
+ * Parse the --format option for validation reports
+ */
+function parseReportFormat(options: Record<string, string>): ReportFormat {
+  const format = options['format'] ?? 'text';
+  if (!(REPORT_FORMATS as readonly string[]).includes(format)) {
+    throw new Error(`Invalid --format value "${format}" (expected one of: ${REPORT_FORMATS.join(', ')})`);
+  }
+  return format as ReportFormat;
+}
+
+/**
+ * Resolve the pedagogy policy from --policy/--preset or a policy file in the working directory
+ */
+function resolvePolicyOption(options: Record<string, string>): Promise<Policy> {
+  return loadPolicy({ policyPath: options['policy'], preset: options['preset'] });
+}
+
+/** Icons for failing checks by severity */
+const SEVERITY_ICONS: Record<Severity, string> = { error: '✗', warning: '⚠', info: 'ℹ' };
+
+/**
+ * Print every check with its rule ID, marking failures by severity.
+ * With the workshop's YAML source, failing checks also show `file:line:col`,
+ * plus a code frame for errors and warnings.
+ */
+function printValidationChecks(result: ValidationResult, source?: YamlSource): void {
+  for (const check of result.checks) {
+    const icon = check.passed ? '✓' : SEVERITY_ICONS[check.severity];
+    console.log(`${icon} [${check.id}] ${check.message}`);
+
+    if (!check.passed && source && check.location) {
+      const range = source.map.locate(check.location.path);
+      console.log(`    at ${formatSourceLocation(source.path, range)}`);
+      if (check.severity !== 'info') {
+        console.log(formatCodeFrame(source.text, range).replace(/^/gm, '    '));
+      }
+    }
+  }
+}
+
+/**
+ * Describe failing checks by severity, e.g. "1 error, 2 warnings"
+ */
+function formatFailureCounts(result: ValidationResult): string {
+  const counts = countFailures(result);
+  const parts = [
+    counts.error > 0 ? `${counts.error} error${counts.error === 1 ? '' : 's'}` : '',
+    counts.warning > 0 ? `${counts.warning} warning${counts.warning === 1 ? '' : 's'}` : '',
+    counts.info > 0 ? `${counts.info} info` : '',
+  ];
+  return parts.filter(Boolean).join(', ');
+}
+
+/**
+ * Run generation headlessly with checkpoints next to the output file,
+ * save the result, and print the validation summary.
+ */
+async function runHeadlessGeneration(
+  params: GenerationParams,
+  outPath: string,
+  options: { repairRounds?: number; policy?: Policy } = {}
+): Promise<void> {
+  const checkpointDir = dirname(outPath);
+
+  try {
+    const { workshop, validation } = await generateWorkshop(params, {
+      onEvent: printGenerationEvent,
+      checkpointDir,
+      outPath,
+      repairRounds: options.repairRounds,
+      policy: options.policy,
+    });
+
+    await saveWorkshop(workshop, outPath);
+    await clearCheckpoint(checkpointDir);
+
+    console.log('\n--- Validation Summary ---');
+    printValidationChecks(validation);
+
+    console.log('');
+    const issues = formatFailureCounts(validation);
+    if (!issues) {
+      console.log(`✓ Workshop saved to ${outPath}. Passed all validation checks.`);
+    } else {
+      console.log(`⚠ Workshop saved to ${outPath}, but it has validation issues (${issues}).`);
+    }
+  } catch (error) {
+    console.error(`\nProgress so far is checkpointed. Run "workshop resume ${checkpointDir}" to continue.`);
+    throw error;
+  } finally {
+    await shutdown();
+  }
+}
+
+/**
+ * Handler for 'workshop create' command — headless generation without the TUI.
+ */
+async function handleCreate(
+  options: Record<string, string>,
+  contextFiles?: string[]
+): Promise<void> {
+  const spec = await buildCreateSpec(options, contextFiles);
+  const outPath = spec.out
+    ? (/\.ya?ml$/i.test(spec.out) ? spec.out : join(spec.out, 'workshop.yaml'))
+    : getNewWorkshopConfigPath(spec.topic);
+
+  console.log(`Generating "${spec.topic}" (${spec.audience.level}, ${spec.duration}min)...`);
+  await runHeadlessGeneration(specToParams(spec), outPath, {
+    repairRounds: parseRepairRounds(options),
+    policy: await resolvePolicyOption(options),
+  });
+}
+
+/**
+ * Handler for 'workshop resume' command — continue an interrupted generation
+ * from the checkpoint in <dir>/.workshop-cache/.
+ */
+async function handleResume(dir: string, options: Record<string, string>): Promise<void> {
+  const checkpoint = await loadCheckpoint(dir);
+  if (!checkpoint) {
+    throw new Error(`No generation checkpoint found in ${dir}. Nothing to resume.`);
+  }
+
+  const outPath = checkpoint.out_path ?? join(dir, 'workshop.yaml');
+  console.log(`Resuming "${checkpoint.params.topic}" (${checkpoint.modules.length} module(s) checkpointed)...`);
+  await runHeadlessGeneration(checkpoint.params, outPath, {
+    repairRounds: parseRepairRounds(options),
+    policy: await resolvePolicyOption(options),
+  });
+}
+
 /**
  * Handler for 'workshop regen' command
  */
 async function handleRegen(
   file: string,
   sections?: number[],
-  contextFiles?: string[]
+  contextFiles?: string[],
+  policy?: Policy
 ): Promise<void> {
   try {
     // Call the regeneration logic
@@ -310,23 +649,20 @@ async function handleRegen(
       workshopPath: file,
       sectionIndices: sections,
       contextFiles: contextFiles,
+      policy,
     });
     
     // Print validation results after regeneration
     console.log('\n--- Validation Summary ---');
-    const result = validateWorkshop(workshop);
-    
-    for (const check of result.checks) {
-      const icon = check.passed ? '✓' : '✗';
-      console.log(`${icon} ${check.message}`);
-    }
+    const result = validateWorkshop(workshop, policy);
+    printValidationChecks(result);
     
     console.log('');
-    if (result.valid) {
+    const issues = formatFailureCounts(result);
+    if (!issues) {
       console.log('✓ Regeneration complete. Workshop passed all validation checks.');
     } else {
-      const failedCount = result.checks.filter(c => !c.passed).length;
-      console.log(`⚠ Regeneration complete, but workshop has ${failedCount} validation issue(s).`);
+      console.log(`⚠ Regeneration complete, but workshop has validation issues (${issues}).`);
     }
   } finally {
     await shutdown();
@@ -337,78 +673,473 @@ async function handleRegen(
  * Handler for 'workshop export' command
  */
 async function handleExport(
-  file: string,
+  files: string[],
+  options: {
+    format?: ExportFormat;
+    outPath?: string;
+    audience?: MarkdownAudience;
+    profile?: PdfProfile;
+    withSolutions?: boolean;
+    font?: string;
+    schedule?: { start?: string; breaks?: string; date?: string };
+  } = {},
 ): Promise<void> {
+  const format = options.format ?? 'markdown';
+  const schedule = options.schedule ?? {};
+  if (format !== 'runsheet' && Object.values(schedule).some((value) => value !== undefined)) {
+    throw new Error('--start, --breaks and --date only apply to --format runsheet');
+  }
+  if (format !== 'markdown' && options.audience !== undefined) {
+    throw new Error('--audience only applies to --format markdown (use --profile for --format pdf)');
+  }
+  if (format !== 'pdf' && options.profile !== undefined) {
+    throw new Error('--profile only applies to --format pdf');
+  }
+  if (format !== 'pdf' && options.font !== undefined) {
+    throw new Error('--font only applies to --format pdf');
+  }
+  if (options.withSolutions) {
+    const attendee = format === 'markdown' ? options.audience === 'attendee' : format === 'pdf' && options.profile !== 'instructor';
+    if (!attendee) {
+      throw new Error('--with-solutions only applies to attendee exports (--format markdown --audience attendee, or --format pdf); instructor views always include solutions');
+    }
+  }
+  if (format === 'site') {
+    await handleSiteExport(files, options.outPath);
+    return;
+  }
+  if (files.length > 1) {
+    throw new Error(`--format ${format} exports one workshop at a time; only --format site combines several`);
+  }
+
+  const file = files[0]!;
   console.log(`Loading workshop from ${file}...`);
   const workshop = await loadWorkshop(file);
   
-  const outputPath = getExportPath(file);
+  let extension: string = EXPORT_FORMATS[format];
+  if (format === 'markdown' && options.audience !== undefined && options.audience !== 'instructor') {
+    extension = `.${options.audience}.md`;
+  } else if (format === 'pdf' && options.profile === 'instructor') {
+    extension = '.instructor.pdf';
+  }
+  const outputPath = options.outPath ?? getExportPath(file, extension);
   
-  console.log(`Exporting to Markdown...`);
-  await exportToMarkdownFile(workshop, outputPath);
+  switch (format) {
+    case 'markdown':
+      console.log(`Exporting to Markdown (${options.audience ?? 'instructor'} view)...`);
+      await exportToMarkdownFile(workshop, outputPath, { audience: options.audience, withSolutions: options.withSolutions });
+      break;
+    case 'slides':
+      console.log(`Exporting HTML slides...`);
+      await exportToSlidesFile(workshop, outputPath);
+      break;
+    case 'revealjs':
+      console.log(`Exporting reveal.js deck...`);
+      await exportToRevealJsFile(workshop, outputPath);
+      break;
+    case 'marp':
+      console.log(`Exporting Marp deck...`);
+      await exportToMarpFile(workshop, outputPath);
+      break;
+    case 'runsheet': {
+      const start = parseClockTime(schedule.start ?? '09:00');
+      const breaks = schedule.breaks !== undefined ? parseBreaks(schedule.breaks) : [];
+      const date = schedule.date ?? localDate();
+      parseDate(date);
+      console.log(`Exporting run sheet (start ${formatClock(start)}, ${breaks.length} break${breaks.length === 1 ? '' : 's'})...`);
+      const { sheet, paths } = await exportToRunSheetFiles(workshop, outputPath, { start, breaks, date });
+      const crossing = sheet.entries.filter((entry) => entry.crossesBreaks.length > 0);
+      for (const entry of crossing) {
+        console.log(`  ⚠ "${entry.title}" crosses the ${entry.crossesBreaks.map((scheduled) => formatClock(scheduled.start)).join(' and ')} break`);
+      }
+      for (const scheduled of sheet.unusedBreaks) {
+        console.log(`  Skipped the ${formatClock(scheduled.start)} break: the workshop ends at ${formatClock(sheet.end)}`);
+      }
+      console.log(`✓ Exported to ${paths.join(', ')} (ends ${formatClock(sheet.end)})`);
+      return;
+    }
+    case 'pdf': {
+      const profile = options.profile ?? 'attendee';
+      console.log(`Exporting ${profile === 'instructor' ? 'instructor edition' : `attendee handout${options.withSolutions ? ' with solutions' : ''}`} PDF...`);
+      const { unprintable, font } = await exportToPdfFile(workshop, outputPath, { profile, withSolutions: options.withSolutions, font: options.font });
+      if (font) {
+        console.log(`  Embedded ${font} for characters the standard PDF fonts lack`);
+      }
+      if (unprintable.length > 0) {
+        console.error(`⚠ ${formatCharacters(unprintable)} can't be shown with ${font ?? 'the standard PDF fonts'} and print as "?"`);
+        console.error('  Pass --font with a TrueType (.ttf) font that has them, or export with --format slides and print it from the browser.');
+      }
+      break;
+    }
+  }
   
   console.log(`✓ Exported to ${outputPath}`);
 }
 
 /**
- * Handler for 'workshop validate' command
+ * Today's date in local time as YYYY-MM-DD (the default run sheet calendar day)
  */
-async function handleValidate(file: string): Promise<void> {
-  console.log(`Loading workshop from ${file}...`);
-  const workshop = await loadWorkshop(file);
+function localDate(): string {
+  const now = new Date();
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
+}
+
+/**
+ * 'workshop export --format site': one track per workshop file. The site goes
+ * next to a single file (<name>-site/), or into ./site for several.
+ */
+async function handleSiteExport(files: string[], outPath: string | undefined): Promise<void> {
+  const workshops: Workshop[] = [];
+  for (const file of files) {
+    console.log(`Loading workshop from ${file}...`);
+    workshops.push(await loadWorkshop(file));
+  }
+
+  const outputDir = outPath ?? (files.length === 1 ? getExportPath(files[0]!, EXPORT_FORMATS.site) : 'site');
+  console.log(`Exporting static site (${workshops.length} track${workshops.length === 1 ? '' : 's'})...`);
+  const written = await exportToSite(workshops, outputDir);
+
+  console.log(`✓ Exported ${written.length} files to ${outputDir}/ (open ${join(outputDir, 'index.html')})`);
+}
+
+/**
+ * Handler for 'workshop validate' command. Fails on errors, or on
+ * errors and warnings with --strict; info checks never fail.
+ * Machine-readable formats go to stdout; progress goes to stderr.
+ */
+async function handleValidate(
+  file: string,
+  options: { strict?: boolean; format?: ReportFormat; fix?: boolean; rounds?: number; policy?: Policy } = {}
+): Promise<void> {
+  const format = options.format ?? 'text';
+  const log = format === 'text' ? console.log : console.error;
+
+  log(`Loading workshop from ${file}...`);
+  let { workshop, source } = await loadWorkshopSource(file);
   
-  console.log('Validating workshop structure...\n');
-  const result = validateWorkshop(workshop);
+  const policyName = options.policy?.name ?? DEFAULT_POLICY.name;
+  log(`Validating workshop structure (policy: ${policyName})...\n`);
+  let result = validateWorkshop(workshop, options.policy);
+
+  // Optional repair loop: feed failing checks back to the model
+  if (options.fix && needsRepair(result)) {
+    try {
+      log(`Repairing failing checks (${formatFailureCounts(result)})...`);
+      const repaired = await repairWorkshop(workshop, {
+        maxRounds: options.rounds,
+        policy: options.policy,
+        onRound: (round) => log(`  ${formatRepairRound(round)}`),
+      });
+      if (repaired.rounds.some(r => r.accepted)) {
+        workshop = repaired.workshop;
+        result = repaired.validation;
+        await saveWorkshop(workshop, file);
+        // Reload so reported positions match the file on disk
+        ({ source } = await loadWorkshopSource(file));
+        log(`✓ Saved repaired workshop to ${file}\n`);
+      } else {
+        log('No repairs applied\n');
+      }
+    } finally {
+      await shutdown();
+    }
+  }
+
+  if (format !== 'text') {
+    const report = formatValidationReport(result, format, { file, sourceMap: source.map, strict: options.strict, policyName });
+    if (report) {
+      console.log(report);
+    }
+    process.exit(failsValidation(result, options.strict) ? 1 : 0);
+  }
   
   // Print results
-  for (const check of result.checks) {
-    const icon = check.passed ? '✓' : '✗';
-    console.log(`${icon} ${check.message}`);
-  }
+  printValidationChecks(result, source);
   
   console.log('');
-  if (result.valid) {
-    console.log('✓ Workshop passed all validation checks');
+  const issues = formatFailureCounts(result);
+  if (failsValidation(result, options.strict)) {
+    console.log(`✗ Workshop failed validation (${issues})${options.strict ? ' [strict]' : ''}`);
+    process.exit(1);
+  } else if (issues) {
+    console.log(`✓ Workshop passed validation with ${issues}`);
     process.exit(0);
   } else {
-    const failedCount = result.checks.filter(c => !c.passed).length;
-    console.log(`✗ Workshop failed ${failedCount} validation check(s)`);
+    console.log('✓ Workshop passed all validation checks');
+    process.exit(0);
+  }
+}
+
+/**
+ * Handler for 'workshop verify' command — run exercise starter code and
+ * solutions locally. With --fix, failing exercises go through the regen
+ * flow and are verified again.
+ */
+async function handleVerify(
+  file: string,
+  options: { strict?: boolean; format?: ReportFormat; timeoutMs?: number; fix?: boolean; policy?: Policy } = {}
+): Promise<void> {
+  const format = options.format ?? 'text';
+  const log = format === 'text' ? console.log : console.error;
+
+  log(`Loading workshop from ${file}...`);
+  let { workshop, source } = await loadWorkshopSource(file);
+
+  const verify = (w: Workshop) => verifyWorkshop(w, {
+    timeoutMs: options.timeoutMs,
+    onExercise: (label) => log(`  Running ${label}...`),
+  });
+  log('Running exercise code...');
+  let result = await verify(workshop);
+
+  const failingSections = getFailingSectionNumbers(workshop, result);
+  if (options.fix && failingSections.length > 0) {
+    try {
+      workshop = await regenerateWorkshop({ workshopPath: file, sectionIndices: failingSections, policy: options.policy, log });
+    } finally {
+      await shutdown();
+    }
+    ({ source } = await loadWorkshopSource(file));
+    log('\nRe-running exercise code...');
+    result = await verify(workshop);
+  }
+
+  if (format !== 'text') {
+    const report = formatValidationReport(result, format, { file, sourceMap: source.map, strict: options.strict });
+    if (report) {
+      console.log(report);
+    }
+    process.exit(failsValidation(result, options.strict) ? 1 : 0);
+  }
+
+  console.log('');
+  printValidationChecks(result, source);
+
+  console.log('');
+  const issues = formatFailureCounts(result);
+  const stillFailing = getFailingSectionNumbers(workshop, result);
+  if (stillFailing.length > 0) {
+    console.log(`Regenerate failing exercises with: workshop regen ${file} ${stillFailing.join(',')}\n`);
+  }
+  if (failsValidation(result, options.strict)) {
+    console.log(`✗ Exercise verification failed (${issues})${options.strict ? ' [strict]' : ''}`);
     process.exit(1);
+  } else if (issues) {
+    console.log(`✓ Exercise verification passed with ${issues}`);
+    process.exit(0);
+  } else {
+    console.log('✓ All exercises ran successfully');
+    process.exit(0);
   }
 }
 
 /**
- * Handler for 'workshop generate' command — generates a forkable template repo.
+ * Flat, 1-based section numbers (as `workshop regen` takes them) of
+ * exercises whose starter code or solution failed to run.
  */
-async function handleGenerate(file: string): Promise<void> {
-  const { generateRepo } = await import('./exporters/repo-generate.js');
+function getFailingSectionNumbers(workshop: Workshop, result: ValidationResult): number[] {
+  const failing = new Set(
+    getFailures(result, 'warning')
+      .filter((c) => c.location?.moduleIndex !== undefined && c.location.sectionIndex !== undefined)
+      .map((c) => `${c.location!.moduleIndex}:${c.location!.sectionIndex}`),
+  );
+  return [...mapSectionIndices(workshop)]
+    .filter(([, pos]) => failing.has(`${pos.moduleIndex}:${pos.sectionIndex}`))
+    .map(([num]) => num);
+}
+
+/**
+ * Handler for 'workshop import' command — turn a Markdown guide into a
+ * workshop YAML file next to it (or at --out), then validate it.
+ */
+async function handleImport(
+  file: string,
+  options: { outPath?: string; force?: boolean; policy?: Policy } = {}
+): Promise<void> {
+  const outputPath = options.outPath ?? file.replace(/\.(md|markdown)$/i, '') + '.yaml';
+  if (!options.force && await access(outputPath).then(() => true, () => false)) {
+    throw new Error(`${outputPath} exists; use --force to overwrite it or --out to pick another path`);
+  }
+
+  try {
+    console.log(`Importing ${file}...`);
+    const { workshop, method, warnings } = await importWorkshop(file);
+    console.log(method === 'parsed'
+      ? '✓ Parsed the exported workshop layout'
+      : '✓ No exported workshop layout found; structured the guide with the model');
+    for (const warning of warnings) {
+      console.log(`  ⚠ ${warning}`);
+    }
+
+    await saveWorkshop(workshop, outputPath);
+    const sections = workshop.modules.reduce((sum, module) => sum + module.sections.length, 0);
+    console.log(`✓ Saved ${outputPath} (${workshop.modules.length} modules, ${sections} sections)`);
+
+    console.log('\n--- Validation Summary ---');
+    const result = validateWorkshop(workshop, options.policy);
+    printValidationChecks(result);
+    const issues = formatFailureCounts(result);
+    console.log(issues ? `\n⚠ Imported with validation issues (${issues}). Fix them with \`workshop validate ${outputPath} --fix\`.` : '\n✓ Workshop passed all validation checks.');
+  } finally {
+    await shutdown();
+  }
+}
+
+/**
+ * Handler for 'workshop migrate' command — upgrade a workshop file to the
+ * current schema version in place, printing a diff of the changes first.
+ */
+async function handleMigrate(file: string, options: { dryRun?: boolean } = {}): Promise<void> {
+  const { workshop, source, migration } = await loadWorkshopSource(file, { warnOnMigration: false });
+
+  if (migration.applied.length === 0) {
+    console.log(`✓ ${file} is already at schema v${migration.toVersion}`);
+    return;
+  }
+
+  console.log(`Migrating ${file} from schema v${migration.fromVersion} to v${migration.toVersion}:`);
+  for (const step of migration.applied) {
+    console.log(`  v${step.from} → v${step.from + 1}: ${step.description}`);
+  }
+
+  const diff = formatUnifiedDiff(source.text, serializeWorkshop(workshop, source.text), {
+    oldLabel: `${file} (v${migration.fromVersion})`,
+    newLabel: `${file} (v${migration.toVersion})`,
+  });
+  console.log(`\n${diff}\n`);
+
+  if (options.dryRun) {
+    console.log('Dry run — no changes written');
+    return;
+  }
+  await saveWorkshop(workshop, file);
+  console.log(`✓ Migrated ${file}`);
+}
+
+/**
+ * Handler for 'workshop schema' command — print or write the JSON Schema for workshop files
+ */
+async function handleSchema(outputPath?: string): Promise<void> {
+  const schema = formatWorkshopJsonSchema();
+  if (!outputPath) {
+    process.stdout.write(schema);
+    return;
+  }
+  await writeFile(outputPath, schema, 'utf-8');
+  console.log(`✓ Wrote JSON Schema to ${outputPath}`);
+}
+
+/**
+ * Handler for 'workshop lsp' command. Speaks LSP on stdin/stdout, so nothing
+ * else may write to stdout while it runs.
+ */
+async function handleLsp(policyOptions: Record<string, string>): Promise<void> {
+  const exitCode = await runLanguageServer({ policyPath: policyOptions['policy'], preset: policyOptions['preset'] });
+  process.exit(exitCode);
+}
+
+/**
+ * Handler for 'workshop generate' command — generates a forkable template repo,
+ * then smoke-tests it. --only/--skip pick the phases; files edited by hand (or
+ * not in the manifest yet) are kept unless --force. With --retry, phases whose checks fail are run once more.
+ */
+async function handleGenerate(
+  file: string,
+  options: { only?: string; skip?: string; force?: boolean; reportPath?: string; retry?: boolean } = {}
+): Promise<void> {
+  const { generateRepo, REPO_PHASES } = await import('./exporters/repo-generate.js');
+
+  const parsePhases = (value: string, flag: string): RepoPhase[] => value.split(',').map((name) => {
+    const phase = name.trim();
+    if (!(REPO_PHASES as readonly string[]).includes(phase)) {
+      throw new Error(`Invalid ${flag} phase "${phase}" (expected one of: ${REPO_PHASES.join(', ')})`);
+    }
+    return phase as RepoPhase;
+  });
+  const only = options.only !== undefined ? parsePhases(options.only, '--only') : [...REPO_PHASES];
+  const skip = options.skip !== undefined ? parsePhases(options.skip, '--skip') : [];
+  const phases = only.filter((phase) => !skip.includes(phase));
+  if (phases.length === 0) {
+    throw new Error('--only/--skip leave no phases to run');
+  }
 
   console.log(`Loading workshop from ${file}...`);
   const workshop = await loadWorkshop(file);
 
   const repoDir = `workshop-${slugifyTopic(workshop.topic)}`;
-  console.log(`Generating template repo in ${repoDir}/...`);
+  console.log(`Generating template repo in ${repoDir}/ (${phases.join(', ')})...`);
 
+  const kept = { edited: 0, unknown: 0 };
+
+  const onEvent = (event: GenerateRepoEvent) => {
+    switch (event.type) {
+      case 'phase-start':
+        console.log(`\n→ Phase ${event.index + 1}/${event.total}: ${event.phase}`);
+        break;
+      case 'file-written':
+        console.log(`  + ${event.path} (${event.bytes} bytes)`);
+        break;
+      case 'static-written':
+        console.log(`  + ${event.path}`);
+        break;
+      case 'file-skipped':
+        kept[event.reason]++;
+        console.log(`  = ${event.path} (${event.reason === 'edited' ? 'edited by hand' : 'not in the manifest'}, kept)`);
+        break;
+      case 'slides-fallback':
+        console.log(`  ! Slides session failed (${event.reason}); writing the built-in template slides`);
+        break;
+      case 'verified':
+        console.log('\n--- Repo Checks ---');
+        printRepoChecks(event.report);
+        break;
+      case 'complete':
+        console.log(`\n✓ Workshop repo generated at ${event.outputDir}/`);
+        break;
+    }
+  };
+
+  let report: RepoReport;
   try {
-    await generateRepo(workshop, repoDir, (event) => {
-      switch (event.type) {
-        case 'phase-start':
-          console.log(`\n→ Phase ${event.index + 1}/${event.total}: ${event.phase}`);
-          break;
-        case 'file-written':
-          console.log(`  + ${event.path} (${event.bytes} bytes)`);
-          break;
-        case 'static-written':
-          console.log(`  + ${event.path}`);
-          break;
-        case 'complete':
-          console.log(`\n✓ Workshop repo generated at ${event.outputDir}/`);
-          break;
-      }
-    });
+    report = await generateRepo(workshop, repoDir, onEvent, { phases, force: options.force });
+    if (options.retry && report.failedPhases.length > 0) {
+      console.log(`\nRe-running failing phase(s): ${report.failedPhases.join(', ')}`);
+      report = await generateRepo(workshop, repoDir, onEvent, { phases: report.failedPhases, force: options.force });
+    }
   } finally {
     await shutdown();
   }
+
+  if (kept.edited > 0) {
+    console.log(`Kept ${kept.edited} file(s) edited by hand since the last generation; overwrite them with --force`);
+  }
+  if (kept.unknown > 0) {
+    console.log(`Kept ${kept.unknown} existing file(s) the manifest doesn't list, so edits can't be ruled out; they are now recorded and the next run regenerates them unless you edit them (or overwrite them now with --force)`);
+  }
+
+  if (options.reportPath) {
+    await writeFile(options.reportPath, formatRepoReport(report), 'utf-8');
+    console.log(`Wrote repo check report to ${options.reportPath}`);
+  }
+  if (!report.passed) {
+    if (!options.retry) {
+      console.log(`Re-run the failing phase(s) with: workshop generate ${file} --retry`);
+    }
+    process.exitCode = 1;
+  }
+}
+
+/**
+ * Print failing repo checks, or a one-line pass summary
+ */
+function printRepoChecks(report: RepoReport): void {
+  const failures = report.checks.filter((c) => !c.passed);
+  for (const check of failures) {
+    console.log(`${SEVERITY_ICONS[check.severity]} [${check.id}] (${check.phase}) ${check.message}`);
+  }
+  if (failures.length === 0) {
+    console.log(`✓ All ${report.checks.length} repo checks passed`);
+  }
 }
 
 /**
@@ -441,23 +1172,115 @@ Usage:
     Show existing workshops or create a new one through an interactive wizard.
     Optional: --context <files...> to inject context documents
 
+  workshop create --topic <topic> --level <level> --duration <minutes> [options]
+  workshop create --spec <spec.yaml> [options]
+    Generate a workshop without the interactive wizard (for scripts and CI).
+    - --topic <topic>: Workshop topic
+    - --level <level>: beginner | intermediate | advanced
+    - --stack <stack>: Optional technology stack (e.g., "Python/FastAPI")
+    - --duration <minutes>: Total duration in minutes
+    - --spec <file>: YAML spec with topic, audience, duration, context, out (flags override it)
+    - --out <path>: Output YAML path or directory (default: workshop-<topic>/workshop.yaml)
+    - --context <files...>: Optional context documents
+    - --rounds <n>: Repair rounds for failing validation checks (default: 2, 0 to skip)
+
+  workshop resume <dir> [--rounds <n>]
+    Continue an interrupted generation from its checkpoint (<dir>/.workshop-cache/).
+    - <dir>: Workshop directory containing the checkpoint
+
   workshop regen <file> [sections] [--context <files...>]
     Regenerate specific sections of an existing workshop.
     - <file>: Path to workshop YAML file
     - [sections]: Optional comma-separated section numbers (e.g., 1,3,5)
     - --context <files...>: Optional new context files to incorporate
 
-  workshop export <file>
-    Export a workshop to Markdown (instructor guide).
+  workshop export <file...> [--format <format>] [--audience <audience>] [--profile <profile>]
+                  [--with-solutions] [--font <file.ttf>] [--out <path>] [--start <HH:MM>] [--breaks <list>]
+                  [--date <day>]
+    Export a workshop to Markdown (instructor guide), HTML slides, a presenter deck,
+    a printable PDF, a facilitator run sheet, or a static site. No model calls.
+    - <file...>: Path to workshop YAML file (several only with --format site, one track each)
+    - --format <format>: markdown (default), slides (self-contained HTML attendee guide),
+      revealjs (reveal.js deck with speaker notes), marp (Marp Markdown deck),
+      pdf (printable handout or instructor binder),
+      runsheet (wall-clock schedule as Markdown, CSV and iCalendar),
+      or site (multi-page static site with search and progress tracking)
+    - --audience <audience>: Markdown view: instructor (default), facilitator (no Bloom's
+      levels or context sources; running clock per section), or attendee (no metadata,
+      solutions or answer keys; talking points as prose placeholders)
+    - --profile <profile>: PDF edition: attendee (default; handout without solutions)
+      or instructor (timings, talking points and answer keys)
+    - --with-solutions: Append exercise solutions and checkpoint answers to an attendee
+      Markdown or PDF export
+    - --font <file.ttf>: TrueType font to embed in a PDF for characters the standard PDF
+      fonts lack, such as Cyrillic, Greek or symbols (default: DejaVu Sans Mono or another
+      common system font, if installed)
+    - --start <HH:MM>: Run sheet start time (default: 09:00)
+    - --breaks <list>: Run sheet breaks as HH:MM/minutes, comma-separated (e.g. 10:45/15,12:30/60);
+      sections still running when a break starts are flagged
+    - --date <YYYY-MM-DD>: Day of the run sheet's calendar events (default: today)
+    - --out <path>: Output path (default: next to <file>; .md (.attendee.md, .facilitator.md),
+      .html, .reveal.html, .marp.md, .runsheet.md (with .csv and .ics),
+      .pdf (.instructor.pdf), or a <name>-site/ directory; ./site for several files)
+
+  workshop import <file.md> [--out <path>] [--force]
+    Convert a Markdown workshop guide into a workshop YAML file, then validate it.
+    Guides laid out like 'workshop export' output are parsed directly (instructor
+    exports round-trip losslessly); other documents are structured by the model.
+    - <file.md>: Path to the Markdown guide
+    - --out <path>: Output YAML path (default: next to <file.md>, with a .yaml extension)
+    - --force: Overwrite the output file if it exists
+
+  workshop migrate <file> [--dry-run]
+    Upgrade a workshop file to the current schema version in place, showing a diff.
+    Older files are also migrated in memory (with a warning) whenever they are loaded.
     - <file>: Path to workshop YAML file
+    - --dry-run: Show the diff without writing the file
 
-  workshop generate <file>
-    Generate a forkable template repo with slides, code scaffold, and README.
+  workshop generate <file> [--only <phases>] [--skip <phases>] [--force] [--report <file>] [--retry]
+    Generate a forkable template repo with slides, code scaffold, and README,
+    then check it: manifests parse, exercises have starter and solution files
+    with TODO markers, slides load their assets, and relative links resolve.
+    Files edited by hand since the last generation are kept (tracked in .workshop-manifest.json).
+    Exits 1 when an error-severity repo check fails.
     - <file>: Path to workshop YAML file
+    - --only <phases>: Comma-separated phases to run: slides, scaffold, readme (default: all)
+    - --skip <phases>: Comma-separated phases to leave out
+    - --force: Overwrite files edited by hand
+    - --report <file>: Write the repo checks as JSON
+    - --retry: Re-run the phases (slides, scaffold, readme) whose checks fail, once
 
-  workshop validate <file>
+  workshop validate <file> [--strict] [--format <format>] [--fix] [--rounds <n>]
     Validate workshop structure and pedagogical rules.
+    Exits 1 on error-severity failures; warnings and info are reported only.
     - <file>: Path to workshop YAML file
+    - --strict: Also fail on warnings
+    - --format <format>: text (default), json, sarif, junit, or github (Actions annotations)
+    - --fix: Ask the model to repair failing checks and save the result
+    - --rounds <n>: Maximum repair rounds (default: 2)
+
+  workshop verify <file> [--strict] [--format <format>] [--timeout <seconds>] [--fix]
+    Run each exercise's starter code and solution (plus its optional test) locally,
+    with Node.js, tsx, Python or bash in a temp directory.
+    Exits 1 when a solution fails; starter failures are warnings.
+    - <file>: Path to workshop YAML file
+    - --strict: Also fail on warnings
+    - --format <format>: text (default), json, sarif, junit, or github (Actions annotations)
+    - --timeout <seconds>: Time limit per run (default: 10)
+    - --fix: Regenerate failing exercises (as with regen) and verify again
+
+  workshop schema [--out <file>]
+    Print the JSON Schema for workshop YAML files (for editor completion and inline errors).
+    - --out <file>: Write the schema to a file instead of stdout
+
+  workshop lsp [--stdio]
+    Run a language server on stdin/stdout for editors. Reports schema errors and
+    validation checks as diagnostics, with quick fixes such as rebalancing durations.
+    The policy is discovered next to each open file unless --policy/--preset is given.
+
+  Pedagogy policy options (new, create, resume, regen, import, validate, verify, lsp):
+    - --policy <file>: Policy file (default: workshop.policy.yaml or .workshoprc in the current directory)
+    - --preset <name>: hands-on-lab (default), conference-talk, university-lecture, or a custom preset
 
   workshop --version
     Show version information
@@ -468,10 +1291,26 @@ Usage:
 Examples:
   workshop new
   workshop new --context docs/feature-brief.md docs/api-spec.md
+  workshop create --topic "Docker basics" --level beginner --duration 90 --out docker/
+  workshop create --spec specs/docker.yaml
   workshop regen docker-basics/workshop.yaml 1,3 --context updated-docs.md
   workshop export docker-basics/workshop.yaml
+  workshop export docker-basics/workshop.yaml --audience attendee --with-solutions
+  workshop export docker-basics/workshop.yaml --format slides
+  workshop export docker-basics/workshop.yaml --format pdf --profile instructor
+  workshop export docker-basics/workshop.yaml --format runsheet --start 09:30 --breaks 10:45/15,12:30/60
+  workshop export track-a.yaml track-b.yaml --format site --out site
+  workshop import legacy/docker-basics.md --out docker-basics/workshop.yaml
   workshop generate docker-basics/workshop.yaml
+  workshop generate docker-basics/workshop.yaml --only slides,readme
+  workshop migrate docker-basics/workshop.yaml --dry-run
   workshop validate docker-basics/workshop.yaml
+  workshop validate docker-basics/workshop.yaml --strict
+  workshop validate docker-basics/workshop.yaml --format sarif > validation.sarif
+  workshop validate docker-basics/workshop.yaml --fix --rounds 3
+  workshop validate talk/workshop.yaml --preset conference-talk
+  workshop verify docker-basics/workshop.yaml --timeout 30
+  workshop schema --out workshop.schema.json
 `);
 }
 
@@ -483,9 +1322,22 @@ async function main(): Promise<void> {
 
   switch (parsed.command) {
     case 'new':
-      await handleNew(parsed.context);
+      await handleNew(parsed.context, await resolvePolicyOption(parsed.options));
       break;
 
+    case 'create':
+      await handleCreate(parsed.options, parsed.context);
+      break;
+
+    case 'resume': {
+      if (parsed.positional.length === 0) {
+        throw new Error('"resume" command requires a workshop directory');
+      }
+
+      await handleResume(parsed.positional[0]!, parsed.options);
+      break;
+    }
+
     case 'regen': {
       if (parsed.positional.length === 0) {
         throw new Error('"regen" command requires a file path');
@@ -506,7 +1358,7 @@ async function main(): Promise<void> {
         });
       }
 
-      await handleRegen(file, sections, parsed.context);
+      await handleRegen(file, sections, parsed.context, await resolvePolicyOption(parsed.options));
       break;
     }
 
@@ -515,8 +1367,37 @@ async function main(): Promise<void> {
         throw new Error('"export" command requires a file path');
       }
 
-      const file = parsed.positional[0]!;
-      await handleExport(file);
+      await handleExport(parsed.positional, {
+        format: parseExportFormat(parsed.options),
+        outPath: parsed.options['out'],
+        audience: parsed.options['audience'] !== undefined ? parseMarkdownAudience(parsed.options) : undefined,
+        profile: parsed.options['profile'] !== undefined ? parsePdfProfile(parsed.options) : undefined,
+        withSolutions: parsed.flags.has('with-solutions'),
+        font: parsed.options['font'],
+        schedule: { start: parsed.options['start'], breaks: parsed.options['breaks'], date: parsed.options['date'] },
+      });
+      break;
+    }
+
+    case 'import': {
+      if (parsed.positional.length === 0) {
+        throw new Error('"import" command requires a Markdown file path');
+      }
+
+      await handleImport(parsed.positional[0]!, {
+        outPath: parsed.options['out'],
+        force: parsed.flags.has('force'),
+        policy: await resolvePolicyOption(parsed.options),
+      });
+      break;
+    }
+
+    case 'migrate': {
+      if (parsed.positional.length === 0) {
+        throw new Error('"migrate" command requires a file path');
+      }
+
+      await handleMigrate(parsed.positional[0]!, { dryRun: parsed.flags.has('dry-run') });
       break;
     }
 
@@ -526,17 +1407,52 @@ async function main(): Promise<void> {
       }
 
       const file = parsed.positional[0]!;
-      await handleValidate(file);
+      await handleValidate(file, {
+        strict: parsed.flags.has('strict'),
+        format: parseReportFormat(parsed.options),
+        fix: parsed.flags.has('fix'),
+        rounds: parseRepairRounds(parsed.options),
+        policy: await resolvePolicyOption(parsed.options),
+      });
       break;
     }
 
+    case 'verify': {
+      if (parsed.positional.length === 0) {
+        throw new Error('"verify" command requires a file path');
+      }
+
+      await handleVerify(parsed.positional[0]!, {
+        strict: parsed.flags.has('strict'),
+        format: parseReportFormat(parsed.options),
+        timeoutMs: parseTimeoutMs(parsed.options),
+        fix: parsed.flags.has('fix'),
+        policy: await resolvePolicyOption(parsed.options),
+      });
+      break;
+    }
+
+    case 'schema':
+      await handleSchema(parsed.options['out']);
+      break;
+
+    case 'lsp':
+      await handleLsp(parsed.options);
+      break;
+
     case 'generate': {
       if (parsed.positional.length === 0) {
         throw new Error('"generate" command requires a file path');
       }
 
       const file = parsed.positional[0]!;
-      await handleGenerate(file);
+      await handleGenerate(file, {
+        only: parsed.options['only'],
+        skip: parsed.options['skip'],
+        force: parsed.flags.has('force'),
+        reportPath: parsed.options['report'],
+        retry: parsed.flags.has('retry'),
+      });
       break;
     }
 
@@ -0,0 +1,34 @@
+/**
+ * JSON Schema for workshop YAML files, generated from `WorkshopSchema` so
+ * editors (e.g. the YAML extension for VS Code) can offer completion,
+ * hover docs and inline errors while authors hand-edit `workshop.yaml`.
+ */
+
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { WorkshopSchema, CURRENT_SCHEMA_VERSION } from './schema.js';
+
+/**
+ * Build the JSON Schema (draft-07) for workshop files. Describes the file as
+ * written, so fields with defaults (like `schema_version`) are optional.
+ */
+export function buildWorkshopJsonSchema(): Record<string, unknown> {
+  const schema = zodToJsonSchema(WorkshopSchema, {
+    $refStrategy: 'none',
+    effectStrategy: 'input',
+    target: 'jsonSchema7',
+  }) as Record<string, unknown>;
+
+  return {
+    $schema: schema['$schema'],
+    title: 'Workshop',
+    description: `Workshop Factory workshop file (schema v${CURRENT_SCHEMA_VERSION})`,
+    ...schema,
+  };
+}
+
+/**
+ * Serialize the workshop JSON Schema for `workshop schema`.
+ */
+export function formatWorkshopJsonSchema(): string {
+  return `${JSON.stringify(buildWorkshopJsonSchema(), null, 2)}\n`;
+}
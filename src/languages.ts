@@ -0,0 +1,107 @@
+/**
+ * Code language tagging — infers the language of exercise code from the
+ * audience's stack, and checks declared languages against it.
+ *
+ * Language names are Markdown code-fence identifiers (`typescript`, `python`),
+ * so renderers can use them directly for syntax highlighting.
+ */
+
+import type { Workshop } from './schema.js';
+
+/** Common aliases, mapped to the fence identifier used everywhere else */
+const LANGUAGE_ALIASES: Record<string, string> = {
+  ts: 'typescript',
+  js: 'javascript',
+  py: 'python',
+  golang: 'go',
+  rb: 'ruby',
+  rs: 'rust',
+  kt: 'kotlin',
+  cs: 'csharp',
+  'c#': 'csharp',
+  sh: 'bash',
+  shell: 'bash',
+  zsh: 'bash',
+  yml: 'yaml',
+  docker: 'dockerfile',
+};
+
+/**
+ * Stack keywords and the languages their code may be written in, checked in
+ * order. The first language of the first match is the inferred default.
+ * Keywords that are also English words are anchored: Go only as the
+ * capitalized name (or golang), Next only as Next.js.
+ */
+const STACK_LANGUAGES: Array<{ pattern: RegExp; languages: string[] }> = [
+  { pattern: /\b(typescript|ts|angular|nest(js)?|deno)\b/i, languages: ['typescript', 'tsx', 'javascript', 'jsx'] },
+  { pattern: /\b(react|next\.?js|vue|svelte|node(\.?js)?|express|bun)\b/i, languages: ['javascript', 'jsx', 'typescript', 'tsx'] },
+  { pattern: /\b(javascript|js)\b/i, languages: ['javascript', 'jsx'] },
+  { pattern: /\b(python|django|flask|fastapi|pandas|pytorch)\b/i, languages: ['python'] },
+  { pattern: /\bGo\b(?![-'])|\b[Gg]olang\b|\bGOLANG\b/, languages: ['go'] },
+  { pattern: /\brust\b/i, languages: ['rust'] },
+  { pattern: /\bkotlin\b/i, languages: ['kotlin', 'java'] },
+  { pattern: /\b(java|spring)\b/i, languages: ['java', 'kotlin'] },
+  { pattern: /(\bc#|\.net\b|\bdotnet\b)/i, languages: ['csharp'] },
+  { pattern: /\b(ruby|rails)\b/i, languages: ['ruby'] },
+  { pattern: /\b(php|laravel)\b/i, languages: ['php'] },
+  { pattern: /\bswift\b/i, languages: ['swift'] },
+  { pattern: /\b(docker|kubernetes|k8s|terraform)\b/i, languages: ['dockerfile', 'yaml', 'hcl'] },
+  { pattern: /\b(sql|postgres(ql)?|mysql|sqlite)\b/i, languages: ['sql'] },
+];
+
+/** Supporting languages that fit any stack (config, markup, shell) */
+const SUPPORT_LANGUAGES = new Set(['bash', 'json', 'yaml', 'toml', 'ini', 'html', 'css', 'markdown', 'sql', 'dockerfile', 'text', 'plaintext']);
+
+/**
+ * Lower-case a language name and resolve aliases, e.g. `TS` → `typescript`.
+ */
+export function normalizeLanguage(language: string): string {
+  const name = language.trim().toLowerCase();
+  return LANGUAGE_ALIASES[name] ?? name;
+}
+
+/**
+ * Default code language for an audience stack, e.g. "Python + FastAPI" → `python`.
+ * @returns Undefined when the stack is missing or not recognized
+ */
+export function inferLanguage(stack: string | undefined): string | undefined {
+  if (!stack) return undefined;
+  return STACK_LANGUAGES.find(({ pattern }) => pattern.test(stack))?.languages[0];
+}
+
+/**
+ * Whether code in `language` belongs in a workshop for `stack`. Unknown stacks
+ * and supporting languages (shell, config, markup) always match.
+ */
+export function isLanguageCompatible(language: string, stack: string | undefined): boolean {
+  const name = normalizeLanguage(language);
+  if (!stack || SUPPORT_LANGUAGES.has(name)) return true;
+  const matches = STACK_LANGUAGES.filter(({ pattern }) => pattern.test(stack));
+  return matches.length === 0 || matches.some(({ languages }) => languages.includes(name));
+}
+
+/**
+ * Language of a section's code: its declared `language`, else the one inferred
+ * from the audience stack, else '' (a bare fence).
+ */
+export function sectionLanguage(section: { language?: string }, workshop: Workshop): string {
+  return section.language ? normalizeLanguage(section.language) : inferLanguage(workshop.audience.stack) ?? '';
+}
+
+/**
+ * Copy of the workshop with every exercise and project carrying an explicit
+ * `language`, for renderers that only see the serialized data (slides, scaffold).
+ */
+export function withResolvedLanguages(workshop: Workshop): Workshop {
+  return {
+    ...workshop,
+    modules: workshop.modules.map((module) => ({
+      ...module,
+      sections: module.sections.map((section) => {
+        if (section.type !== 'exercise' && section.type !== 'project') return section;
+        const language = sectionLanguage(section, workshop);
+        return language ? { ...section, language } : section;
+      }),
+    })),
+  };
+}
@@ -0,0 +1,140 @@
+/**
+ * Quick fixes for workshop diagnostics. Edits are applied to the raw YAML
+ * data and spliced back with `patchYaml()`, so only the affected values
+ * change in the buffer.
+ */
+
+import { parseWorkshopSource, type LoadedWorkshop } from '../storage.js';
+import { patchYaml } from '../yaml-patch.js';
+import { MIGRATION_CODE } from './diagnostics.js';
+import { lineTextEdits, type CodeAction, type Diagnostic } from './protocol.js';
+
+type WorkshopData = Record<string, unknown>;
+
+/**
+ * Code actions for the diagnostics the client sent with a
+ * `textDocument/codeAction` request.
+ * @param uri - Document URI, used as the key of the workspace edit
+ * @param text - Current document text
+ * @param diagnostics - Diagnostics in the requested range
+ */
+export function getCodeActions(uri: string, text: string, diagnostics: Diagnostic[]): CodeAction[] {
+  let loaded: LoadedWorkshop;
+  try {
+    loaded = parseWorkshopSource(text, uri);
+  } catch {
+    // Schema errors have no quick fixes yet
+    return [];
+  }
+
+  const actions: CodeAction[] = [];
+  const add = (diagnostic: Diagnostic, title: string, newData: WorkshopData | undefined, isPreferred = false) => {
+    const newText = newData ? patchYaml(text, newData) : undefined;
+    if (newText === undefined || newText === text) {
+      return;
+    }
+    actions.push({
+      title,
+      kind: 'quickfix',
+      diagnostics: [diagnostic],
+      isPreferred,
+      edit: { changes: { [uri]: lineTextEdits(text, newText) } },
+    });
+  };
+
+  const { workshop, source, migration } = loaded;
+  const raw = source.data as WorkshopData;
+
+  for (const diagnostic of diagnostics) {
+    const moduleIndex = (diagnostic.data as { moduleIndex?: number } | undefined)?.moduleIndex;
+    const module = moduleIndex !== undefined ? workshop.modules[moduleIndex] : undefined;
+
+    switch (diagnostic.code) {
+      case MIGRATION_CODE:
+        add(diagnostic, `Migrate to schema v${migration.toVersion}`, migration.applied.length > 0 ? migration.data : undefined, true);
+        break;
+
+      case 'WF001': {
+        if (!module || moduleIndex === undefined) break;
+        const durations = module.sections.map((s) => s.duration);
+        const sectionSum = durations.reduce((sum, d) => sum + d, 0);
+        const rebalanced = rebalanceDurations(durations, module.duration);
+        add(
+          diagnostic,
+          `Rebalance section durations in module ${moduleIndex + 1} to fit ${module.duration}min`,
+          rebalanced && updateData(raw, (data) => {
+            const sections = getModules(data)[moduleIndex]?.['sections'] as WorkshopData[];
+            rebalanced.forEach((duration, idx) => {
+              sections[idx]!['duration'] = duration;
+            });
+          }),
+          true,
+        );
+        add(
+          diagnostic,
+          `Set module ${moduleIndex + 1} duration to ${sectionSum}min (sum of its sections)`,
+          updateData(raw, (data) => {
+            getModules(data)[moduleIndex]!['duration'] = sectionSum;
+          }),
+        );
+        break;
+      }
+
+      case 'WF002': {
+        const moduleSum = workshop.modules.reduce((sum, m) => sum + m.duration, 0);
+        add(
+          diagnostic,
+          `Set workshop duration to ${moduleSum}min (sum of its modules)`,
+          updateData(raw, (data) => {
+            data['duration'] = moduleSum;
+          }),
+        );
+        break;
+      }
+    }
+  }
+
+  return actions;
+}
+
+/**
+ * Scale durations proportionally so they sum to `total` whole minutes, keeping
+ * every section at least 1 minute. Leftover minutes go to the sections with the
+ * largest rounding remainders.
+ * @returns New durations, or undefined if `total` can't fit one minute per section
+ */
+export function rebalanceDurations(durations: number[], total: number): number[] | undefined {
+  const sum = durations.reduce((acc, d) => acc + d, 0);
+  if (durations.length === 0 || sum <= 0 || !Number.isInteger(total) || total < durations.length) {
+    return undefined;
+  }
+
+  const exact = durations.map((d) => (d * total) / sum);
+  const result = exact.map((x) => Math.max(1, Math.floor(x)));
+  let remainder = total - result.reduce((acc, d) => acc + d, 0);
+
+  const byFraction = exact
+    .map((x, idx) => ({ idx, fraction: x - Math.floor(x) }))
+    .sort((a, b) => b.fraction - a.fraction);
+  for (let k = 0; remainder > 0; k++) {
+    result[byFraction[k % byFraction.length]!.idx]!++;
+    remainder--;
+  }
+  // Minimum-1 bumps can overshoot; take the excess from the longest sections
+  while (remainder < 0) {
+    const longest = result.indexOf(Math.max(...result));
+    result[longest]!--;
+    remainder++;
+  }
+  return result;
+}
+
+function updateData(raw: WorkshopData, mutate: (data: WorkshopData) => void): WorkshopData {
+  const data = structuredClone(raw);
+  mutate(data);
+  return data;
+}
+
+function getModules(data: WorkshopData): WorkshopData[] {
+  return data['modules'] as WorkshopData[];
+}
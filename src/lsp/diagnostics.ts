@@ -0,0 +1,79 @@
+/**
+ * Editor diagnostics for a workshop document: YAML syntax and schema errors
+ * from the loader, an outdated `schema_version`, and failing pedagogy checks.
+ */
+
+import { parseWorkshopSource, WorkshopLoadError, type LoadedWorkshop } from '../storage.js';
+import { validateWorkshopAsync, getFailures, type Severity } from '../validation.js';
+import type { Policy } from '../policy.js';
+import { DiagnosticSeverity, toLspRange, type Diagnostic, type Range } from './protocol.js';
+
+/** `source` shown next to every diagnostic in the editor */
+export const DIAGNOSTIC_SOURCE = 'workshop';
+
+/** Diagnostic code for files that need `workshop migrate` */
+export const MIGRATION_CODE = 'schema_version';
+
+const SEVERITY_MAP: Record<Severity, Diagnostic['severity']> = {
+  error: DiagnosticSeverity.Error,
+  warning: DiagnosticSeverity.Warning,
+  info: DiagnosticSeverity.Information,
+};
+
+const DOCUMENT_START: Range = { start: { line: 0, character: 0 }, end: { line: 0, character: 0 } };
+
+/**
+ * Diagnostics for workshop YAML text. Pedagogy checks only run once the
+ * document parses and passes the schema.
+ * @param text - Current document text (may be unsaved)
+ * @param filePath - Path used in messages
+ * @param policy - Pedagogy policy for validation thresholds
+ */
+export async function getDiagnostics(text: string, filePath: string, policy: Policy): Promise<Diagnostic[]> {
+  let loaded: LoadedWorkshop;
+  try {
+    loaded = parseWorkshopSource(text, filePath);
+  } catch (error) {
+    if (error instanceof WorkshopLoadError) {
+      return error.issues.map((issue) => ({
+        range: toLspRange(issue.range),
+        severity: DiagnosticSeverity.Error,
+        source: DIAGNOSTIC_SOURCE,
+        message: issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message,
+      }));
+    }
+    return [{
+      range: DOCUMENT_START,
+      severity: DiagnosticSeverity.Error,
+      source: DIAGNOSTIC_SOURCE,
+      message: error instanceof Error ? error.message : String(error),
+    }];
+  }
+
+  const { workshop, source, migration } = loaded;
+  const diagnostics: Diagnostic[] = [];
+
+  if (migration.applied.length > 0) {
+    diagnostics.push({
+      range: migration.fromVersion > 0 ? toLspRange(source.map.locate(['schema_version'])) : DOCUMENT_START,
+      severity: DiagnosticSeverity.Warning,
+      code: MIGRATION_CODE,
+      source: DIAGNOSTIC_SOURCE,
+      message: `Workshop uses schema v${migration.fromVersion}; the current version is v${migration.toVersion}. Run "workshop migrate" or apply the quick fix.`,
+    });
+  }
+
+  const result = await validateWorkshopAsync(workshop, policy);
+  for (const check of getFailures(result)) {
+    diagnostics.push({
+      range: check.location ? toLspRange(source.map.locate(check.location.path)) : DOCUMENT_START,
+      severity: SEVERITY_MAP[check.severity],
+      code: check.id,
+      source: DIAGNOSTIC_SOURCE,
+      message: check.message,
+      data: check.location,
+    });
+  }
+
+  return diagnostics;
+}
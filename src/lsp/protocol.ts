@@ -0,0 +1,253 @@
+/**
+ * Minimal Language Server Protocol plumbing — JSON-RPC 2.0 over stdio with
+ * `Content-Length` framing, plus the handful of LSP types the workshop
+ * server uses. Only what `src/lsp/server.ts` needs; not a general client.
+ */
+
+import type { Readable, Writable } from 'node:stream';
+import type { SourceRange } from '../source-map.js';
+import { diffLines } from '../diff.js';
+
+/** 0-based line and UTF-16 character offset */
+export interface Position {
+  line: number;
+  character: number;
+}
+
+export interface Range {
+  start: Position;
+  end: Position;
+}
+
+export const DiagnosticSeverity = {
+  Error: 1,
+  Warning: 2,
+  Information: 3,
+  Hint: 4,
+} as const;
+
+export interface Diagnostic {
+  range: Range;
+  severity: (typeof DiagnosticSeverity)[keyof typeof DiagnosticSeverity];
+  /** Rule ID (e.g. WF001) for pedagogy checks */
+  code?: string;
+  source: string;
+  message: string;
+  /** Round-tripped to `textDocument/codeAction` so quick fixes know their target */
+  data?: unknown;
+}
+
+export interface TextEdit {
+  range: Range;
+  newText: string;
+}
+
+export interface CodeAction {
+  title: string;
+  kind: 'quickfix';
+  diagnostics?: Diagnostic[];
+  isPreferred?: boolean;
+  edit: { changes: Record<string, TextEdit[]> };
+}
+
+interface RequestMessage {
+  jsonrpc: '2.0';
+  id: number | string;
+  method: string;
+  params?: unknown;
+}
+
+interface NotificationMessage {
+  jsonrpc: '2.0';
+  method: string;
+  params?: unknown;
+}
+
+type IncomingMessage = RequestMessage | NotificationMessage | { jsonrpc: '2.0'; id: number | string; result?: unknown };
+
+/** JSON-RPC error codes used by the server */
+export const ErrorCodes = {
+  ParseError: -32700,
+  MethodNotFound: -32601,
+  InternalError: -32603,
+  ServerNotInitialized: -32002,
+  InvalidRequest: -32600,
+} as const;
+
+/**
+ * Error to reject a request with a specific JSON-RPC code
+ */
+export class ResponseError extends Error {
+  constructor(readonly code: number, message: string) {
+    super(message);
+    this.name = 'ResponseError';
+  }
+}
+
+type RequestHandler = (params: unknown) => unknown;
+type NotificationHandler = (params: unknown) => void | Promise<void>;
+
+/**
+ * A JSON-RPC connection over a pair of byte streams (stdin/stdout for LSP).
+ */
+export class Connection {
+  private readonly requestHandlers = new Map<string, RequestHandler>();
+  private readonly notificationHandlers = new Map<string, NotificationHandler>();
+  private buffer = Buffer.alloc(0);
+
+  constructor(
+    private readonly input: Readable,
+    private readonly output: Writable,
+  ) {}
+
+  onRequest(method: string, handler: RequestHandler): void {
+    this.requestHandlers.set(method, handler);
+  }
+
+  onNotification(method: string, handler: NotificationHandler): void {
+    this.notificationHandlers.set(method, handler);
+  }
+
+  sendNotification(method: string, params: unknown): void {
+    this.write({ jsonrpc: '2.0', method, params });
+  }
+
+  /** Start reading messages; resolves when the input stream ends. */
+  listen(): Promise<void> {
+    return new Promise((resolve) => {
+      this.input.on('data', (chunk: Buffer) => {
+        this.buffer = Buffer.concat([this.buffer, chunk]);
+        this.drain();
+      });
+      this.input.on('end', () => resolve());
+    });
+  }
+
+  /** Parse every complete `Content-Length` frame in the buffer */
+  private drain(): void {
+    for (;;) {
+      const headerEnd = this.buffer.indexOf('\r\n\r\n');
+      if (headerEnd === -1) {
+        return;
+      }
+      const header = this.buffer.subarray(0, headerEnd).toString('ascii');
+      const match = /^Content-Length:\s*(\d+)\s*$/im.exec(header);
+      if (!match) {
+        // Unrecoverable framing error: drop the bad header and resync
+        this.buffer = this.buffer.subarray(headerEnd + 4);
+        continue;
+      }
+      const length = Number(match[1]);
+      const bodyStart = headerEnd + 4;
+      if (this.buffer.length < bodyStart + length) {
+        return;
+      }
+      const body = this.buffer.subarray(bodyStart, bodyStart + length).toString('utf-8');
+      this.buffer = this.buffer.subarray(bodyStart + length);
+
+      let message: IncomingMessage;
+      try {
+        message = JSON.parse(body) as IncomingMessage;
+      } catch {
+        this.write({ jsonrpc: '2.0', id: null, error: { code: ErrorCodes.ParseError, message: 'Invalid JSON' } });
+        continue;
+      }
+      void this.dispatch(message);
+    }
+  }
+
+  private async dispatch(message: IncomingMessage): Promise<void> {
+    if (!('method' in message)) {
+      // Response to a server-initiated request; the server sends none
+      return;
+    }
+
+    if (!('id' in message)) {
+      try {
+        await this.notificationHandlers.get(message.method)?.(message.params);
+      } catch (error) {
+        this.logError(`${message.method} failed: ${error instanceof Error ? error.message : String(error)}`);
+      }
+      return;
+    }
+
+    const handler = this.requestHandlers.get(message.method);
+    if (!handler) {
+      this.write({
+        jsonrpc: '2.0',
+        id: message.id,
+        error: { code: ErrorCodes.MethodNotFound, message: `Unhandled method ${message.method}` },
+      });
+      return;
+    }
+
+    try {
+      const result = await handler(message.params);
+      this.write({ jsonrpc: '2.0', id: message.id, result: result ?? null });
+    } catch (error) {
+      const code = error instanceof ResponseError ? error.code : ErrorCodes.InternalError;
+      this.write({
+        jsonrpc: '2.0',
+        id: message.id,
+        error: { code, message: error instanceof Error ? error.message : String(error) },
+      });
+    }
+  }
+
+  /** Report a server-side problem in the client's output panel */
+  logError(message: string): void {
+    this.sendNotification('window/logMessage', { type: 1, message });
+  }
+
+  private write(message: unknown): void {
+    const body = JSON.stringify(message);
+    this.output.write(`Content-Length: ${Buffer.byteLength(body, 'utf-8')}\r\n\r\n${body}`);
+  }
+}
+
+/**
+ * Convert a 1-based source range to a 0-based LSP range. Columns from the
+ * YAML parser are string offsets, which match LSP's UTF-16 characters.
+ */
+export function toLspRange(range: SourceRange): Range {
+  return {
+    start: { line: range.start.line - 1, character: range.start.column - 1 },
+    end: { line: range.end.line - 1, character: range.end.column - 1 },
+  };
+}
+
+/**
+ * Whole-line edits that turn `oldText` into `newText`, one per changed hunk,
+ * so cursors and folds in untouched lines stay put.
+ */
+export function lineTextEdits(oldText: string, newText: string): TextEdit[] {
+  const edits: TextEdit[] = [];
+  let hunk: { line: number; removed: number; added: string[] } | undefined;
+  const flush = () => {
+    if (hunk) {
+      edits.push({
+        range: {
+          start: { line: hunk.line, character: 0 },
+          end: { line: hunk.line + hunk.removed, character: 0 },
+        },
+        newText: hunk.added.map((line) => `${line}\n`).join(''),
+      });
+      hunk = undefined;
+    }
+  };
+
+  for (const line of diffLines(oldText.split('\n'), newText.split('\n'))) {
+    if (line.op === ' ') {
+      flush();
+      continue;
+    }
+    hunk ??= { line: line.oldLine - 1, removed: 0, added: [] };
+    if (line.op === '-') {
+      hunk.removed++;
+    } else {
+      hunk.added.push(line.text);
+    }
+  }
+  flush();
+  return edits;
+}
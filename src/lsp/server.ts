@@ -0,0 +1,152 @@
+/**
+ * `workshop lsp` — a stdio language server for workshop YAML files.
+ *
+ * Publishes schema errors and pedagogy checks as diagnostics while the author
+ * types, and offers quick fixes (rebalancing durations, migrating the schema).
+ * Completion and hover come from the JSON Schema (`workshop schema`) via the
+ * editor's YAML support; this server adds what a schema can't express.
+ */
+
+import { dirname } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { loadPolicy, DEFAULT_POLICY, type Policy } from '../policy.js';
+import { getDiagnostics } from './diagnostics.js';
+import { getCodeActions } from './code-actions.js';
+import { Connection, ErrorCodes, ResponseError, type Diagnostic, type Range } from './protocol.js';
+
+/** Delay after the last edit before re-validating a document */
+const VALIDATE_DELAY_MS = 200;
+
+/** LSP TextDocumentSyncKind.Full — the client sends the whole text on every change */
+const TEXT_DOCUMENT_SYNC_FULL = 1;
+
+export interface LanguageServerOptions {
+  /** Explicit policy file (default: discovered next to each document) */
+  policyPath?: string;
+  /** Preset name overriding the policy file's */
+  preset?: string;
+}
+
+interface OpenDocument {
+  text: string;
+  version: number;
+  timer?: NodeJS.Timeout;
+}
+
+interface TextDocumentParams {
+  textDocument: { uri: string; text?: string; version?: number };
+  contentChanges?: Array<{ text: string }>;
+}
+
+interface CodeActionParams {
+  textDocument: { uri: string };
+  range: Range;
+  context: { diagnostics: Diagnostic[] };
+}
+
+/**
+ * Run the language server on stdin/stdout until the client sends `exit`
+ * or closes the stream.
+ * @returns Process exit code (0 after a clean `shutdown`, 1 otherwise)
+ */
+export async function runLanguageServer(options: LanguageServerOptions = {}): Promise<number> {
+  const connection = new Connection(process.stdin, process.stdout);
+  const documents = new Map<string, OpenDocument>();
+  let initialized = false;
+  let shuttingDown = false;
+
+  const resolvePolicy = async (filePath: string): Promise<Policy> => {
+    try {
+      return await loadPolicy({ policyPath: options.policyPath, preset: options.preset, cwd: dirname(filePath) });
+    } catch (error) {
+      connection.logError(`Using the default policy: ${error instanceof Error ? error.message : String(error)}`);
+      return DEFAULT_POLICY;
+    }
+  };
+
+  const validate = async (uri: string): Promise<void> => {
+    const document = documents.get(uri);
+    if (!document) return;
+    const { text, version } = document;
+
+    const filePath = uriToPath(uri);
+    const diagnostics = await getDiagnostics(text, filePath, await resolvePolicy(filePath));
+
+    // Drop results for text that changed (or closed) while validating
+    if (documents.get(uri)?.version === version) {
+      connection.sendNotification('textDocument/publishDiagnostics', { uri, version, diagnostics });
+    }
+  };
+
+  const scheduleValidation = (uri: string, delay: number) => {
+    const document = documents.get(uri);
+    if (!document) return;
+    clearTimeout(document.timer);
+    document.timer = setTimeout(() => {
+      validate(uri).catch((error: unknown) => {
+        connection.logError(`Validating ${uri} failed: ${error instanceof Error ? error.message : String(error)}`);
+      });
+    }, delay);
+  };
+
+  connection.onRequest('initialize', () => {
+    initialized = true;
+    return {
+      capabilities: {
+        textDocumentSync: { openClose: true, change: TEXT_DOCUMENT_SYNC_FULL },
+        codeActionProvider: { codeActionKinds: ['quickfix'] },
+      },
+      serverInfo: { name: 'workshop-factory' },
+    };
+  });
+
+  connection.onRequest('shutdown', () => {
+    shuttingDown = true;
+    for (const document of documents.values()) {
+      clearTimeout(document.timer);
+    }
+    return null;
+  });
+
+  connection.onRequest('textDocument/codeAction', (params) => {
+    if (!initialized) {
+      throw new ResponseError(ErrorCodes.ServerNotInitialized, 'Server not initialized');
+    }
+    const { textDocument, context } = params as CodeActionParams;
+    const document = documents.get(textDocument.uri);
+    return document ? getCodeActions(textDocument.uri, document.text, context.diagnostics) : [];
+  });
+
+  connection.onNotification('textDocument/didOpen', (params) => {
+    const { textDocument } = params as TextDocumentParams;
+    documents.set(textDocument.uri, { text: textDocument.text ?? '', version: textDocument.version ?? 0 });
+    scheduleValidation(textDocument.uri, 0);
+  });
+
+  connection.onNotification('textDocument/didChange', (params) => {
+    const { textDocument, contentChanges } = params as TextDocumentParams;
+    const document = documents.get(textDocument.uri);
+    const change = contentChanges?.[contentChanges.length - 1];
+    if (!document || !change) return;
+    document.text = change.text;
+    document.version = textDocument.version ?? document.version + 1;
+    scheduleValidation(textDocument.uri, VALIDATE_DELAY_MS);
+  });
+
+  connection.onNotification('textDocument/didClose', (params) => {
+    const { textDocument } = params as TextDocumentParams;
+    clearTimeout(documents.get(textDocument.uri)?.timer);
+    documents.delete(textDocument.uri);
+    connection.sendNotification('textDocument/publishDiagnostics', { uri: textDocument.uri, diagnostics: [] });
+  });
+
+  const exited = new Promise<void>((resolve) => {
+    connection.onNotification('exit', () => resolve());
+  });
+  await Promise.race([connection.listen(), exited]);
+  return shuttingDown ? 0 : 1;
+}
+
+function uriToPath(uri: string): string {
+  return uri.startsWith('file:') ? fileURLToPath(uri) : uri;
+}
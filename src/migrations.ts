@@ -0,0 +1,141 @@
+/**
+ * Workshop file migrations.
+ *
+ * Each migration upgrades raw YAML data (before Zod parsing) by exactly one
+ * schema version. Files without `schema_version` predate versioning and are
+ * treated as version 0.
+ */
+
+import { CURRENT_SCHEMA_VERSION } from './schema.js';
+
+type WorkshopData = Record<string, unknown>;
+
+/**
+ * A single upgrade step from `from` to `from + 1`
+ */
+export interface Migration {
+  from: number;
+  description: string;
+  migrate: (data: WorkshopData) => WorkshopData;
+}
+
+/**
+ * Outcome of migrating a workshop file's data
+ */
+export interface MigrationResult {
+  data: WorkshopData;
+  fromVersion: number;
+  toVersion: number;
+  /** Migrations that ran, oldest first (empty if the data was current) */
+  applied: Migration[];
+}
+
+/**
+ * Registered migrations, ordered by `from`. Never edit a shipped migration —
+ * add a new one instead.
+ */
+export const MIGRATIONS: Migration[] = [
+  {
+    from: 0,
+    description: 'Add schema_version field',
+    migrate: (data) => ({ schema_version: 1, ...data }),
+  },
+  {
+    from: 1,
+    description: 'Convert checkpoint questions to structured short-answer questions',
+    migrate: (data) => mapSections(data, (section) => {
+      if (section['type'] !== 'checkpoint' || !Array.isArray(section['questions'])) {
+        return section;
+      }
+      const { expected_answers: answers, explanations, ...rest } = section;
+      const questions = section['questions'] as unknown[];
+      const answerList = Array.isArray(answers) ? answers : [];
+      const explanationList = Array.isArray(explanations) ? explanations : [];
+      // Keep every entry of the parallel arrays; a length mismatch shows up as an
+      // empty prompt or answer that validation (WF013) reports
+      const count = Math.max(questions.length, answerList.length);
+      return {
+        ...rest,
+        questions: Array.from({ length: count }, (_, idx) => ({
+          type: 'short_answer',
+          prompt: stringOrEmpty(questions[idx]),
+          answer: stringOrEmpty(answerList[idx]),
+          accepted_patterns: [],
+          explanation: stringOrEmpty(explanationList[idx]),
+        })),
+      };
+    }),
+  },
+];
+
+/**
+ * Read the schema version of raw workshop data (0 when the field is missing).
+ *
+ * @throws Error if the field is present but not a non-negative integer
+ */
+export function getSchemaVersion(data: WorkshopData): number {
+  const version = data['schema_version'];
+  if (version === undefined) {
+    return 0;
+  }
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 0) {
+    throw new Error(`Invalid schema_version ${JSON.stringify(version)} (expected a non-negative integer)`);
+  }
+  return version;
+}
+
+/**
+ * Upgrade raw workshop data to CURRENT_SCHEMA_VERSION. The input is not mutated.
+ *
+ * @throws Error if the data is from a newer CLI or a migration step is missing
+ */
+export function migrateWorkshopData(data: WorkshopData): MigrationResult {
+  const fromVersion = getSchemaVersion(data);
+  if (fromVersion > CURRENT_SCHEMA_VERSION) {
+    throw new Error(
+      `Workshop uses schema_version ${fromVersion}, but this version of workshop-factory only supports up to ${CURRENT_SCHEMA_VERSION}. Upgrade the CLI to open it.`
+    );
+  }
+
+  let current = structuredClone(data);
+  const applied: Migration[] = [];
+  for (let version = fromVersion; version < CURRENT_SCHEMA_VERSION; version++) {
+    const migration = MIGRATIONS.find((m) => m.from === version);
+    if (!migration) {
+      throw new Error(`No migration registered from schema_version ${version}`);
+    }
+    current = { ...migration.migrate(current), schema_version: version + 1 };
+    applied.push(migration);
+  }
+
+  return { data: current, fromVersion, toVersion: CURRENT_SCHEMA_VERSION, applied };
+}
+
+/**
+ * Apply `fn` to every section of every module, leaving malformed data for the schema to report.
+ */
+function mapSections(data: WorkshopData, fn: (section: WorkshopData) => WorkshopData): WorkshopData {
+  if (!Array.isArray(data['modules'])) {
+    return data;
+  }
+  return {
+    ...data,
+    modules: data['modules'].map((module: unknown) => {
+      if (!isRecord(module) || !Array.isArray(module['sections'])) {
+        return module;
+      }
+      return {
+        ...module,
+        sections: module['sections'].map((section: unknown) => (isRecord(section) ? fn(section) : section)),
+      };
+    }),
+  };
+}
+
+function isRecord(value: unknown): value is WorkshopData {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function stringOrEmpty(value: unknown): string {
+  return typeof value === 'string' ? value : '';
+}
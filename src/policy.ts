@@ -0,0 +1,191 @@
+/**
+ * Pedagogy policy — the thresholds used by validation and the generation prompts.
+ *
+ * Policies come from named presets and can be customized per project with a
+ * `workshop.policy.yaml` (or `.workshoprc`) file:
+ *
+ * ```yaml
+ * preset: conference-talk      # base preset (default: hands-on-lab)
+ * lecture_ratio_max: 70        # overrides on top of the preset
+ * presets:                     # optional custom presets
+ *   brown-bag:
+ *     extends: conference-talk
+ *     checkpoint_ratio_min: 0
+ * ```
+ */
+
+import { readFile, access } from 'node:fs/promises';
+import { constants } from 'node:fs';
+import { join } from 'node:path';
+import { load } from 'js-yaml';
+import { z } from 'zod';
+
+// Numeric thresholds — ratios are percentages of teaching time (workshop duration minus breaks), durations are minutes
+export const PolicyThresholdsSchema = z.object({
+  practice_ratio_min: z.number().min(0).max(100), // exercises + discussions + projects ≥ N%
+  lecture_ratio_max: z.number().min(0).max(100), // lectures + demos ≤ N%
+  checkpoint_ratio_min: z.number().min(0).max(100), // checkpoints ≥ N%
+  checkpoint_gap_max: z.number().positive(), // max minutes of content (breaks excluded) without a checkpoint
+  lecture_max_duration: z.number().positive(), // max minutes for a single lecture section
+  section_min_duration: z.number().nonnegative(), // min minutes for any section except breaks
+  module_duration_tolerance: z.number().nonnegative(), // ± minutes between section sum and module duration
+  workshop_duration_tolerance: z.number().nonnegative(), // ± minutes between module sum and workshop duration
+});
+export type PolicyThresholds = z.infer<typeof PolicyThresholdsSchema>;
+
+export const PolicySchema = PolicyThresholdsSchema.extend({
+  name: z.string(),
+});
+export type Policy = z.infer<typeof PolicySchema>;
+
+const PresetOverridesSchema = PolicyThresholdsSchema.partial().extend({
+  extends: z.string().optional(),
+});
+
+// Policy file — a base preset, optional custom presets, and top-level threshold overrides
+export const PolicyFileSchema = PolicyThresholdsSchema.partial().extend({
+  preset: z.string().optional(),
+  presets: z.record(PresetOverridesSchema).optional(),
+}).strict();
+export type PolicyFile = z.infer<typeof PolicyFileSchema>;
+
+/**
+ * Built-in presets. `hands-on-lab` is the practice-first default.
+ */
+export const POLICY_PRESETS: Record<string, PolicyThresholds> = {
+  'hands-on-lab': {
+    practice_ratio_min: 60,
+    lecture_ratio_max: 25,
+    checkpoint_ratio_min: 15,
+    checkpoint_gap_max: 25,
+    lecture_max_duration: 15,
+    section_min_duration: 5,
+    module_duration_tolerance: 2,
+    workshop_duration_tolerance: 5,
+  },
+  'conference-talk': {
+    practice_ratio_min: 20,
+    lecture_ratio_max: 70,
+    checkpoint_ratio_min: 5,
+    checkpoint_gap_max: 40,
+    lecture_max_duration: 20,
+    section_min_duration: 3,
+    module_duration_tolerance: 2,
+    workshop_duration_tolerance: 5,
+  },
+  'university-lecture': {
+    practice_ratio_min: 35,
+    lecture_ratio_max: 50,
+    checkpoint_ratio_min: 10,
+    checkpoint_gap_max: 30,
+    lecture_max_duration: 25,
+    section_min_duration: 5,
+    module_duration_tolerance: 2,
+    workshop_duration_tolerance: 5,
+  },
+};
+
+export const DEFAULT_PRESET = 'hands-on-lab';
+
+export const DEFAULT_POLICY: Policy = {
+  name: DEFAULT_PRESET,
+  ...POLICY_PRESETS[DEFAULT_PRESET]!,
+};
+
+/** Policy file names looked up in the working directory, in order. */
+const POLICY_FILENAMES = ['workshop.policy.yaml', 'workshop.policy.yml', '.workshoprc'];
+
+export interface LoadPolicyOptions {
+  /** Explicit policy file; skips discovery */
+  policyPath?: string;
+  /** Preset name; overrides the file's `preset` */
+  preset?: string;
+  /** Directory to search for a policy file (default: process.cwd()) */
+  cwd?: string;
+}
+
+/**
+ * Resolve the active policy from an explicit file, a discovered policy file,
+ * and/or a preset name. Falls back to the default preset.
+ *
+ * @throws Error if the policy file is invalid or the preset is unknown
+ */
+export async function loadPolicy(options: LoadPolicyOptions = {}): Promise<Policy> {
+  const policyPath = options.policyPath ?? await findPolicyFile(options.cwd ?? process.cwd());
+  const file = policyPath ? await readPolicyFile(policyPath) : {};
+  return resolvePolicy(file, options.preset);
+}
+
+/**
+ * Resolve a parsed policy file (and optional preset override) to concrete thresholds.
+ *
+ * @throws Error if a preset is unknown or custom presets extend each other in a cycle
+ */
+export function resolvePolicy(file: PolicyFile, presetOverride?: string): Policy {
+  const name = presetOverride ?? file.preset ?? DEFAULT_PRESET;
+  const { preset: _preset, presets: _presets, ...overrides } = file;
+  return {
+    name,
+    ...resolvePreset(name, file.presets ?? {}, []),
+    ...overrides,
+  };
+}
+
+function resolvePreset(
+  name: string,
+  custom: NonNullable<PolicyFile['presets']>,
+  seen: string[],
+): PolicyThresholds {
+  if (seen.includes(name)) {
+    throw new Error(`Policy preset cycle: ${[...seen, name].join(' → ')}`);
+  }
+
+  const customPreset = custom[name];
+  if (customPreset) {
+    const { extends: base, ...overrides } = customPreset;
+    // A custom preset that shadows a built-in builds on that built-in
+    const shadowed = POLICY_PRESETS[name];
+    const parent = shadowed && (base === undefined || base === name)
+      ? shadowed
+      : resolvePreset(base ?? DEFAULT_PRESET, custom, [...seen, name]);
+    return { ...parent, ...overrides };
+  }
+
+  const builtin = POLICY_PRESETS[name];
+  if (!builtin) {
+    const available = [...Object.keys(POLICY_PRESETS), ...Object.keys(custom)];
+    throw new Error(`Unknown policy preset "${name}". Available presets: ${available.join(', ')}`);
+  }
+  return builtin;
+}
+
+async function findPolicyFile(cwd: string): Promise<string | undefined> {
+  for (const filename of POLICY_FILENAMES) {
+    const candidate = join(cwd, filename);
+    try {
+      await access(candidate, constants.R_OK);
+      return candidate;
+    } catch {
+      // Try the next candidate
+    }
+  }
+  return undefined;
+}
+
+async function readPolicyFile(filePath: string): Promise<PolicyFile> {
+  let rawData: unknown;
+  try {
+    rawData = load(await readFile(filePath, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Failed to read policy file: ${filePath}. ${error instanceof Error ? error.message : String(error)}`, { cause: error });
+  }
+
+  const parsed = PolicyFileSchema.safeParse(rawData ?? {});
+  if (!parsed.success) {
+    const fieldErrors = parsed.error.issues
+      .map(issue => `  - ${issue.path.join('.') || '(root)'}: ${issue.message}`)
+      .join('\n');
+    throw new Error(`Invalid policy file: ${filePath}\n${fieldErrors}`);
+  }
+  return parsed.data;
+}
@@ -6,12 +6,17 @@
  * 2. Outline — structured module/section plan
  * 3. Generate — section-by-section content generation (per module)
  * 4. Regen — targeted section regeneration
+ * 5. Repair — fix modules that fail validation checks
+ * 6. Import — structure a free-form Markdown guide as a workshop
  */
 
 import { readFile } from 'node:fs/promises';
 import { join, dirname } from 'node:path';
 import { fileURLToPath } from 'node:url';
 import type { Workshop } from './schema.js';
+import { formatLocationPath, type ValidationCheck } from './validation.js';
+import { DEFAULT_POLICY, type Policy } from './policy.js';
+import { withResolvedLanguages } from './languages.js';
 
 /**
  * Get the system prompt that instructs the model on workshop generation.
@@ -19,10 +24,12 @@ import type { Workshop } from './schema.js';
  * - Pedagogy rules (Bloom's taxonomy, practice ratios, scaffolding)
  * - Available tools (save_workshop, validate_structure)
  * - Output format instructions (structured JSON matching Workshop schema)
+ * - The active pedagogy policy thresholds, which take precedence over the defaults in the doc
  *
+ * @param policy - Pedagogy policy (default: hands-on-lab preset)
  * @returns System prompt string
  */
-export async function getSystemPrompt(): Promise<string> {
+export async function getSystemPrompt(policy: Policy = DEFAULT_POLICY): Promise<string> {
   let skillContent: string;
   
   try {
@@ -71,6 +78,12 @@ Allocate durations to achieve:
 
   return `${skillContent}
 
+## Active Pedagogy Policy ("${policy.name}")
+
+These thresholds are enforced by validation and override any numbers stated above:
+
+${formatPolicyRules(policy)}
+
 ## Your Task
 
 Generate pedagogically sound workshops following the principles above. You have access to these tools:
@@ -109,14 +122,45 @@ interface Module {
 
 type Section = 
   | { type: 'lecture'; title: string; duration: number; talking_points: string[] }
-  | { type: 'exercise'; title: string; duration: number; instructions: string; starter_code: string; solution: string; hints: string[] }
+  | { type: 'exercise'; title: string; duration: number; instructions: string; language: string; starter_code: string; solution: string; files?: ExerciseFile[]; test?: string; hints: string[] }
   | { type: 'discussion'; title: string; duration: number; prompts: string[] }
-  | { type: 'checkpoint'; title: string; duration: number; questions: string[]; expected_answers: string[]; explanations: string[] };
+  | { type: 'checkpoint'; title: string; duration: number; questions: Question[] }
+  | { type: 'demo'; title: string; duration: number; script: string[]; fallback_notes: string }
+  | { type: 'break'; title: string; duration: number }
+  | { type: 'project'; title: string; duration: number; brief: string; language: string; milestones: Array<{ title: string; instructions: string; starter_code: string; solution: string }>; rubric: Array<{ criterion: string; points: number }> };
+
+// Multi-file exercises list their files instead of using starter_code/solution
+interface ExerciseFile {
+  path: string; // relative, e.g. 'src/routes/users.ts'
+  language: string; // e.g. 'typescript'
+  starter: string; // '' for files attendees create from scratch
+  solution: string;
+}
+
+type Question =
+  | { type: 'multiple_choice'; prompt: string; options: string[]; correct_index: number; explanation: string }
+  | { type: 'true_false'; prompt: string; answer: boolean; explanation: string }
+  | { type: 'short_answer'; prompt: string; answer: string; accepted_patterns: string[]; explanation: string } // case-insensitive regexes
+  | { type: 'code_output'; prompt: string; code: string; expected_output: string; explanation: string };
 \`\`\`
 
 Ensure all durations sum correctly and pedagogical ratios are met.`;
 }
 
+/**
+ * Render policy thresholds as a Markdown bullet list for prompts.
+ */
+function formatPolicyRules(policy: Policy): string {
+  return [
+    `- ≥${policy.practice_ratio_min}% exercises/discussion/projects, ≤${policy.lecture_ratio_max}% lecture/demo, ≥${policy.checkpoint_ratio_min}% checkpoints (shares of teaching time; breaks don't count)`,
+    `- No more than ${policy.checkpoint_gap_max} minutes of content without a checkpoint (breaks don't count)`,
+    `- Every section except breaks is at least ${policy.section_min_duration} minutes`,
+    `- No single lecture section exceeds ${policy.lecture_max_duration} minutes`,
+    `- Section durations within each module sum to that module's duration (±${policy.module_duration_tolerance}min tolerance)`,
+    `- Module durations sum to the workshop duration (±${policy.workshop_duration_tolerance}min tolerance)`,
+  ].join('\n');
+}
+
 /**
  * Parameters for workshop generation
  */
@@ -191,11 +235,13 @@ Please analyze this workshop request and provide:
  *
  * @param analysis - JSON string from analyze step
  * @param params - Original workshop parameters
+ * @param policy - Pedagogy policy whose thresholds the outline must meet
  * @returns Prompt string for outline step
  */
 export function buildOutlinePrompt(
   analysis: string,
-  params: WorkshopParams
+  params: WorkshopParams,
+  policy: Policy = DEFAULT_POLICY
 ): string {
   const { topic, audience, duration } = params;
 
@@ -214,15 +260,16 @@ ${analysis}
 Create a module and section plan that:
 - Breaks the topic into logical modules
 - Assigns durations to each module and section
-- Meets the practice-first ratio (≥60% exercises/discussion, ≤25% lecture, ≥15% checkpoints)
-- Spaces checkpoints every ~20-25 minutes
+- Meets the practice ratio (≥${policy.practice_ratio_min}% exercises/discussion/projects, ≤${policy.lecture_ratio_max}% lecture/demo, ≥${policy.checkpoint_ratio_min}% checkpoints, as shares of time excluding breaks)
+- Spaces checkpoints so no more than ${policy.checkpoint_gap_max} minutes of content pass without one (breaks don't count)
 - Tags learning objectives with Bloom's levels appropriate for ${audience.level} level
 - Starts every learning objective with an action verb from the ${audience.level}-level tier in the pedagogy rules
-- Total duration sums to ${duration} minutes (±5min tolerance)
-- Every section is at least 5 minutes (no section shorter than 5min)
-- No single lecture section exceeds 15 minutes
-- Section durations within each module sum to that module's duration (±2min tolerance)
+- Total duration sums to ${duration} minutes (±${policy.workshop_duration_tolerance}min tolerance)
+- Every section except breaks is at least ${policy.section_min_duration} minutes (no section shorter than ${policy.section_min_duration}min)
+- No single lecture section exceeds ${policy.lecture_max_duration} minutes
+- Section durations within each module sum to that module's duration (±${policy.module_duration_tolerance}min tolerance)
 - Workshop includes at least one exercise section
+- Includes a 'break' section roughly every 90 minutes in workshops longer than 2 hours
 
 For each module, provide:
 - Title
@@ -230,7 +277,10 @@ For each module, provide:
 - Learning objectives with Bloom's level tags
 
 For each section, provide:
-- Type: 'lecture' | 'exercise' | 'discussion' | 'checkpoint'
+- Type: 'lecture' | 'exercise' | 'discussion' | 'checkpoint' | 'demo' | 'break' | 'project'
+  - 'demo': the instructor live-codes while attendees watch (counts as lecture time)
+  - 'break': a pause with no content
+  - 'project': a multi-step capstone that groups build toward, usually at the end of a long workshop
 - Title
 - Duration (minutes)
 
@@ -292,8 +342,11 @@ ${outline}
 
 ### For exercise sections:
 - instructions: clear step-by-step exercise description
+- language: code fence language of the starter code and solution (e.g. "typescript", "python")${params.audience.stack ? `, matching the ${params.audience.stack} stack` : ''}
 - starter_code: initial code template participants start with
 - solution: complete working solution
+- files: only when the exercise touches more than one file (e.g. a route plus its test) — an array of { path, language, starter, solution } with realistic relative paths; leave starter_code and solution empty and put all code in the files
+- test: optional short assertions that exit non-zero if the solution is wrong (plain asserts, no test framework); they are appended to the solution, or run from the exercise root for multi-file exercises
 - hints: array of progressive hints (3-5 hints)
 ${params.audience.stack ? `- Use ${params.audience.stack} stack in all code examples` : ''}
 
@@ -301,9 +354,25 @@ ${params.audience.stack ? `- Use ${params.audience.stack} stack in all code exam
 - prompts: array of discussion questions/prompts (3-5 prompts)
 
 ### For checkpoint sections:
-- questions: array of assessment questions
-- expected_answers: array of answers (same length as questions)
-- explanations: array of explanations for each answer (feedback for learning)
+- questions: array of structured, auto-gradable questions (2-4 per checkpoint), mixing these types:
+  - multiple_choice: prompt, options (3-4 plausible choices), correct_index (0-based), explanation
+  - true_false: prompt, answer (boolean), explanation
+  - short_answer: prompt, answer (model answer), accepted_patterns (case-insensitive regexes the model answer must match), explanation
+  - code_output: prompt, code (short snippet), expected_output (exact output), explanation
+- Every explanation says why the answer is right (feedback for learning)
+
+### For demo sections:
+- script: ordered steps the instructor performs live (5-10 steps, concrete commands or code changes)
+- fallback_notes: what to show if the live demo breaks (e.g. a recording, screenshots, or pre-built code)
+
+### For break sections:
+- title and duration only
+
+### For project sections:
+- brief: what the group builds and why it matters
+- language: code fence language of the milestone code
+- milestones: 2-4 steps, each with title, instructions, starter_code and solution, building on the previous one
+- rubric: array of { criterion, points } used to assess the result
 `;
 
   if (params.context && params.context.length > 0 && contextContent && contextContent.length > 0) {
@@ -335,6 +404,7 @@ ${params.audience.stack ? `- Use ${params.audience.stack} stack in all code exam
       "title": "...",
       "duration": 20,
       "instructions": "...",
+      "language": "typescript",
       "starter_code": "...",
       "solution": "...",
       "hints": ["hint 1", "hint 2", ...]
@@ -413,6 +483,88 @@ ${newContext ? '5. Ground regenerated sections in the new context provided' : ''
   return prompt;
 }
 
+/**
+ * Build the repair prompt — asks the model to fix only the modules
+ * responsible for failing validation checks.
+ *
+ * @param workshop - Current workshop
+ * @param failingChecks - Validation checks that did not pass
+ * @returns Prompt string for one repair round
+ */
+export function buildRepairPrompt(
+  workshop: Workshop,
+  failingChecks: ValidationCheck[]
+): string {
+  const failures = failingChecks
+    .map((check) => `- [${check.severity} ${check.rule}] ${check.message}${check.location ? ` (at ${formatLocationPath(check.location)})` : ''}`)
+    .join('\n');
+
+  return `This workshop fails the following validation checks:
+
+${failures}
+
+**Current Workshop**:
+\`\`\`json
+${serializeWorkshopForPrompt(workshop)}
+\`\`\`
+
+Fix the failures by editing ONLY the modules (and within them, only the sections or learning objectives) that cause them.
+
+**Requirements**:
+1. Keep module count, module order, and the workshop's total duration unchanged
+2. Rebalance section durations within a module rather than adding time
+3. Leave every module that is not involved in a failure out of your response
+4. Keep section content intact unless the failure is about that content (e.g. a missing solution)
+5. Every returned module must be complete and valid — all sections with full content
+
+**Output as JSON** — return only the changed modules with their 0-based index:
+\`\`\`json
+{
+  "modules": [
+    { "index": 0, "module": { "title": "...", "duration": 45, "learning_objectives": [...], "sections": [...] } }
+  ]
+}
+\`\`\``;
+}
+
+/**
+ * Build the import prompt — asks the model to turn a Markdown workshop guide
+ * that doesn't follow the exported layout into a Workshop, keeping its content.
+ *
+ * @param markdown - The guide's Markdown
+ * @param sourcePath - Path of the guide, recorded as a context source
+ * @returns Prompt string for the import
+ */
+export function buildImportPrompt(markdown: string, sourcePath: string): string {
+  return `Convert this existing workshop guide (${sourcePath}) into a Workshop object.
+
+**Guide**:
+\`\`\`\`markdown
+${markdown}
+\`\`\`\`
+
+**Requirements**:
+1. Keep the guide's own content and wording: titles, explanations, code, questions and answers. Do not invent new material
+2. Map its parts to modules and sections; pick each section's type from what it contains (lecture, exercise, discussion, checkpoint, demo, break, project)
+3. Use durations stated in the guide; where it has none, estimate them so modules add up to the workshop duration
+4. Tag each learning objective with a Bloom's level; derive objectives from the module content if the guide lists none
+5. Exercises need starter_code and solution; if the guide only shows finished code, use it as the solution and write a starter with TODOs
+6. Set context_sources to ["${sourcePath}"]
+
+**Output as JSON** — return the complete Workshop object:
+\`\`\`json
+{
+  "title": "...",
+  "topic": "...",
+  "audience": { "level": "beginner|intermediate|advanced", "stack": "..." },
+  "duration": ...,
+  "prerequisites": [...],
+  "context_sources": ["${sourcePath}"],
+  "modules": [...]
+}
+\`\`\``;
+}
+
 /**
  * Load a design document from the prompts/ directory relative to the package root.
  * Used by the generate prompt builders to inject design system prompts.
@@ -461,7 +613,7 @@ You have access to the \`write_file\` tool. Call it once per file with relative
 
 **Workshop Data**:
 \`\`\`json
-${serializeWorkshopForPrompt(workshop)}
+${serializeWorkshopForPrompt(withResolvedLanguages(workshop))}
 \`\`\`
 
 Create the following files using the write_file tool:
@@ -469,7 +621,7 @@ Create the following files using the write_file tool:
 2. slides/styles.css — stylesheet
 3. slides/script.js — interactivity (navigation, code highlighting, progress tracking)
 
-Follow all design rules from your system instructions. Transform instructor content (talking points, Bloom's levels) into attendee-friendly prose. Do NOT expose internal metadata.`;
+Follow all design rules from your system instructions. Show exercises that have \`files\` as one code block per file, labelled with its path. Transform instructor content (talking points, Bloom's levels) into attendee-friendly prose. Do NOT expose internal metadata.`;
 
   return { system, user };
 }
@@ -493,17 +645,17 @@ You have access to the \`write_file\` tool. Call it once per file with relative
 
 **Workshop Data**:
 \`\`\`json
-${serializeWorkshopForPrompt(workshop)}
+${serializeWorkshopForPrompt(withResolvedLanguages(workshop))}
 \`\`\`
 
 Create the project files using the write_file tool. Include:
 - code/package.json (or equivalent for the stack)
 - code/README.md with exercise instructions
-- Starter code files (one per exercise)
+- Starter code files (one per exercise, and one per project milestone; exercises with \`files\` get exactly those paths)
 - Solution files under code/solutions/
 - Any configuration files needed to run the project
 
-The scaffold must work out-of-the-box after \`npm install\` (or equivalent). Map each exercise section to a source file with clear TODO comments.`;
+The scaffold must work out-of-the-box after \`npm install\` (or equivalent). Map each exercise section and project milestone to a source file with clear TODO comments.`;
 
   return { system, user };
 }
@@ -527,7 +679,7 @@ You have access to the \`write_file\` tool. Call it to write the root README.md
 
 **Workshop Data**:
 \`\`\`json
-${serializeWorkshopForPrompt(workshop)}
+${serializeWorkshopForPrompt(withResolvedLanguages(workshop))}
 \`\`\`
 
 Write a single file using the write_file tool:
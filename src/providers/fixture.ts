@@ -0,0 +1,66 @@
+/**
+ * On-disk format for recorded provider sessions.
+ *
+ * A fixture is an ordered list of sessions; each session is an ordered list
+ * of turns (prompt → final response) plus the tool calls the model made
+ * while producing that response.
+ */
+
+import { readFile, writeFile, mkdir } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import { z } from 'zod';
+
+export const RecordedToolCallSchema = z.object({
+  name: z.string(),
+  arguments: z.unknown(),
+});
+export type RecordedToolCall = z.infer<typeof RecordedToolCallSchema>;
+
+export const RecordedTurnSchema = z.object({
+  prompt: z.string(),
+  response: z.string(),
+  tool_calls: z.array(RecordedToolCallSchema).default([]),
+});
+export type RecordedTurn = z.infer<typeof RecordedTurnSchema>;
+
+export const RecordedSessionSchema = z.object({
+  system_prompt: z.string().optional(),
+  turns: z.array(RecordedTurnSchema),
+});
+export type RecordedSession = z.infer<typeof RecordedSessionSchema>;
+
+export const ReplayFixtureSchema = z.object({
+  version: z.literal(1),
+  sessions: z.array(RecordedSessionSchema),
+});
+export type ReplayFixture = z.infer<typeof ReplayFixtureSchema>;
+
+/**
+ * Load and validate a replay fixture from disk.
+ * @throws Error if the file cannot be read or does not match the fixture schema
+ */
+export async function loadFixture(filePath: string): Promise<ReplayFixture> {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(await readFile(filePath, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Failed to read replay fixture: ${filePath}. ${error instanceof Error ? error.message : String(error)}`, { cause: error });
+  }
+
+  const parsed = ReplayFixtureSchema.safeParse(raw);
+  if (!parsed.success) {
+    const fieldErrors = parsed.error.issues
+      .map(issue => `  - ${issue.path.join('.')}: ${issue.message}`)
+      .join('\n');
+    throw new Error(`Invalid replay fixture: ${filePath}\n${fieldErrors}`);
+  }
+  return parsed.data;
+}
+
+/**
+ * Write a replay fixture to disk as pretty-printed JSON.
+ */
+export async function saveFixture(fixture: ReplayFixture, filePath: string): Promise<void> {
+  await mkdir(dirname(filePath), { recursive: true });
+  await writeFile(filePath, `${JSON.stringify(fixture, null, 2)}\n`, 'utf-8');
+}
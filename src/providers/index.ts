@@ -0,0 +1,43 @@
+/**
+ * Model providers for the Copilot client wrapper
+ *
+ * - sdk: live GitHub Copilot SDK (default)
+ * - record: proxies the SDK and writes a replay fixture on shutdown
+ * - replay: serves a recorded fixture without any network access
+ */
+
+import { SdkProvider } from './sdk.js';
+import { RecordingProvider } from './record.js';
+import { ReplayProvider } from './replay.js';
+import type { ModelProvider } from './types.js';
+
+export { SdkProvider } from './sdk.js';
+export { RecordingProvider } from './record.js';
+export { ReplayProvider } from './replay.js';
+export type { ReplayOptions } from './replay.js';
+export { loadFixture, saveFixture, ReplayFixtureSchema } from './fixture.js';
+export type { ReplayFixture, RecordedSession, RecordedTurn, RecordedToolCall } from './fixture.js';
+export type { ModelProvider, ModelSession, StreamChunk } from './types.js';
+
+/**
+ * Pick a provider from the environment:
+ * - WORKSHOP_REPLAY=<fixture.json> replays a recorded fixture
+ *   (set WORKSHOP_REPLAY_STRICT=0 to tolerate prompt drift)
+ * - WORKSHOP_RECORD=<fixture.json> records live SDK sessions to a fixture
+ * - otherwise the live SDK is used
+ */
+export function createProviderFromEnv(env: NodeJS.ProcessEnv = process.env): ModelProvider {
+  const replayPath = env['WORKSHOP_REPLAY'];
+  const recordPath = env['WORKSHOP_RECORD'];
+
+  if (replayPath && recordPath) {
+    throw new Error('WORKSHOP_REPLAY and WORKSHOP_RECORD cannot be set at the same time');
+  }
+  if (replayPath) {
+    return new ReplayProvider(replayPath, { strict: env['WORKSHOP_REPLAY_STRICT'] !== '0' });
+  }
+  if (recordPath) {
+    return new RecordingProvider(new SdkProvider(), recordPath);
+  }
+  return new SdkProvider();
+}
@@ -0,0 +1,109 @@
+/**
+ * Recording provider — proxies a live provider and captures every turn
+ * (prompt, final response, tool calls) into a replay fixture.
+ */
+
+import type {
+  AssistantMessageEvent,
+  MessageOptions,
+  SessionConfig,
+  Tool,
+} from '@github/copilot-sdk';
+import { saveFixture, type RecordedSession, type RecordedToolCall } from './fixture.js';
+import type { ModelProvider, ModelSession, StreamChunk } from './types.js';
+
+/**
+ * Provider that records sessions from an inner provider to a fixture file.
+ * The fixture is written when the provider is stopped.
+ */
+export class RecordingProvider implements ModelProvider {
+  readonly name: string;
+  private sessions: RecordedSession[] = [];
+
+  constructor(
+    private readonly inner: ModelProvider,
+    private readonly fixturePath: string,
+  ) {
+    this.name = `record(${inner.name})`;
+  }
+
+  async start(): Promise<void> {
+    await this.inner.start();
+  }
+
+  async stop(): Promise<Error[]> {
+    const errors = await this.inner.stop();
+    try {
+      await saveFixture({ version: 1, sessions: this.sessions }, this.fixturePath);
+    } catch (error) {
+      errors.push(error instanceof Error ? error : new Error(String(error)));
+    }
+    return errors;
+  }
+
+  async createSession(config?: SessionConfig): Promise<ModelSession> {
+    const recorded: RecordedSession = {
+      system_prompt: config?.systemMessage?.content,
+      turns: [],
+    };
+    this.sessions.push(recorded);
+
+    const pendingToolCalls: RecordedToolCall[] = [];
+    const tools = config?.tools?.map((tool) => wrapTool(tool, pendingToolCalls));
+    const session = await this.inner.createSession(config && { ...config, tools });
+
+    return new RecordingSession(session, recorded, pendingToolCalls);
+  }
+}
+
+/**
+ * Wrap a tool so each invocation is appended to the pending call list
+ * before the original handler runs.
+ */
+function wrapTool(tool: Tool<unknown>, calls: RecordedToolCall[]): Tool<unknown> {
+  return {
+    ...tool,
+    handler: (args, invocation) => {
+      calls.push({ name: tool.name, arguments: args });
+      return tool.handler(args, invocation);
+    },
+  };
+}
+
+class RecordingSession implements ModelSession {
+  constructor(
+    private readonly session: ModelSession,
+    private readonly recorded: RecordedSession,
+    private readonly pendingToolCalls: RecordedToolCall[],
+  ) {}
+
+  async *stream(
+    userMessage: string,
+    options?: Omit<MessageOptions, 'prompt'>,
+  ): AsyncGenerator<StreamChunk, void, unknown> {
+    let response = '';
+    for await (const chunk of this.session.stream(userMessage, options)) {
+      response = chunk.type === 'complete' ? chunk.content : chunk.accumulated;
+      yield chunk;
+    }
+    this.commitTurn(userMessage, response);
+  }
+
+  async sendAndWait(
+    userMessage: string,
+    options?: Omit<MessageOptions, 'prompt'>,
+    timeout?: number,
+  ): Promise<AssistantMessageEvent | undefined> {
+    const event = await this.session.sendAndWait(userMessage, options, timeout);
+    this.commitTurn(userMessage, event?.data.content ?? '');
+    return event;
+  }
+
+  private commitTurn(prompt: string, response: string): void {
+    this.recorded.turns.push({
+      prompt,
+      response,
+      tool_calls: this.pendingToolCalls.splice(0),
+    });
+  }
+}
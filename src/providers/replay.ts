@@ -0,0 +1,148 @@
+/**
+ * Replay provider — serves recorded sessions from a fixture file so the
+ * generation chain can run deterministically without a live service.
+ */
+
+import { randomUUID } from 'node:crypto';
+import type {
+  AssistantMessageEvent,
+  MessageOptions,
+  SessionConfig,
+  Tool,
+} from '@github/copilot-sdk';
+import { loadFixture, type RecordedSession, type RecordedTurn, type ReplayFixture } from './fixture.js';
+import type { ModelProvider, ModelSession, StreamChunk } from './types.js';
+
+/** Size of the synthetic deltas emitted while replaying a response. */
+const REPLAY_CHUNK_SIZE = 120;
+
+export interface ReplayOptions {
+  /**
+   * Fail when a prompt differs from the recorded one (default: true).
+   * Disable to replay fixtures whose prompts drifted, e.g. after a prompt wording change.
+   */
+  strict?: boolean;
+}
+
+/**
+ * Provider that replays sessions from a fixture in recording order.
+ * Recorded tool calls (e.g. write_file) are re-executed against the
+ * tools registered on the replayed session.
+ */
+export class ReplayProvider implements ModelProvider {
+  readonly name = 'replay';
+  private fixture: ReplayFixture | undefined;
+  private nextSession = 0;
+
+  constructor(
+    private readonly fixturePath: string,
+    private readonly options: ReplayOptions = {},
+  ) {}
+
+  async start(): Promise<void> {
+    if (!this.fixture) {
+      this.fixture = await loadFixture(this.fixturePath);
+    }
+  }
+
+  async stop(): Promise<Error[]> {
+    return [];
+  }
+
+  async createSession(config?: SessionConfig): Promise<ModelSession> {
+    await this.start();
+    const sessionIndex = this.nextSession++;
+    const recorded = this.fixture!.sessions[sessionIndex];
+    if (!recorded) {
+      throw new Error(`Replay fixture ${this.fixturePath} has no session #${sessionIndex + 1} (recorded: ${this.fixture!.sessions.length})`);
+    }
+    return new ReplaySession(recorded, sessionIndex, config?.tools ?? [], this.options.strict ?? true);
+  }
+}
+
+class ReplaySession implements ModelSession {
+  private readonly sessionId = randomUUID();
+  private nextTurn = 0;
+
+  constructor(
+    private readonly recorded: RecordedSession,
+    private readonly sessionIndex: number,
+    private readonly tools: Tool<unknown>[],
+    private readonly strict: boolean,
+  ) {}
+
+  async *stream(
+    userMessage: string,
+    _options?: Omit<MessageOptions, 'prompt'>,
+  ): AsyncGenerator<StreamChunk, void, unknown> {
+    const turn = await this.playTurn(userMessage);
+
+    let accumulated = '';
+    for (let i = 0; i < turn.response.length; i += REPLAY_CHUNK_SIZE) {
+      const content = turn.response.slice(i, i + REPLAY_CHUNK_SIZE);
+      accumulated += content;
+      yield { type: 'delta', content, accumulated };
+    }
+
+    yield {
+      type: 'complete',
+      content: turn.response,
+      accumulated: turn.response,
+      event: toMessageEvent(turn.response),
+    };
+  }
+
+  async sendAndWait(
+    userMessage: string,
+    _options?: Omit<MessageOptions, 'prompt'>,
+    _timeout?: number,
+  ): Promise<AssistantMessageEvent | undefined> {
+    const turn = await this.playTurn(userMessage);
+    return toMessageEvent(turn.response);
+  }
+
+  /**
+   * Advance to the next recorded turn, check the prompt and re-run its tool calls.
+   */
+  private async playTurn(prompt: string): Promise<RecordedTurn> {
+    const label = `session #${this.sessionIndex + 1}, turn #${this.nextTurn + 1}`;
+    const turn = this.recorded.turns[this.nextTurn++];
+    if (!turn) {
+      throw new Error(`Replay fixture has no recorded response for ${label}`);
+    }
+    if (this.strict && turn.prompt !== prompt) {
+      throw new Error(`Replay prompt mismatch at ${label}: the prompt differs from the recording. Re-record the fixture or disable strict replay.`);
+    }
+
+    for (const [callIdx, call] of turn.tool_calls.entries()) {
+      const tool = this.tools.find((t) => t.name === call.name);
+      if (!tool) {
+        throw new Error(`Replay at ${label} calls tool "${call.name}", which is not registered on the session`);
+      }
+      await tool.handler(call.arguments, {
+        sessionId: this.sessionId,
+        toolCallId: `replay-${this.sessionIndex}-${this.nextTurn}-${callIdx}`,
+        toolName: call.name,
+        arguments: call.arguments,
+      });
+    }
+
+    return turn;
+  }
+}
+
+/**
+ * Build a minimal assistant.message event for a replayed response.
+ */
+function toMessageEvent(content: string): AssistantMessageEvent {
+  return {
+    id: randomUUID(),
+    timestamp: new Date().toISOString(),
+    parentId: null,
+    type: 'assistant.message',
+    data: {
+      messageId: randomUUID(),
+      content,
+    },
+  };
+}
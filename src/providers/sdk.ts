@@ -0,0 +1,142 @@
+/**
+ * Live provider backed by the GitHub Copilot SDK.
+ */
+
+import {
+  CopilotClient as SDKClient,
+  type AssistantMessageEvent,
+  type CopilotClientOptions,
+  type CopilotSession,
+  type MessageOptions,
+  type SessionConfig,
+} from '@github/copilot-sdk';
+import type { ModelProvider, ModelSession, StreamChunk } from './types.js';
+
+/**
+ * Provider that talks to the Copilot CLI server through the SDK.
+ */
+export class SdkProvider implements ModelProvider {
+  readonly name = 'sdk';
+  private sdkClient: SDKClient;
+
+  constructor(options?: CopilotClientOptions) {
+    this.sdkClient = new SDKClient({
+      autoStart: false, // Manual control for explicit lifecycle
+      ...options,
+    });
+  }
+
+  async start(): Promise<void> {
+    // Suppress Node.js experimental warnings (e.g. SQLite) emitted by the SDK subprocess.
+    process.env['NODE_NO_WARNINGS'] = '1';
+    await this.sdkClient.start();
+  }
+
+  async stop(): Promise<Error[]> {
+    return this.sdkClient.stop();
+  }
+
+  async createSession(config?: SessionConfig): Promise<ModelSession> {
+    return new SdkSession(await this.sdkClient.createSession(config));
+  }
+}
+
+/**
+ * Adapts a CopilotSession's event API to the ModelSession interface.
+ */
+class SdkSession implements ModelSession {
+  constructor(private readonly session: CopilotSession) {}
+
+  async *stream(
+    userMessage: string,
+    options?: Omit<MessageOptions, 'prompt'>,
+  ): AsyncGenerator<StreamChunk, void, unknown> {
+    const session = this.session;
+    const chunks: string[] = [];
+    let isComplete = false;
+
+    // Queue for streaming chunks with proper async signaling
+    const streamQueue: (StreamChunk | null)[] = [];
+    let queueResolver: (() => void) | null = null;
+
+    function enqueue(item: StreamChunk | null) {
+      streamQueue.push(item);
+      if (queueResolver) {
+        queueResolver();
+        queueResolver = null;
+      }
+    }
+
+    function waitForItem(): Promise<void> {
+      if (streamQueue.length > 0) return Promise.resolve();
+      return new Promise((resolve) => {
+        queueResolver = resolve;
+      });
+    }
+
+    // Set up event listeners
+    const unsubscribeDelta = session.on('assistant.message_delta', (event) => {
+      chunks.push(event.data.deltaContent);
+      enqueue({
+        type: 'delta',
+        content: event.data.deltaContent,
+        accumulated: chunks.join(''),
+      });
+    });
+
+    const unsubscribeMessage = session.on('assistant.message', (event) => {
+      enqueue({
+        type: 'complete',
+        content: event.data.content,
+        accumulated: event.data.content,
+        event,
+      });
+    });
+
+    const unsubscribeIdle = session.on('session.idle', () => {
+      isComplete = true;
+      // Defer the sentinel so any pending message/delta handlers fire first
+      queueMicrotask(() => enqueue(null));
+    });
+
+    try {
+      // Send the message
+      await session.send({
+        prompt: userMessage,
+        ...options,
+      });
+
+      // Yield chunks as they arrive
+      while (!isComplete || streamQueue.length > 0) {
+        await waitForItem();
+
+        while (streamQueue.length > 0) {
+          const chunk = streamQueue.shift();
+          if (chunk === null || chunk === undefined) {
+            return; // End of stream
+          }
+          yield chunk;
+        }
+      }
+    } finally {
+      // Clean up event listeners
+      unsubscribeDelta();
+      unsubscribeMessage();
+      unsubscribeIdle();
+    }
+  }
+
+  async sendAndWait(
+    userMessage: string,
+    options?: Omit<MessageOptions, 'prompt'>,
+    timeout?: number,
+  ): Promise<AssistantMessageEvent | undefined> {
+    return this.session.sendAndWait(
+      {
+        prompt: userMessage,
+        ...options,
+      },
+      timeout,
+    );
+  }
+}
@@ -0,0 +1,57 @@
+/**
+ * Provider interfaces for the Copilot client wrapper.
+ *
+ * The generation chain only needs to open sessions, stream a response and
+ * wait for a final message. Keeping that surface behind an interface lets
+ * the live SDK be swapped for the record/replay providers in CI or offline.
+ */
+
+import type {
+  AssistantMessageEvent,
+  MessageOptions,
+  SessionConfig,
+} from '@github/copilot-sdk';
+
+/**
+ * Stream chunk emitted during response streaming
+ */
+export interface StreamChunk {
+  /** Type of chunk: 'delta' for incremental, 'complete' for final */
+  type: 'delta' | 'complete';
+  /** Content of this chunk (delta) or full content (complete) */
+  content: string;
+  /** Accumulated content so far */
+  accumulated: string;
+  /** Full event data (only present for 'complete') */
+  event?: AssistantMessageEvent;
+}
+
+/**
+ * A conversation session opened by a provider.
+ */
+export interface ModelSession {
+  /** Send a message and yield deltas followed by the complete message. */
+  stream(
+    userMessage: string,
+    options?: Omit<MessageOptions, 'prompt'>,
+  ): AsyncGenerator<StreamChunk, void, unknown>;
+
+  /** Send a message and resolve with the final assistant message. */
+  sendAndWait(
+    userMessage: string,
+    options?: Omit<MessageOptions, 'prompt'>,
+    timeout?: number,
+  ): Promise<AssistantMessageEvent | undefined>;
+}
+
+/**
+ * Backend that creates sessions — the live SDK or a fixture-driven stand-in.
+ */
+export interface ModelProvider {
+  /** Human-readable provider name for logs and errors. */
+  readonly name: string;
+  start(): Promise<void>;
+  /** Stop the provider and return any errors encountered during cleanup. */
+  stop(): Promise<Error[]>;
+  createSession(config?: SessionConfig): Promise<ModelSession>;
+}
@@ -11,6 +11,7 @@ import { getGlobalClient, createSession, sendAndWait } from './client.js';
 import { extractJson } from './extract-json.js';
 import { saveWorkshopTool, loadWorkshopTool, validateStructureTool } from './tools/index.js';
 import { dump } from 'js-yaml';
+import type { Policy } from './policy.js';
 
 /**
  * Options for regenerating a workshop
@@ -19,6 +20,8 @@ export interface RegenOptions {
   workshopPath: string;
   sectionIndices?: number[];  // 1-based indices, if omitted regen all
   contextFiles?: string[];    // new context files to inject
+  policy?: Policy;            // pedagogy policy for the system prompt
+  log?: (message: string) => void; // progress output (default: console.log)
 }
 
 /**
@@ -57,17 +60,17 @@ export function mapSectionIndices(workshop: Workshop): Map<number, { moduleIndex
  * @throws Error if workshop can't be loaded, sections are invalid, or validation fails
  */
 export async function regenerateWorkshop(options: RegenOptions): Promise<Workshop> {
-  const { workshopPath, sectionIndices, contextFiles } = options;
+  const { workshopPath, sectionIndices, contextFiles, policy, log = console.log } = options;
 
   // Step 1: Load existing workshop
-  console.log(`Loading workshop from ${workshopPath}...`);
+  log(`Loading workshop from ${workshopPath}...`);
   const workshop = await loadWorkshop(workshopPath);
 
   // Step 2: Build section index mapping
   const sectionMap = mapSectionIndices(workshop);
   const totalSections = sectionMap.size;
 
-  console.log(`Workshop has ${totalSections} total sections across ${workshop.modules.length} modules`);
+  log(`Workshop has ${totalSections} total sections across ${workshop.modules.length} modules`);
 
   // Step 3: Determine which sections to regenerate
   let sectionsToRegen: number[];
@@ -86,7 +89,7 @@ export async function regenerateWorkshop(options: RegenOptions): Promise<Worksho
       const section = workshop.modules[pos.moduleIndex]!.sections[pos.sectionIndex];
       return `  ${idx}. ${section!.title}`;
     });
-    console.log(`Regenerating ${sectionsToRegen.length} section(s):\n${sectionTitles.join('\n')}`);
+    log(`Regenerating ${sectionsToRegen.length} section(s):\n${sectionTitles.join('\n')}`);
   } else {
     // Regenerate all sections
     sectionsToRegen = Array.from(sectionMap.keys());
@@ -95,13 +98,13 @@ export async function regenerateWorkshop(options: RegenOptions): Promise<Worksho
       const section = workshop.modules[pos.moduleIndex]!.sections[pos.sectionIndex];
       return `  ${idx}. ${section!.title}`;
     });
-    console.log(`Regenerating all ${sectionsToRegen.length} sections:\n${sectionTitles.join('\n')}`);
+    log(`Regenerating all ${sectionsToRegen.length} sections:\n${sectionTitles.join('\n')}`);
   }
 
   // Step 4: Load and prepare new context if provided
   let newContextContent: string[] | undefined;
   if (contextFiles && contextFiles.length > 0) {
-    console.log(`Loading ${contextFiles.length} new context file(s)...`);
+    log(`Loading ${contextFiles.length} new context file(s)...`);
     try {
       newContextContent = await loadContextFiles(contextFiles);
       
@@ -113,8 +116,8 @@ export async function regenerateWorkshop(options: RegenOptions): Promise<Worksho
       }
       workshop.context_sources = Array.from(existingSources);
       
-      console.log(`✓ Context files loaded successfully: ${contextFiles.join(', ')}`);
-      console.log(`Updated context sources: ${workshop.context_sources.join(', ')}`);
+      log(`✓ Context files loaded successfully: ${contextFiles.join(', ')}`);
+      log(`Updated context sources: ${workshop.context_sources.join(', ')}`);
     } catch (error) {
       throw new Error(`Failed to load context files: ${error instanceof Error ? error.message : String(error)}`, { cause: error });
     }
@@ -127,7 +130,7 @@ export async function regenerateWorkshop(options: RegenOptions): Promise<Worksho
   });
 
   // Step 6: Build the regeneration prompt
-  console.log('Building regeneration prompt...');
+  log('Building regeneration prompt...');
   const workshopYaml = dump(workshop, {
     indent: 2,
     lineWidth: 80,
@@ -143,8 +146,8 @@ export async function regenerateWorkshop(options: RegenOptions): Promise<Worksho
   );
 
   // Step 7: Send regen prompt to Copilot SDK
-  console.log('Sending regeneration request to Copilot...');
-  const systemPrompt = await getSystemPrompt();
+  log('Sending regeneration request to Copilot...');
+  const systemPrompt = await getSystemPrompt(policy);
   const client = getGlobalClient();
   const session = await createSession(client, systemPrompt, {
     tools: [saveWorkshopTool, loadWorkshopTool, validateStructureTool],
@@ -177,9 +180,9 @@ export async function regenerateWorkshop(options: RegenOptions): Promise<Worksho
   }
 
   // Step 8: Save the updated workshop
-  console.log(`\nSaving workshop to ${workshopPath}...`);
+  log(`\nSaving workshop to ${workshopPath}...`);
   await saveWorkshop(workshop, workshopPath);
-  console.log('✓ Workshop saved');
+  log('✓ Workshop saved');
 
   return workshop;
 }
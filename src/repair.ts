@@ -0,0 +1,169 @@
+/**
+ * Validation repair loop for Workshop Factory CLI
+ *
+ * Feeds failing validation checks back to the model, splices the modules it
+ * returns into the workshop, re-validates, and repeats for a bounded number
+ * of rounds. A round is kept only if it improves validation: fewer failing
+ * errors, or as many errors and fewer warnings. Otherwise it is discarded and
+ * the loop stops. Info-level checks are advisory and are not sent for repair.
+ */
+
+import { z } from 'zod';
+import type { Workshop } from './schema.js';
+import { ModuleSchema } from './schema.js';
+import { validateWorkshop, getFailures, countFailures, type ValidationCheck, type ValidationResult } from './validation.js';
+import { buildRepairPrompt, getSystemPrompt } from './prompts.js';
+import { getGlobalClient, createSession, sendAndWait } from './client.js';
+import { extractJson } from './extract-json.js';
+import { DEFAULT_POLICY, type Policy } from './policy.js';
+
+/** Default number of repair rounds when none is configured. */
+export const DEFAULT_REPAIR_ROUNDS = 2;
+
+const RepairResponseSchema = z.object({
+  modules: z.array(z.object({
+    index: z.number().int().nonnegative(),
+    module: ModuleSchema,
+  })),
+});
+
+/**
+ * What happened in a single repair round
+ */
+export interface RepairRound {
+  round: number;
+  /** Error and warning checks that failed before this round */
+  failingBefore: ValidationCheck[];
+  /** Checks that still fail after this round (equal to failingBefore if discarded) */
+  failingAfter: ValidationCheck[];
+  /** 0-based indices of modules the model replaced */
+  changedModules: number[];
+  /** Whether the round's changes were kept */
+  accepted: boolean;
+  /** Why the round was discarded, if it was */
+  reason?: string;
+}
+
+export interface RepairOptions {
+  /** Maximum number of repair rounds (default: DEFAULT_REPAIR_ROUNDS) */
+  maxRounds?: number;
+  /** Pedagogy policy to validate against (default: hands-on-lab preset) */
+  policy?: Policy;
+  onRound?: (round: RepairRound) => void;
+}
+
+export interface RepairResult {
+  workshop: Workshop;
+  validation: ValidationResult;
+  rounds: RepairRound[];
+}
+
+/**
+ * Repair a workshop until validation passes or the round limit is reached.
+ * The input workshop is not mutated.
+ *
+ * @param workshop - Workshop to repair
+ * @param options - Round limit and per-round callback
+ * @returns Repaired workshop, its final validation result, and a per-round report
+ */
+export async function repairWorkshop(
+  workshop: Workshop,
+  options: RepairOptions = {},
+): Promise<RepairResult> {
+  const maxRounds = options.maxRounds ?? DEFAULT_REPAIR_ROUNDS;
+  const policy = options.policy ?? DEFAULT_POLICY;
+  let current = structuredClone(workshop);
+  let validation = validateWorkshop(current, policy);
+  const rounds: RepairRound[] = [];
+
+  if (!needsRepair(validation) || maxRounds <= 0) {
+    return { workshop: current, validation, rounds };
+  }
+
+  const systemPrompt = await getSystemPrompt(policy);
+  const session = await createSession(getGlobalClient(), systemPrompt);
+
+  for (let round = 1; round <= maxRounds && needsRepair(validation); round++) {
+    const failingBefore = getFailures(validation, 'warning');
+    const report: RepairRound = {
+      round,
+      failingBefore,
+      failingAfter: failingBefore,
+      changedModules: [],
+      accepted: false,
+    };
+
+    const response = await sendAndWait(session, buildRepairPrompt(current, failingBefore));
+    const parsed = response
+      ? RepairResponseSchema.safeParse(safeJsonParse(extractJson(response.data.content)))
+      : undefined;
+
+    if (!parsed?.success) {
+      report.reason = response ? 'model response did not match the repair format' : 'no response from model';
+    } else {
+      const candidate = structuredClone(current);
+      for (const { index, module } of parsed.data.modules) {
+        if (index < candidate.modules.length) {
+          candidate.modules[index] = module;
+          report.changedModules.push(index);
+        }
+      }
+
+      const candidateValidation = validateWorkshop(candidate, policy);
+      const failingAfter = getFailures(candidateValidation, 'warning');
+
+      const before = countFailures(validation);
+      const after = countFailures(candidateValidation);
+      const improved = after.error < before.error
+        || (after.error === before.error && after.warning < before.warning);
+
+      if (report.changedModules.length === 0) {
+        report.reason = 'model returned no module changes';
+      } else if (!improved) {
+        report.reason = `changes did not reduce failing checks (errors ${before.error} → ${after.error}, warnings ${before.warning} → ${after.warning})`;
+      } else {
+        current = candidate;
+        validation = candidateValidation;
+        report.failingAfter = failingAfter;
+        report.accepted = true;
+      }
+    }
+
+    rounds.push(report);
+    options.onRound?.(report);
+
+    // Nothing changed — another round with the same input is unlikely to help
+    if (!report.accepted) {
+      break;
+    }
+  }
+
+  return { workshop: current, validation, rounds };
+}
+
+/**
+ * Whether a validation result has error or warning failures worth repairing.
+ */
+export function needsRepair(validation: ValidationResult): boolean {
+  return getFailures(validation, 'warning').length > 0;
+}
+
+/**
+ * Format a repair round as a one-line human-readable summary.
+ */
+export function formatRepairRound(round: RepairRound): string {
+  if (!round.accepted) {
+    return `Round ${round.round}: discarded (${round.reason ?? 'unknown reason'})`;
+  }
+  const modules = round.changedModules.map((i) => i + 1).join(', ');
+  const fixed = round.failingBefore.length - round.failingAfter.length;
+  return `Round ${round.round}: updated module(s) ${modules} — ${fixed} check(s) fixed, ${round.failingAfter.length} still failing`;
+}
+
+function safeJsonParse(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+}
@@ -22,18 +22,33 @@ export type LearningObjective = z.infer<typeof LearningObjectiveSchema>;
 export const LectureSectionSchema = z.object({
   type: z.literal('lecture'),
   title: z.string(),
-  duration: z.number().positive(), // minutes
+  duration: z.number().positive().describe('Duration in minutes'),
   talking_points: z.array(z.string()),
 });
 export type LectureSection = z.infer<typeof LectureSectionSchema>;
 
+// One file of a multi-file exercise, e.g. a route and its test
+export const ExerciseFileSchema = z.object({
+  path: z.string(), // relative to the exercise root, e.g. 'src/routes/users.ts'
+  language: z.string(), // code fence language, e.g. 'typescript'
+  starter: z.string(), // empty for files attendees create from scratch
+  solution: z.string(),
+});
+export type ExerciseFile = z.infer<typeof ExerciseFileSchema>;
+
 export const ExerciseSectionSchema = z.object({
   type: z.literal('exercise'),
   title: z.string(),
-  duration: z.number().positive(), // minutes
+  duration: z.number().positive().describe('Duration in minutes'),
   instructions: z.string(),
-  starter_code: z.string(),
-  solution: z.string(),
+  // Code fence language of starter_code/solution, e.g. 'python' (default: inferred from audience.stack)
+  language: z.string().optional(),
+  // Single-file exercises use starter_code/solution; multi-file ones use `files` instead
+  starter_code: z.string().default(''),
+  solution: z.string().default(''),
+  files: z.array(ExerciseFileSchema).optional(),
+  // Assertions for `workshop verify`: appended to the solution (multi-file: run next to the files); fails by exiting non-zero
+  test: z.string().optional(),
   hints: z.array(z.string()),
 });
 export type ExerciseSection = z.infer<typeof ExerciseSectionSchema>;
@@ -41,34 +56,125 @@ export type ExerciseSection = z.infer<typeof ExerciseSectionSchema>;
 export const DiscussionSectionSchema = z.object({
   type: z.literal('discussion'),
   title: z.string(),
-  duration: z.number().positive(), // minutes
+  duration: z.number().positive().describe('Duration in minutes'),
   prompts: z.array(z.string()),
 });
 export type DiscussionSection = z.infer<typeof DiscussionSectionSchema>;
 
+// Checkpoint questions — discriminated union on `type`; every kind carries its own answer
+export const MultipleChoiceQuestionSchema = z.object({
+  type: z.literal('multiple_choice'),
+  prompt: z.string(),
+  options: z.array(z.string()),
+  correct_index: z.number().int().nonnegative(), // 0-based index into options
+  explanation: z.string(),
+});
+export type MultipleChoiceQuestion = z.infer<typeof MultipleChoiceQuestionSchema>;
+
+export const TrueFalseQuestionSchema = z.object({
+  type: z.literal('true_false'),
+  prompt: z.string(),
+  answer: z.boolean(),
+  explanation: z.string(),
+});
+export type TrueFalseQuestion = z.infer<typeof TrueFalseQuestionSchema>;
+
+export const ShortAnswerQuestionSchema = z.object({
+  type: z.literal('short_answer'),
+  prompt: z.string(),
+  answer: z.string(), // model answer shown in the answer key
+  // Case-insensitive regular expressions a response must match to be graded correct (empty: not auto-gradable)
+  accepted_patterns: z.array(z.string()).default([]),
+  explanation: z.string(),
+});
+export type ShortAnswerQuestion = z.infer<typeof ShortAnswerQuestionSchema>;
+
+export const CodeOutputQuestionSchema = z.object({
+  type: z.literal('code_output'),
+  prompt: z.string(),
+  code: z.string(), // snippet whose output attendees predict
+  expected_output: z.string(), // compared after trimming whitespace
+  explanation: z.string(),
+});
+export type CodeOutputQuestion = z.infer<typeof CodeOutputQuestionSchema>;
+
+export const CheckpointQuestionSchema = z.discriminatedUnion('type', [
+  MultipleChoiceQuestionSchema,
+  TrueFalseQuestionSchema,
+  ShortAnswerQuestionSchema,
+  CodeOutputQuestionSchema,
+]);
+export type CheckpointQuestion = z.infer<typeof CheckpointQuestionSchema>;
+
 export const CheckpointSectionSchema = z.object({
   type: z.literal('checkpoint'),
   title: z.string(),
-  duration: z.number().positive(), // minutes
-  questions: z.array(z.string()),
-  expected_answers: z.array(z.string()),
-  explanations: z.array(z.string()),
+  duration: z.number().positive().describe('Duration in minutes'),
+  questions: z.array(CheckpointQuestionSchema),
 });
 export type CheckpointSection = z.infer<typeof CheckpointSectionSchema>;
 
+// Instructor live-coding, with a fallback if the live demo fails
+export const DemoSectionSchema = z.object({
+  type: z.literal('demo'),
+  title: z.string(),
+  duration: z.number().positive().describe('Duration in minutes'),
+  script: z.array(z.string()), // steps the instructor performs, in order
+  fallback_notes: z.string(), // what to show instead (e.g. a recording) if the demo breaks
+});
+export type DemoSection = z.infer<typeof DemoSectionSchema>;
+
+// Break — excluded from practice/lecture ratios and checkpoint-gap timing
+export const BreakSectionSchema = z.object({
+  type: z.literal('break'),
+  title: z.string(),
+  duration: z.number().positive().describe('Duration in minutes'),
+});
+export type BreakSection = z.infer<typeof BreakSectionSchema>;
+
+// One step of a capstone project, built on the previous ones
+export const ProjectMilestoneSchema = z.object({
+  title: z.string(),
+  instructions: z.string(),
+  starter_code: z.string(),
+  solution: z.string(),
+});
+export type ProjectMilestone = z.infer<typeof ProjectMilestoneSchema>;
+
+export const RubricCriterionSchema = z.object({
+  criterion: z.string(),
+  points: z.number().positive(),
+});
+export type RubricCriterion = z.infer<typeof RubricCriterionSchema>;
+
+// Group project — multi-milestone capstone graded against a rubric
+export const ProjectSectionSchema = z.object({
+  type: z.literal('project'),
+  title: z.string(),
+  duration: z.number().positive().describe('Duration in minutes'),
+  brief: z.string(), // what the group builds and why
+  language: z.string().optional(), // code fence language of the milestones (default: inferred from audience.stack)
+  milestones: z.array(ProjectMilestoneSchema).min(1),
+  rubric: z.array(RubricCriterionSchema),
+});
+export type ProjectSection = z.infer<typeof ProjectSectionSchema>;
+
 // Discriminated union of all section types
 export const SectionSchema = z.discriminatedUnion('type', [
   LectureSectionSchema,
   ExerciseSectionSchema,
   DiscussionSectionSchema,
   CheckpointSectionSchema,
+  DemoSectionSchema,
+  BreakSectionSchema,
+  ProjectSectionSchema,
 ]);
 export type Section = z.infer<typeof SectionSchema>;
 
 // Module — collection of sections with learning objectives
 export const ModuleSchema = z.object({
   title: z.string(),
-  duration: z.number().positive(), // minutes
+  duration: z.number().positive().describe('Duration in minutes'),
   learning_objectives: z.array(LearningObjectiveSchema),
   sections: z.array(SectionSchema),
 });
@@ -82,14 +188,29 @@ export const AudienceSchema = z.object({
 });
 export type Audience = z.infer<typeof AudienceSchema>;
 
+// Current workshop file format. Bump it together with a new entry in src/migrations.ts.
+export const CURRENT_SCHEMA_VERSION = 2;
+
 // Workshop — top-level data structure
 export const WorkshopSchema = z.object({
+  schema_version: z.number().int().positive().default(CURRENT_SCHEMA_VERSION)
+    .describe('Workshop file format version; older files are upgraded by `workshop migrate`'),
   title: z.string(),
   topic: z.string(),
   audience: AudienceSchema,
-  duration: z.number().positive(), // minutes
+  duration: z.number().positive().describe('Duration in minutes'),
   prerequisites: z.array(z.string()),
-  context_sources: z.array(z.string()), // paths to injected docs
+  context_sources: z.array(z.string()).describe('Paths to context documents used to ground generation'),
   modules: z.array(ModuleSchema),
 });
 export type Workshop = z.infer<typeof WorkshopSchema>;
+
+// Generation spec — inputs for headless `workshop create --spec <file>`
+export const WorkshopSpecSchema = z.object({
+  topic: z.string().min(1),
+  audience: AudienceSchema,
+  duration: z.number().positive().describe('Duration in minutes'),
+  context: z.array(z.string()).default([]), // paths to context documents
+  out: z.string().optional(), // output YAML path
+});
+export type WorkshopSpec = z.infer<typeof WorkshopSpecSchema>;
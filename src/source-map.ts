@@ -0,0 +1,156 @@
+/**
+ * YAML source positions — maps paths into a workshop document
+ * (e.g. ['modules', 1, 'sections', 3, 'duration']) back to line/column
+ * ranges in the original file text, and renders code frames for them.
+ */
+
+import { parseDocument, LineCounter, isAlias, isMap, isScalar, isSeq, type Document, type Node } from 'yaml';
+
+/**
+ * 1-based line/column position in a source file
+ */
+export interface SourcePosition {
+  line: number;
+  column: number;
+}
+
+export interface SourceRange {
+  start: SourcePosition;
+  end: SourcePosition;
+}
+
+export interface YamlSourceMap {
+  /**
+   * Range for a document path. Map entries span from the key to the end of the
+   * value. Paths that don't exist resolve to their deepest existing ancestor.
+   */
+  locate(path: readonly (string | number)[]): SourceRange;
+}
+
+/**
+ * A parsed YAML file together with its source map
+ */
+export interface YamlSource {
+  /** File path, used when formatting `file:line:col` locations */
+  path: string;
+  text: string;
+  /** Plain JavaScript value of the document */
+  data: unknown;
+  document: Document.Parsed;
+  map: YamlSourceMap;
+  /** Syntax errors with their positions (empty when the file parsed cleanly) */
+  errors: Array<{ message: string; range: SourceRange }>;
+}
+
+/**
+ * Parse YAML text, keeping positions for every node. Never throws —
+ * syntax errors are returned in `errors`.
+ */
+export function parseYamlSource(text: string, path: string): YamlSource {
+  const lineCounter = new LineCounter();
+  const document = parseDocument(text, { lineCounter, prettyErrors: false, merge: true });
+
+  const toPosition = (offset: number): SourcePosition => {
+    const { line, col } = lineCounter.linePos(offset);
+    return { line, column: col };
+  };
+
+  const map: YamlSourceMap = {
+    locate(docPath) {
+      let node: unknown = document.contents;
+      let [start, end] = rangeOf(node) ?? [0, 0];
+
+      for (const segment of docPath) {
+        if (isAlias(node)) {
+          node = node.resolve(document);
+        }
+
+        let next: unknown;
+        let nextRange: [number, number] | undefined;
+        if (isMap(node)) {
+          const pair = node.items.find((p) => isScalar(p.key) && String(p.key.value) === String(segment));
+          const keyRange = pair ? rangeOf(pair.key) : undefined;
+          if (pair && keyRange) {
+            next = pair.value;
+            nextRange = [keyRange[0], rangeOf(pair.value)?.[1] ?? keyRange[1]];
+          }
+        } else if (isSeq(node) && typeof segment === 'number') {
+          next = node.items[segment];
+          nextRange = rangeOf(next);
+        }
+
+        if (!nextRange) {
+          break;
+        }
+        node = next;
+        [start, end] = nextRange;
+      }
+
+      return { start: toPosition(start), end: toPosition(end) };
+    },
+  };
+
+  const errors = document.errors.map((error) => ({
+    message: error.message.split('\n')[0]!,
+    range: { start: toPosition(error.pos[0]), end: toPosition(error.pos[1]) },
+  }));
+
+  return {
+    path,
+    text,
+    data: errors.length === 0 ? document.toJS() : undefined,
+    document,
+    map,
+    errors,
+  };
+}
+
+/**
+ * Format a location as `file:line:col`.
+ */
+export function formatSourceLocation(path: string, range: SourceRange): string {
+  return `${path}:${range.start.line}:${range.start.column}`;
+}
+
+/**
+ * Render the source lines around a range with a line-number gutter and a
+ * caret underline, e.g.
+ *
+ * ```
+ *   11 |   - title: Getting Started
+ * > 12 |     duration: 35
+ *      |     ^^^^^^^^^^^^
+ *   13 |     learning_objectives:
+ * ```
+ *
+ * @param text - Full source text
+ * @param range - Range to highlight (only its first line is underlined)
+ * @param contextLines - Lines to show before and after (default: 2)
+ */
+export function formatCodeFrame(text: string, range: SourceRange, contextLines = 2): string {
+  const lines = text.split(/\r?\n/);
+  const target = Math.min(Math.max(range.start.line, 1), lines.length);
+  const first = Math.max(target - contextLines, 1);
+  const last = Math.min(target + contextLines, lines.length);
+  const gutterWidth = String(last).length;
+
+  const frame: string[] = [];
+  for (let lineNo = first; lineNo <= last; lineNo++) {
+    const line = lines[lineNo - 1] ?? '';
+    const marker = lineNo === target ? '>' : ' ';
+    frame.push(`${marker} ${String(lineNo).padStart(gutterWidth)} | ${line}`.trimEnd());
+
+    if (lineNo === target) {
+      const startCol = Math.max(range.start.column, 1);
+      const endCol = range.end.line === range.start.line ? range.end.column : line.length + 1;
+      const width = Math.max(endCol - startCol, 1);
+      frame.push(`  ${' '.repeat(gutterWidth)} | ${' '.repeat(startCol - 1)}${'^'.repeat(width)}`);
+    }
+  }
+  return frame.join('\n');
+}
+
+function rangeOf(node: unknown): [number, number] | undefined {
+  const range = (node as Node | null | undefined)?.range;
+  return range ? [range[0], range[1]] : undefined;
+}
@@ -1,11 +1,16 @@
 import { readFile, writeFile, access, mkdir } from 'node:fs/promises';
 import { constants } from 'node:fs';
 import { dirname } from 'node:path';
-import { dump, load } from 'js-yaml';
+import { dump } from 'js-yaml';
 import { Workshop, WorkshopSchema } from './schema.js';
+import { patchYaml } from './yaml-patch.js';
+import { migrateWorkshopData, type MigrationResult } from './migrations.js';
+import { parseYamlSource, formatCodeFrame, formatSourceLocation, type SourceRange, type YamlSource } from './source-map.js';
 
 /**
- * Save a workshop to a YAML file.
+ * Save a workshop to a YAML file. An existing file is patched in place —
+ * only changed nodes are rewritten, so comments, key order, scalar styles
+ * and anchors elsewhere are kept.
  * @param workshop - The workshop object to serialize
  * @param filePath - Destination file path
  * @throws Error if validation fails or file cannot be written
@@ -29,13 +34,8 @@ export async function saveWorkshop(
     throw new Error(`Cannot save workshop - validation failed: ${error instanceof Error ? error.message : String(error)}`, { cause: error });
   }
 
-  // Serialize to YAML with readable formatting
-  const yamlContent = dump(workshop, {
-    indent: 2,
-    lineWidth: 80,
-    noRefs: true,
-    sortKeys: false,
-  });
+  const existing = await readFile(filePath, 'utf-8').catch(() => undefined);
+  const yamlContent = serializeWorkshop(workshop, existing);
 
   try {
     await mkdir(dirname(filePath), { recursive: true });
@@ -46,12 +46,89 @@ export async function saveWorkshop(
 }
 
 /**
- * Load a workshop from a YAML file and validate it.
+ * Serialize a workshop to YAML. With the file's current text, only changed
+ * nodes are rewritten so comments and hand formatting survive; otherwise
+ * (or if patching isn't safe) the whole workshop is dumped.
+ * @param workshop - The workshop object to serialize
+ * @param existing - Current YAML text of the destination file, if any
+ */
+export function serializeWorkshop(workshop: Workshop, existing?: string): string {
+  return (existing !== undefined ? patchYaml(existing, workshop) : undefined) ?? dump(workshop, {
+    indent: 2,
+    lineWidth: 80,
+    noRefs: true,
+    sortKeys: false,
+  });
+}
+
+/**
+ * A problem found while loading a workshop file, with its source position
+ */
+export interface LoadIssue {
+  /** Path into the document, e.g. ['modules', 2, 'sections', 4, 'solution'] (empty for syntax errors) */
+  path: (string | number)[];
+  message: string;
+  range: SourceRange;
+}
+
+/**
+ * Thrown when a workshop file has YAML syntax errors or fails the schema.
+ * The message lists each issue as `file:line:col` with a code frame;
+ * `issues` keeps the positions for editors and machine-readable output.
+ */
+export class WorkshopLoadError extends Error {
+  readonly filePath: string;
+  readonly issues: LoadIssue[];
+
+  constructor(summary: string, source: YamlSource, issues: LoadIssue[], options?: ErrorOptions) {
+    const details = issues.map((issue) => {
+      const label = issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message;
+      const frame = formatCodeFrame(source.text, issue.range).replace(/^/gm, '    ');
+      return `  - ${label}\n    at ${formatSourceLocation(source.path, issue.range)}\n${frame}`;
+    });
+    super(`${summary}\n${details.join('\n')}`, options);
+    this.name = 'WorkshopLoadError';
+    this.filePath = source.path;
+    this.issues = issues;
+  }
+}
+
+/**
+ * A validated workshop with the YAML it was parsed from
+ */
+export interface LoadedWorkshop {
+  workshop: Workshop;
+  source: YamlSource;
+  /** Schema migrations applied in memory (`applied` is empty for current files) */
+  migration: MigrationResult;
+}
+
+/**
+ * Load a workshop from a YAML file and validate it. Files with an older
+ * `schema_version` are migrated in memory, with a warning on stderr.
  * @param filePath - Path to the YAML file
  * @returns Validated Workshop object
- * @throws Error with descriptive message if file not found, invalid YAML, or validation fails
+ * @throws WorkshopLoadError with file:line:col locations for syntax and schema errors
+ * @throws Error with descriptive message if the file is missing or unreadable
  */
 export async function loadWorkshop(filePath: string): Promise<Workshop> {
+  const { workshop } = await loadWorkshopSource(filePath);
+  return workshop;
+}
+
+/**
+ * Load a workshop along with its parsed YAML source, so callers can map
+ * validation findings back to `file:line:col`, and the schema migrations
+ * that were applied in memory.
+ * @param filePath - Path to the YAML file
+ * @param options - Set `warnOnMigration: false` to skip the stderr warning
+ * @throws WorkshopLoadError with file:line:col locations for syntax and schema errors
+ * @throws Error with descriptive message if the file is missing, unreadable, or from a newer schema
+ */
+export async function loadWorkshopSource(
+  filePath: string,
+  options: { warnOnMigration?: boolean } = {}
+): Promise<LoadedWorkshop> {
   // Check if file exists before attempting to read
   try {
     await access(filePath, constants.R_OK);
@@ -67,34 +144,66 @@ export async function loadWorkshop(filePath: string): Promise<Workshop> {
     throw new Error(`Failed to read file: ${filePath}. ${error instanceof Error ? error.message : String(error)}`, { cause: error });
   }
 
-  // Parse YAML
-  let rawData: unknown;
-  try {
-    rawData = load(fileContent);
-  } catch (error) {
-    throw new Error(`Invalid YAML in file: ${filePath}. ${error instanceof Error ? error.message : String(error)}`, { cause: error });
+  const result = parseWorkshopSource(fileContent, filePath);
+  const { migration } = result;
+  if (migration.applied.length > 0 && options.warnOnMigration !== false) {
+    console.warn(
+      `⚠ ${filePath} uses workshop schema v${migration.fromVersion}; migrated to v${migration.toVersion} in memory. Run "workshop migrate ${filePath}" to update the file.`
+    );
+  }
+  return result;
+}
+
+/**
+ * Parse, migrate and validate workshop YAML text without touching the file
+ * system (e.g. an unsaved editor buffer).
+ * @param text - YAML source text
+ * @param filePath - Path used in error messages and `file:line:col` locations
+ * @throws WorkshopLoadError with file:line:col locations for syntax and schema errors
+ * @throws Error if the document isn't a mapping or is from a newer schema
+ */
+export function parseWorkshopSource(
+  text: string,
+  filePath: string
+): LoadedWorkshop {
+  // Parse YAML, keeping node positions
+  const source = parseYamlSource(text, filePath);
+  if (source.errors.length > 0) {
+    throw new WorkshopLoadError(
+      `Invalid YAML in file: ${filePath}`,
+      source,
+      source.errors.map((error) => ({ path: [], message: error.message, range: error.range })),
+    );
   }
 
   // Validate that we got an object
-  if (!rawData || typeof rawData !== 'object') {
+  if (!source.data || typeof source.data !== 'object' || Array.isArray(source.data)) {
     throw new Error(`Invalid workshop file: ${filePath}. The file may be corrupted or not a valid workshop.`);
   }
 
-  // Validate and parse with Zod schema
+  // Upgrade older files to the current schema before validating
+  let migration: MigrationResult;
   try {
-    const workshop = WorkshopSchema.parse(rawData);
-    return workshop;
+    migration = migrateWorkshopData(source.data as Record<string, unknown>);
   } catch (error) {
-    if (error instanceof Error && 'issues' in error) {
-      // Zod validation error - format nicely
-      const zodError = error as { issues: Array<{ path: (string | number)[]; message: string }> };
-      const fieldErrors = zodError.issues
-        .map(issue => `  - ${issue.path.join('.')}: ${issue.message}`)
-        .join('\n');
-      throw new Error(`Workshop validation failed:\n${fieldErrors}`, { cause: error });
-    }
-    throw new Error(`Workshop validation failed: ${error instanceof Error ? error.message : String(error)}`, { cause: error });
+    throw new Error(`${filePath}: ${error instanceof Error ? error.message : String(error)}`, { cause: error });
+  }
+
+  // Validate and parse with Zod schema
+  const parsed = WorkshopSchema.safeParse(migration.data);
+  if (!parsed.success) {
+    throw new WorkshopLoadError(
+      'Workshop validation failed:',
+      source,
+      parsed.error.issues.map((issue) => ({
+        path: issue.path,
+        message: issue.message,
+        range: source.map.locate(issue.path),
+      })),
+      { cause: parsed.error },
+    );
   }
+  return { workshop: parsed.data, source, migration };
 }
 
 /**
@@ -17,7 +17,7 @@ const SaveWorkshopParamsSchema = z.object({
   filePath: z.string().describe('Path to save the workshop YAML file'),
 });
 
-type SaveWorkshopParams = z.infer<typeof SaveWorkshopParamsSchema>;
+type SaveWorkshopParams = z.input<typeof SaveWorkshopParamsSchema>;
 
 /**
  * Tool definition for saving a workshop to a YAML file.
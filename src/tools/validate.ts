@@ -9,7 +9,8 @@ import { z } from 'zod';
 import { registerTool } from '../client.js';
 import { WorkshopSchema } from '../schema.js';
 import { zodToSDKSchema } from './zodToSDKSchema.js';
-import { validateWorkshopAsync } from '../validation.js';
+import { validateWorkshopAsync, getFailures } from '../validation.js';
+import { loadPolicy } from '../policy.js';
 
 /**
  * Parameters for the validate_structure tool
@@ -18,7 +19,7 @@ const ValidateStructureParamsSchema = z.object({
   workshop: WorkshopSchema,
 });
 
-type ValidateStructureParams = z.infer<typeof ValidateStructureParamsSchema>;
+type ValidateStructureParams = z.input<typeof ValidateStructureParamsSchema>;
 
 /**
  * Tool definition for validating workshop structure and pedagogical rules.
@@ -38,14 +39,15 @@ export const validateStructureTool = registerTool<ValidateStructureParams>(
     }
     const { workshop } = parsed.data;
     try {
-      const result = await validateWorkshopAsync(workshop);
+      // Use the project's policy file so the model sees the same thresholds as `workshop validate`
+      const result = await validateWorkshopAsync(workshop, await loadPolicy());
       return {
         success: true,
         valid: result.valid,
         checks: result.checks,
         summary: result.valid
-          ? 'Workshop passed all validation checks'
-          : `Workshop failed ${result.checks.filter((c) => !c.passed).length} validation check(s)`,
+          ? `Workshop has no errors (${getFailures(result, 'warning').length} warning(s) to review)`
+          : `Workshop failed ${getFailures(result, 'error').length} error check(s)`,
       };
     } catch (error) {
       return {
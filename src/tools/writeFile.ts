@@ -6,7 +6,7 @@
 
 import { z } from 'zod';
 import { mkdir, writeFile, realpath } from 'node:fs/promises';
-import { resolve, dirname, normalize } from 'node:path';
+import { resolve, dirname, normalize, sep } from 'node:path';
 import { registerTool } from '../client.js';
 import { zodToSDKSchema } from './zodToSDKSchema.js';
 import type { Tool } from '@github/copilot-sdk';
@@ -19,7 +19,9 @@ const WriteFileParamsSchema = z.object({
 type WriteFileParams = z.infer<typeof WriteFileParamsSchema>;
 
 export interface WriteFileCallbacks {
-  onFileWritten: (path: string, bytes: number) => void;
+  onFileWritten: (path: string, bytes: number, content: string) => void;
+  /** Return a reason to refuse writing `path` (normalized, `/`-separated), or undefined to allow it */
+  beforeWrite?: (path: string) => Promise<string | undefined>;
 }
 
 /**
@@ -75,6 +77,11 @@ export function createWriteFileTool(
         return { success: false, error: 'Path resolves outside the output directory' };
       }
 
+      const refusal = await callbacks.beforeWrite?.(normalized.split(sep).join('/'));
+      if (refusal) {
+        return { success: false, error: refusal };
+      }
+
       try {
         await mkdir(dirname(fullPath), { recursive: true });
 
@@ -87,7 +94,7 @@ export function createWriteFileTool(
         await writeFile(fullPath, content, 'utf-8');
 
         const bytes = Buffer.byteLength(content, 'utf-8');
-        callbacks.onFileWritten(filePath, bytes);
+        callbacks.onFileWritten(filePath, bytes, content);
 
         return {
           success: true,
@@ -1,13 +1,15 @@
 /**
  * Wraps a Zod schema to satisfy the Copilot SDK's ZodSchema interface,
  * which requires a `toJSONSchema()` method and `_output` type brand.
+ * Typed by the schema's input — tool handlers receive the model's raw
+ * arguments and parse them (applying defaults) themselves.
  */
 
-import type { ZodType } from 'zod';
+import type { ZodType, ZodTypeDef } from 'zod';
 import { zodToJsonSchema } from 'zod-to-json-schema';
 import type { ZodSchema } from '@github/copilot-sdk';
 
-export function zodToSDKSchema<T>(zodSchema: ZodType<T>): ZodSchema<T> {
+export function zodToSDKSchema<T>(zodSchema: ZodType<unknown, ZodTypeDef, T>): ZodSchema<T> {
   return {
     _output: undefined as unknown as T,
     toJSONSchema() {
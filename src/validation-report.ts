@@ -0,0 +1,232 @@
+/**
+ * Machine-readable validation reports for `workshop validate --format`.
+ *
+ * - json:   full check list with severities, locations and line/column
+ * - sarif:  SARIF 2.1.0 for code-scanning uploads
+ * - junit:  one test case per rule for standard test dashboards
+ * - github: GitHub Actions workflow commands that annotate the YAML file
+ */
+
+import { SEVERITIES, VALIDATION_RULES, countFailures, formatLocationPath, getFailures } from './validation.js';
+import type { Severity, ValidationCheck, ValidationResult } from './validation.js';
+import type { SourceRange, YamlSourceMap } from './source-map.js';
+
+export const REPORT_FORMATS = ['text', 'json', 'sarif', 'junit', 'github'] as const;
+export type ReportFormat = typeof REPORT_FORMATS[number];
+
+export interface ReportOptions {
+  /** Workshop file path as it should appear in the report */
+  file: string;
+  /** Source map of the workshop file, for line/column positions */
+  sourceMap?: YamlSourceMap;
+  /** Treat warnings as failures (mirrors `--strict`) */
+  strict?: boolean;
+  /** Name of the pedagogy policy the workshop was validated against */
+  policyName?: string;
+}
+
+const TOOL_NAME = 'workshop-factory';
+const TOOL_URI = 'https://github.com/digitarald/workshop-factory';
+
+/**
+ * Whether a validation result fails the run: any error, or any warning in strict mode.
+ */
+export function failsValidation(result: ValidationResult, strict = false): boolean {
+  return getFailures(result, strict ? 'warning' : 'error').length > 0;
+}
+
+/**
+ * Render a validation result in a machine-readable format.
+ *
+ * @param result - Validation result to report
+ * @param format - Output format (not 'text', which the CLI prints itself)
+ * @param options - File path, source map and strictness
+ * @returns Report contents, ready to write to stdout
+ */
+export function formatValidationReport(
+  result: ValidationResult,
+  format: Exclude<ReportFormat, 'text'>,
+  options: ReportOptions,
+): string {
+  switch (format) {
+    case 'json':
+      return formatJson(result, options);
+    case 'sarif':
+      return formatSarif(result, options);
+    case 'junit':
+      return formatJunit(result, options);
+    case 'github':
+      return formatGithub(result, options);
+  }
+}
+
+function locate(check: ValidationCheck, options: ReportOptions): SourceRange | undefined {
+  return options.sourceMap?.locate(check.location?.path ?? []);
+}
+
+function formatJson(result: ValidationResult, options: ReportOptions): string {
+  const checks = result.checks.map((check) => {
+    const range = locate(check, options);
+    return {
+      ...check,
+      ...(check.location ? { path: formatLocationPath(check.location) } : {}),
+      ...(range ? { line: range.start.line, column: range.start.column } : {}),
+    };
+  });
+
+  return JSON.stringify({
+    file: options.file,
+    ...(options.policyName ? { policy: options.policyName } : {}),
+    valid: result.valid,
+    passed: !failsValidation(result, options.strict),
+    failures: countFailures(result),
+    checks,
+  }, null, 2);
+}
+
+const SARIF_LEVELS: Record<Severity, 'error' | 'warning' | 'note'> = {
+  error: 'error',
+  warning: 'warning',
+  info: 'note',
+};
+
+function formatSarif(result: ValidationResult, options: ReportOptions): string {
+  const ruleIds = Object.keys(VALIDATION_RULES) as (keyof typeof VALIDATION_RULES)[];
+  const rules = ruleIds.map((id) => ({
+    id,
+    name: VALIDATION_RULES[id].rule,
+    shortDescription: { text: VALIDATION_RULES[id].description },
+    defaultConfiguration: { level: SARIF_LEVELS[VALIDATION_RULES[id].severity] },
+  }));
+
+  const results = getFailures(result).map((check) => {
+    const range = locate(check, options);
+    return {
+      ruleId: check.id,
+      ruleIndex: ruleIds.indexOf(check.id as keyof typeof VALIDATION_RULES),
+      level: SARIF_LEVELS[check.severity],
+      message: { text: check.message },
+      locations: [{
+        physicalLocation: {
+          artifactLocation: { uri: toUri(options.file) },
+          ...(range
+            ? {
+              region: {
+                startLine: range.start.line,
+                startColumn: range.start.column,
+                endLine: range.end.line,
+                endColumn: range.end.column,
+              },
+            }
+            : {}),
+        },
+        ...(check.location
+          ? { logicalLocations: [{ fullyQualifiedName: formatLocationPath(check.location) }] }
+          : {}),
+      }],
+    };
+  });
+
+  return JSON.stringify({
+    $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+    version: '2.1.0',
+    runs: [{
+      tool: { driver: { name: TOOL_NAME, informationUri: TOOL_URI, rules } },
+      results,
+    }],
+  }, null, 2);
+}
+
+function formatJunit(result: ValidationResult, options: ReportOptions): string {
+  const failOn: Severity = options.strict ? 'warning' : 'error';
+  const byRule = new Map<string, ValidationCheck[]>();
+  for (const check of result.checks) {
+    byRule.set(check.id, [...(byRule.get(check.id) ?? []), check]);
+  }
+
+  let failureCount = 0;
+  const testcases = [...byRule].map(([id, checks]) => {
+    const rule = checks[0]!.rule;
+    const failing = checks.filter((c) => !c.passed);
+    const blocking = failing.filter((c) => SEVERITIES.indexOf(c.severity) <= SEVERITIES.indexOf(failOn));
+    const describe = (c: ValidationCheck) => {
+      const range = locate(c, options);
+      const where = range ? `${options.file}:${range.start.line}:${range.start.column}` : options.file;
+      return `[${c.severity}] ${where}: ${c.message}`;
+    };
+
+    const open = `    <testcase classname="${escapeXml(options.file)}" name="${escapeXml(`${id} ${rule}`)}"`;
+    if (failing.length === 0) {
+      return `${open} />`;
+    }
+
+    const lines = [`${open}>`];
+    if (blocking.length > 0) {
+      failureCount++;
+      lines.push(`      <failure message="${escapeXml(`${blocking.length} ${rule} check(s) failed`)}" type="${blocking[0]!.severity}">${escapeXml(blocking.map(describe).join('\n'))}</failure>`);
+    }
+    const advisory = failing.filter((c) => !blocking.includes(c));
+    if (advisory.length > 0) {
+      lines.push(`      <system-out>${escapeXml(advisory.map(describe).join('\n'))}</system-out>`);
+    }
+    lines.push('    </testcase>');
+    return lines.join('\n');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="${TOOL_NAME}" tests="${byRule.size}" failures="${failureCount}">`,
+    `  <testsuite name="${escapeXml(options.file)}" tests="${byRule.size}" failures="${failureCount}" errors="0">`,
+    ...testcases,
+    '  </testsuite>',
+    '</testsuites>',
+  ].join('\n');
+}
+
+const GITHUB_COMMANDS: Record<Severity, 'error' | 'warning' | 'notice'> = {
+  error: 'error',
+  warning: 'warning',
+  info: 'notice',
+};
+
+function formatGithub(result: ValidationResult, options: ReportOptions): string {
+  return getFailures(result)
+    .map((check) => {
+      const range = locate(check, options);
+      const properties = [
+        `file=${escapeGithubProperty(options.file)}`,
+        ...(range
+          ? [
+            `line=${range.start.line}`,
+            `col=${range.start.column}`,
+            `endLine=${range.end.line}`,
+            `endColumn=${range.end.column}`,
+          ]
+          : []),
+        `title=${escapeGithubProperty(`${check.id} ${check.rule}`)}`,
+      ];
+      return `::${GITHUB_COMMANDS[check.severity]} ${properties.join(',')}::${escapeGithubData(check.message)}`;
+    })
+    .join('\n');
+}
+
+function toUri(file: string): string {
+  return file.split(/[\\/]/).map(encodeURIComponent).join('/');
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function escapeGithubData(text: string): string {
+  return text.replace(/%/g, '%25').replace(/\r/g, '%0D').replace(/\n/g, '%0A');
+}
+
+function escapeGithubProperty(text: string): string {
+  return escapeGithubData(text).replace(/:/g, '%3A').replace(/,/g, '%2C');
+}
@@ -7,25 +7,201 @@
 
 import { access } from 'node:fs/promises';
 import { constants } from 'node:fs';
-import type { Workshop, BloomsLevel } from './schema.js';
+import type { Workshop, BloomsLevel, CheckpointQuestion, ExerciseFile } from './schema.js';
+import { DEFAULT_POLICY, type Policy } from './policy.js';
+import { isLanguageCompatible } from './languages.js';
+
+/**
+ * How much a failing check matters. Only errors make a workshop invalid;
+ * warnings fail `workshop validate --strict`; info is advisory.
+ */
+export type Severity = 'error' | 'warning' | 'info';
+
+/** Severities from most to least serious */
+export const SEVERITIES: readonly Severity[] = ['error', 'warning', 'info'];
+
+/**
+ * Where a check applies. Indices are 0-based; `path` points into the workshop
+ * YAML document (e.g. ['modules', 1, 'sections', 3, 'duration']).
+ */
+export interface ValidationLocation {
+  moduleIndex?: number;
+  sectionIndex?: number;
+  objectiveIndex?: number;
+  path: (string | number)[];
+}
 
 /**
  * Single validation check result
  */
 export interface ValidationCheck {
+  /** Stable rule ID, e.g. WF001 */
+  id: string;
   rule: string;
+  severity: Severity;
   passed: boolean;
   message: string;
+  location?: ValidationLocation;
 }
 
 /**
  * Overall validation result
  */
 export interface ValidationResult {
+  /** True when no error-severity check failed */
   valid: boolean;
   checks: ValidationCheck[];
 }
 
+/**
+ * Rule metadata, keyed by stable rule ID. IDs are never reused or renumbered.
+ */
+export const VALIDATION_RULES = {
+  WF001: { rule: 'duration_sum', severity: 'error', description: 'Section durations sum to the module duration' },
+  WF002: { rule: 'total_duration', severity: 'error', description: 'Module durations sum to the workshop duration' },
+  WF003: { rule: 'exercise_completeness', severity: 'error', description: 'Every exercise and project milestone has starter code and a solution (for multi-file exercises, a solution per file)' },
+  WF004: { rule: 'checkpoint_spacing', severity: 'warning', description: 'Checkpoints are spaced within the allowed gap' },
+  WF005: { rule: 'practice_ratio', severity: 'warning', description: 'Enough time is spent on exercises, discussions and projects' },
+  WF006: { rule: 'lecture_ratio', severity: 'warning', description: 'Lecture and demo time stays under the allowed share' },
+  WF007: { rule: 'checkpoint_ratio', severity: 'warning', description: 'Enough time is spent on checkpoints' },
+  WF008: { rule: 'max_lecture_duration', severity: 'warning', description: 'No single lecture runs too long' },
+  WF009: { rule: 'min_section_duration', severity: 'warning', description: 'No section is too short to be useful' },
+  WF010: { rule: 'blooms_alignment', severity: 'warning', description: "Objective Bloom's levels suit the audience level" },
+  WF011: { rule: 'blooms_alignment', severity: 'info', description: "Objectives start with a verb typical of their Bloom's level" },
+  WF012: { rule: 'context_sources', severity: 'warning', description: 'Context source files exist on disk' },
+  WF013: { rule: 'checkpoint_answers', severity: 'error', description: 'Every checkpoint question has a prompt and a complete, consistent answer' },
+  WF014: { rule: 'language_stack_match', severity: 'warning', description: "Declared code languages match the audience's stack" },
+  // Executable checks, reported by `workshop verify` (src/verify.ts) rather than validateWorkshop()
+  WF015: { rule: 'starter_runs', severity: 'warning', description: 'Exercise and milestone starter code runs without errors' },
+  WF016: { rule: 'solution_runs', severity: 'error', description: 'Exercise and milestone solutions run without errors and pass their tests' },
+  WF017: { rule: 'verification_coverage', severity: 'info', description: 'Exercise code can be run locally (a runner and its packages are installed)' },
+} as const satisfies Record<string, { rule: string; severity: Severity; description: string }>;
+
+export type RuleId = keyof typeof VALIDATION_RULES;
+
+/**
+ * Build a check from its rule ID; rule name and severity come from VALIDATION_RULES.
+ */
+function check(id: RuleId, passed: boolean, message: string, location?: ValidationLocation): ValidationCheck {
+  const { rule, severity } = VALIDATION_RULES[id];
+  return location ? { id, rule, severity, passed, message, location } : { id, rule, severity, passed, message };
+}
+
+/**
+ * Failing checks at or above the given severity (default: all failing checks).
+ */
+export function getFailures(result: ValidationResult, minSeverity: Severity = 'info'): ValidationCheck[] {
+  const threshold = SEVERITIES.indexOf(minSeverity);
+  return result.checks.filter((c) => !c.passed && SEVERITIES.indexOf(c.severity) <= threshold);
+}
+
+/**
+ * Count failing checks by severity.
+ */
+export function countFailures(result: ValidationResult): Record<Severity, number> {
+  const counts: Record<Severity, number> = { error: 0, warning: 0, info: 0 };
+  for (const c of getFailures(result)) {
+    counts[c.severity]++;
+  }
+  return counts;
+}
+
+/**
+ * Format a location's YAML path, e.g. `modules[1].sections[3].duration`.
+ */
+export function formatLocationPath(location: ValidationLocation): string {
+  return location.path
+    .map((part, idx) => (typeof part === 'number' ? `[${part}]` : idx === 0 ? part : `.${part}`))
+    .join('');
+}
+
+/**
+ * The first missing piece of code in an exercise or project milestone, with
+ * the path of the offending field relative to the task.
+ */
+function findExerciseCodeIssue(
+  task: { starter_code: string; solution: string; files?: ExerciseFile[] },
+): { message: string; path: (string | number)[] } | undefined {
+  if (!task.files || task.files.length === 0) {
+    if (!task.starter_code.trim()) return { message: 'missing starter_code', path: ['starter_code'] };
+    if (!task.solution.trim()) return { message: 'missing solution', path: ['solution'] };
+    return undefined;
+  }
+
+  const seen = new Set<string>();
+  for (const [fileIdx, file] of task.files.entries()) {
+    if (!file.path.trim()) {
+      return { message: `file ${fileIdx + 1} is missing a path`, path: ['files', fileIdx, 'path'] };
+    }
+    if (seen.has(file.path)) {
+      return { message: `file ${file.path} is listed more than once`, path: ['files', fileIdx, 'path'] };
+    }
+    seen.add(file.path);
+    if (!file.solution.trim()) {
+      return { message: `missing solution for ${file.path}`, path: ['files', fileIdx, 'solution'] };
+    }
+  }
+  if (!task.files.some((file) => file.starter.trim())) {
+    return { message: 'no file has starter code', path: ['files'] };
+  }
+  return undefined;
+}
+
+/**
+ * Missing or inconsistent answer data for one checkpoint question, with the
+ * path of the offending field relative to the question.
+ */
+function findAnswerIssues(question: CheckpointQuestion): Array<{ message: string; path: (string | number)[] }> {
+  const issues: Array<{ message: string; path: (string | number)[] }> = [];
+  if (!question.prompt.trim()) {
+    issues.push({ message: 'missing prompt', path: ['prompt'] });
+  }
+
+  switch (question.type) {
+    case 'multiple_choice':
+      if (question.options.length < 2) {
+        issues.push({ message: `needs at least 2 options (has ${question.options.length})`, path: ['options'] });
+      } else if (question.correct_index >= question.options.length) {
+        issues.push({
+          message: `correct_index ${question.correct_index} is out of range for ${question.options.length} options`,
+          path: ['correct_index'],
+        });
+      }
+      break;
+
+    case 'short_answer': {
+      if (!question.answer.trim() && question.accepted_patterns.length === 0) {
+        issues.push({ message: 'missing answer', path: ['answer'] });
+      }
+      const patterns: RegExp[] = [];
+      for (const [patternIdx, pattern] of question.accepted_patterns.entries()) {
+        try {
+          patterns.push(new RegExp(pattern, 'i'));
+        } catch {
+          issues.push({ message: `accepted pattern /${pattern}/ is not a valid regular expression`, path: ['accepted_patterns', patternIdx] });
+        }
+      }
+      if (question.answer.trim() && patterns.length > 0 && !patterns.some((re) => re.test(question.answer))) {
+        issues.push({ message: 'model answer matches none of the accepted patterns', path: ['accepted_patterns'] });
+      }
+      break;
+    }
+
+    case 'code_output':
+      if (!question.code.trim()) {
+        issues.push({ message: 'missing code', path: ['code'] });
+      }
+      if (!question.expected_output.trim()) {
+        issues.push({ message: 'missing expected_output', path: ['expected_output'] });
+      }
+      break;
+
+    case 'true_false':
+      break;
+  }
+  return issues;
+}
+
 /**
  * Bloom's taxonomy action verbs for each cognitive level
  */
@@ -50,131 +226,146 @@ const LEVEL_BLOOMS_MAP: Record<'beginner' | 'intermediate' | 'advanced', BloomsL
 /**
  * Validate workshop structure and pedagogical rules.
  * Returns detailed validation results with all checks.
+ *
+ * @param workshop - Workshop to validate
+ * @param policy - Pedagogy thresholds (default: hands-on-lab preset)
  */
-export function validateWorkshop(workshop: Workshop): ValidationResult {
+export function validateWorkshop(workshop: Workshop, policy: Policy = DEFAULT_POLICY): ValidationResult {
   const checks: ValidationCheck[] = [];
 
-  // 1. Duration sum: section durations in each module sum to module duration (±2min tolerance)
+  // 1. Duration sum: section durations in each module sum to module duration (within tolerance)
   for (const [moduleIdx, module] of workshop.modules.entries()) {
     const sectionSum = module.sections.reduce((sum, section) => sum + section.duration, 0);
     const diff = Math.abs(sectionSum - module.duration);
-    const passed = diff <= 2;
-    checks.push({
-      rule: 'duration_sum',
+    const passed = diff <= policy.module_duration_tolerance;
+    checks.push(check(
+      'WF001',
       passed,
-      message: passed
+      passed
         ? `Module ${moduleIdx + 1} sections sum to ${sectionSum}min (module: ${module.duration}min)`
-        : `Module ${moduleIdx + 1} sections sum to ${sectionSum}min but module duration is ${module.duration}min (diff: ${diff}min, tolerance: ±2min)`,
-    });
+        : `Module ${moduleIdx + 1} sections sum to ${sectionSum}min but module duration is ${module.duration}min (diff: ${diff}min, tolerance: ±${policy.module_duration_tolerance}min)`,
+      { moduleIndex: moduleIdx, path: ['modules', moduleIdx, 'duration'] },
+    ));
   }
 
-  // 2. Total duration: module durations sum to workshop duration (±5min tolerance)
+  // 2. Total duration: module durations sum to workshop duration (within tolerance)
   const moduleSum = workshop.modules.reduce((sum, module) => sum + module.duration, 0);
   const totalDiff = Math.abs(moduleSum - workshop.duration);
-  const totalPassed = totalDiff <= 5;
-  checks.push({
-    rule: 'total_duration',
-    passed: totalPassed,
-    message: totalPassed
+  const totalPassed = totalDiff <= policy.workshop_duration_tolerance;
+  checks.push(check(
+    'WF002',
+    totalPassed,
+    totalPassed
       ? `Module durations sum to ${moduleSum}min (workshop: ${workshop.duration}min)`
-      : `Module durations sum to ${moduleSum}min but workshop duration is ${workshop.duration}min (diff: ${totalDiff}min, tolerance: ±5min)`,
-  });
+      : `Module durations sum to ${moduleSum}min but workshop duration is ${workshop.duration}min (diff: ${totalDiff}min, tolerance: ±${policy.workshop_duration_tolerance}min)`,
+    { path: ['duration'] },
+  ));
 
-  // 3. Exercise completeness: every exercise section has starter_code AND solution (non-empty)
+  // 3. Exercise completeness: every exercise section and project milestone has starter_code AND solution (non-empty).
+  //    Multi-file exercises need a solution for every file and starter code in at least one.
   let exerciseCount = 0;
   let incompleteExercises = 0;
   for (const [moduleIdx, module] of workshop.modules.entries()) {
     for (const [sectionIdx, section] of module.sections.entries()) {
-      if (section.type === 'exercise') {
+      const sectionPath = ['modules', moduleIdx, 'sections', sectionIdx];
+      const tasks = section.type === 'exercise'
+        ? [{ label: section.title, issue: findExerciseCodeIssue(section), path: sectionPath }]
+        : section.type === 'project'
+          ? section.milestones.map((milestone, milestoneIdx) => ({
+            label: `${section.title}, milestone ${milestoneIdx + 1}`,
+            issue: findExerciseCodeIssue(milestone),
+            path: [...sectionPath, 'milestones', milestoneIdx],
+          }))
+          : [];
+      for (const task of tasks) {
         exerciseCount++;
-        const hasStarter = section.starter_code.trim().length > 0;
-        const hasSolution = section.solution.trim().length > 0;
-        if (!hasStarter || !hasSolution) {
+        if (task.issue) {
           incompleteExercises++;
-          checks.push({
-            rule: 'exercise_completeness',
-            passed: false,
-            message: `Module ${moduleIdx + 1}, Section ${sectionIdx + 1} (${section.title}): missing ${!hasStarter ? 'starter_code' : 'solution'}`,
-          });
+          checks.push(check(
+            'WF003',
+            false,
+            `Module ${moduleIdx + 1}, Section ${sectionIdx + 1} (${task.label}): ${task.issue.message}`,
+            { moduleIndex: moduleIdx, sectionIndex: sectionIdx, path: [...task.path, ...task.issue.path] },
+          ));
         }
       }
     }
   }
   if (exerciseCount > 0 && incompleteExercises === 0) {
-    checks.push({
-      rule: 'exercise_completeness',
-      passed: true,
-      message: `All ${exerciseCount} exercises have starter_code and solution`,
-    });
+    checks.push(check('WF003', true, `All ${exerciseCount} exercises have starter_code and solution`));
   } else if (exerciseCount === 0) {
-    checks.push({
-      rule: 'exercise_completeness',
-      passed: false,
-      message: 'No exercises found in workshop',
-    });
+    checks.push(check('WF003', false, 'No exercises found in workshop', { path: ['modules'] }));
   }
 
-  // 4. Checkpoint spacing: no more than 25 minutes of content without a checkpoint
+  // 4. Checkpoint spacing: no more than checkpoint_gap_max minutes of content without a checkpoint
   for (const [moduleIdx, module] of workshop.modules.entries()) {
     let timeSinceCheckpoint = 0;
     let maxGap = 0;
     for (const section of module.sections) {
       if (section.type === 'checkpoint') {
         timeSinceCheckpoint = 0;
-      } else {
+      } else if (section.type !== 'break') {
         timeSinceCheckpoint += section.duration;
         maxGap = Math.max(maxGap, timeSinceCheckpoint);
       }
     }
-    const passed = maxGap <= 25;
-    checks.push({
-      rule: 'checkpoint_spacing',
+    const passed = maxGap <= policy.checkpoint_gap_max;
+    checks.push(check(
+      'WF004',
       passed,
-      message: passed
-        ? `Module ${moduleIdx + 1} has checkpoints every ≤25min (max gap: ${maxGap}min)`
-        : `Module ${moduleIdx + 1} has a ${maxGap}min gap without checkpoints (max allowed: 25min)`,
-    });
+      passed
+        ? `Module ${moduleIdx + 1} has checkpoints every ≤${policy.checkpoint_gap_max}min (max gap: ${maxGap}min)`
+        : `Module ${moduleIdx + 1} has a ${maxGap}min gap without checkpoints (max allowed: ${policy.checkpoint_gap_max}min)`,
+      { moduleIndex: moduleIdx, path: ['modules', moduleIdx, 'sections'] },
+    ));
   }
 
-  // 5. Practice ratio: exercises + discussions ≥ 60% of total duration
+  // Ratios are shares of teaching time: breaks count toward durations but not toward any ratio
+  const breakTime = workshop.modules
+    .flatMap((module) => module.sections)
+    .filter((section) => section.type === 'break')
+    .reduce((sum, section) => sum + section.duration, 0);
+  const teachingTime = Math.max(workshop.duration - breakTime, 1);
+
+  // 5. Practice ratio: exercises + discussions + projects ≥ practice_ratio_min of teaching time
   let practiceTime = 0;
   for (const module of workshop.modules) {
     for (const section of module.sections) {
-      if (section.type === 'exercise' || section.type === 'discussion') {
+      if (section.type === 'exercise' || section.type === 'discussion' || section.type === 'project') {
         practiceTime += section.duration;
       }
     }
   }
-  const practiceRatio = (practiceTime / workshop.duration) * 100;
-  const practicePass = practiceRatio >= 60;
-  checks.push({
-    rule: 'practice_ratio',
-    passed: practicePass,
-    message: practicePass
-      ? `Practice time is ${practiceRatio.toFixed(1)}% of total (${practiceTime}/${workshop.duration}min)`
-      : `Practice time is ${practiceRatio.toFixed(1)}% of total (${practiceTime}/${workshop.duration}min), needs ≥60%`,
-  });
-
-  // 6. Lecture ratio: lectures ≤ 25% of total duration
+  const practiceRatio = (practiceTime / teachingTime) * 100;
+  const practicePass = practiceRatio >= policy.practice_ratio_min;
+  checks.push(check(
+    'WF005',
+    practicePass,
+    practicePass
+      ? `Practice time is ${practiceRatio.toFixed(1)}% of teaching time (${practiceTime}/${teachingTime}min)`
+      : `Practice time is ${practiceRatio.toFixed(1)}% of teaching time (${practiceTime}/${teachingTime}min), needs ≥${policy.practice_ratio_min}%`,
+  ));
+
+  // 6. Lecture ratio: lectures + demos (instructor-led) ≤ lecture_ratio_max of teaching time
   let lectureTime = 0;
   for (const module of workshop.modules) {
     for (const section of module.sections) {
-      if (section.type === 'lecture') {
+      if (section.type === 'lecture' || section.type === 'demo') {
         lectureTime += section.duration;
       }
     }
   }
-  const lectureRatio = (lectureTime / workshop.duration) * 100;
-  const lecturePass = lectureRatio <= 25;
-  checks.push({
-    rule: 'lecture_ratio',
-    passed: lecturePass,
-    message: lecturePass
-      ? `Lecture time is ${lectureRatio.toFixed(1)}% of total (${lectureTime}/${workshop.duration}min)`
-      : `Lecture time is ${lectureRatio.toFixed(1)}% of total (${lectureTime}/${workshop.duration}min), should be ≤25%`,
-  });
-
-  // 7. Checkpoint ratio: checkpoints ≥ 15% of total duration
+  const lectureRatio = (lectureTime / teachingTime) * 100;
+  const lecturePass = lectureRatio <= policy.lecture_ratio_max;
+  checks.push(check(
+    'WF006',
+    lecturePass,
+    lecturePass
+      ? `Lecture and demo time is ${lectureRatio.toFixed(1)}% of teaching time (${lectureTime}/${teachingTime}min)`
+      : `Lecture and demo time is ${lectureRatio.toFixed(1)}% of teaching time (${lectureTime}/${teachingTime}min), should be ≤${policy.lecture_ratio_max}%`,
+  ));
+
+  // 7. Checkpoint ratio: checkpoints ≥ checkpoint_ratio_min of teaching time
   let checkpointTime = 0;
   for (const module of workshop.modules) {
     for (const section of module.sections) {
@@ -183,104 +374,169 @@ export function validateWorkshop(workshop: Workshop): ValidationResult {
       }
     }
   }
-  const checkpointRatio = (checkpointTime / workshop.duration) * 100;
-  const checkpointPass = checkpointRatio >= 15;
-  checks.push({
-    rule: 'checkpoint_ratio',
-    passed: checkpointPass,
-    message: checkpointPass
-      ? `Checkpoint time is ${checkpointRatio.toFixed(1)}% of total (${checkpointTime}/${workshop.duration}min)`
-      : `Checkpoint time is ${checkpointRatio.toFixed(1)}% of total (${checkpointTime}/${workshop.duration}min), needs ≥15%`,
-  });
-
-  // 8. Max lecture section duration: no single lecture section should exceed 15 minutes
+  const checkpointRatio = (checkpointTime / teachingTime) * 100;
+  const checkpointPass = checkpointRatio >= policy.checkpoint_ratio_min;
+  checks.push(check(
+    'WF007',
+    checkpointPass,
+    checkpointPass
+      ? `Checkpoint time is ${checkpointRatio.toFixed(1)}% of teaching time (${checkpointTime}/${teachingTime}min)`
+      : `Checkpoint time is ${checkpointRatio.toFixed(1)}% of teaching time (${checkpointTime}/${teachingTime}min), needs ≥${policy.checkpoint_ratio_min}%`,
+  ));
+
+  // 8. Max lecture section duration: no single lecture section should exceed lecture_max_duration
   for (const [moduleIdx, module] of workshop.modules.entries()) {
     for (const [sectionIdx, section] of module.sections.entries()) {
-      if (section.type === 'lecture' && section.duration > 15) {
-        checks.push({
-          rule: 'max_lecture_duration',
-          passed: false,
-          message: `Module ${moduleIdx + 1}, Section ${sectionIdx + 1} "${section.title}": lecture is ${section.duration}min, should be ≤15min`,
-        });
+      if (section.type === 'lecture' && section.duration > policy.lecture_max_duration) {
+        checks.push(check(
+          'WF008',
+          false,
+          `Module ${moduleIdx + 1}, Section ${sectionIdx + 1} "${section.title}": lecture is ${section.duration}min, should be ≤${policy.lecture_max_duration}min`,
+          { moduleIndex: moduleIdx, sectionIndex: sectionIdx, path: ['modules', moduleIdx, 'sections', sectionIdx, 'duration'] },
+        ));
       }
     }
   }
-  if (!checks.some(c => c.rule === 'max_lecture_duration')) {
-    checks.push({
-      rule: 'max_lecture_duration',
-      passed: true,
-      message: 'All lecture sections are ≤15 minutes',
-    });
+  if (!checks.some(c => c.id === 'WF008')) {
+    checks.push(check('WF008', true, `All lecture sections are ≤${policy.lecture_max_duration} minutes`));
   }
 
-  // 9. Min section duration: every section should be at least 5 minutes
+  // 9. Min section duration: every section except breaks should be at least section_min_duration
   for (const [moduleIdx, module] of workshop.modules.entries()) {
     for (const [sectionIdx, section] of module.sections.entries()) {
-      if (section.duration < 5) {
-        checks.push({
-          rule: 'min_section_duration',
-          passed: false,
-          message: `Module ${moduleIdx + 1}, Section ${sectionIdx + 1} "${section.title}": duration is ${section.duration}min, should be ≥5min`,
-        });
+      if (section.type !== 'break' && section.duration < policy.section_min_duration) {
+        checks.push(check(
+          'WF009',
+          false,
+          `Module ${moduleIdx + 1}, Section ${sectionIdx + 1} "${section.title}": duration is ${section.duration}min, should be ≥${policy.section_min_duration}min`,
+          { moduleIndex: moduleIdx, sectionIndex: sectionIdx, path: ['modules', moduleIdx, 'sections', sectionIdx, 'duration'] },
+        ));
       }
     }
   }
-  if (!checks.some(c => c.rule === 'min_section_duration')) {
-    checks.push({
-      rule: 'min_section_duration',
-      passed: true,
-      message: 'All sections are ≥5 minutes',
-    });
+  if (!checks.some(c => c.id === 'WF009')) {
+    checks.push(check('WF009', true, `All sections are ≥${policy.section_min_duration} minutes`));
   }
 
   // 10. Bloom's alignment: learning objectives use appropriate verbs for the audience level
   const expectedLevels = LEVEL_BLOOMS_MAP[workshop.audience.level];
-  let bloomsIssues = 0;
+  let levelIssues = 0;
+  let verbIssues = 0;
   for (const [moduleIdx, module] of workshop.modules.entries()) {
     for (const [objIdx, objective] of module.learning_objectives.entries()) {
       // Check if the Bloom's level is appropriate for audience level
       if (!expectedLevels.includes(objective.blooms_level)) {
-        bloomsIssues++;
-        checks.push({
-          rule: 'blooms_alignment',
-          passed: false,
-          message: `Module ${moduleIdx + 1}, Objective ${objIdx + 1}: "${objective.text}" uses "${objective.blooms_level}" level, but ${workshop.audience.level}-level workshops should focus on: ${expectedLevels.join(', ')}`,
-        });
+        levelIssues++;
+        checks.push(check(
+          'WF010',
+          false,
+          `Module ${moduleIdx + 1}, Objective ${objIdx + 1}: "${objective.text}" uses "${objective.blooms_level}" level, but ${workshop.audience.level}-level workshops should focus on: ${expectedLevels.join(', ')}`,
+          { moduleIndex: moduleIdx, objectiveIndex: objIdx, path: ['modules', moduleIdx, 'learning_objectives', objIdx, 'blooms_level'] },
+        ));
       }
 
       // Check if the objective text uses appropriate action verbs
       const verbsForLevel = BLOOMS_VERBS[objective.blooms_level];
       const firstWord = objective.text.trim().split(/\s+/)[0]!.toLowerCase();
       if (!verbsForLevel.some(verb => firstWord.includes(verb))) {
-        bloomsIssues++;
-        checks.push({
-          rule: 'blooms_alignment',
-          passed: false,
-          message: `Module ${moduleIdx + 1}, Objective ${objIdx + 1}: "${objective.text}" doesn't start with a typical "${objective.blooms_level}" verb (expected: ${verbsForLevel.slice(0, 3).join(', ')}, ...)`,
-        });
+        verbIssues++;
+        checks.push(check(
+          'WF011',
+          false,
+          `Module ${moduleIdx + 1}, Objective ${objIdx + 1}: "${objective.text}" doesn't start with a typical "${objective.blooms_level}" verb (expected: ${verbsForLevel.slice(0, 3).join(', ')}, ...)`,
+          { moduleIndex: moduleIdx, objectiveIndex: objIdx, path: ['modules', moduleIdx, 'learning_objectives', objIdx, 'text'] },
+        ));
       }
     }
   }
-  if (bloomsIssues === 0) {
-    const totalObjectives = workshop.modules.reduce((sum, m) => sum + m.learning_objectives.length, 0);
-    checks.push({
-      rule: 'blooms_alignment',
-      passed: true,
-      message: `All ${totalObjectives} learning objectives use appropriate Bloom's levels and verbs for ${workshop.audience.level}-level audience`,
-    });
+  const totalObjectives = workshop.modules.reduce((sum, m) => sum + m.learning_objectives.length, 0);
+  if (levelIssues === 0) {
+    checks.push(check('WF010', true, `All ${totalObjectives} learning objectives use appropriate Bloom's levels for ${workshop.audience.level}-level audience`));
+  }
+  if (verbIssues === 0) {
+    checks.push(check('WF011', true, `All ${totalObjectives} learning objectives start with a typical verb for their Bloom's level`));
   }
 
   // 11. Context sources: if context_sources listed, note for async checks
   if (workshop.context_sources.length > 0) {
-    checks.push({
-      rule: 'context_sources',
-      passed: true,
-      message: `Workshop lists ${workshop.context_sources.length} context source(s): ${workshop.context_sources.join(', ')}`,
-    });
+    checks.push(check(
+      'WF012',
+      true,
+      `Workshop lists ${workshop.context_sources.length} context source(s): ${workshop.context_sources.join(', ')}`,
+      { path: ['context_sources'] },
+    ));
   }
 
-  // Determine overall validity
-  const valid = checks.every((check) => check.passed);
+  // 12. Checkpoint answers: every question is answerable and its answer is consistent
+  let questionCount = 0;
+  let answerIssues = 0;
+  for (const [moduleIdx, module] of workshop.modules.entries()) {
+    for (const [sectionIdx, section] of module.sections.entries()) {
+      if (section.type !== 'checkpoint') continue;
+      const sectionPath = ['modules', moduleIdx, 'sections', sectionIdx];
+      const label = `Module ${moduleIdx + 1}, Section ${sectionIdx + 1} "${section.title}"`;
+      if (section.questions.length === 0) {
+        answerIssues++;
+        checks.push(check('WF013', false, `${label}: checkpoint has no questions`, {
+          moduleIndex: moduleIdx, sectionIndex: sectionIdx, path: [...sectionPath, 'questions'],
+        }));
+      }
+      for (const [questionIdx, question] of section.questions.entries()) {
+        questionCount++;
+        for (const issue of findAnswerIssues(question)) {
+          answerIssues++;
+          checks.push(check('WF013', false, `${label}, Question ${questionIdx + 1}: ${issue.message}`, {
+            moduleIndex: moduleIdx,
+            sectionIndex: sectionIdx,
+            path: [...sectionPath, 'questions', questionIdx, ...issue.path],
+          }));
+        }
+      }
+    }
+  }
+  if (answerIssues === 0) {
+    checks.push(check('WF013', true, `All ${questionCount} checkpoint questions have complete answers`));
+  }
+
+  // 13. Language/stack match: declared code languages fit audience.stack (undeclared ones are inferred from it)
+  const stack = workshop.audience.stack;
+  if (stack) {
+    let declaredCount = 0;
+    let mismatches = 0;
+    for (const [moduleIdx, module] of workshop.modules.entries()) {
+      for (const [sectionIdx, section] of module.sections.entries()) {
+        if (section.type !== 'exercise' && section.type !== 'project') continue;
+        const sectionPath = ['modules', moduleIdx, 'sections', sectionIdx];
+        const declared = [
+          { language: section.language, label: '', path: [...sectionPath, 'language'] },
+          ...(section.type === 'exercise' ? section.files ?? [] : []).map((file, fileIdx) => ({
+            language: file.language,
+            label: ` (${file.path})`,
+            path: [...sectionPath, 'files', fileIdx, 'language'],
+          })),
+        ];
+        for (const { language, label, path } of declared) {
+          if (!language) continue;
+          declaredCount++;
+          if (!isLanguageCompatible(language, stack)) {
+            mismatches++;
+            checks.push(check(
+              'WF014',
+              false,
+              `Module ${moduleIdx + 1}, Section ${sectionIdx + 1} (${section.title})${label}: language "${language}" doesn't match the audience stack "${stack}"`,
+              { moduleIndex: moduleIdx, sectionIndex: sectionIdx, path },
+            ));
+          }
+        }
+      }
+    }
+    if (mismatches === 0 && declaredCount > 0) {
+      checks.push(check('WF014', true, `All ${declaredCount} declared code languages match the audience stack "${stack}"`));
+    }
+  }
+
+  // Only failing errors make the workshop invalid
+  const valid = checks.every((c) => c.passed || c.severity !== 'error');
 
   return {
     valid,
@@ -291,8 +547,8 @@ export function validateWorkshop(workshop: Workshop): ValidationResult {
 /**
  * Async validation that includes file system checks for context sources
  */
-export async function validateWorkshopAsync(workshop: Workshop): Promise<ValidationResult> {
-  const result = validateWorkshop(workshop);
+export async function validateWorkshopAsync(workshop: Workshop, policy: Policy = DEFAULT_POLICY): Promise<ValidationResult> {
+  const result = validateWorkshop(workshop, policy);
 
   // Add async check for context source file existence
   if (workshop.context_sources.length > 0) {
@@ -310,22 +566,21 @@ export async function validateWorkshopAsync(workshop: Workshop): Promise<Validat
     const missingFiles = contextChecks.filter((c) => !c.exists);
 
     // Update the context_sources check or add a new one
-    const contextCheckIdx = result.checks.findIndex((c) => c.rule === 'context_sources');
+    const contextCheckIdx = result.checks.findIndex((c) => c.id === 'WF012');
     if (contextCheckIdx >= 0) {
-      if (missingFiles.length > 0) {
-        result.checks[contextCheckIdx] = {
-          rule: 'context_sources',
-          passed: false,
-          message: `Warning: ${missingFiles.length} context source(s) not found on disk: ${missingFiles.map((f) => f.path).join(', ')}`,
-        };
-        result.valid = false;
-      } else {
-        result.checks[contextCheckIdx] = {
-          rule: 'context_sources',
-          passed: true,
-          message: `All ${workshop.context_sources.length} context source files exist on disk`,
-        };
-      }
+      result.checks[contextCheckIdx] = missingFiles.length > 0
+        ? check(
+          'WF012',
+          false,
+          `${missingFiles.length} context source(s) not found on disk: ${missingFiles.map((f) => f.path).join(', ')}`,
+          { path: ['context_sources', workshop.context_sources.indexOf(missingFiles[0]!.path)] },
+        )
+        : check(
+          'WF012',
+          true,
+          `All ${workshop.context_sources.length} context source files exist on disk`,
+          { path: ['context_sources'] },
+        );
     }
   }
 
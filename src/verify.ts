@@ -0,0 +1,438 @@
+/**
+ * Executable verification for `workshop verify`.
+ *
+ * Writes each exercise's starter code and solution to a fresh temp directory,
+ * runs them with a local runner for their language (Node.js, TypeScript via
+ * tsx, Python, shell), and reports the results as validation checks:
+ *
+ * - WF015: the starter code runs without errors (attendees start from it)
+ * - WF016: the solution runs without errors and passes the exercise's `test`
+ * - WF017: exercises or tests that couldn't be run (no runner, missing package)
+ *
+ * The WF015/WF016 pass checks count only exercises with at least one
+ * completed run.
+ *
+ * Project milestones are run like single-file exercises without a test.
+ *
+ * The temp directory and timeout keep runs apart from the workshop and from
+ * each other; they are not a security boundary, so only verify files you trust.
+ */
+
+import { spawn } from 'node:child_process';
+import { mkdtemp, mkdir, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { dirname, isAbsolute, join, normalize, resolve, sep } from 'node:path';
+import type { ExerciseSection, Workshop } from './schema.js';
+import { VALIDATION_RULES, type RuleId, type ValidationCheck, type ValidationLocation, type ValidationResult } from './validation.js';
+import { normalizeLanguage, sectionLanguage } from './languages.js';
+
+/** Default time limit for a single run */
+export const DEFAULT_VERIFY_TIMEOUT_MS = 10_000;
+
+export interface VerifyOptions {
+  /** Time limit per run in milliseconds (default: 10s) */
+  timeoutMs?: number;
+  /** Called before each exercise runs, for progress output */
+  onExercise?: (label: string) => void;
+}
+
+/** A way to invoke a runner; `args` go before the file path */
+interface RunnerCommand {
+  command: string;
+  args: string[];
+}
+
+interface Runner {
+  label: string;
+  /** File extension for a snippet of this language */
+  extension: (code: string) => string;
+  /** Tried in order; the first one installed is used */
+  commands: RunnerCommand[];
+}
+
+/** ES module syntax, which Node only accepts in .mjs files without a package.json */
+const ESM_SYNTAX = /^\s*(import\s[^(]|export\s)/m;
+
+const RUNNERS: Record<string, Runner> = {
+  javascript: {
+    label: 'Node.js',
+    extension: (code) => (ESM_SYNTAX.test(code) ? '.mjs' : '.cjs'),
+    commands: [{ command: process.execPath, args: [] }],
+  },
+  typescript: {
+    label: 'TypeScript',
+    extension: () => '.ts',
+    commands: [
+      { command: 'tsx', args: [] },
+      // Node 22.6+ runs TypeScript directly
+      { command: process.execPath, args: ['--experimental-strip-types', '--no-warnings'] },
+    ],
+  },
+  python: {
+    label: 'Python',
+    extension: () => '.py',
+    commands: [{ command: 'python3', args: [] }, { command: 'python', args: [] }],
+  },
+  bash: {
+    label: 'shell',
+    extension: () => '.sh',
+    commands: [{ command: 'bash', args: [] }],
+  },
+};
+
+/** Third-party imports that aren't installed; relative imports are real failures */
+const MISSING_PACKAGE_PATTERNS = [
+  /Cannot find (?:module|package) '([^'./][^']*)'/,
+  /ModuleNotFoundError: No module named '([^'.][^']*)'/,
+];
+
+interface RunResult {
+  exitCode: number | null;
+  output: string;
+  timedOut: boolean;
+}
+
+/** One file of an exercise as it is written to disk */
+interface VerifyFile {
+  path: string;
+  language: string;
+  starter: string;
+  solution: string;
+  /** Location of the file's fields in the workshop YAML, without the field name */
+  yamlPath: (string | number)[];
+}
+
+/** Code that is run as one unit: an exercise, or one milestone of a project */
+interface VerifyTarget {
+  label: string;
+  files: VerifyFile[];
+  test?: string;
+}
+
+/**
+ * Run the starter code and solution of every exercise and project milestone
+ * and report the results as validation checks. `valid` is false when a solution fails.
+ * @param workshop - Workshop whose exercises to run
+ * @param options - Timeout and progress callback
+ */
+export async function verifyWorkshop(workshop: Workshop, options: VerifyOptions = {}): Promise<ValidationResult> {
+  const timeoutMs = options.timeoutMs ?? DEFAULT_VERIFY_TIMEOUT_MS;
+  const checks: ValidationCheck[] = [];
+  const runnableCount = { exercises: 0, milestones: 0 };
+  let testedCount = 0;
+  const failures = { WF015: 0, WF016: 0 };
+
+  for (const [moduleIdx, module] of workshop.modules.entries()) {
+    for (const [sectionIdx, section] of module.sections.entries()) {
+      if (section.type !== 'exercise' && section.type !== 'project') continue;
+
+      const sectionPath = ['modules', moduleIdx, 'sections', sectionIdx];
+      const location = (...field: (string | number)[]): ValidationLocation => ({
+        moduleIndex: moduleIdx,
+        sectionIndex: sectionIdx,
+        path: [...sectionPath, ...field],
+      });
+      const language = sectionLanguage(section, workshop);
+      const targets: VerifyTarget[] = section.type === 'exercise'
+        ? [{
+          label: `Module ${moduleIdx + 1}, Section ${sectionIdx + 1} (${section.title})`,
+          files: getVerifyFiles(section, language),
+          test: section.test?.trim() ? section.test : undefined,
+        }]
+        : section.milestones.map((milestone, milestoneIdx) => ({
+          label: `Module ${moduleIdx + 1}, Section ${sectionIdx + 1} (${section.title}, milestone ${milestoneIdx + 1})`,
+          files: [getSingleVerifyFile(milestone, language, ['milestones', milestoneIdx])],
+        }));
+
+      for (const { label, files, test } of targets) {
+        options.onExercise?.(label);
+
+        const escaping = files.find((file) => !isRelativePath(file.path));
+        if (escaping) {
+          failures.WF016++;
+          checks.push(check('WF016', false, `${label}: file path "${escaping.path}" points outside the exercise directory`, location(...escaping.yamlPath, 'path')));
+          continue;
+        }
+        const runnable = files.filter((file) => RUNNERS[normalizeLanguage(file.language)]);
+        if (runnable.length === 0) {
+          const languages = [...new Set(files.map((file) => file.language).filter(Boolean))];
+          checks.push(check('WF017', false, languages.length > 0
+            ? `${label}: skipped, no local runner for ${languages.join(', ')}`
+            : `${label}: skipped, no language declared or inferred from audience.stack`, location('language')));
+          continue;
+        }
+
+        const commands = new Map<string, RunnerCommand>();
+        const missingRunner = await findMissingRunner(runnable, commands);
+        if (missingRunner) {
+          const tried = missingRunner.commands.map(formatCommand).join(', ');
+          checks.push(check('WF017', false, `${label}: skipped, no ${missingRunner.label} runner installed (tried ${tried})`, location('language')));
+          continue;
+        }
+
+        const runFiles = async (kind: 'starter' | 'solution', testRun?: { runner: Runner; command: RunnerCommand }) => {
+          return await runInTempDir(files, kind, async (dir) => {
+            for (const file of runnable) {
+              if (!file[kind].trim()) continue;
+              const result = await run(commands.get(file.path)!, join(dir, file.path), dir, timeoutMs);
+              if (result.exitCode !== 0) return { result, field: [...file.yamlPath, kind] };
+            }
+            if (test && testRun) {
+              const testPath = join(dir, `verify-test${testRun.runner.extension(test)}`);
+              await writeFile(testPath, test, 'utf-8');
+              const result = await run(testRun.command, testPath, dir, timeoutMs);
+              if (result.exitCode !== 0) return { result, field: ['test'] };
+            }
+            return undefined;
+          });
+        };
+
+        // Single-file tests are appended to the solution, so they see its definitions;
+        // multi-file tests run on their own with the runner of the section's language
+        const multiFile = section.type === 'exercise' && section.files !== undefined && section.files.length > 0;
+        let testRun: { runner: Runner; command: RunnerCommand } | undefined;
+        if (test && multiFile) {
+          const runner = RUNNERS[normalizeLanguage(language)];
+          const command = runner ? await findCommand(runner) : undefined;
+          if (runner && command) {
+            testRun = { runner, command };
+          } else {
+            checks.push(check('WF017', false, runner
+              ? `${label}: test not verified, no ${runner.label} runner installed`
+              : `${label}: test not verified, no local runner for ${language || 'the section (no language declared)'}`, location('test')));
+          }
+        } else if (test) {
+          files[0]!.solution = `${files[0]!.solution}\n\n${test}\n`;
+        }
+        const tested = test !== undefined && (!multiFile || testRun !== undefined);
+
+        const starterFailure = await runFiles('starter');
+        const solutionFailure = await runFiles('solution', testRun);
+
+        // Only runs that got past missing packages count as verified
+        const completed = { starter: true, solution: true };
+        for (const [id, kind, failure, phase] of [
+          ['WF015', 'starter code', starterFailure, 'starter'],
+          ['WF016', tested ? 'solution or its test' : 'solution', solutionFailure, 'solution'],
+        ] as const) {
+          if (!failure) continue;
+          const missingPackage = findMissingPackage(failure.result.output);
+          if (missingPackage) {
+            completed[phase] = false;
+            checks.push(check('WF017', false, `${label}: ${kind} not verified, needs package "${missingPackage}"`, location(...failure.field)));
+            continue;
+          }
+          failures[id]++;
+          checks.push(check(id, false, `${label}: ${kind} ${describeFailure(failure.result, timeoutMs)}`, location(...failure.field)));
+        }
+        if (completed.starter || completed.solution) {
+          runnableCount[section.type === 'project' ? 'milestones' : 'exercises']++;
+        }
+        if (tested && completed.solution) testedCount++;
+      }
+    }
+  }
+
+  const { exercises, milestones } = runnableCount;
+  const verified = [
+    exercises > 0 ? `${exercises} exercise${exercises === 1 ? '' : 's'}` : '',
+    milestones > 0 ? `${milestones} project milestone${milestones === 1 ? '' : 's'}` : '',
+  ].filter(Boolean).join(' and ');
+  if (failures.WF015 === 0 && verified) {
+    checks.push(check('WF015', true, `Starter code runs (${verified} verified)`));
+  }
+  if (failures.WF016 === 0 && verified) {
+    checks.push(check('WF016', true, `Solutions run (${verified} verified, ${testedCount} with tests)`));
+  }
+
+  return {
+    valid: checks.every((c) => c.passed || c.severity !== 'error'),
+    checks,
+  };
+}
+
+function check(id: RuleId, passed: boolean, message: string, location?: ValidationLocation): ValidationCheck {
+  const { rule, severity } = VALIDATION_RULES[id];
+  return { id, rule, severity, passed, message, ...(location ? { location } : {}) };
+}
+
+/**
+ * Files to write for an exercise: its `files`, or a single file named after
+ * the runner's extension for starter_code/solution.
+ */
+function getVerifyFiles(section: ExerciseSection, language: string): VerifyFile[] {
+  if (section.files && section.files.length > 0) {
+    return section.files.map((file, fileIdx) => ({ ...file, yamlPath: ['files', fileIdx] }));
+  }
+  return [getSingleVerifyFile(section, language, [])];
+}
+
+/** The one file of a single-file exercise or project milestone, named after the runner's extension */
+function getSingleVerifyFile(
+  code: { starter_code: string; solution: string },
+  language: string,
+  yamlPath: (string | number)[],
+): VerifyFile {
+  const extension = RUNNERS[normalizeLanguage(language)]?.extension(code.solution) ?? '.txt';
+  return {
+    path: `exercise${extension}`,
+    language,
+    starter: code.starter_code,
+    solution: code.solution,
+    yamlPath,
+  };
+}
+
+/** Whether a file path stays inside the directory it is written to */
+function isRelativePath(path: string): boolean {
+  const normalized = normalize(path);
+  return !isAbsolute(normalized) && normalized !== '..' && !normalized.startsWith(`..${sep}`);
+}
+
+/**
+ * Resolve a runner command for every runnable file into `commands` (keyed by
+ * file path). Returns the first runner that has no installed command.
+ */
+async function findMissingRunner(files: VerifyFile[], commands: Map<string, RunnerCommand>): Promise<Runner | undefined> {
+  for (const file of files) {
+    const runner = RUNNERS[normalizeLanguage(file.language)]!;
+    const command = await findCommand(runner);
+    if (!command) return runner;
+    commands.set(file.path, command);
+  }
+  return undefined;
+}
+
+const commandCache = new Map<Runner, Promise<RunnerCommand | undefined>>();
+
+/** First installed command of a runner, probed once per process with `--version` */
+function findCommand(runner: Runner): Promise<RunnerCommand | undefined> {
+  let found = commandCache.get(runner);
+  if (!found) {
+    found = (async () => {
+      for (const command of runner.commands) {
+        const probe = await spawnWithTimeout(command.command, [...command.args, '--version'], process.cwd(), 5_000);
+        if (probe.exitCode === 0) return command;
+      }
+      return undefined;
+    })();
+    commandCache.set(runner, found);
+  }
+  return found;
+}
+
+/**
+ * Write every file's starter or solution into a fresh temp directory, call
+ * `body` with it, and remove the directory afterwards.
+ */
+async function runInTempDir<T>(files: VerifyFile[], kind: 'starter' | 'solution', body: (dir: string) => Promise<T>): Promise<T> {
+  const dir = await mkdtemp(join(tmpdir(), 'workshop-verify-'));
+  try {
+    for (const file of files) {
+      const target = resolve(dir, file.path);
+      if (!target.startsWith(dir + sep)) {
+        // Checked by verifyWorkshop() before anything is written
+        throw new Error(`Exercise file path "${file.path}" points outside the exercise directory`);
+      }
+      if (!file[kind].trim()) continue;
+      await mkdir(dirname(target), { recursive: true });
+      await writeFile(target, file[kind], 'utf-8');
+    }
+    return await body(dir);
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+}
+
+function run(command: RunnerCommand, file: string, cwd: string, timeoutMs: number): Promise<RunResult> {
+  return spawnWithTimeout(command.command, [...command.args, file], cwd, timeoutMs);
+}
+
+/**
+ * Run a process to completion, killing it after `timeoutMs`. Never rejects:
+ * a command that can't start resolves with a null exit code.
+ *
+ * The process runs in its own process group, and the whole group is killed
+ * on timeout and once the process exits. Runners such as `tsx` start their
+ * own child, and exercises may start background jobs. Those would otherwise
+ * outlive the kill and hold the output pipes open.
+ */
+function spawnWithTimeout(command: string, args: string[], cwd: string, timeoutMs: number): Promise<RunResult> {
+  return new Promise((resolvePromise) => {
+    let output = '';
+    let timedOut = false;
+    let settled = false;
+    let drain: NodeJS.Timeout | undefined;
+    const child = spawn(command, args, { cwd, stdio: ['ignore', 'pipe', 'pipe'], detached: process.platform !== 'win32' });
+    const killGroup = () => {
+      try {
+        if (child.pid !== undefined && process.platform !== 'win32') {
+          process.kill(-child.pid, 'SIGKILL');
+        } else {
+          child.kill('SIGKILL');
+        }
+      } catch {
+        // The group has already exited
+      }
+    };
+    const settle = (result: RunResult) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      clearTimeout(drain);
+      killGroup();
+      child.stdout.destroy();
+      child.stderr.destroy();
+      resolvePromise(result);
+    };
+    const timer = setTimeout(() => {
+      timedOut = true;
+      settle({ exitCode: null, output, timedOut });
+    }, timeoutMs);
+    const collect = (chunk: Buffer) => {
+      // Keep the tail; errors are printed last
+      output = (output + chunk.toString('utf-8')).slice(-8_000);
+    };
+    child.stdout.on('data', collect);
+    child.stderr.on('data', collect);
+    child.on('error', (error) => {
+      settle({ exitCode: null, output: error.message, timedOut: false });
+    });
+    child.on('exit', (exitCode) => {
+      // Kill leftover background jobs, then give the pipes a moment to
+      // deliver what is still buffered before giving up on 'close'
+      killGroup();
+      drain = setTimeout(() => settle({ exitCode, output, timedOut }), 200);
+    });
+    child.on('close', (exitCode) => {
+      settle({ exitCode, output, timedOut });
+    });
+  });
+}
+
+function findMissingPackage(output: string): string | undefined {
+  for (const pattern of MISSING_PACKAGE_PATTERNS) {
+    const match = pattern.exec(output);
+    if (match) return match[1];
+  }
+  return undefined;
+}
+
+/**
+ * One-line description of a failed run: the error line from the output
+ * (e.g. `TypeError: x is not a function`), or its last line.
+ */
+function describeFailure(result: RunResult, timeoutMs: number): string {
+  if (result.timedOut) {
+    return `timed out after ${timeoutMs / 1000}s`;
+  }
+  const lines = result.output.split('\n').map((line) => line.trim()).filter(Boolean);
+  const errorLine = lines.find((line) => /^\w*(Error|Exception)\b/.test(line)) ?? lines[lines.length - 1];
+  const status = result.exitCode === null ? 'failed to start' : `exited with code ${result.exitCode}`;
+  return errorLine ? `${status}: ${errorLine}` : status;
+}
+
+function formatCommand(command: RunnerCommand): string {
+  const name = command.command === process.execPath ? 'node' : command.command;
+  return [name, ...command.args.filter((arg) => arg !== '--no-warnings')].join(' ');
+}
@@ -23,12 +23,12 @@ export function getNewWorkshopConfigPath(topic: string): string {
   return `workshop-${slug}/${WORKSHOP_CONFIG_BASENAME}`;
 }
 
-export function getExportPath(workshopPath: string): string {
+export function getExportPath(workshopPath: string, extension = '.md'): string {
   if (/\.ya?ml$/i.test(workshopPath)) {
-    return workshopPath.replace(/\.ya?ml$/i, '.md');
+    return workshopPath.replace(/\.ya?ml$/i, extension);
   }
 
-  return `${workshopPath}.md`;
+  return `${workshopPath}${extension}`;
 }
 
 function isYamlFile(name: string): boolean {
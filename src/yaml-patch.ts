@@ -0,0 +1,316 @@
+/**
+ * In-place YAML patching — rewrites only the nodes whose values changed,
+ * splicing the edits into the original text so comments, key order,
+ * block-scalar styles, anchors and line folding elsewhere survive a save.
+ */
+
+import { Document, isAlias, isMap, isScalar, isSeq, parseDocument, visit } from 'yaml';
+import type { Node, Pair, Scalar, YAMLMap, YAMLSeq } from 'yaml';
+
+interface TextEdit {
+  start: number;
+  end: number;
+  text: string;
+}
+
+const INDENT = 2;
+const LINE_WIDTH = 80;
+/** Narrowest fold width for deeply indented values */
+const MIN_LINE_WIDTH = 40;
+
+/**
+ * Patch YAML text so it represents `value`, touching only changed nodes.
+ *
+ * @param text - Original YAML document
+ * @param value - New plain-data value (must serialize to a mapping)
+ * @returns Patched text, or undefined if the document can't be patched safely
+ *   (syntax errors, non-mapping root, changed anchored nodes) — callers
+ *   should fall back to a full dump
+ */
+export function patchYaml(text: string, value: Record<string, unknown>): string | undefined {
+  const doc = parseDocument(text, { merge: true });
+  if (doc.errors.length > 0 || !isMap(doc.contents) || doc.contents.flow) {
+    return undefined;
+  }
+
+  // Drop undefined properties so comparisons match what would be serialized
+  const target = JSON.parse(JSON.stringify(value)) as Record<string, unknown>;
+  const patcher = new Patcher(text, doc);
+  const edits = patcher.patchMap(doc.contents, target);
+  if (!edits) {
+    return undefined;
+  }
+
+  // Apply back to front; at equal offsets, replacements go before insertions
+  let patched = text;
+  for (const edit of [...edits].sort((a, b) => b.start - a.start || b.end - a.end)) {
+    patched = patched.slice(0, edit.start) + edit.text + patched.slice(edit.end);
+  }
+
+  // Never write a patch that doesn't round-trip to the intended data
+  return roundTrips(patched, target) ? patched : undefined;
+}
+
+function roundTrips(text: string, target: unknown): boolean {
+  const doc = parseDocument(text, { merge: true });
+  try {
+    return doc.errors.length === 0 && deepEqual(doc.toJS(), target);
+  } catch {
+    // e.g. an alias whose anchor was re-rendered away
+    return false;
+  }
+}
+
+class Patcher {
+  /** Anchors referenced by at least one alias */
+  private readonly aliasedAnchors = new Set<string>();
+
+  constructor(
+    private readonly text: string,
+    private readonly doc: Document.Parsed,
+  ) {
+    visit(doc, {
+      Alias: (_key, alias) => {
+        this.aliasedAnchors.add(alias.source);
+      },
+    });
+  }
+
+  /** Edits that turn a block mapping into `value`, or undefined if the parent must re-render it. */
+  patchMap(map: YAMLMap, value: Record<string, unknown>): TextEdit[] | undefined {
+    const pairs = map.items as Pair<unknown, unknown>[];
+    if (pairs.some((p) => !isScalar(p.key))) {
+      return undefined;
+    }
+    const keyOf = (p: Pair<unknown, unknown>) => String((p.key as Scalar).value);
+    const edits: TextEdit[] = [];
+
+    for (const pair of pairs) {
+      const key = keyOf(pair);
+      const keyNode = pair.key as Scalar;
+      if (!(key in value)) {
+        // Key removed: delete its lines
+        const [start, end] = this.pairRange(pair);
+        edits.push({ start: this.lineStart(start), end: this.lineEnd(end) + 1, text: '' });
+        continue;
+      }
+
+      const childEdits = this.patchValue(pair.value, value[key]);
+      if (childEdits) {
+        edits.push(...childEdits);
+      } else {
+        // Re-render the whole `key: value` entry at the key's column
+        const [start, end] = this.pairRange(pair);
+        const rendered = this.render({ [key]: value[key] }, this.column(start), scalarType(pair.value), key);
+        edits.push({ start: keyNode.range![0], end, text: rendered });
+      }
+    }
+
+    // New keys go before the next existing key in `value`'s order, or after the last entry
+    const byKey = new Map(pairs.map((p) => [keyOf(p), p]));
+    const keys = Object.keys(value);
+    const column = pairs[0]?.key ? this.column((pairs[0].key as Node).range![0]) : 0;
+    const inserts = new Map<number, string[]>();
+    for (const [idx, key] of keys.entries()) {
+      if (byKey.has(key)) continue;
+
+      const before = keys.slice(idx + 1).map((k) => byKey.get(k)).find((p) => p !== undefined);
+      const last = pairs[pairs.length - 1];
+      let at: number;
+      const beforeKey = before ? (before.key as Node).range![0] : undefined;
+      if (before && beforeKey !== undefined && this.text.slice(this.lineStart(beforeKey), beforeKey).trim() === '') {
+        at = this.lineStart(beforeKey);
+      } else if (before) {
+        // Key shares its line with a sequence dash; insert right after that entry instead
+        at = this.lineEnd(this.pairRange(before)[1]) + 1;
+      } else if (last && keyOf(last) in value) {
+        at = this.lineEnd(this.pairRange(last)[1]) + 1;
+      } else {
+        // Nowhere stable to anchor the insertion
+        return undefined;
+      }
+      const line = ' '.repeat(column) + this.render({ [key]: value[key] }, column);
+      inserts.set(at, [...(inserts.get(at) ?? []), line]);
+    }
+    for (const [at, lines] of inserts) {
+      const atEnd = at > this.text.length;
+      edits.push(atEnd
+        ? { start: this.text.length, end: this.text.length, text: `${this.text.endsWith('\n') ? '' : '\n'}${lines.join('\n')}\n` }
+        : { start: at, end: at, text: `${lines.join('\n')}\n` });
+    }
+
+    return edits;
+  }
+
+  /** Edits that turn a block sequence into `value`, or undefined if the parent must re-render it. */
+  patchSeq(seq: YAMLSeq, value: unknown[]): TextEdit[] | undefined {
+    const items = seq.items as unknown[];
+    const first = items[0] as Node | undefined;
+    const dash = first?.range ? this.dashBefore(first.range[0]) : undefined;
+    if (!first || dash === undefined || value.length === 0) {
+      return undefined;
+    }
+    const dashColumn = this.column(dash);
+    const contentColumn = this.column(first.range![0]);
+    const edits: TextEdit[] = [];
+
+    for (const [idx, item] of items.entries()) {
+      const node = item as Node;
+      if (!node.range) {
+        return undefined;
+      }
+      const end = this.trimEnd(node.range[0], node.range[1]);
+
+      if (idx >= value.length) {
+        // Item removed: delete from its dash to the end of its last line
+        const itemDash = this.dashBefore(node.range[0]);
+        if (itemDash === undefined) {
+          return undefined;
+        }
+        edits.push({ start: this.lineStart(itemDash), end: this.lineEnd(end) + 1, text: '' });
+        continue;
+      }
+
+      const childEdits = this.patchValue(item, value[idx]);
+      if (childEdits) {
+        edits.push(...childEdits);
+      } else {
+        edits.push({
+          start: node.range[0],
+          end,
+          text: this.render(value[idx], this.column(node.range[0]), scalarType(item)),
+        });
+      }
+    }
+
+    // New items go after the last one, with the same dash and content columns
+    if (value.length > items.length) {
+      const lastNode = items[items.length - 1] as Node;
+      const at = this.lineEnd(this.trimEnd(lastNode.range![0], lastNode.range![1]));
+      const prefix = `${' '.repeat(dashColumn)}-${' '.repeat(contentColumn - dashColumn - 1)}`;
+      const lines = value.slice(items.length).map((v) => prefix + this.render(v, contentColumn));
+      edits.push({ start: at, end: at, text: `\n${lines.join('\n')}` });
+    }
+
+    return edits;
+  }
+
+  /**
+   * Edits for a single node: none if unchanged, recursive edits for block
+   * collections, an inline replacement for single-line scalars, or undefined
+   * when the parent should re-render the entry.
+   */
+  private patchValue(node: unknown, value: unknown): TextEdit[] | undefined {
+    if (deepEqual(toJS(node, this.doc), value)) {
+      return [];
+    }
+
+    // Aliased anchors are shared with their aliases; re-render instead of mutating
+    const anchor = (node as Node | null)?.anchor;
+    if (isAlias(node) || (anchor && this.aliasedAnchors.has(anchor))) {
+      return undefined;
+    }
+
+    if (isMap(node) && !node.flow && isPlainObject(value)) {
+      return this.patchMap(node, value);
+    }
+    if (isSeq(node) && !node.flow && Array.isArray(value)) {
+      return this.patchSeq(node, value);
+    }
+
+    if (isScalar(node) && node.range && !isBlockScalar(node) && isPrimitive(value)) {
+      const rendered = this.render(value, this.column(node.range[0]), node.type);
+      if (!rendered.includes('\n')) {
+        return [{ start: node.range[0], end: node.range[1], text: rendered }];
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Stringify a value as YAML whose first line continues at the current position
+   * and whose following lines are indented to `column`. A scalar style from the
+   * original node is kept when YAML allows it for the new value.
+   */
+  private render(value: unknown, column: number, type?: Scalar.Type, pairKey?: string): string {
+    const doc = new Document(value);
+    const scalar = pairKey !== undefined ? doc.get(pairKey, true) : doc.contents;
+    if (type && isScalar(scalar)) {
+      scalar.type = type;
+    }
+    return doc
+      .toString({ indent: INDENT, lineWidth: Math.max(LINE_WIDTH - column, MIN_LINE_WIDTH) })
+      .replace(/\n$/, '')
+      .split('\n')
+      .map((line, idx) => (idx === 0 || line === '' ? line : ' '.repeat(column) + line))
+      .join('\n');
+  }
+
+  /** [key start, end of value content] for a mapping entry */
+  private pairRange(pair: Pair<unknown, unknown>): [number, number] {
+    const keyRange = (pair.key as Node).range!;
+    const valueRange = (pair.value as Node | null)?.range;
+    return [keyRange[0], this.trimEnd(keyRange[0], valueRange ? valueRange[1] : keyRange[1])];
+  }
+
+  /** Offset of the `-` indicator for a sequence item, if it sits on the same line */
+  private dashBefore(offset: number): number | undefined {
+    let i = offset - 1;
+    while (i >= 0 && this.text[i] === ' ') i--;
+    return this.text[i] === '-' && this.text.slice(this.lineStart(i), i).trim() === '' ? i : undefined;
+  }
+
+  /** Move an end offset back over trailing whitespace and newlines */
+  private trimEnd(start: number, end: number): number {
+    while (end > start && /\s/.test(this.text[end - 1]!)) end--;
+    return end;
+  }
+
+  private lineStart(offset: number): number {
+    return this.text.lastIndexOf('\n', offset - 1) + 1;
+  }
+
+  private lineEnd(offset: number): number {
+    const idx = this.text.indexOf('\n', offset);
+    return idx === -1 ? this.text.length : idx;
+  }
+
+  private column(offset: number): number {
+    return offset - this.lineStart(offset);
+  }
+}
+
+function toJS(node: unknown, doc: Document.Parsed): unknown {
+  if (node === null || node === undefined) {
+    return null;
+  }
+  return (node as Node).toJS(doc);
+}
+
+function scalarType(node: unknown): Scalar.Type | undefined {
+  return isScalar(node) ? node.type : undefined;
+}
+
+function isBlockScalar(node: Scalar): boolean {
+  return node.type === 'BLOCK_LITERAL' || node.type === 'BLOCK_FOLDED';
+}
+
+function isPrimitive(value: unknown): boolean {
+  return value === null || ['string', 'number', 'boolean'].includes(typeof value);
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function deepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, idx) => deepEqual(item, b[idx]));
+  }
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keys = Object.keys(a);
+    return keys.length === Object.keys(b).length && keys.every((key) => key in b && deepEqual(a[key], b[key]));
+  }
+  return false;
+}
@@ -0,0 +1,49 @@
+/**
+ * Round trips of the Markdown export through `workshop import`'s parser.
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { fileURLToPath } from 'node:url';
+import { exportToMarkdown } from '../src/exporters/markdown.js';
+import { parseWorkshopMarkdown } from '../src/import.js';
+import { loadWorkshop } from '../src/storage.js';
+import type { ExerciseSection, Workshop } from '../src/schema.js';
+
+const FIXTURE = fileURLToPath(new URL('../test-fixtures/replay/git-basics-broken.yaml', import.meta.url));
+
+function roundTrip(workshop: Workshop): Workshop {
+  const parsed = parseWorkshopMarkdown(exportToMarkdown(workshop, { audience: 'instructor' }));
+  assert.ok(parsed, 'the export should parse without the model');
+  return parsed.workshop;
+}
+
+/** The exercise of a module in the fixture (its second section) */
+function exercise(workshop: Workshop, moduleIdx: number): ExerciseSection {
+  const section = workshop.modules[moduleIdx]!.sections[1]!;
+  assert.equal(section.type, 'exercise');
+  return section as ExerciseSection;
+}
+
+describe('Markdown import round trip', () => {
+  it('reproduces an instructor export exactly', async () => {
+    const workshop = await loadWorkshop(FIXTURE);
+    assert.deepEqual(roundTrip(workshop), workshop);
+  });
+
+  it('keeps a declared language, even one the stack implies or an alias', async () => {
+    const workshop = await loadWorkshop(FIXTURE);
+    exercise(workshop, 0).language = 'python';
+    exercise(workshop, 1).language = 'py';
+
+    const imported = roundTrip(workshop);
+    assert.equal(exercise(imported, 0).language, 'python');
+    assert.equal(exercise(imported, 1).language, 'py');
+    assert.deepEqual(imported, workshop);
+  });
+
+  it('leaves out a language that was only inferred from the stack', async () => {
+    const imported = roundTrip(await loadWorkshop(FIXTURE));
+    assert.equal(exercise(imported, 0).language, undefined);
+  });
+});
@@ -0,0 +1,85 @@
+/**
+ * The stack → language inference table in src/languages.ts.
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { inferLanguage, isLanguageCompatible, normalizeLanguage } from '../src/languages.js';
+
+describe('inferLanguage', () => {
+  const cases: Array<[string, string | undefined]> = [
+    ['TypeScript + React', 'typescript'],
+    ['NestJS', 'typescript'],
+    ['React', 'javascript'],
+    ['Next.js 14', 'javascript'],
+    ['nextjs', 'javascript'],
+    ['Node.js + Express', 'javascript'],
+    ['vanilla JS', 'javascript'],
+    ['Python + FastAPI', 'python'],
+    ['Django', 'python'],
+    ['Go', 'go'],
+    ['Go microservices', 'go'],
+    ['golang', 'go'],
+    ['Golang + gRPC', 'go'],
+    ['Rust', 'rust'],
+    ['Kotlin', 'kotlin'],
+    ['Java / Spring Boot', 'java'],
+    ['C# / .NET', 'csharp'],
+    ['Ruby on Rails', 'ruby'],
+    ['Laravel', 'php'],
+    ['Swift', 'swift'],
+    ['Docker + Kubernetes', 'dockerfile'],
+    ['PostgreSQL', 'sql'],
+    ['Excel', undefined],
+    ['', undefined],
+  ];
+  for (const [stack, language] of cases) {
+    it(`"${stack}" → ${language ?? 'nothing'}`, () => {
+      assert.equal(inferLanguage(stack), language);
+    });
+  }
+
+  it('does not take English words for Go or Next.js', () => {
+    for (const stack of ['spreadsheets, ready to go', 'go-to tools for data', 'Go-to cloud tools', 'next steps with Excel', 'Next generation data tools', "Let's go: Figma"]) {
+      assert.equal(inferLanguage(stack), undefined, stack);
+    }
+  });
+
+  it('returns undefined without a stack', () => {
+    assert.equal(inferLanguage(undefined), undefined);
+  });
+});
+
+describe('isLanguageCompatible', () => {
+  it('accepts the languages a stack allows', () => {
+    assert.equal(isLanguageCompatible('tsx', 'React'), true);
+    assert.equal(isLanguageCompatible('java', 'Kotlin'), true);
+    assert.equal(isLanguageCompatible('go', 'Go'), true);
+  });
+
+  it('rejects languages the stack does not allow', () => {
+    assert.equal(isLanguageCompatible('python', 'React'), false);
+    assert.equal(isLanguageCompatible('go', 'Python'), false);
+  });
+
+  it('accepts supporting languages and unknown stacks', () => {
+    assert.equal(isLanguageCompatible('bash', 'Python'), true);
+    assert.equal(isLanguageCompatible('yaml', 'Go'), true);
+    assert.equal(isLanguageCompatible('python', 'next steps with Excel'), true);
+    assert.equal(isLanguageCompatible('python', undefined), true);
+  });
+
+  it('resolves aliases before comparing', () => {
+    assert.equal(isLanguageCompatible('golang', 'Go'), true);
+    assert.equal(isLanguageCompatible('TS', 'Angular'), true);
+  });
+});
+
+describe('normalizeLanguage', () => {
+  it('lower-cases and resolves aliases', () => {
+    assert.equal(normalizeLanguage(' TS '), 'typescript');
+    assert.equal(normalizeLanguage('c#'), 'csharp');
+    assert.equal(normalizeLanguage('shell'), 'bash');
+    assert.equal(normalizeLanguage('Python'), 'python');
+  });
+});
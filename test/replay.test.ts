@@ -0,0 +1,100 @@
+/**
+ * End-to-end tests of the generation and repair chain, replayed from the
+ * fixtures in test-fixtures/replay/ so they run without the live service.
+ *
+ * They run the bundled CLI (`npm test` builds it first). To re-record a
+ * fixture after a prompt change, run the same command with
+ * WORKSHOP_RECORD=<fixture> against the live service.
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { spawnSync } from 'node:child_process';
+import { copyFile, mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { loadWorkshop } from '../src/storage.js';
+import { getFailures, validateWorkshop } from '../src/validation.js';
+
+const ROOT = fileURLToPath(new URL('..', import.meta.url));
+const CLI = join(ROOT, 'dist', 'workshop.js');
+const FIXTURES = join(ROOT, 'test-fixtures', 'replay');
+
+const CREATE_ARGS = ['create', '--topic', 'Git Basics', '--level', 'beginner', '--stack', 'Python', '--duration', '60'];
+
+/** Run the CLI against a replay fixture */
+function runCli(args: string[], fixture: string, cwd: string) {
+  const env: NodeJS.ProcessEnv = { ...process.env, WORKSHOP_REPLAY: join(FIXTURES, fixture) };
+  delete env['WORKSHOP_RECORD'];
+  delete env['WORKSHOP_REPLAY_STRICT'];
+  const result = spawnSync(process.execPath, [CLI, ...args], { cwd, env, encoding: 'utf-8', timeout: 60_000 });
+  return { status: result.status, output: `${result.stdout}${result.stderr}` };
+}
+
+async function withTempDir(body: (dir: string) => Promise<void>): Promise<void> {
+  const dir = await mkdtemp(join(tmpdir(), 'workshop-test-'));
+  try {
+    await body(dir);
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+}
+
+describe('workshop create (replayed)', () => {
+  it('generates, repairs and saves a valid workshop', async () => {
+    await withTempDir(async (dir) => {
+      const outPath = join(dir, 'workshop.yaml');
+      const { status, output } = runCli([...CREATE_ARGS, '--out', outPath], 'create-git-basics.json', dir);
+      assert.equal(status, 0, output);
+      assert.match(output, /Round 1: updated module\(s\) 2/);
+
+      const workshop = await loadWorkshop(outPath);
+      assert.equal(workshop.title, 'Git Basics');
+      assert.deepEqual(workshop.modules.map((module) => module.title), ['Snapshots and Commits', 'Branches']);
+      // The generated module 2 overran its 30 minutes; the repair round fixed it
+      assert.equal(workshop.modules[1]!.sections.reduce((sum, section) => sum + section.duration, 0), 30);
+      assert.deepEqual(getFailures(validateWorkshop(workshop), 'warning'), []);
+    });
+  });
+
+  it('fails when a prompt differs from the recording', async () => {
+    await withTempDir(async (dir) => {
+      const args = CREATE_ARGS.map((arg) => (arg === '60' ? '90' : arg));
+      const { status, output } = runCli([...args, '--out', join(dir, 'workshop.yaml')], 'create-git-basics.json', dir);
+      assert.notEqual(status, 0);
+      assert.match(output, /Replay prompt mismatch at session #1, turn #1/);
+    });
+  });
+});
+
+describe('workshop validate --fix (replayed)', () => {
+  it('saves a repair round that fixes the failing checks', async () => {
+    await withTempDir(async (dir) => {
+      const file = join(dir, 'workshop.yaml');
+      await copyFile(join(FIXTURES, 'git-basics-broken.yaml'), file);
+
+      const { status, output } = runCli(['validate', file, '--fix'], 'validate-fix.json', dir);
+      assert.equal(status, 0, output);
+      assert.match(output, /Round 1: updated module\(s\) 1 — 2 check\(s\) fixed, 0 still failing/);
+
+      const workshop = await loadWorkshop(file);
+      assert.equal(workshop.modules[0]!.sections[1]!.duration, 15);
+      assert.deepEqual(getFailures(validateWorkshop(workshop), 'warning'), []);
+    });
+  });
+
+  it('discards a round that fixes nothing and leaves the file alone', async () => {
+    await withTempDir(async (dir) => {
+      const file = join(dir, 'workshop.yaml');
+      await copyFile(join(FIXTURES, 'git-basics-broken.yaml'), file);
+      const before = await readFile(file, 'utf-8');
+
+      const { status, output } = runCli(['validate', file, '--fix'], 'validate-fix-no-progress.json', dir);
+      assert.equal(status, 1, output);
+      assert.match(output, /Round 1: discarded \(changes did not reduce failing checks \(errors 1 → 1, warnings 1 → 1\)\)/);
+      assert.match(output, /No repairs applied/);
+      assert.equal(await readFile(file, 'utf-8'), before);
+    });
+  });
+});